@@ -0,0 +1,83 @@
+import { Session } from "@ftrack/api";
+import { loadPreferences } from "../utils/preferences.ts";
+import { debug } from "../utils/debug.ts";
+import { SessionService } from "../services/session.ts";
+import { ProjectContextService } from "../services/projectContext.ts";
+import { QueryService } from "../services/queries.ts";
+import type { Project, ProjectContext } from "../utils/projectSelection.ts";
+
+/**
+ * Everything a tool needs to run without the Ink UI
+ */
+export interface HeadlessContext {
+	session: Session;
+	sessionService: SessionService;
+	projectContextService: ProjectContextService;
+	queryService: QueryService;
+}
+
+/**
+ * Resolves credentials from environment variables first, then saved preferences
+ */
+export async function resolveCredentials(): Promise<{
+	server: string;
+	user: string;
+	key: string;
+}> {
+	const prefs = await loadPreferences();
+	const server = Deno.env.get("FTRACK_SERVER") || prefs.FTRACK_SERVER;
+	const user = Deno.env.get("FTRACK_API_USER") || prefs.FTRACK_API_USER;
+	const key = Deno.env.get("FTRACK_API_KEY") || prefs.FTRACK_API_KEY;
+
+	if (!server || !user || !key) {
+		throw new Error(
+			"Missing ftrack credentials. Set FTRACK_SERVER, FTRACK_API_USER and FTRACK_API_KEY or run the interactive app once to save them.",
+		);
+	}
+
+	return { server, user, key };
+}
+
+/**
+ * Resolves a project name to a project context, or global mode when omitted
+ */
+export async function resolveProjectContext(
+	session: Session,
+	projectName?: string,
+): Promise<ProjectContext> {
+	if (!projectName) {
+		return { project: null, isGlobal: true };
+	}
+
+	const response = await session.query(
+		`select id, name, full_name from Project where name is "${projectName}"`,
+	);
+	const project = response.data?.[0] as Project | undefined;
+	if (!project) {
+		throw new Error(`Project "${projectName}" not found`);
+	}
+
+	debug(`Resolved project "${projectName}" to ${project.id}`);
+	return { project, isGlobal: false };
+}
+
+/**
+ * Opens a session and builds the services the tools expect
+ */
+export async function createHeadlessContext(
+	projectName?: string,
+): Promise<HeadlessContext> {
+	const { server, user, key } = await resolveCredentials();
+	const session = new Session(server, user, key, {
+		autoConnectEventHub: false,
+	});
+	await session.initializing;
+
+	const sessionService = new SessionService(session);
+	const projectContextService = new ProjectContextService(
+		await resolveProjectContext(session, projectName),
+	);
+	const queryService = new QueryService(sessionService, projectContextService);
+
+	return { session, sessionService, projectContextService, queryService };
+}
@@ -0,0 +1,605 @@
+/**
+ * Headless (non-interactive) command line interface
+ *
+ * Exposes each tool as a subcommand so it can be run from scripts and CI.
+ * Credentials come from FTRACK_SERVER / FTRACK_API_USER / FTRACK_API_KEY,
+ * falling back to the saved preferences. Exit codes:
+ * - 0: success
+ * - 1: the tool failed (or reported failed items)
+ * - 2: invalid usage
+ */
+
+import { Command, EnumType, ValidationError } from "@cliffy/command";
+import chalk from "chalk";
+import { createHeadlessContext } from "./context.ts";
+import { debug } from "../utils/debug.ts";
+import {
+	downloadMediaTool,
+	verifyDownloadFolder,
+} from "../tools/downloadMediaTool.ts";
+import { deleteMediaTool } from "../tools/deleteMediaTool.ts";
+import { restoreDeletionTool } from "../tools/restoreDeletionTool.ts";
+import { storageReportTool } from "../tools/storageReportTool.ts";
+import { STORAGE_DIMENSIONS } from "../services/storageReportService.ts";
+import {
+	PROTECTION_OVERRIDE_PHRASE,
+} from "../services/deletionProtectionService.ts";
+import { updateLatestVersionsSent } from "../tools/updateLatestVersions.ts";
+import { markVersionsDeliveredTool } from "../tools/markVersionsDeliveredTool.ts";
+import {
+	ROLLUP_AGGREGATIONS,
+	ROLLUP_LEVELS,
+} from "../utils/latestVersionMapping.ts";
+import { propagateThumbnails } from "../tools/propagateThumbnails.ts";
+import { exportSchema } from "../tools/exportSchema.ts";
+import { manageLists } from "../tools/manageLists.ts";
+import { inspectVersion } from "../tools/inspectVersion.ts";
+import { inspectShot } from "../tools/inspectShot.ts";
+import { inspectTask } from "../tools/inspectTask.ts";
+import { inspectNote } from "../tools/inspectNote.ts";
+
+const LIST_ACTIONS = {
+	"add-shots": "add_shots",
+	create: "create_list",
+	delete: "delete_list",
+} as const;
+
+/**
+ * Parses --location-prefix values of the form "<location name>=<path>"
+ */
+function parseLocationPrefixes(mappings: string[]): Record<string, string> {
+	const prefixes: Record<string, string> = {};
+	for (const mapping of mappings) {
+		const separator = mapping.indexOf("=");
+		if (separator < 1 || separator === mapping.length - 1) {
+			throw new ValidationError(
+				`Invalid --location-prefix "${mapping}", expected <location name>=<path>`,
+			);
+		}
+		prefixes[mapping.slice(0, separator).trim()] = mapping
+			.slice(separator + 1)
+			.trim();
+	}
+	return prefixes;
+}
+
+/**
+ * Builds the command tree. Exported for tests.
+ */
+export function buildCli() {
+	return new Command()
+		.name("astraftracktools")
+		.description("Astra Ftrack Tools - headless mode")
+		.noExit()
+		.globalType("preference", new EnumType(["original", "encoded"]))
+		.globalType("delete-mode", new EnumType(["versions", "components"]))
+		.globalType(
+			"component-choice",
+			new EnumType(["all", "original_only", "encoded_only"]),
+		)
+		.globalType("export-format", new EnumType(["json", "yaml", "csv", "ts"]))
+		.globalType("fallback", new EnumType(["automatic", "skip"]))
+		.globalType("local-mode", new EnumType(["copy", "hardlink"]))
+		.globalType("list-action", new EnumType(Object.keys(LIST_ACTIONS)))
+		.globalType("storage-dimension", new EnumType(STORAGE_DIMENSIONS))
+		.globalType(
+			"storage-sort",
+			new EnumType(["size", "name", "components", "versions"]),
+		)
+		.globalType("rollup-level", new EnumType(ROLLUP_LEVELS))
+		.globalType("rollup-aggregation", new EnumType(ROLLUP_AGGREGATIONS))
+		.globalOption(
+			"-p, --project <name:string>",
+			"Project name to scope the operation to (defaults to all projects)",
+		)
+		.action(function () {
+			this.showHelp();
+		})
+		// Media download
+		.command(
+			"download",
+			"Download media for a version, matching shots, a list or a review session",
+		)
+		.option("--version <id:string>", "Asset version ID to download")
+		.option(
+			"--shots <pattern:string>",
+			"Shot name pattern (substring, or wildcards * and ?)",
+		)
+		.option("--list <id:string>", "Download every version on this list ID")
+		.option(
+			"--review-session <id:string>",
+			"Download every version in this review session ID",
+		)
+		.option("--preference <preference:preference>", "Media preference", {
+			default: "original" as const,
+		})
+		.option(
+			"--profile <name:string>",
+			"Saved component profile to select components with, instead of --preference",
+		)
+		.option("--out <path:string>", "Output directory")
+		.option(
+			"--fallback <fallback:fallback>",
+			"What to do when the preferred component is missing",
+			{ default: "skip" as const },
+		)
+		.option(
+			"--sync",
+			"Download into --out directly, only fetching new or changed files",
+		)
+		.option(
+			"--template <template:string>",
+			"File naming template, or the name of a saved template",
+		)
+		.option(
+			"--max-rate <mb-per-sec:number>",
+			"Bandwidth cap in MB/s shared by all downloads",
+		)
+		.option("--concurrency <count:integer>", "Maximum concurrent downloads", {
+			default: 4,
+		})
+		.option("--retries <count:integer>", "Retries per file on server errors", {
+			default: 3,
+		})
+		.option(
+			"--adaptive",
+			"Lower concurrency when throughput per download drops",
+		)
+		.option(
+			"--local <mode:local-mode>",
+			"Copy or hardlink components from mounted storage, using HTTP when missing",
+		)
+		.option(
+			"--location-prefix <mapping:string>",
+			"Mount path of a location as <location name>=<path>, overriding saved ones (repeatable)",
+			{ collect: true },
+		)
+		.action(async (options) => {
+			if (
+				!options.version &&
+				!options.shots &&
+				!options.list &&
+				!options.reviewSession
+			) {
+				throw new ValidationError(
+					"One of --version, --shots, --list or --review-session is required",
+				);
+			}
+			if (options.concurrency < 1) {
+				throw new ValidationError("--concurrency must be at least 1");
+			}
+			const locationPrefixes = parseLocationPrefixes(
+				options.locationPrefix ?? [],
+			);
+			const ctx = await createHeadlessContext(options.project);
+			await downloadMediaTool(
+				ctx.session,
+				ctx.projectContextService,
+				ctx.queryService,
+				{
+					versionId: options.version,
+					shotPattern: options.shots,
+					listId: options.list,
+					reviewSessionId: options.reviewSession,
+					mediaPreference: options.preference,
+					profile: options.profile,
+					outputPath: options.out,
+					fallback: options.fallback,
+					sync: options.sync ?? false,
+					namingTemplate: options.template,
+					transfer: {
+						maxBytesPerSecond: options.maxRate
+							? options.maxRate * 1024 * 1024
+							: undefined,
+						maxConcurrentDownloads: options.concurrency,
+						maxRetries: options.retries,
+						adaptiveConcurrency: options.adaptive ?? false,
+					},
+					local: options.local
+						? { mode: options.local, locationPrefixes }
+						: undefined,
+				},
+			);
+		})
+		.command(
+			"verify-download <directory:string>",
+			"Verify a download folder against its manifest",
+		)
+		.action(async (_options, directory) => {
+			const result = await verifyDownloadFolder(directory);
+			const problems = result.missing.length + result.corrupted.length;
+			if (problems > 0) {
+				throw new Error(`${problems} file(s) are missing or corrupted`);
+			}
+		})
+		// Media deletion
+		.command("delete", "Preview (and optionally execute) media deletion")
+		.option("--mode <mode:delete-mode>", "What to delete", {
+			default: "versions" as const,
+		})
+		.option("--ids <ids:string[]>", "Comma-separated asset version IDs")
+		.option("--list <id:string>", "Include all versions from this list ID")
+		.option(
+			"--components <choice:component-choice>",
+			"Which components to delete in components mode",
+			{ default: "all" as const },
+		)
+		.option(
+			"--component-profile <name:string>",
+			"Delete the component types of this saved profile, instead of --components",
+		)
+		.option(
+			"--locations <names:string[]>",
+			"Only remove the components from these locations, keeping other copies",
+		)
+		.option("--execute", "Actually delete (default is a dry run)")
+		.option("--report-dir <path:string>", "Directory for the CSV report")
+		.option(
+			"--html-report",
+			"Also write the preview as an HTML report with thumbnails, for approval",
+		)
+		.option(
+			"--journal-dir <path:string>",
+			"Directory for the deletion journal (default: preferences directory)",
+		)
+		.option(
+			"--override-protection <phrase:string>",
+			`Also delete delivered, latest and listed versions; takes "${PROTECTION_OVERRIDE_PHRASE}"`,
+		)
+		.option(
+			"--plan <file:string>",
+			"Run an approved deletion plan instead of selecting versions",
+		)
+		.action(async (options) => {
+			if (options.plan) {
+				if (options.ids?.length || options.list) {
+					throw new ValidationError(
+						"--plan cannot be combined with --ids or --list",
+					);
+				}
+			} else if (!options.ids?.length && !options.list) {
+				throw new ValidationError("Either --ids, --list or --plan is required");
+			}
+			if (options.locations?.length && options.mode !== "components") {
+				throw new ValidationError("--locations needs --mode components");
+			}
+			if (
+				options.overrideProtection !== undefined &&
+				options.overrideProtection !== PROTECTION_OVERRIDE_PHRASE
+			) {
+				throw new ValidationError(
+					`--override-protection takes "${PROTECTION_OVERRIDE_PHRASE}"`,
+				);
+			}
+			const ctx = await createHeadlessContext(options.project);
+			await deleteMediaTool(
+				ctx.session,
+				ctx.projectContextService,
+				ctx.queryService,
+				{
+					mode: options.plan ? "plan" : options.mode,
+					planFile: options.plan,
+					versionIds: options.ids,
+					listId: options.list,
+					componentChoice: options.componentProfile
+						? `profile:${options.componentProfile}`
+						: options.components,
+					locations: options.locations,
+					execute: options.execute ?? false,
+					reportDir: options.reportDir,
+					htmlReport: options.htmlReport ?? false,
+					journalDir: options.journalDir,
+					overrideProtection: options.overrideProtection !== undefined,
+				},
+			);
+		})
+		.command(
+			"retention [file:string]",
+			"Preview (and optionally execute) the deletions of retention policies",
+		)
+		.option(
+			"--policy <names:string[]>",
+			"Only apply these policies of the file (default: all)",
+		)
+		.option("--execute", "Actually delete (default is a dry run)")
+		.option("--report-dir <path:string>", "Directory for the CSV report")
+		.option(
+			"--html-report",
+			"Also write the preview as an HTML report with thumbnails, for approval",
+		)
+		.option(
+			"--journal-dir <path:string>",
+			"Directory for the deletion journal (default: preferences directory)",
+		)
+		.option(
+			"--override-protection <phrase:string>",
+			`Let policies turn protections off; takes "${PROTECTION_OVERRIDE_PHRASE}"`,
+		)
+		.action(async (options, file) => {
+			if (
+				options.overrideProtection !== undefined &&
+				options.overrideProtection !== PROTECTION_OVERRIDE_PHRASE
+			) {
+				throw new ValidationError(
+					`--override-protection takes "${PROTECTION_OVERRIDE_PHRASE}"`,
+				);
+			}
+			const ctx = await createHeadlessContext(options.project);
+			await deleteMediaTool(
+				ctx.session,
+				ctx.projectContextService,
+				ctx.queryService,
+				{
+					mode: "policy",
+					policyFile: file,
+					policyNames: options.policy,
+					execute: options.execute ?? false,
+					reportDir: options.reportDir,
+					htmlReport: options.htmlReport ?? false,
+					journalDir: options.journalDir,
+					overrideProtection: options.overrideProtection !== undefined,
+				},
+			);
+		})
+		.command(
+			"approve-deletion <plan:string>",
+			"Approve another user's deletion plan, with your own credentials",
+		)
+		.action(async (options, plan) => {
+			const ctx = await createHeadlessContext(options.project);
+			await deleteMediaTool(
+				ctx.session,
+				ctx.projectContextService,
+				ctx.queryService,
+				{ mode: "approve", planFile: plan },
+			);
+		})
+		.command(
+			"restore-deletion <journal:string>",
+			"Recreate what a deletion removed, from its journal",
+		)
+		.option("--apply", "Restore (default is preview only)")
+		.action(async (options, journal) => {
+			const ctx = await createHeadlessContext(options.project);
+			await restoreDeletionTool(
+				ctx.session,
+				ctx.projectContextService,
+				ctx.queryService,
+				{ journalPath: journal, apply: options.apply ?? false },
+			);
+		})
+		// Storage report
+		.command("storage-report", "Report storage used by components")
+		.option(
+			"--group-by <dimension:storage-dimension>",
+			"Only print this breakdown (default: all)",
+		)
+		.option("--sort <key:storage-sort>", "Sort breakdown rows", {
+			default: "size" as const,
+		})
+		.option("--top <count:integer>", "Rows per breakdown and candidates", {
+			default: 20,
+		})
+		.option("--output-dir <path:string>", "Directory for the CSV and JSON")
+		.action(async (options) => {
+			const ctx = await createHeadlessContext(options.project);
+			await storageReportTool(
+				ctx.session,
+				ctx.projectContextService,
+				ctx.queryService,
+				{
+					dimension: options.groupBy,
+					sortBy: options.sort,
+					top: options.top,
+					outputDir: options.outputDir,
+				},
+			);
+		})
+		// Latest version sent
+		.command(
+			"update-versions",
+			"Update latest version sent for shots, or roll it up to other levels",
+		)
+		.option("--force", "Check all contexts instead of only new ones")
+		.option("--apply", "Write the changes (default is preview only)")
+		.option(
+			"--mapping <name:string>",
+			"Attribute mapping profile (default: the project's)",
+		)
+		.option("--level <level:rollup-level>", "Context type to roll up to", {
+			default: "Shot" as const,
+		})
+		.option(
+			"--aggregate <aggregation:rollup-aggregation>",
+			"latest version and date, count of delivered versions, or delivered shots",
+			{ default: "latest" as const },
+		)
+		.action(async (options) => {
+			const ctx = await createHeadlessContext(options.project);
+			await updateLatestVersionsSent(
+				ctx.session,
+				ctx.projectContextService,
+				ctx.queryService,
+				{
+					mode: options.force ? "force" : "new",
+					apply: options.apply ?? false,
+					mapping: options.mapping,
+					level: options.level,
+					aggregation: options.aggregate,
+				},
+			);
+		})
+		// Delivery tracking
+		.command(
+			"mark-delivered",
+			"Mark versions delivered by ID, list or delivery folder",
+		)
+		.option("--ids <ids:string[]>", "Comma-separated asset version IDs")
+		.option("--list <id:string>", "List ID to take the versions from")
+		.option(
+			"--folder <path:string>",
+			"Delivery folder whose files name the versions",
+		)
+		.option(
+			"--template <template:string>",
+			"File naming template the folder was downloaded with, or a saved name",
+		)
+		.option("--date <date:string>", "Date sent (default: now)")
+		.option("--status <name:string>", "Move the versions to this status")
+		.option("--apply", "Write the changes (default is preview only)")
+		.option("--rollup", "Update the latest versions sent afterwards")
+		.option(
+			"--mapping <name:string>",
+			"Attribute mapping profile (default: the project's)",
+		)
+		.action(async (options) => {
+			const sources = [options.ids?.length, options.list, options.folder];
+			if (sources.filter(Boolean).length !== 1) {
+				throw new ValidationError(
+					"Exactly one of --ids, --list or --folder is required",
+				);
+			}
+			if (options.template && !options.folder) {
+				throw new ValidationError("--template needs --folder");
+			}
+			if (options.rollup && !options.apply) {
+				throw new ValidationError("--rollup needs --apply");
+			}
+			const ctx = await createHeadlessContext(options.project);
+			await markVersionsDeliveredTool(
+				ctx.session,
+				ctx.projectContextService,
+				ctx.queryService,
+				{
+					versionIds: options.ids,
+					listId: options.list,
+					folder: options.folder,
+					namingTemplate: options.template,
+					date: options.date,
+					status: options.status,
+					apply: options.apply ?? false,
+					rollup: options.rollup ?? false,
+					mapping: options.mapping,
+				},
+			);
+		})
+		// Thumbnail propagation
+		.command(
+			"propagate-thumbnails",
+			"Propagate latest version thumbnails to shots",
+		)
+		.option("--shot <id:string>", "Only process this shot ID")
+		.action(async (options) => {
+			const ctx = await createHeadlessContext(options.project);
+			await propagateThumbnails(
+				ctx.session,
+				ctx.projectContextService,
+				ctx.queryService,
+				options.shot ?? "",
+			);
+		})
+		// Schema export
+		.command("export-schema", "Export the ftrack schema")
+		.option("--format <format:export-format>", "Output format", {
+			default: "json" as const,
+		})
+		.action(async (options) => {
+			const ctx = await createHeadlessContext(options.project);
+			const filename = await exportSchema(
+				ctx.session,
+				ctx.projectContextService,
+				options.format,
+				false,
+			);
+			console.log(chalk.green(`Schema exported to ${filename}`));
+		})
+		// List management
+		.command("lists <action:list-action>", "Manage ftrack lists")
+		.option("--list <name:string>", "List name")
+		.option("--shots <codes:string[]>", "Comma-separated shot codes")
+		.option("--category <name:string>", "List category (for create)")
+		.option("--yes", "Confirm destructive operations")
+		.action(async (options, action) => {
+			const ctx = await createHeadlessContext(options.project);
+			await manageLists(ctx.session, ctx.projectContextService, {
+				mode: LIST_ACTIONS[action as keyof typeof LIST_ACTIONS],
+				listName: options.list,
+				categoryName: options.category,
+				shotCodes: options.shots,
+				confirmDelete: options.yes ?? false,
+			});
+		})
+		// Inspection
+		.command("inspect-version <id:string>", "Inspect an asset version")
+		.option("--json", "Print the full record as JSON")
+		.action(async (options, id) => {
+			const ctx = await createHeadlessContext(options.project);
+			await inspectVersion(
+				ctx.session,
+				ctx.projectContextService,
+				ctx.queryService,
+				id,
+				{ json: options.json ?? false },
+			);
+		})
+		.command("inspect-shot <id:string>", "Inspect a shot")
+		.option("--json", "Print the full record as JSON")
+		.action(async (options, id) => {
+			const ctx = await createHeadlessContext(options.project);
+			await inspectShot(
+				ctx.session,
+				ctx.projectContextService,
+				ctx.queryService,
+				id,
+				{ json: options.json ?? false },
+			);
+		})
+		.command("inspect-task <id:string>", "Inspect a task")
+		.option("--json", "Print the full record as JSON")
+		.action(async (options, id) => {
+			const ctx = await createHeadlessContext(options.project);
+			await inspectTask(
+				ctx.session,
+				ctx.projectContextService,
+				ctx.queryService,
+				id,
+				{ json: options.json ?? false },
+			);
+		})
+		.command("inspect-note <id:string>", "Inspect a note")
+		.option("--json", "Print the full record as JSON")
+		.action(async (options, id) => {
+			const ctx = await createHeadlessContext(options.project);
+			await inspectNote(
+				ctx.session,
+				ctx.projectContextService,
+				ctx.queryService,
+				id,
+				{ json: options.json ?? false },
+			);
+		});
+}
+
+/**
+ * Runs the CLI with the given arguments and returns the process exit code
+ */
+export async function runHeadless(args: string[]): Promise<number> {
+	debug(`Running headless with args: ${args.join(" ")}`);
+
+	try {
+		await buildCli().parse(args);
+		return 0;
+	} catch (error) {
+		if (error instanceof ValidationError) {
+			console.error(chalk.red(`Usage error: ${error.message}`));
+			console.error("Run with --help for usage.");
+			return 2;
+		}
+		console.error(
+			chalk.red(
+				`Error: ${error instanceof Error ? error.message : String(error)}`,
+			),
+		);
+		return 1;
+	}
+}
@@ -0,0 +1,176 @@
+import type React from "react";
+import { useState } from "react";
+import { Box, Text, useInput } from "ink";
+import type {
+	ChangeReviewOptions,
+	ChangeReviewRow,
+} from "../types/changeReview.ts";
+
+interface ChangeReviewProps extends ChangeReviewOptions {
+	rows: ChangeReviewRow[];
+	onSubmit: (approvedIds: string[]) => void;
+	onCancel: () => void;
+}
+
+// Rows shown at once; the table scrolls with the cursor
+const PAGE_SIZE = 15;
+
+const COLUMN_WIDTHS = {
+	context: 16,
+	parent: 12,
+	version: 30,
+	value: 26,
+	reason: 12,
+};
+
+// Pad or truncate text to a column width
+function cell(text: string, width: number): string {
+	return text.length > width
+		? `${text.slice(0, width - 1)}…`
+		: text.padEnd(width);
+}
+
+// "current → new", or the value alone when it does not change
+function diffText(from: string | null, to: string | null): string {
+	return from === to ? (to ?? "") : `${from ?? "None"} → ${to ?? "None"}`;
+}
+
+/**
+ * Table of proposed changes to approve or reject before applying them
+ */
+export const ChangeReview: React.FC<ChangeReviewProps> = ({
+	rows,
+	title,
+	valueLabel,
+	exportCsv,
+	onSubmit,
+	onCancel,
+}) => {
+	const [approved, setApproved] = useState<Set<string>>(
+		() => new Set(rows.map((row) => row.id)),
+	);
+	const [cursor, setCursor] = useState(0);
+	// Index into parents; -1 shows every row
+	const [filterIndex, setFilterIndex] = useState(-1);
+	const [status, setStatus] = useState("");
+
+	const parents = [...new Set(rows.map((row) => row.parent))].sort((a, b) =>
+		a.localeCompare(b),
+	);
+	const filter = filterIndex >= 0 ? parents[filterIndex] : null;
+	const visibleRows = filter
+		? rows.filter((row) => row.parent === filter)
+		: rows;
+	const approvedIds = () =>
+		rows.filter((row) => approved.has(row.id)).map((row) => row.id);
+
+	const toggle = (ids: string[], on: boolean) => {
+		setApproved((prev) => {
+			const next = new Set(prev);
+			for (const id of ids) {
+				if (on) next.add(id);
+				else next.delete(id);
+			}
+			return next;
+		});
+	};
+
+	useInput((input, key) => {
+		if (key.upArrow) {
+			setCursor((prev) => Math.max(prev - 1, 0));
+		} else if (key.downArrow) {
+			setCursor((prev) => Math.min(prev + 1, visibleRows.length - 1));
+		} else if (key.pageUp) {
+			setCursor((prev) => Math.max(prev - PAGE_SIZE, 0));
+		} else if (key.pageDown) {
+			setCursor((prev) =>
+				Math.min(prev + PAGE_SIZE, visibleRows.length - 1),
+			);
+		} else if (input === " ") {
+			const row = visibleRows[cursor];
+			if (row) toggle([row.id], !approved.has(row.id));
+		} else if (input === "a") {
+			// Approve every visible row, or reject them when all are approved
+			const ids = visibleRows.map((row) => row.id);
+			toggle(ids, !ids.every((id) => approved.has(id)));
+		} else if (input === "f") {
+			setFilterIndex((prev) => (prev + 1 < parents.length ? prev + 1 : -1));
+			setCursor(0);
+		} else if (input === "e") {
+			setStatus("Exporting... ⏳");
+			exportCsv(approvedIds())
+				.then((path) => setStatus(`✅ Exported to ${path}`))
+				.catch((error) =>
+					setStatus(
+						`❌ Export failed: ${error instanceof Error ? error.message : error}`,
+					),
+				);
+		} else if (key.return) {
+			onSubmit(approvedIds());
+		} else if (input === "q" || key.escape) {
+			onCancel();
+		}
+	});
+
+	const start = Math.min(
+		Math.max(cursor - Math.floor(PAGE_SIZE / 2), 0),
+		Math.max(visibleRows.length - PAGE_SIZE, 0),
+	);
+	const pageRows = visibleRows.slice(start, start + PAGE_SIZE);
+
+	return (
+		<Box flexDirection="column" padding={1}>
+			<Text color="cyan" bold>
+				{title}
+			</Text>
+			<Text>
+				{approvedIds().length} of {rows.length} changes approved
+				{filter ? ` · Filter: ${filter}` : ""}
+			</Text>
+			<Text> </Text>
+			<Text bold>
+				{"    "}
+				{[
+					cell("Name", COLUMN_WIDTHS.context),
+					cell("Parent", COLUMN_WIDTHS.parent),
+					cell("Version", COLUMN_WIDTHS.version),
+					cell(valueLabel, COLUMN_WIDTHS.value),
+					cell("Reason", COLUMN_WIDTHS.reason),
+				].join(" ")}
+			</Text>
+			{pageRows.map((row, index) => {
+				const isCursor = start + index === cursor;
+				const isApproved = approved.has(row.id);
+				return (
+					<Text
+						key={row.id}
+						color={isCursor ? "cyan" : isApproved ? "white" : "gray"}
+					>
+						{isCursor ? "❯" : " "} {isApproved ? "☑" : "☐"}{" "}
+						{[
+							cell(row.context, COLUMN_WIDTHS.context),
+							cell(row.parent, COLUMN_WIDTHS.parent),
+							cell(
+								diffText(row.currentVersion, row.newVersion),
+								COLUMN_WIDTHS.version,
+							),
+							cell(diffText(row.currentValue, row.newValue), COLUMN_WIDTHS.value),
+							cell(row.reason, COLUMN_WIDTHS.reason),
+						].join(" ")}
+					</Text>
+				);
+			})}
+			{visibleRows.length > PAGE_SIZE && (
+				<Text color="gray">
+					Rows {start + 1}-{start + pageRows.length} of {visibleRows.length}
+				</Text>
+			)}
+			<Text> </Text>
+			<Text color="gray">
+				↑/↓ move · space toggle · a toggle all · f filter by parent · e
+				export CSV · enter apply approved · q cancel
+			</Text>
+			{status && <Text>{status}</Text>}
+		</Box>
+	);
+};
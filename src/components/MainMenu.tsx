@@ -51,6 +51,11 @@ export const MainMenu: React.FC<MainMenuProps> = ({
 				"📁 Update Latest Versions Sent - Updates all shots with their latest delivered version",
 			value: "updateVersions",
 		},
+		{
+			label:
+				"📁 Mark Versions Delivered - Set Delivered and date sent on versions, by ID, list or delivery folder",
+			value: "markDelivered",
+		},
 		{
 			label: "📁 Manage Lists - Create, Edit and Delete Lists",
 			value: "manageLists",
@@ -64,6 +69,16 @@ export const MainMenu: React.FC<MainMenuProps> = ({
 				"📁 Delete Media - Delete media (versions or components) with preview and confirmation",
 			value: "deleteMedia",
 		},
+		{
+			label:
+				"📁 Restore Deletion - Recreate deleted versions and components from a deletion journal",
+			value: "restoreDeletion",
+		},
+		{
+			label:
+				"📁 Storage Report - See storage used by sequence, shot, user, age and location",
+			value: "storageReport",
+		},
 		{
 			label:
 				"📁 Propagate Thumbnails - Update shots with thumbnails from their latest versions",
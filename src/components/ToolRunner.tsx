@@ -6,6 +6,12 @@ import type { SessionService } from "../services/session.ts";
 import type { ProjectContextService } from "../services/projectContext.ts";
 import type { QueryService } from "../services/queries.ts";
 import { SelectInput } from "./common/SelectInput.tsx";
+import { ChangeReview } from "./ChangeReview.tsx";
+import type {
+	ChangeReviewer,
+	ChangeReviewOptions,
+	ChangeReviewRow,
+} from "../types/changeReview.ts";
 
 // Import all tools
 import { updateLatestVersionsSent } from "../tools/updateLatestVersions.ts";
@@ -17,6 +23,9 @@ import { inspectNote } from "../tools/inspectNote.ts";
 import { propagateThumbnails } from "../tools/propagateThumbnails.ts";
 import { downloadMediaTool } from "../tools/downloadMediaTool.ts";
 import { deleteMediaTool } from "../tools/deleteMediaTool.ts";
+import { restoreDeletionTool } from "../tools/restoreDeletionTool.ts";
+import { storageReportTool } from "../tools/storageReportTool.ts";
+import { markVersionsDeliveredTool } from "../tools/markVersionsDeliveredTool.ts";
 import { manageLists } from "../tools/manageLists.ts";
 
 interface ToolRunnerProps {
@@ -31,6 +40,12 @@ interface ToolRunnerProps {
 
 type ExportFormat = "json" | "yaml" | "csv" | "ts";
 
+// A review screen a running tool is waiting on
+interface PendingReview extends ChangeReviewOptions {
+	rows: ChangeReviewRow[];
+	resolve: (approvedIds: string[] | null) => void;
+}
+
 export const ToolRunner: React.FC<ToolRunnerProps> = ({
 	toolValue,
 	session,
@@ -44,8 +59,26 @@ export const ToolRunner: React.FC<ToolRunnerProps> = ({
 		"running",
 	);
 	const [message, setMessage] = useState<string>("");
+	const [review, setReview] = useState<PendingReview | null>(null);
 	const { stdin, setRawMode } = useStdin();
 
+	// Let tools show the Ink review screen, with raw mode on while it is open
+	const reviewChanges: ChangeReviewer = (rows, options) =>
+		new Promise((resolve) => {
+			if (setRawMode) {
+				setRawMode(true);
+			}
+			setReview({ ...options, rows, resolve });
+		});
+
+	const closeReview = (approvedIds: string[] | null) => {
+		if (setRawMode) {
+			setRawMode(false);
+		}
+		review?.resolve(approvedIds);
+		setReview(null);
+	};
+
 	useEffect(() => {
 		runTool();
 	}, []);
@@ -69,6 +102,8 @@ export const ToolRunner: React.FC<ToolRunnerProps> = ({
 						session,
 						projectContextService,
 						queryService,
+						undefined,
+						reviewChanges,
 					);
 					setMessage("Latest versions updated successfully!");
 					break;
@@ -130,6 +165,27 @@ export const ToolRunner: React.FC<ToolRunnerProps> = ({
 					setMessage("Media deletion completed!");
 					break;
 
+				case "restoreDeletion":
+					await restoreDeletionTool(session, projectContextService, queryService);
+					setMessage("Deletion restore completed!");
+					break;
+
+				case "markDelivered":
+					await markVersionsDeliveredTool(
+						session,
+						projectContextService,
+						queryService,
+						undefined,
+						reviewChanges,
+					);
+					setMessage("Versions marked delivered!");
+					break;
+
+				case "storageReport":
+					await storageReportTool(session, projectContextService, queryService);
+					setMessage("Storage report completed!");
+					break;
+
 				case "propagateThumbnails":
 					await propagateThumbnails(
 						session,
@@ -163,6 +219,19 @@ export const ToolRunner: React.FC<ToolRunnerProps> = ({
 		}
 	};
 
+	if (review) {
+		return (
+			<ChangeReview
+				rows={review.rows}
+				title={review.title}
+				valueLabel={review.valueLabel}
+				exportCsv={review.exportCsv}
+				onSubmit={closeReview}
+				onCancel={() => closeReview(null)}
+			/>
+		);
+	}
+
 	if (status === "running") {
 		return (
 			<Box flexDirection="column" padding={1}>
@@ -2,12 +2,20 @@
 import React from "react";
 import { render } from "ink";
 import { App } from "./components/App.tsx";
+import { runHeadless } from "./cli/headless.ts";
 
 // Declare Deno global for TypeScript
 declare const Deno: {
+	args: string[];
 	exit(code?: number): never;
 };
 
+// Any arguments besides DEBUG switch to headless mode
+const cliArgs = Deno.args.filter((arg) => arg !== "DEBUG");
+if (cliArgs.length > 0) {
+	Deno.exit(await runHeadless(cliArgs));
+}
+
 // Render the Ink app
 const { waitUntilExit } = render(
 	<App
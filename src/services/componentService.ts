@@ -1,11 +1,21 @@
 import type { SessionService } from "./session.ts";
 import type { QueryService } from "./queries.ts";
 import { debug } from "../utils/debug.ts";
+import {
+	formatFrameRange,
+	isSequenceComponent,
+} from "../utils/imageSequence.ts";
+import {
+	BUILTIN_COMPONENT_PROFILES,
+	matchesComponentRule,
+} from "../utils/componentRules.ts";
 import type { Session } from "@ftrack/api";
 import type {
 	AssetVersion,
 	Component,
+	ComponentClassificationRule,
 	ComponentNotFoundError,
+	ComponentRulesConfig,
 	ComponentType,
 	InvalidAssetVersionError,
 	MediaPreference,
@@ -20,11 +30,101 @@ type SessionWithGetComponentUrl = Session & {
  * Service for handling component querying, identification, and URL resolution
  */
 export class ComponentService {
+	private locationPrefixes: Record<string, string> = {};
+	private rules: ComponentClassificationRule[] = [];
+	private profiles: Record<string, ComponentType[]> = {
+		...BUILTIN_COMPONENT_PROFILES,
+	};
+	private activeProfile: string | null = null;
+
 	constructor(
 		private sessionService: SessionService,
 		private queryService: QueryService,
 	) {}
 
+	/**
+	 * Configure where storage locations are mounted on this machine
+	 * @param locationPrefixes - Filesystem prefix for each location name
+	 */
+	setLocationPrefixes(locationPrefixes: Record<string, string>): void {
+		this.locationPrefixes = locationPrefixes;
+	}
+
+	/**
+	 * Use classification rules and selection profiles from the rules file.
+	 * Rules are tried before the built-in identification, and saved profiles
+	 * are added to (or replace) the built-in ones.
+	 * @param config - The rules and profiles
+	 */
+	setComponentRules(config: ComponentRulesConfig): void {
+		this.rules = config.rules;
+		this.profiles = { ...BUILTIN_COMPONENT_PROFILES };
+		for (const profile of config.profiles) {
+			this.profiles[profile.name] = profile.types;
+		}
+	}
+
+	/**
+	 * Names of the saved profiles that are not built-in
+	 */
+	getCustomProfileNames(): string[] {
+		return Object.keys(this.profiles).filter(
+			(name) => !(name in BUILTIN_COMPONENT_PROFILES),
+		);
+	}
+
+	/**
+	 * Component types of a profile, most preferred first
+	 * @param name - A saved or built-in profile name (original, encoded, fallback)
+	 */
+	getProfileTypes(name: string): ComponentType[] {
+		const types = this.profiles[name];
+		if (!types) {
+			throw new Error(
+				`Unknown component profile "${name}". Available: ${Object.keys(
+					this.profiles,
+				).join(", ")}`,
+			);
+		}
+		return types;
+	}
+
+	/**
+	 * Select components for download with a profile instead of the order of
+	 * the media preference
+	 * @param name - Profile name, or null for the media preference's order
+	 */
+	setActiveProfile(name: string | null): void {
+		if (name !== null) {
+			this.getProfileTypes(name);
+		}
+		this.activeProfile = name;
+	}
+
+	/**
+	 * Resolve the path of a component on a mounted storage location, using the
+	 * first of its component_locations that has a configured prefix
+	 * @param component - The component, including its component_locations
+	 * @returns The local file path, or null if no mounted location holds it
+	 */
+	getLocalPath(component: Component): string | null {
+		for (const componentLocation of component.component_locations ?? []) {
+			const prefix = this.locationPrefixes[componentLocation.location?.name];
+			const resourceIdentifier = componentLocation.resource_identifier;
+			if (prefix === undefined || !resourceIdentifier) continue;
+
+			// Identifiers that are already full paths on the mount are used as is
+			const path = resourceIdentifier.startsWith(prefix)
+				? resourceIdentifier
+				: `${prefix.replace(/[\\/]+$/, "")}/${resourceIdentifier.replace(/^[\\/]+/, "")}`;
+			debug(
+				`Resolved component ${component.id} on ${componentLocation.location.name}: ${path}`,
+			);
+			return path;
+		}
+		return null;
+	}
+
 	/**
 	 * Query components for asset versions with locations
 	 * @param assetVersionId - The asset version ID to query components for
@@ -62,6 +162,8 @@ export class ComponentService {
 				) as ComponentNotFoundError;
 			}
 
+			await this.loadSequenceMembers(assetVersion.components);
+
 			debug(
 				`Found ${assetVersion.components.length} components for asset version ${assetVersionId}`,
 			);
@@ -75,11 +177,90 @@ export class ComponentService {
 	}
 
 	/**
-	 * Identify component type based on naming patterns
+	 * Whether a component is an image sequence (a SequenceComponent whose
+	 * members are the individual frames)
+	 * @param component - The component to check
+	 */
+	isSequenceComponent(component: Component): boolean {
+		return isSequenceComponent(component);
+	}
+
+	/**
+	 * Frame numbers of an image sequence, taken from its member names
+	 * @param component - A sequence component with members loaded
+	 * @returns Sorted frame numbers
+	 */
+	getFrameNumbers(component: Component): number[] {
+		return (component.members ?? [])
+			.map((member) => Number(member.name))
+			.filter((frame) => Number.isInteger(frame))
+			.sort((a, b) => a - b);
+	}
+
+	/**
+	 * Load padding and member (frame) components of the sequence components
+	 * in place. Members are sorted by frame, and the sequence size is the total
+	 * of its frames when the server does not report one.
+	 * @param components - Components of an asset version
+	 */
+	private async loadSequenceMembers(components: Component[]): Promise<void> {
+		const sequences = components.filter((component) =>
+			this.isSequenceComponent(component),
+		);
+		if (sequences.length === 0) return;
+
+		const ids = sequences.map((component) => `"${component.id}"`).join(", ");
+		const result = await this.sessionService.query(`
+        select id, padding, members.id, members.name, members.file_type, members.size,
+               members.component_locations.location.id,
+               members.component_locations.location.name,
+               members.component_locations.resource_identifier
+        from SequenceComponent
+        where id in (${ids})
+      `);
+
+		const loaded = new Map(
+			((result.data ?? []) as Component[]).map((sequence) => [
+				sequence.id,
+				sequence,
+			]),
+		);
+		for (const component of sequences) {
+			const sequence = loaded.get(component.id);
+			if (!sequence) continue;
+
+			component.padding = sequence.padding ?? 0;
+			component.members = [...(sequence.members ?? [])].sort(
+				(a, b) => Number(a.name) - Number(b.name),
+			);
+			if (!component.size) {
+				component.size = component.members.reduce(
+					(total, member) => total + (member.size || 0),
+					0,
+				);
+			}
+			debug(
+				`Sequence component ${component.id}: ${formatFrameRange(
+					this.getFrameNumbers(component),
+				)}`,
+			);
+		}
+	}
+
+	/**
+	 * Identify component type with the first matching classification rule,
+	 * or else based on naming patterns
 	 * @param component - The component to identify
 	 * @returns The identified component type
 	 */
 	identifyComponentType(component: Component): ComponentType {
+		const rule = this.rules.find((rule) =>
+			matchesComponentRule(component, rule),
+		);
+		if (rule) {
+			return rule.type;
+		}
+
 		const name = component.name.toLowerCase();
 
 		// Check for encoded types first (more specific patterns)
@@ -91,6 +272,11 @@ export class ComponentService {
 			return "encoded-720p";
 		}
 
+		// Sequences are checked before single images, which share extensions
+		if (this.isSequenceComponent(component)) {
+			return "image-sequence";
+		}
+
 		// Check for image file types
 		const imageExtensions = [
 			"jpg",
@@ -167,13 +353,39 @@ export class ComponentService {
 	/**
 	 * Find best component based on user preference with fallback logic
 	 * @param components - Array of components to search
-	 * @param preference - User's media preference
+	 * @param preference - User's media preference, used as profile name unless a profile is active
 	 * @returns The best matching component or null if none found
 	 */
 	findBestComponent(
 		components: Component[],
 		preference: MediaPreference,
 	): Component | null {
+		const profile = this.activeProfile ?? preference;
+		return (
+			this.selectByProfile(components, this.getProfileTypes(profile))
+				?.component ?? null
+		);
+	}
+
+	/**
+	 * Find the component to download when the preferred one failed, using the
+	 * "fallback" profile
+	 * @param components - Array of components to search
+	 * @returns The selected component and its type, or null if none found
+	 */
+	findFallbackComponent(
+		components: Component[],
+	): { component: Component; type: ComponentType } | null {
+		return this.selectByProfile(components, this.getProfileTypes("fallback"));
+	}
+
+	/**
+	 * Pick the largest component of the first type in the order that has any
+	 */
+	private selectByProfile(
+		components: Component[],
+		order: ComponentType[],
+	): { component: Component; type: ComponentType } | null {
 		if (!components || components.length === 0) {
 			return null;
 		}
@@ -195,17 +407,8 @@ export class ComponentService {
 			)}`,
 		);
 
-		// Define fallback chains based on preference
-		let fallbackChain: ComponentType[];
-
-		if (preference === "original") {
-			fallbackChain = ["original", "encoded-1080p", "encoded-720p", "image"];
-		} else {
-			fallbackChain = ["encoded-1080p", "encoded-720p", "image", "original"];
-		}
-
-		// Try each type in the fallback chain
-		for (const type of fallbackChain) {
+		// Try each type in the profile's order
+		for (const type of order) {
 			const componentsOfType = componentsByType.get(type);
 			if (componentsOfType && componentsOfType.length > 0) {
 				// Return the first (or largest) component of this type
@@ -218,11 +421,11 @@ export class ComponentService {
 						bestComponent.size || "unknown"
 					})`,
 				);
-				return bestComponent;
+				return { component: bestComponent, type };
 			}
 		}
 
-		debug("No suitable component found with fallback logic");
+		debug(`No suitable component found for order: ${order.join(", ")}`);
 		return null;
 	}
 
@@ -257,6 +460,7 @@ export class ComponentService {
 			}
 
 			const assetVersion = result.data[0] as AssetVersion;
+			await this.loadSequenceMembers(assetVersion.components ?? []);
 			debug(
 				`Retrieved asset version: ${assetVersion.asset.name} v${assetVersion.version}`,
 			);
@@ -278,6 +482,15 @@ export class ComponentService {
 	formatComponentTypeDisplay(component: Component): string {
 		const baseType = this.identifyComponentType(component);
 
+		if (baseType === "image-sequence") {
+			const fileType = component.file_type
+				? `${component.file_type.replace(/^\.+/, "").toUpperCase()}, `
+				: "";
+			return `image sequence (${fileType}${formatFrameRange(
+				this.getFrameNumbers(component),
+			)})`;
+		}
+
 		if (baseType === "image" && component.file_type) {
 			// Extract file extension and format it nicely
 			const cleanFileType = component.file_type
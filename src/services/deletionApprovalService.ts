@@ -0,0 +1,417 @@
+import type { Session } from "@ftrack/api";
+import { debug } from "../utils/debug.ts";
+import {
+	APPROVAL_THRESHOLD_KEYS,
+	DEFAULT_APPROVAL_THRESHOLDS,
+} from "../utils/deletionApproval.ts";
+import type { DeletionService } from "./deletionService.ts";
+import type {
+	DeletionResultSummary,
+	DryRunReportItem,
+} from "../types/deleteMedia.ts";
+import type {
+	DeletionApprovalThresholds,
+	DeletionPlan,
+	DeletionPlanPolicy,
+	DeletionPlanRequest,
+} from "../types/deletionApproval.ts";
+
+const GB = 1024 * 1024 * 1024;
+
+/** IDs per query, to keep queries short */
+const LOOKUP_BATCH_SIZE = 100;
+
+/**
+ * DeletionApprovalService
+ * - Two-person approval of large deletions. The dry-run writes a plan file
+ *   holding the exact request and a hash of the preview it produced; a
+ *   second ftrack user approves the plan, and it can only be executed while
+ *   a new preview still produces the same hash.
+ * - The approval is a note the approver writes on the plan's first version,
+ *   which ftrack records under the approver's own session. A plan is only
+ *   executed when that note's author is neither the plan's creator nor the
+ *   executing user, so editing the plan file cannot approve it.
+ * - The thresholds are custom attributes of the projects, so a user who
+ *   cannot edit the projects cannot raise them to skip the approval.
+ */
+export class DeletionApprovalService {
+	constructor(
+		private session: Session,
+		private deletionService: DeletionService,
+	) {}
+
+	/**
+	 * Whether a previewed deletion is above the approval thresholds
+	 */
+	static needsApproval(
+		summary: DeletionResultSummary,
+		report: DryRunReportItem[],
+		thresholds: DeletionApprovalThresholds,
+	): boolean {
+		const versions = new Set(report.map((item) => item.assetVersionId)).size;
+		return (
+			versions > thresholds.maxVersions ||
+			summary.bytesDeleted > thresholds.maxSizeGB * GB
+		);
+	}
+
+	/**
+	 * The approval thresholds for deleting from the versions' projects: the
+	 * lowest their custom attributes set, or the defaults where they set
+	 * none. The local user's own thresholds can only lower them.
+	 */
+	async loadThresholds(
+		versionIds: string[],
+		local: Partial<DeletionApprovalThresholds>,
+	): Promise<DeletionApprovalThresholds> {
+		const projectIds = new Set<string>();
+		const ids = [...new Set(versionIds)];
+		for (let i = 0; i < ids.length; i += LOOKUP_BATCH_SIZE) {
+			const batch = ids.slice(i, i + LOOKUP_BATCH_SIZE);
+			const result = await this.session.query(`
+        select id, project_id from AssetVersion
+        where id in (${batch.map((id) => `"${id}"`).join(", ")})
+      `);
+			for (const version of (result.data ?? []) as Array<{
+				project_id?: string;
+			}>) {
+				if (version.project_id) projectIds.add(version.project_id);
+			}
+		}
+
+		let projects: Array<{
+			custom_attributes?: Array<{ key?: string; value?: unknown }>;
+		}> = [];
+		if (projectIds.size > 0) {
+			const result = await this.session.query(`
+        select id, custom_attributes from Project
+        where id in (${[...projectIds].map((id) => `"${id}"`).join(", ")})
+      `);
+			projects = (result.data ?? []) as typeof projects;
+		}
+
+		const thresholds = { ...DEFAULT_APPROVAL_THRESHOLDS };
+		for (const field of ["maxVersions", "maxSizeGB"] as const) {
+			const values = projects.map((project) => {
+				const value = project.custom_attributes?.find(
+					(attribute) => attribute?.key === APPROVAL_THRESHOLD_KEYS[field],
+				)?.value;
+				return typeof value === "number" && value >= 0
+					? value
+					: DEFAULT_APPROVAL_THRESHOLDS[field];
+			});
+			thresholds[field] = Math.min(
+				...(values.length > 0 ? values : [DEFAULT_APPROVAL_THRESHOLDS[field]]),
+				local[field] ?? Infinity,
+			);
+		}
+		return thresholds;
+	}
+
+	/**
+	 * Run a plan request, as a dry-run preview or for real
+	 */
+	run(
+		request: DeletionPlanRequest,
+		dryRun: boolean,
+	): Promise<{ report: DryRunReportItem[]; summary: DeletionResultSummary }> {
+		if (request.mode === "policies") {
+			return this.runPolicies(request.policies ?? [], dryRun);
+		}
+		const opts = { dryRun, overrideProtection: request.overrideProtection };
+		if (request.mode === "versions") {
+			return this.deletionService.deleteAssetVersions(request.versionIds, opts);
+		}
+		return this.deletionService.deleteComponents(
+			new Map(
+				request.versionIds.map((id) => [
+					id,
+					request.componentChoices?.[id] ?? "all",
+				]),
+			),
+			{ ...opts, locations: request.locations },
+		);
+	}
+
+	/**
+	 * Run the retention policies of a plan in order, adding up their results
+	 */
+	private async runPolicies(
+		policies: DeletionPlanPolicy[],
+		dryRun: boolean,
+	): Promise<{ report: DryRunReportItem[]; summary: DeletionResultSummary }> {
+		const report: DryRunReportItem[] = [];
+		const summary: DeletionResultSummary = {
+			versionsDeleted: 0,
+			componentsDeleted: 0,
+			bytesDeleted: 0,
+			failures: [],
+			journalPaths: [],
+			protectedVersions: [],
+		};
+		for (const policy of policies) {
+			const opts = { dryRun, protectionRules: policy.protectionRules };
+			const result =
+				policy.delete === "versions"
+					? await this.deletionService.deleteAssetVersions(
+							policy.versionIds,
+							opts,
+						)
+					: await this.deletionService.deleteComponents(
+							new Map(
+								policy.versionIds.map((id) => [id, policy.components ?? "all"]),
+							),
+							opts,
+						);
+			report.push(...result.report);
+			summary.versionsDeleted += result.summary.versionsDeleted;
+			summary.componentsDeleted += result.summary.componentsDeleted;
+			summary.bytesDeleted += result.summary.bytesDeleted;
+			summary.failures.push(...result.summary.failures);
+			summary.protectedVersions!.push(
+				...(result.summary.protectedVersions ?? []),
+			);
+			if (result.summary.journalPath) {
+				summary.journalPaths!.push(result.summary.journalPath);
+			}
+		}
+		return { report, summary };
+	}
+
+	/**
+	 * Write the plan for a previewed deletion
+	 * @param report - The dry-run preview of `request`
+	 * @returns The written plan
+	 */
+	async createPlan(
+		filePath: string,
+		request: DeletionPlanRequest,
+		summary: DeletionResultSummary,
+		report: DryRunReportItem[],
+	): Promise<DeletionPlan> {
+		const normalised = normaliseRequest(request);
+		const plan: DeletionPlan = {
+			createdAt: new Date().toISOString(),
+			createdBy: this.currentUser(),
+			request: normalised,
+			versions: new Set(report.map((item) => item.assetVersionId)).size,
+			bytes: summary.bytesDeleted,
+			hash: await hashPlan(normalised, report),
+		};
+		await Deno.writeTextFile(filePath, JSON.stringify(plan, null, 2));
+		debug(`Deletion plan written to ${filePath}`);
+		return plan;
+	}
+
+	/**
+	 * Read a plan file, to show it before approving or executing it
+	 */
+	loadPlan(filePath: string): Promise<DeletionPlan> {
+		return readPlan(filePath);
+	}
+
+	/**
+	 * Approve a plan as the current user, who must not be its creator. The
+	 * plan is previewed again and rejected if the data changed since.
+	 * @returns The approved plan, also written back to `filePath`
+	 */
+	async approvePlan(filePath: string): Promise<DeletionPlan> {
+		const plan = await readPlan(filePath);
+		if (plan.approval) {
+			throw new Error(
+				`The plan is already approved by ${plan.approval.approvedBy}`,
+			);
+		}
+		const approvedBy = this.currentUser();
+		if (approvedBy === plan.createdBy) {
+			throw new Error(
+				`The plan must be approved by another user than its creator (${plan.createdBy})`,
+			);
+		}
+		await this.checkUnchanged(plan);
+
+		const note = await this.session.create("Note", {
+			content: approvalNoteContent(plan.hash),
+			parent_id: plan.request.versionIds[0],
+			parent_type: "AssetVersion",
+		});
+		plan.approval = {
+			approvedBy,
+			approvedAt: new Date().toISOString(),
+			noteId: (note.data as { id: string }).id,
+		};
+		await Deno.writeTextFile(filePath, JSON.stringify(plan, null, 2));
+		debug(`Deletion plan ${filePath} approved by ${approvedBy}`);
+		return plan;
+	}
+
+	/**
+	 * Load a plan for execution, checking its approval note on the server and
+	 * that a new preview still matches it
+	 */
+	async loadApprovedPlan(filePath: string): Promise<DeletionPlan> {
+		const plan = await readPlan(filePath);
+		const { approval } = plan;
+		if (!approval) {
+			throw new Error("The plan has not been approved");
+		}
+		const approver = await this.findApprover(plan.hash, approval.noteId);
+		if (
+			!approver ||
+			approver !== approval.approvedBy ||
+			approver === plan.createdBy
+		) {
+			throw new Error("The plan approval is not valid");
+		}
+		if (approver === this.currentUser()) {
+			throw new Error(
+				`The plan must be executed by another user than its approver (${approver})`,
+			);
+		}
+		await this.checkUnchanged(plan);
+		return plan;
+	}
+
+	/**
+	 * The username of the author of an approval note, if the note exists and
+	 * approves this plan hash
+	 */
+	private async findApprover(
+		hash: string,
+		noteId: unknown,
+	): Promise<string | null> {
+		if (typeof noteId !== "string" || !/^[\w-]+$/.test(noteId)) {
+			return null;
+		}
+		const result = await this.session.query(`
+      select content, author.username from Note where id is "${noteId}"
+    `);
+		const note = result.data?.[0] as
+			| { content?: string; author?: { username?: string } | null }
+			| undefined;
+		if (note?.content !== approvalNoteContent(hash)) {
+			return null;
+		}
+		return note.author?.username ?? null;
+	}
+
+	/**
+	 * Reject a plan whose request was edited, or whose preview differs now
+	 */
+	private async checkUnchanged(plan: DeletionPlan): Promise<void> {
+		const request = normaliseRequest(plan.request);
+		const { report } = await this.run(request, true);
+		if ((await hashPlan(request, report)) !== plan.hash) {
+			throw new Error(
+				"The data changed since the plan was created; preview the deletion again",
+			);
+		}
+	}
+
+	private currentUser(): string {
+		const user = (this.session as Session & { apiUser?: string }).apiUser;
+		if (!user) {
+			throw new Error("Cannot tell which ftrack user is logged in");
+		}
+		return user;
+	}
+}
+
+/**
+ * Read a plan file
+ */
+async function readPlan(filePath: string): Promise<DeletionPlan> {
+	let plan: DeletionPlan;
+	try {
+		plan = JSON.parse(await Deno.readTextFile(filePath));
+	} catch (error) {
+		throw new Error(`Cannot read deletion plan ${filePath}: ${error}`);
+	}
+	if (
+		!plan?.hash ||
+		!plan.createdBy ||
+		!Array.isArray(plan.request?.versionIds) ||
+		(plan.request.mode === "policies" && !Array.isArray(plan.request.policies))
+	) {
+		throw new Error(`Invalid deletion plan ${filePath}`);
+	}
+	return plan;
+}
+
+/**
+ * The content of the note approving a plan
+ */
+function approvalNoteContent(hash: string): string {
+	return `Approved deletion plan ${hash}`;
+}
+
+/**
+ * The request with sorted IDs and only the fields its mode uses, so equal
+ * requests hash the same
+ */
+function normaliseRequest(request: DeletionPlanRequest): DeletionPlanRequest {
+	const versionIds = [...new Set(request.versionIds)].sort();
+	const normalised: DeletionPlanRequest = {
+		mode: request.mode,
+		versionIds,
+		overrideProtection: request.overrideProtection === true,
+	};
+	if (request.mode === "policies") {
+		normalised.policies = (request.policies ?? []).map((policy) => ({
+			name: policy.name,
+			delete: policy.delete,
+			...(policy.delete === "components"
+				? { components: policy.components ?? "all" }
+				: {}),
+			versionIds: [...new Set(policy.versionIds)].sort(),
+			protectionRules: {
+				delivered: policy.protectionRules.delivered === true,
+				latestDelivered: policy.protectionRules.latestDelivered === true,
+				latestVersion: policy.protectionRules.latestVersion === true,
+				reviewSessions: policy.protectionRules.reviewSessions === true,
+				lists: [...(policy.protectionRules.lists ?? [])].sort(),
+			},
+		}));
+	}
+	if (request.mode === "components") {
+		normalised.componentChoices = Object.fromEntries(
+			versionIds.map((id) => [id, request.componentChoices?.[id] ?? "all"]),
+		);
+		if (request.locations) {
+			normalised.locations = [...request.locations].sort();
+		}
+	}
+	return normalised;
+}
+
+/**
+ * SHA-256 of a request and the rows of its preview: what would be deleted,
+ * from where, and how large it is
+ */
+function hashPlan(
+	request: DeletionPlanRequest,
+	report: DryRunReportItem[],
+): Promise<string> {
+	const rows = report
+		.map((item) =>
+			JSON.stringify([
+				item.operation,
+				item.assetVersionId,
+				item.componentId ?? null,
+				item.size ?? 0,
+				[...(item.locations ?? [])].sort(),
+			]),
+		)
+		.sort();
+	return sha256(JSON.stringify({ request, rows }));
+}
+
+async function sha256(text: string): Promise<string> {
+	const digest = await crypto.subtle.digest(
+		"SHA-256",
+		new TextEncoder().encode(text),
+	);
+	return Array.from(new Uint8Array(digest))
+		.map((byte) => byte.toString(16).padStart(2, "0"))
+		.join("");
+}
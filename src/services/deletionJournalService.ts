@@ -0,0 +1,311 @@
+import type { Session } from "@ftrack/api";
+import { debug } from "../utils/debug.ts";
+import { getPreferencesFilePath } from "../utils/preferences.ts";
+import type { Component } from "../types/index.ts";
+import type {
+	DeletionJournal,
+	DeletionJournalEntry,
+	DeletionJournalInfo,
+	JournalComponentSnapshot,
+	JournalVersionSnapshot,
+} from "../types/deletionJournal.ts";
+
+export const DELETION_JOURNAL_DIRNAME = "deletion_journals";
+
+/** AssetVersion attributes recorded in the journal and set again on restore */
+export const JOURNALED_VERSION_FIELDS = [
+	"asset_id",
+	"task_id",
+	"version",
+	"comment",
+	"status_id",
+	"user_id",
+	"date",
+	"is_published",
+	"thumbnail_id",
+];
+
+export const DELETION_JOURNAL_EXTENSION = ".jsonl";
+
+// One line of a journal file; entries are referred to by their index
+type JournalLine =
+	| { type: "journal"; createdAt: string; mode: DeletionJournal["mode"] }
+	| { type: "entry"; index: number; entry: DeletionJournalEntry }
+	| {
+			type: "update";
+			index: number;
+			changes: Partial<DeletionJournalEntry>;
+	  };
+
+/**
+ * Fold the lines of a journal file into the journal. A crash while writing
+ * can only cut the last line short, so an unreadable last line is ignored.
+ */
+function parseJournal(text: string, path: string): DeletionJournal {
+	const lines = text.split("\n").filter((line) => line.trim());
+	let journal: DeletionJournal | null = null;
+
+	for (const [i, raw] of lines.entries()) {
+		let line: JournalLine;
+		try {
+			line = JSON.parse(raw) as JournalLine;
+		} catch (error) {
+			if (i === lines.length - 1) {
+				debug(`Ignoring cut-off last line of ${path}: ${error}`);
+				break;
+			}
+			throw new Error(`Corrupt deletion journal ${path} at line ${i + 1}`);
+		}
+
+		if (line.type === "journal") {
+			journal = { createdAt: line.createdAt, mode: line.mode, entries: [] };
+		} else if (!journal) {
+			break;
+		} else if (line.type === "entry") {
+			journal.entries[line.index] = line.entry;
+		} else if (line.type === "update" && journal.entries[line.index]) {
+			Object.assign(journal.entries[line.index], line.changes);
+		}
+	}
+
+	if (!journal) {
+		throw new Error(`Not a deletion journal: ${path}`);
+	}
+	return journal;
+}
+
+/**
+ * Service for the deletion journal: one JSON Lines file per executed
+ * deletion run, holding everything needed to recreate the deleted metadata.
+ * Entries are written before the matching delete call is made, and each
+ * entry or outcome is appended as one line, so recording costs the same
+ * however long the journal gets.
+ */
+export class DeletionJournalService {
+	private journal: DeletionJournal | null = null;
+	private journalPath: string | null = null;
+	private entryIndexes = new Map<DeletionJournalEntry, number>();
+	private writing: Promise<void> = Promise.resolve();
+
+	/**
+	 * @param journalDir - Journal folder, in the preferences directory by default
+	 */
+	constructor(
+		private session: Session,
+		private journalDir: string = getPreferencesFilePath(
+			DELETION_JOURNAL_DIRNAME,
+		),
+	) {}
+
+	setDirectory(journalDir: string): void {
+		this.journalDir = journalDir;
+	}
+
+	/**
+	 * Start a new journal file for a deletion run
+	 * @returns Promise resolving to the journal path
+	 */
+	async begin(mode: DeletionJournal["mode"]): Promise<string> {
+		const createdAt = new Date().toISOString();
+		this.journal = { createdAt, mode, entries: [] };
+		this.entryIndexes.clear();
+		this.journalPath = `${this.journalDir}/deletion-${mode}-${createdAt.replace(
+			/[:.]/g,
+			"-",
+		)}${DELETION_JOURNAL_EXTENSION}`;
+		await Deno.mkdir(this.journalDir, { recursive: true });
+		await this.append({ type: "journal", createdAt, mode });
+		return this.journalPath;
+	}
+
+	/**
+	 * Open an existing journal, e.g. to restore from it
+	 */
+	async load(path: string): Promise<DeletionJournal> {
+		const journal = parseJournal(await Deno.readTextFile(path), path);
+		this.journal = journal;
+		this.journalPath = path;
+		this.entryIndexes = new Map(
+			journal.entries.map((entry, index) => [entry, index]),
+		);
+		return journal;
+	}
+
+	/**
+	 * Journals in the journal folder, newest first
+	 */
+	async listJournals(): Promise<DeletionJournalInfo[]> {
+		const journals: DeletionJournalInfo[] = [];
+		try {
+			for await (const file of Deno.readDir(this.journalDir)) {
+				if (!file.isFile || !file.name.endsWith(DELETION_JOURNAL_EXTENSION)) {
+					continue;
+				}
+				const path = `${this.journalDir}/${file.name}`;
+				try {
+					const journal = parseJournal(await Deno.readTextFile(path), path);
+					journals.push({
+						path,
+						createdAt: journal.createdAt,
+						mode: journal.mode,
+						entries: journal.entries.length,
+						restored: journal.entries.filter(
+							(entry) => entry.status === "restored",
+						).length,
+					});
+				} catch (error) {
+					debug(`Ignoring unreadable deletion journal ${path}: ${error}`);
+				}
+			}
+		} catch (error) {
+			if (!(error instanceof Deno.errors.NotFound)) {
+				throw error;
+			}
+		}
+		return journals.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+	}
+
+	/**
+	 * Add an entry as "pending" and save it before anything is deleted
+	 */
+	async record(
+		entry: Omit<DeletionJournalEntry, "status">,
+	): Promise<DeletionJournalEntry> {
+		if (!this.journal) {
+			throw new Error("No deletion journal started");
+		}
+		const recorded: DeletionJournalEntry = { ...entry, status: "pending" };
+		const index = this.journal.entries.push(recorded) - 1;
+		this.entryIndexes.set(recorded, index);
+		await this.append({ type: "entry", index, entry: recorded });
+		return recorded;
+	}
+
+	/**
+	 * Record the outcome of an entry (or its restore) in the journal
+	 */
+	async update(
+		entry: DeletionJournalEntry,
+		changes: Partial<
+			Pick<
+				DeletionJournalEntry,
+				"status" | "error" | "failedComponentIds" | "restoredAt"
+			>
+		>,
+	): Promise<void> {
+		const index = this.entryIndexes.get(entry);
+		if (index === undefined) {
+			throw new Error("Entry is not in the open deletion journal");
+		}
+		Object.assign(entry, changes);
+		await this.append({ type: "update", index, changes });
+	}
+
+	/**
+	 * Capture a version with its custom attribute values and list memberships
+	 * @param versionId - The version about to be deleted (or changed)
+	 * @param components - The components to record, with their locations
+	 */
+	async snapshotVersion(
+		versionId: string,
+		components: Component[],
+	): Promise<{
+		version: JournalVersionSnapshot;
+		components: JournalComponentSnapshot[];
+	}> {
+		const [versionResult, attributeResult, listResult] = await Promise.all([
+			this.session.query(`
+        select id, asset.name, ${JOURNALED_VERSION_FIELDS.join(", ")}
+        from AssetVersion
+        where id is "${versionId}"
+      `),
+			this.session.query(`
+        select configuration_id, configuration.key, value
+        from CustomAttributeValue
+        where entity_id is "${versionId}"
+      `),
+			this.session.query(`
+        select id, list_id, list.name
+        from ListObject
+        where entity_id is "${versionId}"
+      `),
+		]);
+
+		const record = versionResult.data?.[0] as
+			| Record<string, unknown>
+			| undefined;
+		if (!record) {
+			throw new Error(`Asset version not found: ${versionId}`);
+		}
+
+		const fields = Object.fromEntries(
+			JOURNALED_VERSION_FIELDS.map((field) => [field, record[field] ?? null]),
+		);
+		const assetName =
+			((record.asset as Record<string, unknown> | null)?.name as string) ||
+			"Unknown";
+
+		return {
+			version: {
+				id: versionId,
+				label: `${assetName} v${record.version ?? "?"}`,
+				fields,
+				custom_attributes: (
+					(attributeResult.data ?? []) as Array<Record<string, unknown>>
+				).map((value) => ({
+					configuration_id: value.configuration_id as string,
+					key: (value.configuration as Record<string, unknown> | null)
+						?.key as string | undefined,
+					value: value.value,
+				})),
+				lists: ((listResult.data ?? []) as Array<Record<string, unknown>>).map(
+					(item) => ({
+						list_id: item.list_id as string,
+						list_name: (item.list as Record<string, unknown> | null)?.name as
+							| string
+							| undefined,
+					}),
+				),
+			},
+			components: components.map((component) =>
+				this.snapshotComponent(component),
+			),
+		};
+	}
+
+	private snapshotComponent(component: Component): JournalComponentSnapshot {
+		return {
+			id: component.id,
+			name: component.name,
+			file_type: component.file_type,
+			size: component.size || 0,
+			entity_type: component.__entity_type__,
+			padding: component.padding,
+			locations: (component.component_locations ?? []).map(
+				(componentLocation) => ({
+					location_id: componentLocation.location?.id,
+					location_name: componentLocation.location?.name,
+					resource_identifier: componentLocation.resource_identifier,
+				}),
+			),
+			members: component.members?.map((member) =>
+				this.snapshotComponent(member),
+			),
+		};
+	}
+
+	/**
+	 * Append a line to the journal file, one write at a time so lines of
+	 * concurrent deletions never interleave
+	 */
+	private append(line: JournalLine): Promise<void> {
+		const write = async () => {
+			if (!this.journalPath) return;
+			await Deno.writeTextFile(this.journalPath, `${JSON.stringify(line)}\n`, {
+				append: true,
+			});
+		};
+		this.writing = this.writing.then(write, write);
+		return this.writing;
+	}
+}
@@ -0,0 +1,252 @@
+import type { Session } from "@ftrack/api";
+import { debug } from "../utils/debug.ts";
+import { WildcardResolver } from "../utils/wildcardResolver.ts";
+import { DEFAULT_LATEST_VERSION_MAPPING } from "../utils/latestVersionMapping.ts";
+import type {
+	DeletionProtectionRules,
+	ProtectedVersion,
+} from "../types/deleteMedia.ts";
+import type { LatestVersionMapping } from "../types/latestVersionMapping.ts";
+
+/** Phrase to type (or pass to --override-protection) to delete protected versions */
+export const PROTECTION_OVERRIDE_PHRASE = "OVERRIDE PROTECTION";
+
+/** Protections applied to every deletion unless configured otherwise */
+export const DEFAULT_PROTECTION_RULES: DeletionProtectionRules = {
+	delivered: true,
+	latestDelivered: true,
+	latestVersion: true,
+	reviewSessions: true,
+	lists: ["*"],
+};
+
+// The on/off protections; `lists` is the only other rule
+const PROTECTION_FLAGS = [
+	"delivered",
+	"latestDelivered",
+	"latestVersion",
+	"reviewSessions",
+] as const;
+
+/**
+ * Add protections to `base`. Rules in `extra` that would turn a protection
+ * off are ignored; see relaxedProtections.
+ */
+export function addProtections(
+	base: DeletionProtectionRules,
+	extra: DeletionProtectionRules = {},
+): DeletionProtectionRules {
+	const rules: DeletionProtectionRules = {
+		lists: [...new Set([...(base.lists ?? []), ...(extra.lists ?? [])])],
+	};
+	for (const flag of PROTECTION_FLAGS) {
+		rules[flag] = !!(base[flag] || extra[flag]);
+	}
+	return rules;
+}
+
+/**
+ * The rules of `extra` that turn off a protection of `base`, e.g.
+ * ["latestVersion", "lists"]
+ */
+export function relaxedProtections(
+	base: DeletionProtectionRules,
+	extra: DeletionProtectionRules = {},
+): string[] {
+	const relaxed: string[] = PROTECTION_FLAGS.filter(
+		(flag) => base[flag] && extra[flag] === false,
+	);
+	const lists = extra.lists;
+	if (lists && (base.lists ?? []).some((pattern) => !lists.includes(pattern))) {
+		relaxed.push("lists");
+	}
+	return relaxed;
+}
+
+/** IDs per query, to keep queries short */
+const LOOKUP_BATCH_SIZE = 100;
+
+interface VersionRecord {
+	id: string;
+	version: number;
+	asset_id: string;
+	asset?: {
+		name?: string;
+		parent?: { id?: string } | null;
+	} | null;
+}
+
+/**
+ * DeletionProtectionService
+ * - Finds the versions a deletion must not touch: delivered versions (the
+ *   Delivered / date sent attributes of the latest version mapping), versions
+ *   the mapping's link attribute points to, the newest version of each
+ *   asset, and versions in review sessions or on lists (directly or through
+ *   their shot).
+ */
+export class DeletionProtectionService {
+	constructor(
+		private session: Session,
+		private mapping: LatestVersionMapping = DEFAULT_LATEST_VERSION_MAPPING,
+	) {}
+
+	/**
+	 * Find the protected versions among `versionIds`
+	 * @param rules - The protections to check
+	 * @returns The protected versions, with every reason that applies
+	 */
+	async findProtectedVersions(
+		versionIds: string[],
+		rules: DeletionProtectionRules,
+	): Promise<ProtectedVersion[]> {
+		if (versionIds.length === 0) return [];
+
+		const versions = (await this.queryInBatches(
+			versionIds,
+			(ids) => `
+        select id, version, asset_id, asset.name, asset.parent.id
+        from AssetVersion where id in (${ids})
+      `,
+		)) as unknown as VersionRecord[];
+		const ids = versions.map((version) => version.id);
+		const reasons = new Map<string, string[]>();
+		const protect = (versionId: string, reason: string) => {
+			const versionReasons = reasons.get(versionId) ?? [];
+			if (!versionReasons.includes(reason)) versionReasons.push(reason);
+			reasons.set(versionId, versionReasons);
+		};
+
+		if (rules.delivered) {
+			const { deliveredKey, sentDateKey } = this.mapping;
+			for (const row of await this.queryInBatches(
+				ids,
+				(batch) => `
+          select entity_id, value, configuration.key from CustomAttributeValue
+          where configuration.key in ("${deliveredKey}", "${sentDateKey}")
+          and entity_id in (${batch})
+        `,
+			)) {
+				const key = (row.configuration as Record<string, unknown> | null)
+					?.key;
+				if (
+					(key === deliveredKey && row.value === true) ||
+					(key === sentDateKey && row.value)
+				) {
+					protect(row.entity_id as string, "delivered");
+				}
+			}
+		}
+
+		if (rules.latestDelivered) {
+			for (const row of await this.queryInBatches(
+				ids,
+				(batch) => `
+          select to_id from CustomAttributeLink
+          where configuration.key is "${this.mapping.linkKey}"
+          and to_id in (${batch})
+        `,
+			)) {
+				protect(row.to_id as string, "latest delivered version");
+			}
+		}
+
+		if (rules.latestVersion) {
+			const latest = new Map<string, number>();
+			const assetIds = new Set(versions.map((version) => version.asset_id));
+			for (const row of await this.queryInBatches(
+				[...assetIds],
+				(batch) =>
+					`select asset_id, version from AssetVersion where asset_id in (${batch})`,
+			)) {
+				const assetId = row.asset_id as string;
+				latest.set(
+					assetId,
+					Math.max(latest.get(assetId) ?? 0, row.version as number),
+				);
+			}
+			for (const version of versions) {
+				if (version.version >= (latest.get(version.asset_id) ?? 0)) {
+					protect(version.id, "latest version of its asset");
+				}
+			}
+		}
+
+		if (rules.reviewSessions) {
+			for (const row of await this.queryInBatches(
+				ids,
+				(batch) => `
+          select version_id, review_session.name from ReviewSessionObject
+          where version_id in (${batch})
+        `,
+			)) {
+				const name = (row.review_session as Record<string, unknown> | null)
+					?.name;
+				protect(row.version_id as string, `in review session "${name}"`);
+			}
+		}
+
+		if (rules.lists?.length) {
+			const patterns = rules.lists;
+			const shotIds = versions
+				.map((version) => version.asset?.parent?.id)
+				.filter((id): id is string => !!id);
+			const listsByEntity = new Map<string, string[]>();
+			for (const row of await this.queryInBatches(
+				[...new Set([...ids, ...shotIds])],
+				(batch) =>
+					`select entity_id, list.name from ListObject where entity_id in (${batch})`,
+			)) {
+				const listName = (row.list as Record<string, unknown> | null)
+					?.name as string | undefined;
+				if (
+					listName &&
+					WildcardResolver.resolve(patterns, [listName]).length > 0
+				) {
+					const entityId = row.entity_id as string;
+					listsByEntity.set(entityId, [
+						...(listsByEntity.get(entityId) ?? []),
+						listName,
+					]);
+				}
+			}
+			for (const version of versions) {
+				for (const listName of [
+					...(listsByEntity.get(version.id) ?? []),
+					...(listsByEntity.get(version.asset?.parent?.id ?? "") ?? []),
+				]) {
+					protect(version.id, `on list "${listName}"`);
+				}
+			}
+		}
+
+		debug(
+			`Deletion protection: ${reasons.size} of ${versionIds.length} versions protected`,
+		);
+		return versions
+			.filter((version) => reasons.has(version.id))
+			.map((version) => ({
+				versionId: version.id,
+				label: `${version.asset?.name || "Unknown"} v${version.version}`,
+				reason: reasons.get(version.id)!.join(", "),
+			}));
+	}
+
+	/**
+	 * Run a query for many IDs in batches, returning all rows
+	 * @param buildQuery - Builds the query from a quoted, comma-separated ID list
+	 */
+	private async queryInBatches(
+		ids: string[],
+		buildQuery: (quotedIds: string) => string,
+	): Promise<Array<Record<string, unknown>>> {
+		const rows: Array<Record<string, unknown>> = [];
+		for (let i = 0; i < ids.length; i += LOOKUP_BATCH_SIZE) {
+			const batch = ids.slice(i, i + LOOKUP_BATCH_SIZE);
+			const result = await this.session.query(
+				buildQuery(batch.map((id) => `"${id}"`).join(", ")),
+			);
+			rows.push(...((result.data ?? []) as Array<Record<string, unknown>>));
+		}
+		return rows;
+	}
+}
@@ -0,0 +1,299 @@
+import type { Session } from "@ftrack/api";
+import { debug } from "../utils/debug.ts";
+import { DeletionService } from "./deletionService.ts";
+import type {
+	DeletionResultSummary,
+	DryRunReportItem,
+} from "../types/deleteMedia.ts";
+
+// Session with getComponentUrl, which resolves thumbnail components
+type SessionWithGetComponentUrl = Session & {
+	getComponentUrl?: (componentId: string) => Promise<string | null>;
+};
+
+/** IDs per thumbnail lookup query */
+const LOOKUP_BATCH_SIZE = 100;
+const NO_SHOT = "(no shot)";
+
+/** One version of an HTML report, with the rows of the dry-run report */
+interface ReportVersion {
+	versionId: string;
+	label: string;
+	status?: string;
+	user?: string;
+	bytes: number;
+	items: DryRunReportItem[];
+}
+
+/**
+ * DeletionReportService
+ * - Writes a dry-run preview as a self-contained HTML page that producers
+ *   can review and sign off before a deletion is confirmed: versions grouped
+ *   by shot, with thumbnails embedded as data URIs, status, user, sizes and
+ *   totals.
+ */
+export class DeletionReportService {
+	constructor(private session: Session) {}
+
+	/**
+	 * Write the HTML report of a dry-run preview
+	 * @param filePath - The .html file to write
+	 */
+	async writeHtmlReport(
+		filePath: string,
+		summary: DeletionResultSummary,
+		report: DryRunReportItem[],
+	): Promise<void> {
+		const versionIds = [...new Set(report.map((item) => item.assetVersionId))];
+		const thumbnails = await this.fetchThumbnails(versionIds);
+		await Deno.writeTextFile(
+			filePath,
+			DeletionReportService.renderHtml(summary, report, thumbnails),
+		);
+		debug(`HTML report written to ${filePath}`);
+	}
+
+	/**
+	 * Fetch the thumbnails of versions as data URIs. Versions without a
+	 * thumbnail, or whose thumbnail cannot be downloaded, are left out.
+	 * @returns The data URI for each version ID
+	 */
+	async fetchThumbnails(versionIds: string[]): Promise<Map<string, string>> {
+		const thumbnails = new Map<string, string>();
+		const session = this.session as SessionWithGetComponentUrl;
+		if (typeof session.getComponentUrl !== "function") {
+			debug("Session does not have getComponentUrl method");
+			return thumbnails;
+		}
+
+		for (let i = 0; i < versionIds.length; i += LOOKUP_BATCH_SIZE) {
+			const batch = versionIds.slice(i, i + LOOKUP_BATCH_SIZE);
+			const result = await session.query(`
+        select id, thumbnail_id from AssetVersion
+        where id in (${batch.map((id) => `"${id}"`).join(", ")})
+      `);
+			for (const version of (result.data ?? []) as Array<{
+				id: string;
+				thumbnail_id?: string | null;
+			}>) {
+				if (!version.thumbnail_id) continue;
+				try {
+					const url = await session.getComponentUrl(version.thumbnail_id);
+					if (!url) continue;
+					const response = await fetch(url);
+					if (!response.ok) {
+						await response.body?.cancel();
+						debug(
+							`Thumbnail of version ${version.id}: HTTP ${response.status}`,
+						);
+						continue;
+					}
+					const contentType = response.headers.get("content-type") ?? "";
+					const bytes = new Uint8Array(await response.arrayBuffer());
+					thumbnails.set(
+						version.id,
+						`data:${contentType.startsWith("image/") ? contentType : "image/jpeg"};base64,${toBase64(bytes)}`,
+					);
+				} catch (error) {
+					debug(`Failed to fetch thumbnail of version ${version.id}: ${error}`);
+				}
+			}
+		}
+		return thumbnails;
+	}
+
+	/**
+	 * Build the HTML page for a dry-run preview
+	 * @param thumbnails - Data URI for each version ID, see fetchThumbnails
+	 */
+	static renderHtml(
+		summary: DeletionResultSummary,
+		report: DryRunReportItem[],
+		thumbnails: Map<string, string>,
+		createdAt: Date = new Date(),
+	): string {
+		const shots = groupByShot(report);
+		const formatBytes = (bytes: number) => DeletionService.formatBytes(bytes);
+
+		const totals: Array<[string, string]> = [
+			["Versions", String(summary.versionsDeleted)],
+			["Components", String(summary.componentsDeleted)],
+			["Total size", formatBytes(summary.bytesDeleted)],
+			["Shots", String(shots.size)],
+		];
+		for (const [location, bytes] of Object.entries(
+			summary.bytesByLocation ?? {},
+		)) {
+			totals.push([`Freed in ${location}`, formatBytes(bytes)]);
+		}
+		if (summary.protectedVersions?.length) {
+			totals.push(["Protected (kept)", String(summary.protectedVersions.length)]);
+		}
+		if (summary.failures.length) {
+			totals.push(["Failures", String(summary.failures.length)]);
+		}
+
+		const shotSections = [...shots.entries()].map(([shot, versions]) => {
+			const shotBytes = versions.reduce(
+				(total, version) => total + version.bytes,
+				0,
+			);
+			const rows = versions.map((version) => {
+				const thumbnail = thumbnails.get(version.versionId);
+				const components = version.items
+					.filter((item) => item.operation !== "delete_version")
+					.map((item) => {
+						const location =
+							item.operation === "remove_from_location"
+								? ` from ${item.locations?.join(", ")}`
+								: "";
+						return `<li>${escapeHtml(item.componentName ?? item.componentId ?? "")} <span class="muted">(${escapeHtml(item.componentType ?? "unknown")}${escapeHtml(location)}, ${formatBytes(item.size ?? 0)})</span></li>`;
+					})
+					.join("");
+				const action = version.items.some(
+					(item) => item.operation === "delete_version",
+				)
+					? "Delete version"
+					: version.items.some(
+								(item) => item.operation === "remove_from_location",
+							)
+						? "Remove from locations"
+						: "Delete components";
+				return `
+      <tr>
+        <td class="thumb">${thumbnail ? `<img src="${thumbnail}" alt="">` : `<span class="muted">No thumbnail</span>`}</td>
+        <td><strong>${escapeHtml(version.label)}</strong><br><span class="muted">${escapeHtml(version.versionId)}</span></td>
+        <td>${escapeHtml(version.status ?? "")}</td>
+        <td>${escapeHtml(version.user ?? "")}</td>
+        <td>${action}<ul>${components}</ul></td>
+        <td class="size">${formatBytes(version.bytes)}</td>
+      </tr>`;
+			});
+			return `
+  <section>
+    <h2>${escapeHtml(shot)} <span class="muted">${versions.length} version(s), ${formatBytes(shotBytes)}</span></h2>
+    <table>
+      <thead><tr><th></th><th>Version</th><th>Status</th><th>User</th><th>Components</th><th>Size</th></tr></thead>
+      <tbody>${rows.join("")}
+      </tbody>
+    </table>
+  </section>`;
+		});
+
+		const listSection = (title: string, items: string[]) =>
+			items.length === 0
+				? ""
+				: `
+  <section>
+    <h2>${title}</h2>
+    <ul>${items.join("")}</ul>
+  </section>`;
+		const protectedSection = listSection(
+			"Protected versions (kept)",
+			(summary.protectedVersions ?? []).map(
+				(version) =>
+					`<li>${escapeHtml(version.label)} <span class="muted">(${escapeHtml(version.versionId)})</span>: ${escapeHtml(version.reason)}</li>`,
+			),
+		);
+		const failureSection = listSection(
+			"Failures",
+			summary.failures.map(
+				(failure) =>
+					`<li>${escapeHtml(failure.id)}: ${escapeHtml(failure.reason)}</li>`,
+			),
+		);
+		const totalRows = totals
+			.map(
+				([label, value]) =>
+					`<tr><td>${escapeHtml(label)}</td><td>${escapeHtml(value)}</td></tr>`,
+			)
+			.join("\n    ");
+
+		return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>Delete Media - Dry-Run Report</title>
+  <style>
+    body { font-family: system-ui, sans-serif; margin: 2rem; color: #222; }
+    h2 { border-bottom: 1px solid #ccc; padding-bottom: 0.25rem; }
+    table { border-collapse: collapse; width: 100%; }
+    th, td { border-bottom: 1px solid #eee; padding: 0.5rem; text-align: left; vertical-align: top; }
+    ul { margin: 0.25rem 0 0; padding-left: 1.25rem; }
+    .muted { color: #777; font-weight: normal; font-size: 0.9em; }
+    .thumb img { max-width: 160px; max-height: 90px; }
+    .size { text-align: right; white-space: nowrap; }
+    .totals td:first-child { font-weight: bold; }
+    .approval { margin-top: 3rem; }
+    .approval td { border: none; padding: 1.5rem 2rem 0 0; }
+  </style>
+</head>
+<body>
+  <h1>Delete Media - Dry-Run Report</h1>
+  <p class="muted">Generated ${escapeHtml(createdAt.toISOString())}. Nothing has been deleted yet.</p>
+  <table class="totals">
+    ${totalRows}
+  </table>${shotSections.join("")}${protectedSection}${failureSection}
+  <table class="approval">
+    <tr><td>Approved by: ____________________</td><td>Date: ____________</td></tr>
+  </table>
+</body>
+</html>
+`;
+	}
+}
+
+/**
+ * Group the rows of a dry-run report by shot and version, in report order
+ */
+function groupByShot(
+	report: DryRunReportItem[],
+): Map<string, ReportVersion[]> {
+	const versions = new Map<string, ReportVersion>();
+	const shots = new Map<string, ReportVersion[]>();
+	for (const item of report) {
+		let version = versions.get(item.assetVersionId);
+		if (!version) {
+			version = {
+				versionId: item.assetVersionId,
+				label: item.assetVersionLabel ?? item.assetVersionId,
+				bytes: 0,
+				items: [],
+			};
+			versions.set(item.assetVersionId, version);
+			const shot = item.shotName || NO_SHOT;
+			shots.set(shot, [...(shots.get(shot) ?? []), version]);
+		}
+		version.status ??= item.status;
+		version.user ??= item.user;
+		version.items.push(item);
+	}
+
+	for (const version of versions.values()) {
+		// A whole-version row already holds the size of all its components
+		const versionRow = version.items.find(
+			(item) => item.operation === "delete_version",
+		);
+		version.bytes = versionRow
+			? (versionRow.size ?? 0)
+			: version.items.reduce((total, item) => total + (item.size ?? 0), 0);
+	}
+	return shots;
+}
+
+function escapeHtml(value: string): string {
+	return value
+		.replace(/&/g, "&amp;")
+		.replace(/</g, "&lt;")
+		.replace(/>/g, "&gt;")
+		.replace(/"/g, "&quot;");
+}
+
+function toBase64(bytes: Uint8Array): string {
+	let binary = "";
+	// Chunked, as spreading a large array into fromCharCode overflows the stack
+	for (let i = 0; i < bytes.length; i += 0x8000) {
+		binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+	}
+	return btoa(binary);
+}
@@ -0,0 +1,299 @@
+import type { Session } from "@ftrack/api";
+import { debug } from "../utils/debug.ts";
+import type { DeletionJournalService } from "./deletionJournalService.ts";
+import type {
+	DeletionJournalEntry,
+	JournalComponentSnapshot,
+	RestoreResult,
+} from "../types/deletionJournal.ts";
+
+/** Files stored here are removed with their component and cannot come back */
+const SERVER_LOCATION_NAME = "ftrack.server";
+
+interface RestoreContext {
+	apply: boolean;
+	result: RestoreResult;
+}
+
+/**
+ * Service recreating deleted entities from a deletion journal
+ *
+ * Versions, components, component locations, custom attribute values and
+ * list memberships are recreated with their original ids. What cannot come
+ * back - files stored in ftrack.server, thumbnails, entities whose parent is
+ * gone - is reported instead. Anything that still exists is left untouched,
+ * so restoring a journal twice is harmless.
+ */
+export class DeletionRestoreService {
+	constructor(
+		private session: Session,
+		private journalService: DeletionJournalService,
+	) {}
+
+	/**
+	 * Restore every entry of a journal
+	 * @param journalPath - The journal written by the deletion
+	 * @param apply - Recreate the entities, or only report what would be restored
+	 */
+	async restoreJournal(
+		journalPath: string,
+		apply: boolean,
+	): Promise<RestoreResult[]> {
+		const journal = await this.journalService.load(journalPath);
+		const results: RestoreResult[] = [];
+
+		for (const entry of journal.entries) {
+			const result = await this.restoreEntry(entry, apply);
+			results.push(result);
+			if (apply && result.restored.length > 0) {
+				await this.journalService.update(entry, {
+					status: "restored",
+					restoredAt: new Date().toISOString(),
+				});
+			}
+		}
+
+		return results;
+	}
+
+	private async restoreEntry(
+		entry: DeletionJournalEntry,
+		apply: boolean,
+	): Promise<RestoreResult> {
+		const { version } = entry;
+		const context: RestoreContext = {
+			apply,
+			result: { label: version.label, restored: [], notRestored: [] },
+		};
+		const { result } = context;
+
+		const versionExists = await this.exists("AssetVersion", version.id);
+		if (!versionExists) {
+			if (entry.operation !== "delete_version") {
+				result.notRestored.push(
+					"Components: the version has been deleted since",
+				);
+				return result;
+			}
+
+			const assetId = version.fields.asset_id as string;
+			if (!(await this.exists("Asset", assetId))) {
+				result.notRestored.push(
+					`Version: its asset ${assetId} no longer exists`,
+				);
+				return result;
+			}
+
+			// The thumbnail component is recreated without its image
+			const { thumbnail_id, ...fields } = version.fields;
+			const created = await this.attempt(context, "Version", () =>
+				this.session.create("AssetVersion", {
+					id: version.id,
+					...Object.fromEntries(
+						Object.entries(fields).filter(([, value]) => value !== null),
+					),
+				}),
+			);
+			if (!created) {
+				return result;
+			}
+			if (thumbnail_id) {
+				result.notRestored.push(
+					"Thumbnail: the image was deleted with the version",
+				);
+			}
+		}
+
+		for (const component of entry.components) {
+			if (entry.operation === "remove_from_location") {
+				await this.restoreComponentLocations(context, component);
+				continue;
+			}
+			if (await this.exists("Component", component.id)) continue;
+			await this.restoreComponent(context, component, version.id);
+		}
+
+		if (!versionExists) {
+			for (const attribute of version.custom_attributes) {
+				await this.attempt(
+					context,
+					`Custom attribute ${attribute.key ?? attribute.configuration_id}`,
+					() =>
+						this.session.update(
+							"CustomAttributeValue",
+							[attribute.configuration_id, version.id],
+							{ value: attribute.value },
+						),
+				);
+			}
+
+			for (const membership of version.lists) {
+				const listName = membership.list_name ?? membership.list_id;
+				if (!(await this.exists("List", membership.list_id))) {
+					result.notRestored.push(`List ${listName}: the list no longer exists`);
+					continue;
+				}
+				await this.attempt(context, `List ${listName}`, () =>
+					this.session.create("ListObject", {
+						list_id: membership.list_id,
+						entity_id: version.id,
+					}),
+				);
+			}
+		}
+
+		return result;
+	}
+
+	/**
+	 * Recreate a component with its frames and locations. Files on disk
+	 * locations are left untouched by a deletion, so registering the component
+	 * there again brings the media back; files in ftrack.server are gone.
+	 */
+	private async restoreComponent(
+		context: RestoreContext,
+		component: JournalComponentSnapshot,
+		versionId: string,
+	): Promise<void> {
+		const members = component.members ?? [];
+		const frames = members.length > 0 ? ` (${members.length} frames)` : "";
+		const entityType = component.entity_type ?? "FileComponent";
+
+		const created = await this.attempt(
+			context,
+			`Component ${component.name}${frames}`,
+			async () => {
+				await this.session.create(entityType, {
+					id: component.id,
+					name: component.name,
+					file_type: component.file_type,
+					size: component.size,
+					version_id: versionId,
+					...(entityType === "SequenceComponent"
+						? { padding: component.padding ?? 0 }
+						: {}),
+				});
+				// Frames are only mentioned when they fail
+				for (const member of members) {
+					await this.session.create("FileComponent", {
+						id: member.id,
+						name: member.name,
+						file_type: member.file_type,
+						size: member.size,
+						container_id: component.id,
+					});
+					for (const location of member.locations) {
+						if (location.location_name === SERVER_LOCATION_NAME) continue;
+						await this.createComponentLocation(member.id, location);
+					}
+				}
+			},
+		);
+		if (!created) return;
+
+		for (const location of component.locations) {
+			const locationName = location.location_name ?? location.location_id;
+			if (locationName === SERVER_LOCATION_NAME) {
+				context.result.notRestored.push(
+					`Component ${component.name}: its file in ${SERVER_LOCATION_NAME} was deleted`,
+				);
+				continue;
+			}
+			await this.attempt(
+				context,
+				`Component ${component.name}: registered in ${locationName}`,
+				() => this.createComponentLocation(component.id, location),
+			);
+		}
+	}
+
+	/**
+	 * Register a component (and its frames) again in the locations it was
+	 * removed from
+	 */
+	private async restoreComponentLocations(
+		context: RestoreContext,
+		component: JournalComponentSnapshot,
+	): Promise<void> {
+		if (!(await this.exists("Component", component.id))) {
+			context.result.notRestored.push(
+				`Component ${component.name}: it has been deleted since`,
+			);
+			return;
+		}
+
+		for (const location of component.locations) {
+			const locationName = location.location_name ?? location.location_id;
+			if (locationName === SERVER_LOCATION_NAME) {
+				context.result.notRestored.push(
+					`Component ${component.name}: its file in ${SERVER_LOCATION_NAME} was deleted`,
+				);
+				continue;
+			}
+			const registrations = [component, ...(component.members ?? [])].flatMap(
+				(registered) =>
+					registered.locations
+						.filter((candidate) => candidate.location_id === location.location_id)
+						.map((candidate) => ({
+							componentId: registered.id,
+							location: candidate,
+						})),
+			);
+			await this.attempt(
+				context,
+				`Component ${component.name}: registered in ${locationName}`,
+				async () => {
+					for (const { componentId, location } of registrations) {
+						const existing = await this.session.query(`
+              select id from ComponentLocation
+              where component_id is "${componentId}"
+              and location_id is "${location.location_id}"
+            `);
+						if (existing.data?.length) continue;
+						await this.createComponentLocation(componentId, location);
+					}
+				},
+			);
+		}
+	}
+
+	/**
+	 * Run a restore step (only when applying) and report it as restored or not
+	 * @returns Whether the step succeeded
+	 */
+	private async attempt(
+		context: RestoreContext,
+		description: string,
+		action: () => Promise<unknown>,
+	): Promise<boolean> {
+		try {
+			if (context.apply) await action();
+			context.result.restored.push(description);
+			return true;
+		} catch (error) {
+			debug(`Restore of ${description} failed: ${error}`);
+			context.result.notRestored.push(
+				`${description}: ${error instanceof Error ? error.message : error}`,
+			);
+			return false;
+		}
+	}
+
+	private createComponentLocation(
+		componentId: string,
+		location: JournalComponentSnapshot["locations"][number],
+	): Promise<unknown> {
+		return this.session.create("ComponentLocation", {
+			component_id: componentId,
+			location_id: location.location_id,
+			resource_identifier: location.resource_identifier,
+		});
+	}
+
+	private async exists(entityType: string, id: string): Promise<boolean> {
+		const response = await this.session.query(
+			`select id from ${entityType} where id is "${id}"`,
+		);
+		return (response.data?.length ?? 0) > 0;
+	}
+}
@@ -1,22 +1,52 @@
 import type { Session } from "@ftrack/api";
 import type {
 	ComponentDeletionChoice,
+	DeletionProtectionRules,
 	DeletionResultSummary,
 	DryRunReportItem,
+	ProtectedVersion,
 } from "../types/deleteMedia.ts";
-import type { Component, ComponentLocation } from "../types/index.ts";
+import type { DeletionJournalEntry } from "../types/deletionJournal.ts";
+import type { LatestVersionMapping } from "../types/latestVersionMapping.ts";
+import type {
+	RetentionEvaluation,
+	RetentionPolicy,
+} from "../types/retentionPolicy.ts";
+import type {
+	Component,
+	ComponentLocation,
+	ComponentRulesConfig,
+} from "../types/index.ts";
 import { ComponentService } from "./componentService.ts";
+import { DeletionJournalService } from "./deletionJournalService.ts";
+import {
+	addProtections,
+	DEFAULT_PROTECTION_RULES,
+	DeletionProtectionService,
+	relaxedProtections,
+} from "./deletionProtectionService.ts";
+import { FilterService } from "./filterService.ts";
 import type { SessionService } from "./session.ts";
 import type { QueryService } from "./queries.ts";
 import { debug } from "../utils/debug.ts";
+import { formatFrameRange } from "../utils/imageSequence.ts";
+import { WildcardResolver } from "../utils/wildcardResolver.ts";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
 
 /**
  * DeletionService
  * - Provides deletion operations with dry-run support and batching.
  * - Fetches real component data for size estimation and type filtering.
+ * - Journals what an executed deletion removes, before removing it.
+ * - Skips protected versions (delivered, latest, in review) unless the
+ *   protection is overridden.
  */
 export class DeletionService {
 	private componentService: ComponentService;
+	private journalService: DeletionJournalService;
+	private protectionService: DeletionProtectionService;
+	private protectionRules: DeletionProtectionRules = DEFAULT_PROTECTION_RULES;
 
 	constructor(
 		private session: Session,
@@ -24,23 +54,171 @@ export class DeletionService {
 		private queryService: QueryService,
 	) {
 		this.componentService = new ComponentService(sessionService, queryService);
+		this.journalService = new DeletionJournalService(session);
+		this.protectionService = new DeletionProtectionService(session);
+	}
+
+	/**
+	 * Replace the default protection rules
+	 */
+	setProtectionRules(rules: DeletionProtectionRules): void {
+		this.protectionRules = rules;
+	}
+
+	/**
+	 * Protect delivered versions by the attributes of this mapping
+	 */
+	setLatestVersionMapping(mapping: LatestVersionMapping): void {
+		this.protectionService = new DeletionProtectionService(
+			this.session,
+			mapping,
+		);
+	}
+
+	/**
+	 * Write deletion journals to this folder instead of the preferences directory
+	 */
+	setJournalDirectory(journalDir: string): void {
+		this.journalService.setDirectory(journalDir);
+	}
+
+	/**
+	 * Classify components with the rules, and allow deleting by saved profile
+	 */
+	setComponentRules(config: ComponentRulesConfig): void {
+		this.componentService.setComponentRules(config);
+	}
+
+	/**
+	 * Names of the saved (non built-in) component profiles
+	 */
+	getComponentProfileNames(): string[] {
+		return this.componentService.getCustomProfileNames();
+	}
+
+	/**
+	 * Find the versions a retention policy deletes, leaving out protected ones
+	 * @param policy - A policy accepted by validateRetentionPolicies
+	 * @param overrideProtection - Let the policy turn protections off; without
+	 *   it the policy's protect rules can only add protections
+	 * @param now - Reference date for olderThanDays
+	 */
+	async evaluateRetentionPolicy(
+		policy: RetentionPolicy,
+		overrideProtection = false,
+		now: Date = new Date(),
+	): Promise<RetentionEvaluation> {
+		const { match, protect } = policy;
+		const clauses: string[] = [];
+
+		const filters = new FilterService().buildWhere({
+			status: { names: match.statuses },
+			user: { usernames: match.users },
+			date:
+				match.olderThanDays !== undefined
+					? {
+							kind: "older",
+							to: new Date(now.getTime() - match.olderThanDays * DAY_MS)
+								.toISOString()
+								.slice(0, 10),
+						}
+					: undefined,
+		});
+		if (filters) clauses.push(filters);
+		if (match.shots?.length) {
+			clauses.push(
+				`(${WildcardResolver.buildFtrackConditions(
+					match.shots,
+					"asset.parent.name",
+				).join(" or ")})`,
+			);
+		}
+		if (match.assetTypes?.length) {
+			clauses.push(
+				`asset.type.name in (${match.assetTypes
+					.map((name) => `"${name}"`)
+					.join(", ")})`,
+			);
+		}
+
+		const result = await this.queryService.executeProjectScopedQuery(`
+      select id, asset.parent.name from AssetVersion
+      where ${clauses.join(" and ")}
+    `);
+		let versions = (result.data ?? []) as Array<{
+			id: string;
+			asset?: { parent?: { name?: string } | null } | null;
+		}>;
+		// Regex shot patterns can only be applied after the query
+		if (match.shots?.length) {
+			const patterns = match.shots;
+			versions = versions.filter(
+				(version) =>
+					WildcardResolver.resolve(patterns, [
+						version.asset?.parent?.name ?? "",
+					]).length > 0,
+			);
+		}
+		debug(
+			`Retention policy "${policy.name}": ${versions.length} matching versions`,
+		);
+
+		const protectionRules = overrideProtection
+			? { ...this.protectionRules, ...protect }
+			: addProtections(this.protectionRules, protect);
+		const protectedVersions = await this.protectionService.findProtectedVersions(
+			versions.map((version) => version.id),
+			protectionRules,
+		);
+		const protectedIds = new Set(
+			protectedVersions.map((version) => version.versionId),
+		);
+		versions = versions.filter((version) => !protectedIds.has(version.id));
+
+		return {
+			policy,
+			versionIds: versions.map((version) => version.id),
+			protectedVersions,
+			protectionRules,
+		};
+	}
+
+	/**
+	 * The protections a retention policy turns off, which it only may with
+	 * the override phrase
+	 */
+	getRelaxedProtections(policy: RetentionPolicy): string[] {
+		return relaxedProtections(this.protectionRules, policy.protect);
 	}
 
 	/**
 	 * Delete asset versions with dry-run support and proper component/size analysis
 	 */
 	async deleteAssetVersions(
-		versionIds: string[],
-		opts: { dryRun: boolean },
+		requestedIds: string[],
+		opts: {
+			dryRun: boolean;
+			overrideProtection?: boolean;
+			protectionRules?: DeletionProtectionRules;
+		},
 	): Promise<{ report: DryRunReportItem[]; summary: DeletionResultSummary }> {
 		debug(
-			`DeletionService.deleteAssetVersions - IDs: ${versionIds.length}, dryRun: ${opts.dryRun}`,
+			`DeletionService.deleteAssetVersions - IDs: ${requestedIds.length}, dryRun: ${opts.dryRun}`,
 		);
 
+		const { allowedIds: versionIds, protectedVersions } =
+			await this.checkProtection(
+				requestedIds,
+				opts.overrideProtection,
+				opts.protectionRules,
+			);
+
 		const report: DryRunReportItem[] = [];
 		const failures: Array<{ id: string; reason: string }> = [];
 		let totalBytesDeleted = 0;
 		let totalComponentsDeleted = 0;
+		// Kept for the journal of an executed deletion
+		const componentsByVersion = new Map<string, Component[]>();
 
 		// Process versions in concurrent batches for better performance
 		const concurrencyLimit = 5; // Limit concurrent API calls
@@ -109,6 +287,7 @@ export class DeletionService {
 							componentType:
 								this.componentService.identifyComponentType(component),
 							size: component.size || 0,
+							frameRange: this.getFrameRange(component),
 							locations:
 								component.component_locations
 									?.map((loc: ComponentLocation) => loc.resource_identifier)
@@ -120,6 +299,8 @@ export class DeletionService {
 						`Version ${versionId}: ${components.length} components, ${versionSizeBytes} bytes`,
 					);
 
+					componentsByVersion.set(versionId, components);
+
 					return {
 						versionId,
 						versionSizeBytes,
@@ -159,8 +340,14 @@ export class DeletionService {
 		}
 
 		// Perform actual deletion if not dry-run
+		let journalPath: string | undefined;
 		if (!opts.dryRun) {
-			await this.executeVersionDeletions(versionIds, failures);
+			journalPath = await this.journalService.begin("versions");
+			await this.executeVersionDeletions(
+				versionIds,
+				componentsByVersion,
+				failures,
+			);
 		}
 
 		const summary: DeletionResultSummary = {
@@ -168,6 +355,8 @@ export class DeletionService {
 			componentsDeleted: totalComponentsDeleted,
 			bytesDeleted: totalBytesDeleted,
 			failures,
+			journalPath,
+			protectedVersions,
 		};
 
 		return { report, summary };
@@ -176,19 +365,36 @@ export class DeletionService {
 	/**
 	 * Delete components from versions with type filtering and thumbnail protection
 	 * Optimized with concurrent processing and efficient batching
+	 * With `locations`, the components are only removed from those locations
+	 * (by name) and kept wherever else they are.
 	 */
 	async deleteComponents(
-		versionIdToComponentChoice: Map<string, ComponentDeletionChoice>,
-		opts: { dryRun: boolean },
+		requestedChoices: Map<string, ComponentDeletionChoice>,
+		opts: {
+			dryRun: boolean;
+			overrideProtection?: boolean;
+			protectionRules?: DeletionProtectionRules;
+			locations?: string[];
+		},
 	): Promise<{ report: DryRunReportItem[]; summary: DeletionResultSummary }> {
 		debug(
-			`DeletionService.deleteComponents - ${versionIdToComponentChoice.size} versions, dryRun: ${opts.dryRun}`,
+			`DeletionService.deleteComponents - ${requestedChoices.size} versions, dryRun: ${opts.dryRun}`,
+		);
+
+		const { allowedIds, protectedVersions } = await this.checkProtection(
+			[...requestedChoices.keys()],
+			opts.overrideProtection,
+			opts.protectionRules,
+		);
+		const versionIdToComponentChoice = new Map(
+			allowedIds.map((id) => [id, requestedChoices.get(id)!]),
 		);
 
 		const report: DryRunReportItem[] = [];
 		const failures: Array<{ id: string; reason: string }> = [];
 		let totalBytesDeleted = 0;
 		let totalComponentsDeleted = 0;
+		const bytesByLocation: Record<string, number> = {};
 
 		// Convert map to array for batch processing
 		const versionEntries = Array.from(versionIdToComponentChoice.entries());
@@ -215,48 +421,53 @@ export class DeletionService {
 						await this.componentService.getComponentsForAssetVersion(versionId);
 
 					// Filter components based on user choice and exclude thumbnails
-					const componentsToDelete = this.filterComponentsByChoice(
-						allComponents,
-						choice,
-						versionDetails.thumbnail_id as string | undefined,
-					);
-
-					// Calculate total size of components to delete
-					const versionSizeBytes = componentsToDelete.reduce(
-						(total, comp) => total + (comp.size || 0),
-						0,
+					const componentsToDelete = this.filterComponentsByLocation(
+						this.filterComponentsByChoice(
+							allComponents,
+							choice,
+							versionDetails.thumbnail_id as string | undefined,
+						),
+						opts.locations,
 					);
 
-					// Create component reports
-					const componentReports: DryRunReportItem[] = componentsToDelete.map(
-						(component) => ({
-							operation: "delete_components",
-							assetVersionId: versionId,
-							assetVersionLabel: `${((versionDetails.asset as Record<string, unknown> | undefined)?.name as string) || "Unknown"} v${
-								(versionDetails.version as string) || "?"
-							}`,
-							shotName:
-								((
-									(versionDetails.asset as Record<string, unknown> | undefined)
-										?.parent as Record<string, unknown> | undefined
-								)?.name as string) || undefined,
-							status:
-								((versionDetails.status as Record<string, unknown> | undefined)
-									?.name as string) || undefined,
-							user:
-								((versionDetails.user as Record<string, unknown> | undefined)
-									?.username as string) || undefined,
-							componentId: component.id,
-							componentName: component.name,
-							componentType:
-								this.componentService.identifyComponentType(component),
-							size: component.size || 0,
-							locations:
-								component.component_locations
-									?.map((loc: ComponentLocation) => loc.resource_identifier)
-									.filter(Boolean) || [],
-						}),
-					);
+					// Create component reports, one per location removed from
+					const componentReports: DryRunReportItem[] =
+						componentsToDelete.flatMap((component) => {
+							const componentReport: DryRunReportItem = {
+								operation: "delete_components",
+								assetVersionId: versionId,
+								assetVersionLabel: `${((versionDetails.asset as Record<string, unknown> | undefined)?.name as string) || "Unknown"} v${
+									(versionDetails.version as string) || "?"
+								}`,
+								shotName:
+									((
+										(versionDetails.asset as Record<string, unknown> | undefined)
+											?.parent as Record<string, unknown> | undefined
+									)?.name as string) || undefined,
+								status:
+									((versionDetails.status as Record<string, unknown> | undefined)
+										?.name as string) || undefined,
+								user:
+									((versionDetails.user as Record<string, unknown> | undefined)
+										?.username as string) || undefined,
+								componentId: component.id,
+								componentName: component.name,
+								componentType:
+									this.componentService.identifyComponentType(component),
+								size: component.size || 0,
+								frameRange: this.getFrameRange(component),
+								locations:
+									component.component_locations
+										?.map((loc: ComponentLocation) => loc.resource_identifier)
+										.filter(Boolean) || [],
+							};
+							if (!opts.locations) return [componentReport];
+							return component.component_locations.map((location) => ({
+								...componentReport,
+								operation: "remove_from_location" as const,
+								locations: [location.location.name],
+							}));
+						});
 
 					debug(
 						`Version ${versionId}: ${componentsToDelete.length}/${allComponents.length} components selected for deletion (${choice})`,
@@ -264,8 +475,12 @@ export class DeletionService {
 
 					return {
 						versionId,
-						versionSizeBytes,
-						componentsCount: componentsToDelete.length,
+						// Removing a component from two locations frees its size twice
+						versionSizeBytes: componentReports.reduce(
+							(total, item) => total + (item.size ?? 0),
+							0,
+						),
+						componentsCount: componentReports.length,
 						reports: componentReports,
 					};
 				} catch (error) {
@@ -291,6 +506,13 @@ export class DeletionService {
 					totalBytesDeleted += result.versionSizeBytes;
 					totalComponentsDeleted += result.componentsCount;
 					report.push(...result.reports);
+					if (opts.locations) {
+						for (const item of result.reports) {
+							const location = item.locations?.[0] ?? "";
+							bytesByLocation[location] =
+								(bytesByLocation[location] ?? 0) + (item.size ?? 0);
+						}
+					}
 				}
 			}
 
@@ -301,10 +523,15 @@ export class DeletionService {
 		}
 
 		// Perform actual deletion if not dry-run
+		let journalPath: string | undefined;
 		if (!opts.dryRun) {
+			journalPath = await this.journalService.begin(
+				opts.locations ? "locations" : "components",
+			);
 			await this.executeComponentDeletions(
 				versionIdToComponentChoice,
 				failures,
+				opts.locations,
 			);
 		}
 
@@ -313,11 +540,63 @@ export class DeletionService {
 			componentsDeleted: totalComponentsDeleted,
 			bytesDeleted: totalBytesDeleted,
 			failures,
+			journalPath,
+			protectedVersions,
+			bytesByLocation: opts.locations ? bytesByLocation : undefined,
 		};
 
 		return { report, summary };
 	}
 
+	/**
+	 * Names of the locations holding components of the given versions
+	 */
+	async getComponentLocationNames(versionIds: string[]): Promise<string[]> {
+		const names = new Set<string>();
+		for (let i = 0; i < versionIds.length; i += 100) {
+			const ids = versionIds
+				.slice(i, i + 100)
+				.map((id) => `"${id}"`)
+				.join(", ");
+			const result = await this.session.query(`
+        select location.name from ComponentLocation
+        where component.version_id in (${ids})
+      `);
+			for (const row of (result.data ?? []) as Array<{
+				location?: { name?: string } | null;
+			}>) {
+				if (row.location?.name) names.add(row.location.name);
+			}
+		}
+		return [...names].sort();
+	}
+
+	/**
+	 * Find the protected versions of a deletion, and the versions it may touch
+	 * @param override - Keep protected versions in the deletion
+	 * @param rules - The protections to check, instead of the configured ones
+	 */
+	private async checkProtection(
+		versionIds: string[],
+		override = false,
+		rules: DeletionProtectionRules = this.protectionRules,
+	): Promise<{ allowedIds: string[]; protectedVersions: ProtectedVersion[] }> {
+		const protectedVersions = await this.protectionService.findProtectedVersions(
+			versionIds,
+			rules,
+		);
+		if (override) {
+			return { allowedIds: versionIds, protectedVersions };
+		}
+		const protectedIds = new Set(
+			protectedVersions.map((version) => version.versionId),
+		);
+		return {
+			allowedIds: versionIds.filter((id) => !protectedIds.has(id)),
+			protectedVersions,
+		};
+	}
+
 	/**
 	 * Fetch version details including thumbnail_id for safety checks
 	 */
@@ -384,10 +663,10 @@ export class DeletionService {
 				return filteredComponents;
 
 			case "original_only":
-				return filteredComponents.filter(
-					(comp) =>
-						this.componentService.identifyComponentType(comp) === "original",
-				);
+				return filteredComponents.filter((comp) => {
+					const type = this.componentService.identifyComponentType(comp);
+					return type === "original" || type === "image-sequence";
+				});
 
 			case "encoded_only":
 				return filteredComponents.filter((comp) => {
@@ -395,11 +674,52 @@ export class DeletionService {
 					return type === "encoded-1080p" || type === "encoded-720p";
 				});
 
-			default:
-				return [];
+			default: {
+				if (!choice.startsWith("profile:")) return [];
+				const types = this.componentService.getProfileTypes(
+					choice.slice("profile:".length),
+				);
+				return filteredComponents.filter((comp) =>
+					types.includes(this.componentService.identifyComponentType(comp)),
+				);
+			}
 		}
 	}
 
+	/**
+	 * Keep the components registered in one of `locations`, with only those
+	 * component locations (of the frames too, for image sequences)
+	 */
+	private filterComponentsByLocation(
+		components: Component[],
+		locations?: string[],
+	): Component[] {
+		if (!locations) return components;
+		const inLocations = (component: Component) =>
+			(component.component_locations ?? []).filter((componentLocation) =>
+				locations.includes(componentLocation.location?.name),
+			);
+		return components
+			.filter((component) => inLocations(component).length > 0)
+			.map((component) => ({
+				...component,
+				component_locations: inLocations(component),
+				members: component.members?.map((member) => ({
+					...member,
+					component_locations: inLocations(member),
+				})),
+			}));
+	}
+
+	/**
+	 * Frame range of an image sequence component for reports
+	 */
+	private getFrameRange(component: Component): string | undefined {
+		return this.componentService.isSequenceComponent(component)
+			? formatFrameRange(this.componentService.getFrameNumbers(component))
+			: undefined;
+	}
+
 	/**
 	 * Extract resource identifiers from components for location tracking
 	 */
@@ -424,6 +744,7 @@ export class DeletionService {
 	 */
 	private async executeVersionDeletions(
 		versionIds: string[],
+		componentsByVersion: Map<string, Component[]>,
 		failures: Array<{ id: string; reason: string }>,
 	): Promise<void> {
 		debug(`Executing deletion of ${versionIds.length} asset versions`);
@@ -450,6 +771,23 @@ export class DeletionService {
 
 			for (const group of concurrentGroups) {
 				const deletionPromises = group.map(async (versionId) => {
+					let entry: DeletionJournalEntry;
+					try {
+						entry = await this.recordJournalEntry(
+							"delete_version",
+							versionId,
+							componentsByVersion.get(versionId) ?? [],
+						);
+					} catch (error) {
+						return {
+							versionId,
+							success: false,
+							error: `Not deleted, the deletion journal could not be written: ${
+								error instanceof Error ? error.message : error
+							}`,
+						};
+					}
+
 					try {
 						debug(`Deleting asset version: ${versionId}`);
 						await this.session.call([
@@ -460,13 +798,19 @@ export class DeletionService {
 							},
 						]);
 						debug(`Successfully deleted version: ${versionId}`);
-						return { versionId, success: true };
 					} catch (error) {
 						const errorMessage =
 							error instanceof Error ? error.message : "Unknown deletion error";
 						debug(`Failed to delete version ${versionId}: ${errorMessage}`);
+						await this.journalService.update(entry, {
+							status: "failed",
+							error: errorMessage,
+						});
 						return { versionId, success: false, error: errorMessage };
 					}
+
+					await this.journalService.update(entry, { status: "deleted" });
+					return { versionId, success: true };
 				});
 
 				const results = await Promise.all(deletionPromises);
@@ -502,6 +846,7 @@ export class DeletionService {
 	private async executeComponentDeletions(
 		versionIdToComponentChoice: Map<string, ComponentDeletionChoice>,
 		failures: Array<{ id: string; reason: string }>,
+		locations?: string[],
 	): Promise<void> {
 		debug(
 			`Executing component deletion for ${versionIdToComponentChoice.size} versions`,
@@ -544,23 +889,50 @@ export class DeletionService {
 							await this.componentService.getComponentsForAssetVersion(
 								versionId,
 							);
-						const componentsToDelete = this.filterComponentsByChoice(
-							allComponents,
-							choice,
-							versionDetails.thumbnail_id as string | undefined,
+						const componentsToDelete = this.filterComponentsByLocation(
+							this.filterComponentsByChoice(
+								allComponents,
+								choice,
+								versionDetails.thumbnail_id as string | undefined,
+							),
+							locations,
 						);
+						if (componentsToDelete.length === 0) {
+							return { versionId, success: true, componentFailures: [] };
+						}
+
+						let entry: DeletionJournalEntry;
+						try {
+							entry = await this.recordJournalEntry(
+								locations ? "remove_from_location" : "delete_components",
+								versionId,
+								componentsToDelete,
+							);
+						} catch (error) {
+							return {
+								versionId,
+								success: false,
+								error: `Not deleted, the deletion journal could not be written: ${
+									error instanceof Error ? error.message : error
+								}`,
+							};
+						}
 
 						// Delete components concurrently for this version
 						const componentDeletionPromises = componentsToDelete.map(
 							async (component) => {
 								try {
-									await this.session.call([
-										{
-											action: "delete",
-											entity_type: "Component",
-											entity_key: component.id,
-										},
-									]);
+									if (locations) {
+										await this.removeComponentLocations(component, locations);
+									} else {
+										await this.session.call([
+											{
+												action: "delete",
+												entity_type: "Component",
+												entity_key: component.id,
+											},
+										]);
+									}
 									debug(`Successfully deleted component: ${component.id}`);
 									return { componentId: component.id, success: true };
 								} catch (error) {
@@ -584,6 +956,21 @@ export class DeletionService {
 							componentDeletionPromises,
 						);
 
+						const failedComponents = componentResults.filter(
+							(result) => !result.success,
+						);
+						await this.journalService.update(entry, {
+							status:
+								failedComponents.length === 0
+									? "deleted"
+									: failedComponents.length === componentResults.length
+										? "failed"
+										: "partial",
+							failedComponentIds: failedComponents.length
+								? failedComponents.map((result) => result.componentId)
+								: undefined,
+						});
+
 						// Collect any component failures
 						const componentFailures = componentResults
 							.filter((result) => !result.success)
@@ -643,6 +1030,49 @@ export class DeletionService {
 		}
 	}
 
+	/**
+	 * Remove a component (and the frames of an image sequence) from the given
+	 * locations only
+	 */
+	private async removeComponentLocations(
+		component: Component,
+		locations: string[],
+	): Promise<void> {
+		const componentIds = [
+			component.id,
+			...(component.members ?? []).map((member) => member.id),
+		];
+		const result = await this.session.query(`
+      select id from ComponentLocation
+      where component_id in (${componentIds.map((id) => `"${id}"`).join(", ")})
+      and location.name in (${locations.map((name) => `"${name}"`).join(", ")})
+    `);
+		const componentLocations = (result.data ?? []) as Array<{ id: string }>;
+		if (componentLocations.length === 0) return;
+		await this.session.call(
+			componentLocations.map((componentLocation) => ({
+				action: "delete",
+				entity_type: "ComponentLocation",
+				entity_key: componentLocation.id,
+			})),
+		);
+	}
+
+	/**
+	 * Journal a version's payload before deleting it (or its components)
+	 */
+	private async recordJournalEntry(
+		operation: DeletionJournalEntry["operation"],
+		versionId: string,
+		components: Component[],
+	): Promise<DeletionJournalEntry> {
+		const snapshot = await this.journalService.snapshotVersion(
+			versionId,
+			components,
+		);
+		return await this.journalService.record({ operation, ...snapshot });
+	}
+
 	/**
 	 * Format bytes into human-readable size
 	 */
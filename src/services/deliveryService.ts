@@ -0,0 +1,320 @@
+import type { operation, Session } from "@ftrack/api";
+import type { QueryService } from "./queries.ts";
+import { MediaDownloadService } from "./mediaDownloadService.ts";
+import {
+	MANIFEST_CSV_FILENAME,
+	MANIFEST_JSON_FILENAME,
+} from "./downloadManifestService.ts";
+import { callInBatches } from "../utils/batchCall.ts";
+import { debug } from "../utils/debug.ts";
+import type {
+	AssetVersion,
+	Component,
+	ContextCustomAttributeValue,
+} from "../schemas/schema.ts";
+import type { LatestVersionMapping } from "../types/latestVersionMapping.ts";
+import type {
+	DeliveryFolderMatch,
+	DeliveryVersion,
+	MarkDeliveredRequest,
+	MarkDeliveredResult,
+} from "../types/markDelivered.ts";
+
+const PAGE_SIZE = 500;
+// Version IDs per "id in (...)" query
+const ID_CHUNK_SIZE = 100;
+// Written by downloads next to the media; never a delivered file
+const IGNORED_FILES = new Set([MANIFEST_JSON_FILENAME, MANIFEST_CSV_FILENAME]);
+
+// A project with the statuses of its AssetVersion workflow
+interface ProjectVersionWorkflow {
+	project_schema?: {
+		_version_workflow?: {
+			statuses?: Array<{ id: string; name: string }>;
+		} | null;
+	} | null;
+}
+
+// Index a name, marking it ambiguous (null) when two versions share it
+function addName(
+	names: Map<string, string | null>,
+	name: string,
+	versionId: string,
+): void {
+	const existing = names.get(name);
+	names.set(
+		name,
+		existing === undefined || existing === versionId ? versionId : null,
+	);
+}
+
+/**
+ * DeliveryService
+ * - Loads versions with the Delivered and date sent values of a mapping.
+ * - Matches the files of a delivery folder to versions by the names
+ *   generateSafeFilename gives their components.
+ * - Stamps versions delivered, optionally moving them to a status.
+ */
+export class DeliveryService {
+	constructor(
+		private session: Session,
+		private queryService: QueryService,
+		private mapping: LatestVersionMapping,
+		private mediaDownloadService: MediaDownloadService = new MediaDownloadService(),
+	) {}
+
+	/**
+	 * Load versions by ID, within the project scope
+	 * @throws When a version does not exist, or is in another project
+	 */
+	async loadVersions(versionIds: string[]): Promise<DeliveryVersion[]> {
+		const ids = [...new Set(versionIds)];
+		const versions: DeliveryVersion[] = [];
+
+		for (let i = 0; i < ids.length; i += ID_CHUNK_SIZE) {
+			const chunk = ids.slice(i, i + ID_CHUNK_SIZE);
+			const result = await this.queryService.executeProjectScopedQuery(`
+        select id, version, project_id, asset.name, asset.parent.name,
+               status.name, custom_attributes
+        from AssetVersion
+        where id in (${chunk.map((id) => `"${id}"`).join(", ")})
+      `);
+			versions.push(
+				...((result.data ?? []) as AssetVersion[]).map((version) =>
+					this.toDeliveryVersion(version),
+				),
+			);
+		}
+
+		const found = new Set(versions.map((version) => version.id));
+		const missing = ids.filter((id) => !found.has(id));
+		if (missing.length > 0) {
+			throw new Error(`Version(s) not found: ${missing.join(", ")}`);
+		}
+		return versions.sort((a, b) => a.label.localeCompare(b.label));
+	}
+
+	/**
+	 * Match the files of a delivery folder to the project's versions. A file
+	 * or image sequence folder matches a component when its path relative to
+	 * the folder, or else its name alone, is what generateSafeFilename names
+	 * the component. Names shared by several versions match none of them.
+	 * @param folder - The delivery folder
+	 */
+	async matchFolder(folder: string): Promise<DeliveryFolderMatch> {
+		const paths = new Map<string, string | null>();
+		const names = new Map<string, string | null>();
+		for (const [path, versionId] of await this.expectedFilenames()) {
+			addName(paths, path, versionId);
+			addName(names, path.slice(path.lastIndexOf("/") + 1), versionId);
+		}
+
+		const match: DeliveryFolderMatch = { files: {}, unmatched: [] };
+		const visit = async (directory: string, relative: string) => {
+			const entries: Deno.DirEntry[] = [];
+			for await (const entry of Deno.readDir(directory)) {
+				entries.push(entry);
+			}
+			entries.sort((a, b) => a.name.localeCompare(b.name));
+
+			for (const entry of entries) {
+				const path = relative ? `${relative}/${entry.name}` : entry.name;
+				const versionId = paths.get(path) ?? names.get(entry.name);
+				if (versionId) {
+					(match.files[versionId] ??= []).push(path);
+				} else if (entry.isDirectory) {
+					await visit(`${directory}/${entry.name}`, path);
+				} else if (!IGNORED_FILES.has(entry.name)) {
+					match.unmatched.push(path);
+				}
+			}
+		};
+		await visit(folder, "");
+
+		debug(
+			`Delivery folder: ${Object.keys(match.files).length} versions matched, ${match.unmatched.length} files unmatched`,
+		);
+		return match;
+	}
+
+	/**
+	 * Mark versions delivered: set the Delivered and date sent attributes,
+	 * and the status when one is given. Versions are written in batches.
+	 * @throws When the mapping's attributes do not exist
+	 */
+	async markDelivered(
+		request: MarkDeliveredRequest,
+	): Promise<MarkDeliveredResult> {
+		const configIds = await this.findAttributeConfigs();
+		const toOperations = (versionId: string): operation.Operation[] => {
+			const values: Array<[string, string, unknown]> = [
+				[configIds.delivered, this.mapping.deliveredKey, true],
+				[configIds.dateSent, this.mapping.sentDateKey, request.dateSent],
+			];
+			const operations: operation.Operation[] = values.map(
+				([configuration_id, key, value]) => ({
+					action: "update",
+					entity_type: "ContextCustomAttributeValue",
+					entity_key: [configuration_id, versionId],
+					entity_data: { value, key, entity_id: versionId, configuration_id },
+				}),
+			);
+			if (request.statusId) {
+				operations.push({
+					action: "update",
+					entity_type: "AssetVersion",
+					entity_key: [versionId],
+					entity_data: { status_id: request.statusId },
+				});
+			}
+			return operations;
+		};
+
+		const failures = await callInBatches(
+			this.session,
+			request.versionIds,
+			toOperations,
+		);
+		const failed = new Set(failures.map((failure) => failure.item));
+		return {
+			marked: request.versionIds.filter((id) => !failed.has(id)),
+			failures: failures.map(({ item, error }) => ({
+				versionId: item,
+				error: error instanceof Error ? error.message : String(error),
+			})),
+		};
+	}
+
+	/**
+	 * Statuses the versions can be moved to: those of the AssetVersion
+	 * workflow of every project the versions are in
+	 */
+	async fetchStatuses(
+		versions: DeliveryVersion[],
+	): Promise<Array<{ id: string; name: string }>> {
+		const projectIds = [...new Set(versions.map((version) => version.projectId))];
+		if (projectIds.length === 0) return [];
+
+		const result = await this.session.query(`
+      select id, project_schema._version_workflow.statuses.id,
+             project_schema._version_workflow.statuses.name
+      from Project
+      where id in (${projectIds.map((id) => `"${id}"`).join(", ")})
+    `);
+		const workflows = ((result.data ?? []) as ProjectVersionWorkflow[]).map(
+			(project) => project.project_schema?._version_workflow?.statuses ?? [],
+		);
+		if (workflows.length < projectIds.length) return [];
+
+		return workflows[0]
+			.filter((status) =>
+				workflows.every((statuses) =>
+					statuses.some((candidate) => candidate.id === status.id),
+				),
+			)
+			.map(({ id, name }) => ({ id, name }))
+			.sort((a, b) => a.name.localeCompare(b.name));
+	}
+
+	/**
+	 * Find a status by name, among those the versions can be moved to
+	 * @throws When no such status has the name
+	 */
+	async findStatus(
+		name: string,
+		versions: DeliveryVersion[],
+	): Promise<{ id: string; name: string }> {
+		const status = (await this.fetchStatuses(versions)).find(
+			(candidate) => candidate.name.toLowerCase() === name.toLowerCase(),
+		);
+		if (!status) {
+			throw new Error(
+				`Status "${name}" not found in the version workflow of the project`,
+			);
+		}
+		return status;
+	}
+
+	/**
+	 * The names generateSafeFilename gives the components of the project's
+	 * versions, with their version IDs
+	 */
+	private async expectedFilenames(): Promise<Array<[string, string]>> {
+		const filenames: Array<[string, string]> = [];
+
+		for (let offset = 0; ; offset += PAGE_SIZE) {
+			const result = await this.queryService.executeProjectScopedQuery(`
+        select id, version, date, asset.name, asset.type.name,
+               asset.parent.name, asset.parent.parent.name,
+               asset.parent.project.name, task.name, status.name,
+               user.username, components.id, components.name,
+               components.file_type
+        from AssetVersion
+        order by id limit ${PAGE_SIZE} offset ${offset}
+      `);
+			const page = (result.data ?? []) as AssetVersion[];
+			for (const version of page) {
+				for (const component of (version.components ?? []) as Component[]) {
+					filenames.push([
+						this.mediaDownloadService.generateSafeFilename(component, version),
+						version.id,
+					]);
+				}
+			}
+			if (page.length < PAGE_SIZE) break;
+		}
+
+		return filenames;
+	}
+
+	/**
+	 * Look up the mapping's Delivered and date sent configurations
+	 */
+	private async findAttributeConfigs(): Promise<{
+		delivered: string;
+		dateSent: string;
+	}> {
+		const { deliveredKey, sentDateKey } = this.mapping;
+		const result = await this.session.query(`
+      select id, key
+      from CustomAttributeConfiguration
+      where key in ("${deliveredKey}", "${sentDateKey}")
+      and entity_type is "assetversion"
+    `);
+		const configs = (result.data ?? []) as Array<{ id: string; key: string }>;
+		const delivered = configs.find((c) => c.key === deliveredKey)?.id;
+		const dateSent = configs.find((c) => c.key === sentDateKey)?.id;
+
+		if (!delivered || !dateSent) {
+			const missing = [
+				...(delivered ? [] : [deliveredKey]),
+				...(dateSent ? [] : [sentDateKey]),
+			];
+			throw new Error(
+				`Could not find necessary configurations: ${missing.join(", ")}`,
+			);
+		}
+		return { delivered, dateSent };
+	}
+
+	private toDeliveryVersion(version: AssetVersion): DeliveryVersion {
+		const attributes =
+			(version.custom_attributes as ContextCustomAttributeValue[] | undefined) ??
+			[];
+		const value = (key: string) =>
+			attributes.find((attribute) => attribute?.key === key)?.value;
+		const shot = version.asset?.parent?.name ?? "Unknown";
+
+		return {
+			id: version.id,
+			label: `${shot} ${version.asset?.name ?? "Unknown"} v${String(
+				version.version,
+			).padStart(3, "0")}`,
+			shot,
+			projectId: version.project_id as string,
+			status: version.status?.name ?? null,
+			delivered: value(this.mapping.deliveredKey) === true,
+			dateSent: (value(this.mapping.sentDateKey) as string | undefined) ?? null,
+		};
+	}
+}
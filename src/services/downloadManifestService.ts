@@ -0,0 +1,217 @@
+import { createHash } from "node:crypto";
+import { createObjectCsvWriter } from "csv-writer";
+import { debug } from "../utils/debug.ts";
+import type {
+	DownloadManifest,
+	DownloadManifestEntry,
+	DownloadTask,
+	ManifestVerificationResult,
+} from "../types/index.ts";
+
+export const MANIFEST_JSON_FILENAME = "download_manifest.json";
+export const MANIFEST_CSV_FILENAME = "download_manifest.csv";
+
+/**
+ * Compute the SHA-256 hash of a file as a hex string, streaming its content
+ * @param filePath - Path to the file
+ * @returns Promise resolving to the hex encoded hash
+ */
+export async function hashFile(filePath: string): Promise<string> {
+	const hash = createHash("sha256");
+	const file = await Deno.open(filePath, { read: true });
+	// The stream closes the file once fully read
+	for await (const chunk of file.readable) {
+		hash.update(chunk);
+	}
+	return hash.digest("hex");
+}
+
+/**
+ * Service for recording downloaded files in a manifest (JSON and CSV) and
+ * verifying a download folder against it later
+ */
+export class DownloadManifestService {
+	private entries = new Map<string, DownloadManifestEntry>();
+
+	/**
+	 * Record a completed download, hashing the file on disk
+	 * @param task - The completed download task
+	 * @param componentType - Component type label (original, encoded_1080p...)
+	 * @returns Promise resolving to the recorded entry
+	 */
+	async record(
+		task: DownloadTask,
+		componentType: string,
+	): Promise<DownloadManifestEntry> {
+		const filePath = `${task.outputPath}/${task.filename}`;
+		const stat = await Deno.stat(filePath);
+
+		const entry: DownloadManifestEntry = {
+			shot: task.assetVersion.asset?.parent?.name || "",
+			asset: task.assetVersion.asset?.name || "",
+			version: task.assetVersion.version,
+			versionId: task.assetVersion.id,
+			componentId: task.component.id,
+			componentName: task.component.name,
+			componentType,
+			size: stat.size,
+			path: filePath,
+			sha256: await hashFile(filePath),
+		};
+
+		// A file downloaded twice (e.g. by a fallback) is only listed once
+		this.entries.set(filePath, entry);
+		debug(`Recorded manifest entry for ${task.filename}: ${entry.sha256}`);
+		return entry;
+	}
+
+	/**
+	 * Add entries from a previous manifest of a folder, so files kept from an
+	 * earlier run stay listed when the manifest is rewritten
+	 * @param directory - The folder the manifest was loaded from
+	 * @param manifest - The previous manifest
+	 */
+	addExisting(directory: string, manifest: DownloadManifest): void {
+		for (const entry of manifest.entries) {
+			const filePath = entry.path.startsWith("/")
+				? entry.path
+				: `${directory}/${entry.path}`;
+			this.entries.set(filePath, { ...entry, path: filePath });
+		}
+	}
+
+	/**
+	 * Get the recorded entry for a file, if any
+	 * @param filePath - Full path of the file
+	 */
+	getEntry(filePath: string): DownloadManifestEntry | undefined {
+		return this.entries.get(filePath);
+	}
+
+	/**
+	 * Get all recorded entries
+	 */
+	getEntries(): DownloadManifestEntry[] {
+		return Array.from(this.entries.values());
+	}
+
+	/**
+	 * Write the manifest as JSON and CSV into a directory. Entry paths are
+	 * stored relative to that directory so the folder can be moved.
+	 * @param directory - The download folder
+	 * @returns Promise resolving to the written file paths
+	 */
+	async write(
+		directory: string,
+	): Promise<{ jsonPath: string; csvPath: string }> {
+		const entries = this.getEntries().map((entry) => ({
+			...entry,
+			path: entry.path.startsWith(`${directory}/`)
+				? entry.path.slice(directory.length + 1)
+				: entry.path,
+		}));
+		const manifest: DownloadManifest = {
+			createdAt: new Date().toISOString(),
+			entries,
+		};
+
+		const jsonPath = `${directory}/${MANIFEST_JSON_FILENAME}`;
+		const csvPath = `${directory}/${MANIFEST_CSV_FILENAME}`;
+
+		await Deno.writeTextFile(jsonPath, JSON.stringify(manifest, null, 2));
+
+		const csvWriter = createObjectCsvWriter({
+			path: csvPath,
+			header: [
+				{ id: "shot", title: "Shot" },
+				{ id: "asset", title: "Asset" },
+				{ id: "version", title: "Version" },
+				{ id: "versionId", title: "Version ID" },
+				{ id: "componentId", title: "Component ID" },
+				{ id: "componentName", title: "Component Name" },
+				{ id: "componentType", title: "Component Type" },
+				{ id: "size", title: "Size (bytes)" },
+				{ id: "path", title: "Path" },
+				{ id: "sha256", title: "SHA-256" },
+			],
+		});
+		await csvWriter.writeRecords(entries);
+
+		debug(
+			`Wrote download manifest with ${entries.length} entries to ${directory}`,
+		);
+		return { jsonPath, csvPath };
+	}
+
+	/**
+	 * Load the JSON manifest from a download folder
+	 * @param directory - The download folder
+	 * @returns Promise resolving to the manifest
+	 */
+	async load(directory: string): Promise<DownloadManifest> {
+		const jsonPath = `${directory}/${MANIFEST_JSON_FILENAME}`;
+		try {
+			return JSON.parse(await Deno.readTextFile(jsonPath)) as DownloadManifest;
+		} catch (error) {
+			throw new Error(
+				`Could not read download manifest ${jsonPath}: ${
+					error instanceof Error ? error.message : error
+				}`,
+			);
+		}
+	}
+
+	/**
+	 * Re-hash every file listed in a folder's manifest and report missing or
+	 * corrupted (size or checksum mismatch) files
+	 * @param directory - The download folder
+	 * @returns Promise resolving to the verification result
+	 */
+	async verify(directory: string): Promise<ManifestVerificationResult> {
+		const manifest = await this.load(directory);
+		const result: ManifestVerificationResult = {
+			directory,
+			verified: [],
+			missing: [],
+			corrupted: [],
+		};
+
+		for (const entry of manifest.entries) {
+			const filePath = entry.path.startsWith("/")
+				? entry.path
+				: `${directory}/${entry.path}`;
+
+			let size: number;
+			try {
+				size = (await Deno.stat(filePath)).size;
+			} catch (error) {
+				if (error instanceof Deno.errors.NotFound) {
+					result.missing.push(entry);
+					continue;
+				}
+				throw error;
+			}
+
+			if (size !== entry.size) {
+				result.corrupted.push({
+					entry,
+					reason: `Size mismatch: expected ${entry.size} bytes, got ${size} bytes`,
+				});
+				continue;
+			}
+
+			const sha256 = await hashFile(filePath);
+			if (sha256 !== entry.sha256) {
+				result.corrupted.push({ entry, reason: "Checksum mismatch" });
+				continue;
+			}
+
+			result.verified.push(entry);
+		}
+
+		debug(
+			`Verified ${directory}: ${result.verified.length} ok, ${result.missing.length} missing, ${result.corrupted.length} corrupted`,
+		);
+		return result;
+	}
+}
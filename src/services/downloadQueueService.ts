@@ -0,0 +1,163 @@
+import { debug } from "../utils/debug.ts";
+import { getPreferencesFilePath } from "../utils/preferences.ts";
+import type {
+	AssetVersion,
+	DownloadQueue,
+	DownloadRunSettings,
+	QueuedDownload,
+	Shot,
+} from "../types/index.ts";
+
+export const DOWNLOAD_QUEUE_FILENAME = "download_queue.json";
+
+/**
+ * Service for persisting the versions of an interactive download run, so a
+ * run that was paused, interrupted or crashed can be resumed after a restart
+ */
+export class DownloadQueueService {
+	private queue: DownloadQueue | null = null;
+
+	/**
+	 * @param queuePath - Queue file, in the preferences directory by default
+	 */
+	constructor(
+		private readonly queuePath: string = getPreferencesFilePath(
+			DOWNLOAD_QUEUE_FILENAME,
+		),
+	) {}
+
+	/**
+	 * Load the queue left by a previous run
+	 * @returns Promise resolving to the queue, or null if there is none
+	 */
+	async load(): Promise<DownloadQueue | null> {
+		try {
+			const queue = JSON.parse(
+				await Deno.readTextFile(this.queuePath),
+			) as DownloadQueue;
+			if (!Array.isArray(queue.items) || !queue.downloadPath) {
+				throw new Error("missing items or download path");
+			}
+			this.queue = queue;
+		} catch (error) {
+			if (!(error instanceof Deno.errors.NotFound)) {
+				debug(`Ignoring unreadable download queue ${this.queuePath}: ${error}`);
+			}
+			this.queue = null;
+		}
+		return this.queue;
+	}
+
+	/**
+	 * Start a new queue for a run, replacing any previous one
+	 * @param settings - The run's settings, re-applied on resume
+	 * @param shotsWithVersions - The versions to download
+	 */
+	async create(
+		settings: DownloadRunSettings,
+		shotsWithVersions: Array<{ shot: Shot; latestVersion: AssetVersion }>,
+	): Promise<void> {
+		this.queue = {
+			...settings,
+			createdAt: new Date().toISOString(),
+			items: shotsWithVersions.map(({ shot, latestVersion }) => ({
+				shot,
+				version: latestVersion,
+				status: "pending",
+			})),
+		};
+		await this.save();
+	}
+
+	/**
+	 * Record the outcome of processed versions and save the queue
+	 * @param outcomes - Shot and version IDs with their result
+	 */
+	async markProcessed(
+		outcomes: Array<{
+			shotId: string;
+			versionId: string;
+			success: boolean;
+			reason?: string;
+		}>,
+	): Promise<void> {
+		if (!this.queue) return;
+
+		for (const outcome of outcomes) {
+			const item = this.queue.items.find(
+				(item) =>
+					item.status !== "completed" &&
+					item.shot.id === outcome.shotId &&
+					item.version.id === outcome.versionId,
+			);
+			if (item) {
+				item.status = outcome.success ? "completed" : "failed";
+				item.reason = outcome.reason;
+			}
+		}
+		await this.save();
+	}
+
+	/**
+	 * Versions of the current queue not processed yet
+	 */
+	getPending(): Array<{ shot: Shot; latestVersion: AssetVersion }> {
+		return this.getItems(["pending"]);
+	}
+
+	/**
+	 * Versions still to download when resuming: pending ones, and failed ones
+	 * so they are retried (and offered a fallback) in the resumed run
+	 */
+	getRemaining(): Array<{ shot: Shot; latestVersion: AssetVersion }> {
+		return this.getItems(["pending", "failed"]);
+	}
+
+	/**
+	 * Delete the queue once its run has finished (or is discarded)
+	 */
+	async clear(): Promise<void> {
+		this.queue = null;
+		try {
+			await Deno.remove(this.queuePath);
+		} catch (error) {
+			if (!(error instanceof Deno.errors.NotFound)) {
+				throw error;
+			}
+		}
+	}
+
+	private getItems(
+		statuses: QueuedDownload["status"][],
+	): Array<{ shot: Shot; latestVersion: AssetVersion }> {
+		return (this.queue?.items ?? [])
+			.filter((item) => statuses.includes(item.status))
+			.map((item) => ({ shot: item.shot, latestVersion: item.version }));
+	}
+
+	/**
+	 * Write the queue through a temporary file so a crash mid-write never
+	 * leaves a truncated queue behind
+	 */
+	private async save(): Promise<void> {
+		if (!this.queue) return;
+
+		const dir = this.queuePath.slice(
+			0,
+			Math.max(
+				this.queuePath.lastIndexOf("/"),
+				this.queuePath.lastIndexOf("\\"),
+			),
+		);
+		if (dir) {
+			await Deno.mkdir(dir, { recursive: true });
+		}
+
+		const tempPath = `${this.queuePath}.tmp`;
+		await Deno.writeTextFile(tempPath, JSON.stringify(this.queue, null, 2));
+		await Deno.rename(tempPath, this.queuePath);
+		debug(
+			`Saved download queue: ${this.getPending().length} of ${this.queue.items.length} pending`,
+		);
+	}
+}
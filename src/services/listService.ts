@@ -1,4 +1,4 @@
-/** List helpers for Delete Media Tool */
+/** List and review session helpers for the Delete Media and Download Media tools */
 import type { Session } from "@ftrack/api";
 import type { ProjectContextService } from "./projectContext.ts";
 
@@ -54,7 +54,41 @@ export class ListService {
 			versionIds.push(...chunkIds);
 		}
 
-		// Deduplicate, just in case
+		// Deduplicate, just in case, and keep the order of the list
+		const position = new Map(entityIds.map((id, index) => [id, index]));
+		return Array.from(new Set(versionIds)).sort(
+			(a, b) => (position.get(a) ?? 0) - (position.get(b) ?? 0),
+		);
+	}
+
+	async fetchReviewSessions(): Promise<Array<{ id: string; name: string }>> {
+		const reviewSessionsQuery = this.projectContextService
+			.buildProjectScopedQuery(`
+      select id, name, created_at, project.name
+      from ReviewSession
+      order by created_at descending
+    `);
+		const response = await this.session.query(reviewSessionsQuery);
+		return (response?.data || []) as Array<{ id: string; name: string }>;
+	}
+
+	async getAssetVersionIdsFromReviewSession(
+		reviewSessionId: string,
+	): Promise<string[]> {
+		if (!reviewSessionId) return [];
+
+		// Review session objects carry the order the versions are presented in
+		const response = await this.session.query(`
+      select version_id, sort_order
+      from ReviewSessionObject
+      where review_session_id is "${reviewSessionId}"
+      order by sort_order
+    `);
+
+		const versionIds = (response?.data || [])
+			.map((rso: Record<string, unknown>) => rso.version_id)
+			.filter((id: unknown): id is string => typeof id === "string");
+
 		return Array.from(new Set(versionIds));
 	}
 }
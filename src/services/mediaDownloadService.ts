@@ -1,32 +1,124 @@
 import { debug } from "../utils/debug.ts";
 import type { Session } from "@ftrack/api";
+import { DownloadManifestService } from "./downloadManifestService.ts";
+import {
+	BandwidthLimiter,
+	ConcurrencyController,
+	withRetry,
+} from "./transferControl.ts";
+import {
+	DEFAULT_NAMING_TEMPLATE,
+	renderNamingTemplate,
+} from "../utils/namingTemplate.ts";
+import { isSequenceComponent, padFrame } from "../utils/imageSequence.ts";
 import type {
 	AssetVersion,
 	Component,
+	ComponentType,
 	DownloadProgress,
 	DownloadResult,
 	DownloadTask,
+	DownloadTransferOptions,
+	LocalTransferMode,
+	SyncSummary,
+} from "../types/index.ts";
+import {
+	DownloadHttpError,
+	DownloadUrlNotFoundError,
 } from "../types/index.ts";
 
 /**
  * Service for handling file downloads, concurrency, and file system operations
  */
 export class MediaDownloadService {
-	private readonly maxConcurrentDownloads: number;
+	private maxConcurrentDownloads: number;
 	private activeDownloads = new Map<string, DownloadProgress>();
 	private session?: Session;
 	private authHeaders: Record<string, string> = {};
+	private manifestService: DownloadManifestService;
+	private syncSummary?: SyncSummary;
+	private namingTemplate = DEFAULT_NAMING_TEMPLATE;
+	private versionOrder = new Map<string, number>();
+	private transferOptions: DownloadTransferOptions = {
+		maxRetries: 3,
+		retryBaseDelayMs: 1000,
+		idleTimeoutMs: 60_000,
+	};
+	private concurrency: ConcurrencyController;
+	private bandwidthLimiter?: BandwidthLimiter;
+	private localTransferMode: LocalTransferMode = "copy";
+	private componentTypeResolver?: (component: Component) => ComponentType;
+	private stopSignal?: AbortSignal;
 
 	constructor(
 		maxConcurrentDownloads: number = 4,
 		session?: Session,
 		authHeaders?: Record<string, string>,
+		manifestService: DownloadManifestService = new DownloadManifestService(),
 	) {
 		this.maxConcurrentDownloads = maxConcurrentDownloads;
 		this.session = session;
 		if (authHeaders) {
 			this.authHeaders = authHeaders;
 		}
+		this.manifestService = manifestService;
+		this.concurrency = new ConcurrencyController(maxConcurrentDownloads);
+	}
+
+	/**
+	 * Configure bandwidth cap, retries and concurrency for this run
+	 * @param options - Transfer options, merged over the current ones
+	 */
+	setTransferOptions(options: DownloadTransferOptions): void {
+		this.transferOptions = { ...this.transferOptions, ...options };
+
+		if (options.maxConcurrentDownloads) {
+			this.maxConcurrentDownloads = options.maxConcurrentDownloads;
+		}
+		this.concurrency = new ConcurrencyController(
+			this.maxConcurrentDownloads,
+			this.transferOptions.adaptiveConcurrency ?? false,
+		);
+		this.bandwidthLimiter = this.transferOptions.maxBytesPerSecond
+			? new BandwidthLimiter(this.transferOptions.maxBytesPerSecond)
+			: undefined;
+
+		debug(`Transfer options: ${JSON.stringify(this.transferOptions)}`);
+	}
+
+	/**
+	 * Set how tasks with a local path are transferred from mounted storage
+	 * @param mode - Copy the file, or hardlink it when on the same filesystem
+	 */
+	setLocalTransferMode(mode: LocalTransferMode): void {
+		this.localTransferMode = mode;
+	}
+
+	/**
+	 * Classify components with the component service (and its rules) for the
+	 * {component} token and manifest, instead of the ftrackreview names only
+	 * @param resolver - Returns the type of a component
+	 */
+	setComponentTypeResolver(
+		resolver: (component: Component) => ComponentType,
+	): void {
+		this.componentTypeResolver = resolver;
+	}
+
+	/**
+	 * Abort downloads in progress, and fail the ones not started yet, once
+	 * `signal` is aborted. Partial files are kept for resuming.
+	 * @param signal - The run's stop signal, or undefined to stop using one
+	 */
+	setStopSignal(signal?: AbortSignal): void {
+		this.stopSignal = signal;
+	}
+
+	/**
+	 * Maximum number of concurrent downloads
+	 */
+	getMaxConcurrentDownloads(): number {
+		return this.maxConcurrentDownloads;
 	}
 
 	/**
@@ -46,28 +138,44 @@ export class MediaDownloadService {
 
 	/**
 	 * Download single file with progress tracking
+	 *
+	 * Data is written to `<filename>.part` and renamed once complete. If a
+	 * `.part` file is left over from an interrupted run, the download resumes
+	 * from its current size with an HTTP Range request. When `expectedSize`
+	 * (the component size) is known, an existing complete file is skipped and
+	 * the finished download is verified against it.
 	 * @param url - The download URL
 	 * @param outputPath - The output directory path
 	 * @param filename - The filename to save as
+	 * @param expectedSize - Expected size in bytes (from Component.size)
 	 * @returns Promise resolving when download completes
 	 */
 	async downloadFile(
 		url: string,
 		outputPath: string,
 		filename: string,
+		expectedSize?: number,
 	): Promise<void> {
 		const taskId = `${outputPath}/${filename}`;
 		const fullPath = `${outputPath}/${filename}`;
+		const partPath = `${fullPath}.part`;
+		const hasExpectedSize = typeof expectedSize === "number" && expectedSize > 0;
 
 		try {
 			debug(`Starting download: ${filename} from ${url}`);
 
+			// Skip files that were already downloaded completely
+			if (hasExpectedSize && (await this.getFileSize(fullPath)) === expectedSize) {
+				debug(`File already complete, skipping: ${filename}`);
+				return;
+			}
+
 			// Initialize progress tracking
 			this.activeDownloads.set(taskId, {
 				taskId,
 				filename,
 				bytesDownloaded: 0,
-				totalBytes: 0,
+				totalBytes: expectedSize ?? 0,
 				percentage: 0,
 				status: "pending",
 			});
@@ -75,23 +183,380 @@ export class MediaDownloadService {
 			// Update status to downloading
 			this.updateProgress(taskId, { status: "downloading" });
 
+			// Ensure output directory exists (filenames may include sub-folders)
+			await Deno.mkdir(fullPath.slice(0, fullPath.lastIndexOf("/")), {
+				recursive: true,
+			});
+
+			let resumeFrom = await this.getFileSize(partPath);
+			if (hasExpectedSize && resumeFrom > expectedSize) {
+				debug(`Partial file larger than expected, restarting: ${filename}`);
+				await Deno.remove(partPath);
+				resumeFrom = 0;
+			}
+
+			if (hasExpectedSize && resumeFrom === expectedSize) {
+				debug(`Partial file already complete: ${filename}`);
+			} else {
+				// Wait for a slot, then stream - retries resume from the part file
+				await this.concurrency.acquire();
+				try {
+					this.stopSignal?.throwIfAborted();
+					await withRetry(
+						async () =>
+							this.streamToPartFile(
+								url,
+								partPath,
+								filename,
+								taskId,
+								await this.getFileSize(partPath),
+							),
+						this.transferOptions.maxRetries ?? 0,
+						this.transferOptions.retryBaseDelayMs ?? 1000,
+						filename,
+					);
+				} finally {
+					this.concurrency.release();
+				}
+			}
+
+			// Verify the size before moving the file into place
+			const finalSize = await this.getFileSize(partPath);
+			if (hasExpectedSize && finalSize !== expectedSize) {
+				if (finalSize > expectedSize) {
+					await Deno.remove(partPath);
+				}
+				throw new Error(
+					`Size mismatch for ${filename}: expected ${expectedSize} bytes, got ${finalSize} bytes`,
+				);
+			}
+
+			await Deno.rename(partPath, fullPath);
+
+			this.updateProgress(taskId, { status: "completed" });
+			debug(`Download completed: ${filename} (${this.formatBytes(finalSize)})`);
+		} catch (error) {
+			this.updateProgress(taskId, { status: "failed" });
+			debug(`Download failed for ${filename}: ${error}`);
+			throw error;
+		} finally {
+			// Clean up progress tracking
+			this.activeDownloads.delete(taskId);
+		}
+	}
+
+	/**
+	 * Download a component and record it in the download manifest
+	 * @param task - The download task
+	 * @returns Promise resolving when the download is complete and recorded
+	 */
+	async downloadComponent(task: DownloadTask): Promise<void> {
+		if (task.sequenceMembers) {
+			await this.downloadSequence(task, task.sequenceMembers);
+			return;
+		}
+
+		let updated = false;
+		if (this.syncSummary) {
+			const existing = await this.checkExistingFile(task);
+			if (existing === "current") {
+				debug(`Sync: skipping unchanged file ${task.filename}`);
+				this.syncSummary.skipped.push(task.filename);
+				return;
+			}
+			updated = existing === "changed";
+		}
+
+		const transferredLocally = task.localPath
+			? await this.transferLocalFile(task, task.localPath)
+			: false;
+		if (!transferredLocally) {
+			if (!task.url) {
+				throw new DownloadUrlNotFoundError(task.component.id);
+			}
+			await this.downloadFile(
+				task.url,
+				task.outputPath,
+				task.filename,
+				task.component.size,
+			);
+		}
+		await this.manifestService.record(
+			task,
+			this.getComponentTypeForFilename(task.component),
+		);
+
+		if (this.syncSummary) {
+			(updated ? this.syncSummary.updated : this.syncSummary.added).push(
+				task.filename,
+			);
+		}
+	}
+
+	/**
+	 * Download every frame of an image sequence into its folder. All frames
+	 * are attempted before failing, so a re-run only has to fetch the missing ones.
+	 * @param task - The sequence task
+	 * @param frames - One task per frame
+	 */
+	private async downloadSequence(
+		task: DownloadTask,
+		frames: DownloadTask[],
+	): Promise<void> {
+		debug(`Downloading ${frames.length} frames into ${task.filename}`);
+
+		const results = await Promise.allSettled(
+			frames.map((frame) => this.downloadComponent(frame)),
+		);
+		const failures = results.filter(
+			(result): result is PromiseRejectedResult => result.status === "rejected",
+		);
+		if (failures.length > 0) {
+			throw new Error(
+				`${failures.length} of ${frames.length} frames failed for ${task.filename}: ${failures[0].reason}`,
+			);
+		}
+	}
+
+	/**
+	 * Copy or hardlink a component from mounted storage into the output folder.
+	 * Hardlinks fall back to a copy when the link cannot be created (e.g. the
+	 * output folder is on another filesystem).
+	 * @param task - The download task
+	 * @param sourcePath - Path of the component on the mounted storage
+	 * @returns Promise resolving to false when the source file is missing or
+	 * incomplete, so the component should be downloaded over HTTP instead
+	 */
+	private async transferLocalFile(
+		task: DownloadTask,
+		sourcePath: string,
+	): Promise<boolean> {
+		const expectedSize = task.component.size;
+		let sourceSize: number;
+		try {
+			const stat = await Deno.stat(sourcePath);
+			if (!stat.isFile) {
+				debug(`Local source is not a file, using HTTP: ${sourcePath}`);
+				return false;
+			}
+			sourceSize = stat.size;
+		} catch (error) {
+			debug(`Local source unavailable, using HTTP: ${sourcePath} (${error})`);
+			return false;
+		}
+		if (expectedSize > 0 && sourceSize !== expectedSize) {
+			debug(
+				`Local source size ${sourceSize} does not match ${expectedSize}, using HTTP: ${sourcePath}`,
+			);
+			return false;
+		}
+
+		const fullPath = `${task.outputPath}/${task.filename}`;
+		const partPath = `${fullPath}.part`;
+		if ((await this.getFileSize(fullPath)) === sourceSize && sourceSize > 0) {
+			debug(`File already complete, skipping: ${task.filename}`);
+			return true;
+		}
+
+		await Deno.mkdir(fullPath.slice(0, fullPath.lastIndexOf("/")), {
+			recursive: true,
+		});
+
+		if (this.localTransferMode === "hardlink") {
+			try {
+				// A link cannot replace an existing (outdated) file
+				await Deno.remove(fullPath);
+			} catch {
+				// Nothing to replace
+			}
+			try {
+				await Deno.link(sourcePath, fullPath);
+				debug(`Hardlinked ${task.filename} from ${sourcePath}`);
+				return true;
+			} catch (error) {
+				debug(`Hardlink failed for ${task.filename}, copying (${error})`);
+			}
+		}
+
+		await Deno.copyFile(sourcePath, partPath);
+		await Deno.rename(partPath, fullPath);
+		debug(
+			`Copied ${task.filename} from ${sourcePath} (${this.formatBytes(sourceSize)})`,
+		);
+		return true;
+	}
+
+	/**
+	 * Switch to sync mode: downloads go into a fixed directory and files that
+	 * are already there (per its manifest, or by name and size) are skipped
+	 * @param directory - The directory to sync into
+	 * @returns Promise resolving when the directory is ready
+	 */
+	async startSync(directory: string): Promise<void> {
+		await Deno.mkdir(directory, { recursive: true });
+
+		try {
+			const previous = await this.manifestService.load(directory);
+			this.manifestService.addExisting(directory, previous);
+			debug(
+				`Sync: loaded previous manifest with ${previous.entries.length} entries`,
+			);
+		} catch {
+			debug(`Sync: no previous manifest in ${directory}, comparing by size`);
+		}
+
+		this.syncSummary = { added: [], updated: [], skipped: [] };
+	}
+
+	/**
+	 * Get the files added, updated and skipped since sync mode was started
+	 * @returns The sync summary, or null when not syncing
+	 */
+	getSyncSummary(): SyncSummary | null {
+		return this.syncSummary ?? null;
+	}
+
+	/**
+	 * Compare a download task with what is already on disk. A file is current
+	 * when the previous manifest lists the same component at the same size,
+	 * or (without a manifest entry) when its size matches the component.
+	 * Existing files that are not current are removed so they are fetched again.
+	 */
+	private async checkExistingFile(
+		task: DownloadTask,
+	): Promise<"missing" | "current" | "changed"> {
+		const fullPath = `${task.outputPath}/${task.filename}`;
+		const size = await this.getFileSize(fullPath);
+		if (size === 0) {
+			return "missing";
+		}
+
+		const entry = this.manifestService.getEntry(fullPath);
+		const current = entry
+			? entry.componentId === task.component.id &&
+				entry.size === size &&
+				(!task.component.size || task.component.size === size)
+			: size === task.component.size;
+
+		if (current) {
+			// Files found without a manifest entry are added to the new manifest
+			if (!entry) {
+				await this.manifestService.record(
+					task,
+					this.getComponentTypeForFilename(task.component),
+				);
+			}
+			return "current";
+		}
+
+		await Deno.remove(fullPath);
+		return "changed";
+	}
+
+	/**
+	 * Write the manifest of everything downloaded so far into a folder
+	 * @param directory - The download folder
+	 * @returns Promise resolving to the written file paths, or null if nothing was downloaded
+	 */
+	async writeManifest(
+		directory: string,
+	): Promise<{ jsonPath: string; csvPath: string } | null> {
+		if (this.manifestService.getEntries().length === 0) {
+			return null;
+		}
+		return await this.manifestService.write(directory);
+	}
+
+	/**
+	 * Stream a download into the `.part` file, resuming from `resumeFrom` bytes
+	 * when possible. The request is aborted when no data arrives within the
+	 * idle timeout or the run is stopped, and writes are paced by the
+	 * bandwidth limiter.
+	 */
+	private async streamToPartFile(
+		url: string,
+		partPath: string,
+		filename: string,
+		taskId: string,
+		resumeFrom: number,
+	): Promise<void> {
+		const headers: Record<string, string> = {};
+		if (resumeFrom > 0) {
+			headers.Range = `bytes=${resumeFrom}-`;
+			debug(`Resuming ${filename} from byte ${resumeFrom}`);
+		}
+
+		const idleTimeoutMs = this.transferOptions.idleTimeoutMs ?? 60_000;
+		const controller = new AbortController();
+		let idleTimer: ReturnType<typeof setTimeout> | undefined;
+		const resetIdleTimer = () => {
+			clearTimeout(idleTimer);
+			idleTimer = setTimeout(
+				() =>
+					controller.abort(
+						new DOMException(
+							`No data received for ${idleTimeoutMs}ms`,
+							"TimeoutError",
+						),
+					),
+				idleTimeoutMs,
+			);
+		};
+
+		resetIdleTimer();
+		try {
 			// Fetch the file with session-based authentication
-			const response = await this.makeAuthenticatedRequest(url);
+			const response = await this.makeAuthenticatedRequest(url, {
+				headers,
+				signal: this.stopSignal
+					? AbortSignal.any([controller.signal, this.stopSignal])
+					: controller.signal,
+			});
 
-			if (!response.ok) {
-				throw new Error(`HTTP error! status: ${response.status}`);
+			if (response.status === 416 && resumeFrom > 0) {
+				// The partial file no longer matches the remote file - start over
+				await response.body?.cancel();
+				await Deno.remove(partPath);
+				return await this.streamToPartFile(
+					url,
+					partPath,
+					filename,
+					taskId,
+					0,
+				);
 			}
 
-			const contentLength = response.headers.get("content-length");
-			const totalBytes = contentLength ? parseInt(contentLength, 10) : 0;
+			if (!response.ok) {
+				await response.body?.cancel();
+				throw new DownloadHttpError(response.status);
+			}
 
-			this.updateProgress(taskId, { totalBytes });
+			// Servers that ignore the Range header send the whole file again
+			const resumed = resumeFrom > 0 && response.status === 206;
+			if (resumeFrom > 0 && !resumed) {
+				debug(`Server does not support ranges, restarting ${filename}`);
+			}
+			const offset = resumed ? resumeFrom : 0;
 
-			// Ensure output directory exists
-			await Deno.mkdir(outputPath, { recursive: true });
+			const contentLength = response.headers.get("content-length");
+			const totalBytes = contentLength
+				? offset + parseInt(contentLength, 10)
+				: 0;
+
+			this.updateProgress(taskId, { totalBytes, bytesDownloaded: offset });
+
+			// Append when resuming, otherwise start with an empty file
+			const file = await Deno.open(partPath, {
+				create: true,
+				write: true,
+				append: resumed,
+				truncate: !resumed,
+			});
 
-			// Create write stream
-			const file = await Deno.open(fullPath, { create: true, write: true });
+			const startTime = Date.now();
+			// Time spent waiting on the bandwidth cap is not transfer time
+			let limiterWaitMs = 0;
+			let bytesDownloaded = offset;
 
 			try {
 				const reader = response.body?.getReader();
@@ -99,13 +564,17 @@ export class MediaDownloadService {
 					throw new Error("Failed to get response reader");
 				}
 
-				let bytesDownloaded = 0;
-
 				while (true) {
 					const { done, value } = await reader.read();
 
 					if (done) break;
 
+					resetIdleTimer();
+					if (this.bandwidthLimiter) {
+						const waitStart = Date.now();
+						await this.bandwidthLimiter.consume(value.length);
+						limiterWaitMs += Date.now() - waitStart;
+					}
 					await file.write(value);
 					bytesDownloaded += value.length;
 
@@ -132,23 +601,16 @@ export class MediaDownloadService {
 						);
 					}
 				}
-
-				this.updateProgress(taskId, { status: "completed" });
-				debug(
-					`Download completed: ${filename} (${this.formatBytes(
-						bytesDownloaded,
-					)})`,
-				);
 			} finally {
 				file.close();
 			}
-		} catch (error) {
-			this.updateProgress(taskId, { status: "failed" });
-			debug(`Download failed for ${filename}: ${error}`);
-			throw error;
+
+			this.concurrency.recordTransfer(
+				bytesDownloaded - offset,
+				Date.now() - startTime - limiterWaitMs,
+			);
 		} finally {
-			// Clean up progress tracking
-			this.activeDownloads.delete(taskId);
+			clearTimeout(idleTimer);
 		}
 	}
 
@@ -168,7 +630,7 @@ export class MediaDownloadService {
 		for (const chunk of chunks) {
 			const chunkPromises = chunk.map(async (task): Promise<DownloadResult> => {
 				try {
-					await this.downloadFile(task.url, task.outputPath, task.filename);
+					await this.downloadComponent(task);
 
 					return {
 						task,
@@ -240,7 +702,26 @@ export class MediaDownloadService {
 	}
 
 	/**
-	 * Generate safe filename from component info
+	 * Set the naming template used by generateSafeFilename for this run
+	 * @param template - A template accepted by validateNamingTemplate
+	 */
+	setNamingTemplate(template: string): void {
+		this.namingTemplate = template;
+	}
+
+	/**
+	 * Set the order of versions (e.g. from a List) used for the {index} token
+	 * @param versionIds - Asset version IDs in order
+	 */
+	setVersionOrder(versionIds: string[]): void {
+		this.versionOrder = new Map(
+			versionIds.map((versionId, index) => [versionId, index + 1]),
+		);
+	}
+
+	/**
+	 * Generate safe filename from component info using the naming template.
+	 * The result may contain "/" for sub-folders of the output directory.
 	 * @param component - The component
 	 * @param assetVersion - The asset version
 	 * @returns Safe filename string
@@ -249,22 +730,49 @@ export class MediaDownloadService {
 		component: Component,
 		assetVersion: AssetVersion,
 	): string {
-		const shotName = assetVersion.asset.parent.name;
-		const assetName = assetVersion.asset.name;
-		const version = `v${assetVersion.version.toString().padStart(3, "0")}`;
-		const componentType = this.getComponentTypeForFilename(component);
-
-		// Get file extension from component, handling cases where file_type already includes a dot
-		const cleanFileType = component.file_type?.replace(/^\.+/, "") || "";
-		const extension = cleanFileType ? `.${cleanFileType}` : "";
-
-		// Create base filename
-		const baseFilename = `${shotName}_${assetName}_${version}_${componentType}`;
-
-		// Sanitize filename (remove/replace unsafe characters)
-		const safeFilename = baseFilename.replace(/[<>:"/\\|?*]/g, "_");
+		const shot = assetVersion.asset?.parent;
+		// Image sequences are downloaded into a folder named without extension
+		const isSequence = isSequenceComponent(component);
+
+		return renderNamingTemplate(this.namingTemplate, {
+			project: shot?.project?.name,
+			sequence: shot?.parent?.name,
+			shot: shot?.name,
+			asset: assetVersion.asset?.name,
+			asset_type: assetVersion.asset?.type?.name,
+			task: assetVersion.task?.name,
+			version: assetVersion.version,
+			status: assetVersion.status?.name,
+			user: assetVersion.user?.username,
+			date: assetVersion.date,
+			component: this.getComponentTypeForFilename(component),
+			// Handle cases where file_type already includes a dot
+			ext: isSequence ? undefined : component.file_type?.replace(/^\.+/, ""),
+			index: this.versionOrder.get(assetVersion.id),
+		});
+	}
 
-		return `${safeFilename}${extension}`;
+	/**
+	 * Generate the filename of one frame of an image sequence, inside the
+	 * sequence folder: "<folder>/<folder name>.<padded frame>.<ext>"
+	 * @param sequenceFolder - The sequence filename from generateSafeFilename
+	 * @param sequence - The sequence component (for padding and file type)
+	 * @param member - The frame component, named by its frame number
+	 * @returns Safe filename string
+	 */
+	generateSequenceFrameFilename(
+		sequenceFolder: string,
+		sequence: Component,
+		member: Component,
+	): string {
+		const frameNumber = Number(member.name);
+		const frame = Number.isInteger(frameNumber)
+			? padFrame(frameNumber, sequence.padding ?? 0)
+			: member.name.replace(/[<>:"/\\|?*]/g, "_");
+		const ext = (member.file_type || sequence.file_type)?.replace(/^\.+/, "");
+		const baseName = sequenceFolder.slice(sequenceFolder.lastIndexOf("/") + 1);
+
+		return `${sequenceFolder}/${baseName}.${frame}${ext ? `.${ext}` : ""}`;
 	}
 
 	/**
@@ -339,6 +847,13 @@ export class MediaDownloadService {
 	 * @returns Component type string for filename
 	 */
 	private getComponentTypeForFilename(component: Component): string {
+		if (this.componentTypeResolver) {
+			const type = this.componentTypeResolver(component);
+			return type === "encoded-1080p" || type === "encoded-720p"
+				? type.replace("-", "_")
+				: "original";
+		}
+
 		const name = component.name.toLowerCase();
 
 		if (name === "ftrackreview-mp4-1080") {
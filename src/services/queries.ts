@@ -68,7 +68,7 @@ export class QueryService {
 			additionalFilters,
 		);
 		let baseQuery =
-			"select id, version, asset.name, asset.parent.name, task.name from AssetVersion";
+			"select id, version, asset.name, asset.type.name, asset.parent.name, asset.parent.parent.name, asset.parent.project.name, task.name, status.name, user.username, date from AssetVersion";
 
 		if (additionalFilters) {
 			baseQuery += ` where ${additionalFilters}`;
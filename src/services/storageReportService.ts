@@ -0,0 +1,352 @@
+import { createObjectCsvWriter } from "csv-writer";
+import type { QueryService } from "./queries.ts";
+import {
+	DEFAULT_PROTECTION_RULES,
+	type DeletionProtectionService,
+} from "./deletionProtectionService.ts";
+import { debug } from "../utils/debug.ts";
+import type {
+	ReclaimableCandidate,
+	StorageDimension,
+	StorageReport,
+	StorageSortKey,
+	StorageUsageRow,
+} from "../types/storageReport.ts";
+
+export const STORAGE_DIMENSIONS: StorageDimension[] = [
+	"sequence",
+	"shot",
+	"asset_type",
+	"status",
+	"user",
+	"age",
+	"location",
+];
+
+/** Age buckets by the version date, youngest first */
+export const AGE_BUCKETS: Array<{ label: string; maxDays: number }> = [
+	{ label: "< 30 days", maxDays: 30 },
+	{ label: "30-90 days", maxDays: 90 },
+	{ label: "90-180 days", maxDays: 180 },
+	{ label: "180-365 days", maxDays: 365 },
+	{ label: "> 1 year", maxDays: Infinity },
+];
+
+/** Superseded versions younger than this are still likely to be needed */
+export const MIN_CANDIDATE_AGE_DAYS = 30;
+
+const PAGE_SIZE = 500;
+const UNKNOWN = "(unknown)";
+const NO_LOCATION = "(no location)";
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** AssetVersion as returned by the storage query */
+export interface StorageVersionRecord {
+	id: string;
+	version: number;
+	date?: string | null;
+	asset?: {
+		id: string;
+		name: string;
+		type?: { name: string } | null;
+		parent?: { name: string; parent?: { name: string } | null } | null;
+	} | null;
+	status?: { name: string } | null;
+	user?: { username: string } | null;
+	components?: Array<{
+		id: string;
+		size?: number | null;
+		component_locations?: Array<{ location?: { name: string } | null }>;
+	}>;
+}
+
+/**
+ * StorageReportService
+ * - Adds up component sizes of the project's versions by sequence, shot,
+ *   asset type, status, user, age and location.
+ * - Lists the largest superseded versions as reclaimable candidates,
+ *   leaving out the ones deletions are protected from.
+ */
+export class StorageReportService {
+	constructor(
+		private queryService: QueryService,
+		private protectionService?: DeletionProtectionService,
+	) {}
+
+	/**
+	 * Fetch every version of the project (or site) with its components, page
+	 * by page
+	 */
+	async fetchVersions(): Promise<StorageVersionRecord[]> {
+		const versions: StorageVersionRecord[] = [];
+
+		for (let offset = 0; ; offset += PAGE_SIZE) {
+			const result = await this.queryService.executeProjectScopedQuery(`
+        select id, version, date, asset.id, asset.name, asset.type.name,
+               asset.parent.name, asset.parent.parent.name,
+               status.name, user.username,
+               components.id, components.size,
+               components.component_locations.location.name
+        from AssetVersion
+        order by id limit ${PAGE_SIZE} offset ${offset}
+      `);
+			const page = (result.data ?? []) as StorageVersionRecord[];
+			versions.push(...page);
+			debug(`Storage report: fetched ${versions.length} versions`);
+			if (page.length < PAGE_SIZE) break;
+		}
+
+		return versions;
+	}
+
+	/**
+	 * Aggregate fetched versions into a report
+	 * @param versions - Versions from fetchVersions
+	 * @param scope - Project name, or "all projects"
+	 * @param now - Reference date for ages
+	 */
+	buildReport(
+		versions: StorageVersionRecord[],
+		scope: string,
+		now: Date = new Date(),
+	): StorageReport {
+		const groups = Object.fromEntries(
+			STORAGE_DIMENSIONS.map((dimension) => [
+				dimension,
+				new Map<string, StorageUsageRow & { versionIds: Set<string> }>(),
+			]),
+		) as Record<
+			StorageDimension,
+			Map<string, StorageUsageRow & { versionIds: Set<string> }>
+		>;
+		const add = (
+			dimension: StorageDimension,
+			key: string,
+			versionId: string,
+			bytes: number,
+		) => {
+			const rows = groups[dimension];
+			let row = rows.get(key);
+			if (!row) {
+				row = {
+					key,
+					bytes: 0,
+					components: 0,
+					versions: 0,
+					versionIds: new Set(),
+				};
+				rows.set(key, row);
+			}
+			row.bytes += bytes;
+			row.components++;
+			row.versionIds.add(versionId);
+		};
+
+		// Newest version number of each asset, to find superseded versions
+		const latestByAsset = new Map<string, number>();
+		for (const version of versions) {
+			const assetId = version.asset?.id;
+			if (!assetId) continue;
+			latestByAsset.set(
+				assetId,
+				Math.max(latestByAsset.get(assetId) ?? 0, version.version),
+			);
+		}
+
+		let totalBytes = 0;
+		let totalComponents = 0;
+		const candidates: ReclaimableCandidate[] = [];
+
+		for (const version of versions) {
+			const ageDays = version.date
+				? Math.floor(
+						(now.getTime() - new Date(version.date).getTime()) / DAY_MS,
+					)
+				: null;
+			const keys: Record<Exclude<StorageDimension, "location">, string> = {
+				sequence: version.asset?.parent?.parent?.name || UNKNOWN,
+				shot: version.asset?.parent?.name || UNKNOWN,
+				asset_type: version.asset?.type?.name || UNKNOWN,
+				status: version.status?.name || UNKNOWN,
+				user: version.user?.username || UNKNOWN,
+				age: this.getAgeBucket(ageDays),
+			};
+
+			let versionBytes = 0;
+			for (const component of version.components ?? []) {
+				const bytes = component.size || 0;
+				versionBytes += bytes;
+				totalBytes += bytes;
+				totalComponents++;
+
+				for (const [dimension, key] of Object.entries(keys)) {
+					add(dimension as StorageDimension, key, version.id, bytes);
+				}
+				const locations = new Set(
+					(component.component_locations ?? [])
+						.map((componentLocation) => componentLocation.location?.name)
+						.filter((name): name is string => !!name),
+				);
+				for (const location of locations.size ? locations : [NO_LOCATION]) {
+					add("location", location, version.id, bytes);
+				}
+			}
+
+			const latestVersion = latestByAsset.get(version.asset?.id ?? "");
+			if (
+				latestVersion !== undefined &&
+				version.version < latestVersion &&
+				versionBytes > 0 &&
+				ageDays !== null &&
+				ageDays >= MIN_CANDIDATE_AGE_DAYS
+			) {
+				candidates.push({
+					versionId: version.id,
+					label: `${version.asset?.name || "Unknown"} v${version.version}`,
+					shot: keys.shot,
+					status: version.status?.name,
+					user: version.user?.username,
+					ageDays,
+					bytes: versionBytes,
+					latestVersion,
+				});
+			}
+		}
+
+		return {
+			createdAt: now.toISOString(),
+			scope,
+			totalBytes,
+			totalComponents,
+			totalVersions: versions.length,
+			groups: Object.fromEntries(
+				STORAGE_DIMENSIONS.map((dimension) => [
+					dimension,
+					StorageReportService.sortRows(
+						[...groups[dimension].values()].map(
+							({ versionIds, ...row }) => ({
+								...row,
+								versions: versionIds.size,
+							}),
+						),
+						"size",
+					),
+				]),
+			) as Record<StorageDimension, StorageUsageRow[]>,
+			candidates: candidates.sort((a, b) => b.bytes - a.bytes),
+			protectedCandidates: [],
+		};
+	}
+
+	/**
+	 * Move the candidates that deletions are protected from (delivered,
+	 * latest sent, in review or on a list) out of the reclaimable candidates
+	 * @param report - A report from buildReport
+	 */
+	async excludeProtectedCandidates(report: StorageReport): Promise<StorageReport> {
+		if (!this.protectionService || report.candidates.length === 0) {
+			return report;
+		}
+		const reasons = new Map(
+			(
+				await this.protectionService.findProtectedVersions(
+					report.candidates.map((candidate) => candidate.versionId),
+					DEFAULT_PROTECTION_RULES,
+				)
+			).map((version) => [version.versionId, version.reason]),
+		);
+		debug(`Storage report: ${reasons.size} candidates are protected`);
+
+		return {
+			...report,
+			candidates: report.candidates.filter(
+				(candidate) => !reasons.has(candidate.versionId),
+			),
+			protectedCandidates: report.candidates
+				.filter((candidate) => reasons.has(candidate.versionId))
+				.map((candidate) => ({
+					...candidate,
+					reason: reasons.get(candidate.versionId)!,
+				})),
+		};
+	}
+
+	/**
+	 * Write the report as JSON, and as CSV files for the breakdowns and the
+	 * reclaimable candidates
+	 * @param directory - Output folder
+	 * @returns Promise resolving to the written file paths
+	 */
+	async writeReport(
+		report: StorageReport,
+		directory: string,
+	): Promise<{ jsonPath: string; csvPath: string; candidatesCsvPath: string }> {
+		const timestamp = report.createdAt.replace(/[:.]/g, "-");
+		const basePath = `${directory}/storage-report-${timestamp}`;
+		const jsonPath = `${basePath}.json`;
+		const csvPath = `${basePath}.csv`;
+		const candidatesCsvPath = `${basePath}-candidates.csv`;
+
+		await Deno.writeTextFile(jsonPath, JSON.stringify(report, null, 2));
+
+		await createObjectCsvWriter({
+			path: csvPath,
+			header: [
+				{ id: "dimension", title: "Dimension" },
+				{ id: "key", title: "Group" },
+				{ id: "bytes", title: "Size (bytes)" },
+				{ id: "components", title: "Components" },
+				{ id: "versions", title: "Versions" },
+			],
+		}).writeRecords(
+			STORAGE_DIMENSIONS.flatMap((dimension) =>
+				report.groups[dimension].map((row) => ({ dimension, ...row })),
+			),
+		);
+
+		await createObjectCsvWriter({
+			path: candidatesCsvPath,
+			header: [
+				{ id: "versionId", title: "Version ID" },
+				{ id: "label", title: "Version" },
+				{ id: "shot", title: "Shot" },
+				{ id: "latestVersion", title: "Latest Version" },
+				{ id: "status", title: "Status" },
+				{ id: "user", title: "User" },
+				{ id: "ageDays", title: "Age (days)" },
+				{ id: "bytes", title: "Size (bytes)" },
+			],
+		}).writeRecords(report.candidates);
+
+		debug(`Wrote storage report to ${basePath}`);
+		return { jsonPath, csvPath, candidatesCsvPath };
+	}
+
+	/**
+	 * Sort breakdown rows: size, components and versions largest first, name A-Z
+	 */
+	static sortRows(
+		rows: StorageUsageRow[],
+		sortBy: StorageSortKey,
+	): StorageUsageRow[] {
+		return [...rows].sort((a, b) => {
+			switch (sortBy) {
+				case "name":
+					return a.key.localeCompare(b.key);
+				case "components":
+					return b.components - a.components || b.bytes - a.bytes;
+				case "versions":
+					return b.versions - a.versions || b.bytes - a.bytes;
+				default:
+					return b.bytes - a.bytes || a.key.localeCompare(b.key);
+			}
+		});
+	}
+
+	private getAgeBucket(ageDays: number | null): string {
+		if (ageDays === null) return UNKNOWN;
+		return (
+			AGE_BUCKETS.find((bucket) => ageDays < bucket.maxDays)?.label ?? UNKNOWN
+		);
+	}
+}
@@ -0,0 +1,259 @@
+import { debug } from "../utils/debug.ts";
+import { DownloadHttpError, DownloadStoppedError } from "../types/index.ts";
+
+/** Transfers smaller than this do not affect adaptive concurrency */
+const MIN_SAMPLE_BYTES = 1024 * 1024;
+
+/** Weight of each throughput sample in the running average */
+const BASELINE_WEIGHT = 0.2;
+
+const sleep = (ms: number) =>
+	new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Token bucket shared by all download streams to cap total bandwidth
+ */
+export class BandwidthLimiter {
+	private available: number;
+	private lastRefill = Date.now();
+	private queue: Promise<void> = Promise.resolve();
+
+	/**
+	 * @param bytesPerSecond - Total bandwidth allowed across all streams
+	 */
+	constructor(private readonly bytesPerSecond: number) {
+		// Allow bursts of up to one second of data
+		this.available = bytesPerSecond;
+	}
+
+	/**
+	 * Wait until `bytes` may be transferred. Callers are served in order.
+	 * @param bytes - Number of bytes about to be written
+	 */
+	consume(bytes: number): Promise<void> {
+		const turn = this.queue.then(() => this.take(bytes));
+		this.queue = turn;
+		return turn;
+	}
+
+	private async take(bytes: number): Promise<void> {
+		this.refill();
+		this.available -= bytes;
+		if (this.available < 0) {
+			// Wait for the deficit to be refilled
+			await sleep((-this.available / this.bytesPerSecond) * 1000);
+		}
+	}
+
+	private refill(): void {
+		const now = Date.now();
+		this.available = Math.min(
+			this.bytesPerSecond,
+			this.available + ((now - this.lastRefill) / 1000) * this.bytesPerSecond,
+		);
+		this.lastRefill = now;
+	}
+}
+
+/**
+ * Limits how many downloads stream at once. When adaptive, the limit is
+ * lowered while the total throughput of the running streams drops below half
+ * of its running average, and raised again once it gets close to it. A
+ * sample counts as at most twice the average, so one unusually fast transfer
+ * does not make the normal ones after it look slow.
+ * Streams sharing a saturated link each get less, but their total does not
+ * drop, so sharing alone does not lower the limit.
+ */
+export class ConcurrencyController {
+	private active = 0;
+	private waiting: Array<() => void> = [];
+	private limit: number;
+	private averageThroughput = 0;
+
+	/**
+	 * @param maxConcurrency - Upper bound for concurrent downloads
+	 * @param adaptive - Adjust the limit from throughput samples
+	 */
+	constructor(
+		private readonly maxConcurrency: number,
+		private readonly adaptive: boolean = false,
+	) {
+		this.limit = Math.max(1, maxConcurrency);
+	}
+
+	/**
+	 * Wait for a free download slot
+	 */
+	async acquire(): Promise<void> {
+		if (this.active < this.limit) {
+			this.active++;
+			return;
+		}
+		await new Promise<void>((resolve) => this.waiting.push(resolve));
+	}
+
+	/**
+	 * Free a download slot, handing it to the next waiting download
+	 */
+	release(): void {
+		this.active--;
+		this.wakeWaiting();
+	}
+
+	/**
+	 * Report a finished stream, before releasing its slot. Small transfers
+	 * are ignored as their throughput is dominated by request latency.
+	 * @param bytes - Bytes transferred by the stream
+	 * @param elapsedMs - Time the stream took, without bandwidth limiter waits
+	 */
+	recordTransfer(bytes: number, elapsedMs: number): void {
+		if (!this.adaptive || bytes < MIN_SAMPLE_BYTES) return;
+
+		// The running streams are assumed to get about the same throughput
+		const totalThroughput =
+			(bytes / (Math.max(elapsedMs, 1) / 1000)) * Math.max(this.active, 1);
+
+		if (this.averageThroughput === 0) {
+			this.averageThroughput = totalThroughput;
+		}
+		const average = this.averageThroughput;
+		this.averageThroughput +=
+			BASELINE_WEIGHT * (Math.min(totalThroughput, average * 2) - average);
+
+		if (totalThroughput < average * 0.5 && this.limit > 1) {
+			this.limit--;
+			debug(`Total throughput dropped, lowering concurrency to ${this.limit}`);
+		} else if (
+			totalThroughput >= average * 0.8 &&
+			this.limit < this.maxConcurrency
+		) {
+			this.limit++;
+			debug(`Throughput recovered, raising concurrency to ${this.limit}`);
+			this.wakeWaiting();
+		}
+	}
+
+	/**
+	 * Current concurrency limit
+	 */
+	getLimit(): number {
+		return this.limit;
+	}
+
+	private wakeWaiting(): void {
+		while (this.active < this.limit && this.waiting.length > 0) {
+			this.active++;
+			this.waiting.shift()!();
+		}
+	}
+}
+
+/**
+ * Whether a failed download is worth retrying: 5xx and 429 responses,
+ * timeouts and network errors. Other HTTP errors (404, 403...) are final.
+ */
+export function isRetryableDownloadError(error: unknown): boolean {
+	if (error instanceof DownloadHttpError) {
+		return error.status >= 500 || error.status === 429;
+	}
+	if (error instanceof DOMException) {
+		return error.name === "TimeoutError" || error.name === "AbortError";
+	}
+	// fetch rejects with a TypeError on network failures
+	return error instanceof TypeError || error instanceof Deno.errors.Http;
+}
+
+/**
+ * Run an operation, retrying retryable failures with exponential backoff
+ * @param operation - The operation to run
+ * @param maxRetries - Retries after the first attempt
+ * @param baseDelayMs - Delay before the first retry, doubled for each further retry
+ * @param label - Used in debug output
+ */
+export async function withRetry<T>(
+	operation: () => Promise<T>,
+	maxRetries: number,
+	baseDelayMs: number,
+	label: string,
+): Promise<T> {
+	for (let attempt = 0; ; attempt++) {
+		try {
+			return await operation();
+		} catch (error) {
+			if (attempt >= maxRetries || !isRetryableDownloadError(error)) {
+				throw error;
+			}
+			const delay = baseDelayMs * 2 ** attempt;
+			debug(
+				`Attempt ${attempt + 1} for ${label} failed (${error}), retrying in ${delay}ms`,
+			);
+			await sleep(delay);
+		}
+	}
+}
+
+/**
+ * Lets the user pause a download run with Ctrl+C. The first Ctrl+C asks the
+ * run to pause once the current batch finishes; the listener decides what a
+ * second one does (e.g. stop straight away with `requestStop`).
+ */
+export class PauseController {
+	private pauseRequested = false;
+	private listener?: () => void;
+	private stopController = new AbortController();
+
+	/**
+	 * Start handling Ctrl+C instead of letting it end the process
+	 * @param onInterrupt - Called on every Ctrl+C, with whether a pause was already requested
+	 */
+	listen(onInterrupt: (alreadyRequested: boolean) => void): void {
+		this.stopListening();
+		this.listener = () => {
+			const alreadyRequested = this.pauseRequested;
+			this.pauseRequested = true;
+			onInterrupt(alreadyRequested);
+		};
+		Deno.addSignalListener("SIGINT", this.listener);
+	}
+
+	/**
+	 * Restore the default Ctrl+C behaviour
+	 */
+	stopListening(): void {
+		if (this.listener) {
+			Deno.removeSignalListener("SIGINT", this.listener);
+			this.listener = undefined;
+		}
+	}
+
+	/**
+	 * Ask the run to pause after the current batch
+	 */
+	requestPause(): void {
+		this.pauseRequested = true;
+	}
+
+	/**
+	 * Stop the run now: downloads in progress are aborted, keeping their
+	 * partial files, and no further ones start
+	 */
+	requestStop(): void {
+		this.stopController.abort(new DownloadStoppedError());
+	}
+
+	/**
+	 * Aborted once a stop is requested
+	 */
+	get stopSignal(): AbortSignal {
+		return this.stopController.signal;
+	}
+
+	/**
+	 * Whether a pause was requested, clearing the request
+	 */
+	consumePauseRequest(): boolean {
+		const requested = this.pauseRequested;
+		this.pauseRequested = false;
+		return requested;
+	}
+}
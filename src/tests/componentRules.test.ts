@@ -0,0 +1,200 @@
+import { assertEquals, assertRejects, assertThrows } from "@std/assert";
+import {
+	loadComponentRules,
+	matchesComponentRule,
+	validateComponentRules,
+} from "../utils/componentRules.ts";
+import { ComponentService } from "../services/componentService.ts";
+import type { SessionService } from "../services/session.ts";
+import type { QueryService } from "../services/queries.ts";
+import type { Component, ComponentRulesConfig } from "../types/index.ts";
+
+const MB = 1024 * 1024;
+
+const makeComponent = (
+	name: string,
+	fileType: string,
+	size: number,
+	locationName = "ftrack.server",
+): Component => ({
+	id: `component-${name}`,
+	name,
+	file_type: fileType,
+	size,
+	component_locations: [
+		{
+			location: { id: "location-1", name: locationName },
+			resource_identifier: `${name}${fileType}`,
+		},
+	],
+});
+
+// A site publishing main / proxy / review_h264 instead of ftrackreview-mp4
+const siteComponents = [
+	makeComponent("main", ".mov", 800 * MB, "studio.disk"),
+	makeComponent("proxy", ".mov", 40 * MB),
+	makeComponent("review_h264", ".mp4", 60 * MB),
+	makeComponent("exr_linear", ".exr", 5 * MB),
+];
+
+const siteRules: ComponentRulesConfig = {
+	rules: [
+		{ name: "review_h264", type: "encoded-1080p" },
+		{ name: "/^proxy/i", type: "encoded-720p" },
+		{ fileType: "exr", type: "image" },
+	],
+	profiles: [
+		{ name: "proxies", types: ["encoded-720p", "encoded-1080p"] },
+		{ name: "fallback", types: ["image", "original"] },
+	],
+};
+
+function createComponentService(): ComponentService {
+	return new ComponentService(
+		{} as unknown as SessionService,
+		{} as unknown as QueryService,
+	);
+}
+
+Deno.test("Component rules - should match every given criterion", () => {
+	const [main, proxy] = siteComponents;
+
+	assertEquals(
+		matchesComponentRule(main, { name: "MAIN", type: "original" }),
+		true,
+	);
+	assertEquals(
+		matchesComponentRule(proxy, { name: "/^prox/", type: "encoded-720p" }),
+		true,
+	);
+	assertEquals(
+		matchesComponentRule(main, { fileType: "mov", type: "original" }),
+		true,
+	);
+	assertEquals(
+		matchesComponentRule(main, {
+			location: "studio.disk",
+			minSizeMB: 500,
+			type: "original",
+		}),
+		true,
+	);
+	assertEquals(
+		matchesComponentRule(proxy, {
+			fileType: ".mov",
+			minSizeMB: 500,
+			type: "original",
+		}),
+		false,
+	);
+	assertEquals(
+		matchesComponentRule(main, { maxSizeMB: 100, type: "encoded-720p" }),
+		false,
+	);
+	assertEquals(
+		matchesComponentRule(proxy, { location: "studio.disk", type: "original" }),
+		false,
+	);
+});
+
+Deno.test("Component rules - should report invalid rules and profiles", () => {
+	assertEquals(validateComponentRules(siteRules), null);
+	assertEquals(
+		validateComponentRules({ rules: [{ name: "main", type: "raw" }] }),
+		"Rule 1: type must be one of original, encoded-1080p, encoded-720p, image, image-sequence, other",
+	);
+	assertEquals(
+		validateComponentRules({ rules: [{ type: "original" }] }),
+		"Rule 1: needs at least one of name, fileType, location, minSizeMB or maxSizeMB",
+	);
+	assertEquals(
+		validateComponentRules({
+			rules: [{ name: "/[/", type: "original" }],
+		})?.startsWith("Rule 1: invalid name pattern /[/"),
+		true,
+	);
+	assertEquals(
+		validateComponentRules({ profiles: [{ name: "review", types: [] }] }),
+		'Profile "review": types must list at least one component type',
+	);
+	assertEquals(
+		validateComponentRules({
+			profiles: [{ name: "review", types: ["encoded-4k"] }],
+		}),
+		'Profile "review": unknown component type "encoded-4k"',
+	);
+});
+
+Deno.test("Component rules - should load the rules file", async () => {
+	const dir = await Deno.makeTempDir();
+	const path = `${dir}/component_rules.json`;
+
+	try {
+		assertEquals(await loadComponentRules(path), { rules: [], profiles: [] });
+
+		await Deno.writeTextFile(path, JSON.stringify({ rules: siteRules.rules }));
+		assertEquals(await loadComponentRules(path), {
+			rules: siteRules.rules,
+			profiles: [],
+		});
+
+		await Deno.writeTextFile(
+			path,
+			JSON.stringify({ rules: [{ name: "main", type: "raw" }] }),
+		);
+		await assertRejects(
+			() => loadComponentRules(path),
+			Error,
+			"Invalid component rules",
+		);
+	} finally {
+		await Deno.remove(dir, { recursive: true });
+	}
+});
+
+Deno.test("ComponentService - should classify and select components with rules and profiles", () => {
+	const componentService = createComponentService();
+	const [main, proxy, review, exr] = siteComponents;
+
+	// Without rules only the built-in names are known, so no encode is found
+	assertEquals(componentService.identifyComponentType(review), "original");
+	assertEquals(
+		componentService.findBestComponent(siteComponents, "encoded"),
+		exr,
+	);
+
+	componentService.setComponentRules(siteRules);
+	assertEquals(componentService.identifyComponentType(review), "encoded-1080p");
+	assertEquals(componentService.identifyComponentType(proxy), "encoded-720p");
+	assertEquals(componentService.identifyComponentType(exr), "image");
+	assertEquals(componentService.identifyComponentType(main), "original");
+
+	assertEquals(
+		componentService.findBestComponent(siteComponents, "encoded"),
+		review,
+	);
+	assertEquals(
+		componentService.findBestComponent(siteComponents, "original"),
+		main,
+	);
+
+	// An active profile replaces the media preference's order
+	componentService.setActiveProfile("proxies");
+	assertEquals(
+		componentService.findBestComponent(siteComponents, "original"),
+		proxy,
+	);
+	assertEquals(componentService.getCustomProfileNames(), ["proxies"]);
+
+	// The saved "fallback" profile replaces the built-in one
+	assertEquals(componentService.findFallbackComponent(siteComponents), {
+		component: exr,
+		type: "image",
+	});
+
+	assertThrows(
+		() => componentService.setActiveProfile("missing"),
+		Error,
+		'Unknown component profile "missing"',
+	);
+});
@@ -0,0 +1,213 @@
+import { assert, assertEquals, assertRejects } from "@std/assert";
+import { DeletionApprovalService } from "../services/deletionApprovalService.ts";
+import { DeletionService } from "../services/deletionService.ts";
+import { SessionService } from "../services/session.ts";
+import type { DeletionPlanRequest } from "../types/deletionApproval.ts";
+import {
+	createMockContext,
+	type MockToolContext,
+} from "./mockServer/harness.ts";
+import { FIXTURE_IDS } from "./mockServer/fixtures.ts";
+
+function createApprovalService(
+	context: MockToolContext,
+	apiUser: string,
+): DeletionApprovalService {
+	const session = context.server.createSession(apiUser);
+	const deletionService = new DeletionService(
+		session,
+		new SessionService(session),
+		context.queryService,
+	);
+	return new DeletionApprovalService(session, deletionService);
+}
+
+Deno.test("DeletionApprovalService - should need approval above either threshold", () => {
+	const report = [
+		{ operation: "delete_version" as const, assetVersionId: "v1" },
+		{ operation: "delete_components" as const, assetVersionId: "v1" },
+		{ operation: "delete_version" as const, assetVersionId: "v2" },
+	];
+	const summary = {
+		versionsDeleted: 2,
+		componentsDeleted: 1,
+		bytesDeleted: 2 * 1024 * 1024 * 1024,
+		failures: [],
+	};
+
+	assert(
+		DeletionApprovalService.needsApproval(summary, report, {
+			maxVersions: 1,
+			maxSizeGB: 10,
+		}),
+	);
+	assert(
+		DeletionApprovalService.needsApproval(summary, report, {
+			maxVersions: 10,
+			maxSizeGB: 1,
+		}),
+	);
+	assert(
+		!DeletionApprovalService.needsApproval(summary, report, {
+			maxVersions: 2,
+			maxSizeGB: 2,
+		}),
+	);
+});
+
+Deno.test("DeletionApprovalService - should only run plans another user approved, while unchanged", async () => {
+	const dir = await Deno.makeTempDir();
+	const planPath = `${dir}/plan.json`;
+	const context = await createMockContext();
+	const versionId = FIXTURE_IDS.versions.SH020_v1;
+	const request: DeletionPlanRequest = {
+		mode: "components",
+		versionIds: [versionId],
+		componentChoices: { [versionId]: "original_only" },
+		overrideProtection: true,
+	};
+
+	try {
+		const artist = createApprovalService(context, "artist");
+		const { summary, report } = await artist.run(request, true);
+		const plan = await artist.createPlan(planPath, request, summary, report);
+		assertEquals(plan.createdBy, "artist");
+		assertEquals(plan.versions, 1);
+		assertEquals(plan.bytes, 2048);
+
+		await assertRejects(
+			() => artist.loadApprovedPlan(planPath),
+			Error,
+			"not been approved",
+		);
+		await assertRejects(
+			() => artist.approvePlan(planPath),
+			Error,
+			"another user than its creator",
+		);
+
+		context.server.insert("User", { id: "user-producer", username: "producer" });
+		const producer = createApprovalService(context, "producer");
+		const approved = await producer.approvePlan(planPath);
+		assertEquals(approved.approval?.approvedBy, "producer");
+		assertEquals(
+			context.server.get("Note", approved.approval!.noteId)?.user_id,
+			"user-producer",
+		);
+		assertEquals(
+			(await artist.loadApprovedPlan(planPath)).request,
+			approved.request,
+		);
+		await assertRejects(
+			() => producer.loadApprovedPlan(planPath),
+			Error,
+			"another user than its approver",
+		);
+
+		// Editing the plan breaks its hash
+		const edited = JSON.parse(await Deno.readTextFile(planPath));
+		edited.request.componentChoices[versionId] = "all";
+		await Deno.writeTextFile(`${dir}/edited.json`, JSON.stringify(edited));
+		await assertRejects(
+			() => artist.loadApprovedPlan(`${dir}/edited.json`),
+			Error,
+			"data changed",
+		);
+
+		// So does a change to what the plan deletes
+		context.server.update("Component", `${versionId}-main`, { size: 4096 });
+		await assertRejects(
+			() => artist.loadApprovedPlan(planPath),
+			Error,
+			"data changed",
+		);
+	} finally {
+		await Deno.remove(dir, { recursive: true });
+	}
+});
+
+Deno.test("DeletionApprovalService - should reject an approval written into the plan file", async () => {
+	const dir = await Deno.makeTempDir();
+	const planPath = `${dir}/plan.json`;
+	const context = await createMockContext();
+	const versionId = FIXTURE_IDS.versions.SH020_v1;
+	const request: DeletionPlanRequest = {
+		mode: "versions",
+		versionIds: [versionId],
+		overrideProtection: true,
+	};
+
+	try {
+		const artist = createApprovalService(context, "artist");
+		const { summary, report } = await artist.run(request, true);
+		const plan = await artist.createPlan(planPath, request, summary, report);
+
+		// The creator's own note, claimed to be another user's approval
+		const note = await context.server.createSession("artist").create("Note", {
+			content: `Approved deletion plan ${plan.hash}`,
+			parent_id: versionId,
+			parent_type: "AssetVersion",
+		});
+		const executor = createApprovalService(context, "mock.user");
+		const noteIds = [FIXTURE_IDS.note, (note.data as { id: string }).id, "x"];
+		for (const noteId of noteIds) {
+			await Deno.writeTextFile(
+				planPath,
+				JSON.stringify({
+					...plan,
+					approval: {
+						approvedBy: "producer",
+						approvedAt: new Date().toISOString(),
+						noteId,
+					},
+				}),
+			);
+			await assertRejects(
+				() => executor.loadApprovedPlan(planPath),
+				Error,
+				"approval is not valid",
+			);
+		}
+	} finally {
+		await Deno.remove(dir, { recursive: true });
+	}
+});
+
+Deno.test("DeletionApprovalService - should take the thresholds from the project, which local settings can only lower", async () => {
+	const context = await createMockContext();
+	const service = createApprovalService(context, "mock.user");
+	const versionIds = [
+		FIXTURE_IDS.versions.SH010_v1,
+		FIXTURE_IDS.versions.SH020_v1,
+	];
+
+	assertEquals(await service.loadThresholds(versionIds, { maxVersions: 1000 }), {
+		maxVersions: 100,
+		maxSizeGB: 500,
+	});
+
+	for (const [key, value] of [
+		["deletionApprovalMaxVersions", 1000],
+		["deletionApprovalMaxSizeGB", 10],
+	] as const) {
+		context.server.insert("CustomAttributeConfiguration", {
+			id: `config-${key}`,
+			key,
+			entity_type: "show",
+			type_id: "attrtype-number",
+		});
+		context.server.insert("CustomAttributeValue", {
+			configuration_id: `config-${key}`,
+			entity_id: FIXTURE_IDS.project,
+			value,
+		});
+	}
+	assertEquals(await service.loadThresholds(versionIds, {}), {
+		maxVersions: 1000,
+		maxSizeGB: 10,
+	});
+	assertEquals(
+		await service.loadThresholds(versionIds, { maxVersions: 5000, maxSizeGB: 2 }),
+		{ maxVersions: 1000, maxSizeGB: 2 },
+	);
+});
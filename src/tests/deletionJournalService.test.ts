@@ -0,0 +1,81 @@
+import { assertEquals } from "@std/assert";
+import { DeletionJournalService } from "../services/deletionJournalService.ts";
+import { MockFtrackServer } from "./mockServer/mockFtrackServer.ts";
+import { createSeedData, FIXTURE_IDS } from "./mockServer/fixtures.ts";
+import type { Component } from "../types/index.ts";
+
+Deno.test("DeletionJournalService - should journal entries before and after deletion", async () => {
+	const dir = await Deno.makeTempDir();
+	const server = new MockFtrackServer(createSeedData());
+	const versionId = FIXTURE_IDS.versions.SH010_v1;
+	const component: Component = {
+		id: `${versionId}-main`,
+		name: "main",
+		file_type: ".mov",
+		size: 2048,
+		component_locations: [
+			{
+				location: { id: "location-server", name: "ftrack.server" },
+				resource_identifier: `${versionId}-main.mov`,
+			},
+		],
+	};
+
+	try {
+		const service = new DeletionJournalService(
+			server.createSession(),
+			`${dir}/journals`,
+		);
+		const path = await service.begin("components");
+
+		const snapshot = await service.snapshotVersion(versionId, [component]);
+		assertEquals(snapshot.version.fields.version, 1);
+		assertEquals(
+			snapshot.version.fields.thumbnail_id,
+			`${versionId}-thumbnail`,
+		);
+		assertEquals(
+			snapshot.version.custom_attributes.map((value) => value.key).sort(),
+			["Delivered", "dateSent"],
+		);
+		assertEquals(
+			snapshot.components[0].locations[0].location_name,
+			"ftrack.server",
+		);
+
+		const entry = await service.record({
+			operation: "delete_components",
+			...snapshot,
+		});
+		const reader = new DeletionJournalService(
+			server.createSession(),
+			`${dir}/journals`,
+		);
+		// The entry is on disk before anything is deleted
+		assertEquals((await reader.load(path)).entries[0].status, "pending");
+
+		await service.update(entry, {
+			status: "partial",
+			failedComponentIds: [component.id],
+		});
+
+		// Each change is appended as one line: header, entry, outcome
+		const lines = (await Deno.readTextFile(path)).trim().split("\n");
+		assertEquals(lines.length, 3);
+		assertEquals(JSON.parse(lines[2]).changes.status, "partial");
+
+		// A new instance (e.g. the restore tool) sees the outcome
+		const [info] = await reader.listJournals();
+		assertEquals(info.path, path);
+		assertEquals(info.entries, 1);
+		const journal = await reader.load(path);
+		assertEquals(journal.entries[0].status, "partial");
+		assertEquals(journal.entries[0].failedComponentIds, [component.id]);
+
+		// A line cut short by a crash is ignored
+		await Deno.writeTextFile(path, '{"type":"update","ind', { append: true });
+		assertEquals((await reader.load(path)).entries[0].status, "partial");
+	} finally {
+		await Deno.remove(dir, { recursive: true });
+	}
+});
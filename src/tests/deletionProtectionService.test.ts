@@ -0,0 +1,120 @@
+import { assertEquals } from "@std/assert";
+import {
+	addProtections,
+	DEFAULT_PROTECTION_RULES,
+	DeletionProtectionService,
+	relaxedProtections,
+} from "../services/deletionProtectionService.ts";
+import { MockFtrackServer } from "./mockServer/mockFtrackServer.ts";
+import { createSeedData, FIXTURE_IDS } from "./mockServer/fixtures.ts";
+import { DEFAULT_LATEST_VERSION_MAPPING } from "../utils/latestVersionMapping.ts";
+
+Deno.test("DeletionProtectionService - should give every reason a version is protected", async () => {
+	const server = new MockFtrackServer(createSeedData());
+	const { SH010_v1, SH010_v2, SH020_v1 } = FIXTURE_IDS.versions;
+	server.insert("ReviewSession", { id: "review-1", name: "Dailies" });
+	server.insert("ReviewSessionObject", {
+		id: "review-object-1",
+		review_session_id: "review-1",
+		version_id: SH020_v1,
+	});
+	const service = new DeletionProtectionService(server.createSession());
+	const versionIds = [SH010_v1, SH010_v2, SH020_v1];
+
+	assertEquals(
+		await service.findProtectedVersions(versionIds, DEFAULT_PROTECTION_RULES),
+		[
+			{
+				versionId: SH010_v1,
+				label: "main v1",
+				reason:
+					'delivered, latest delivered version, on list "Client Review"',
+			},
+			{
+				versionId: SH010_v2,
+				label: "main v2",
+				reason:
+					'delivered, latest version of its asset, on list "Client Review"',
+			},
+			{
+				versionId: SH020_v1,
+				label: "main v1",
+				reason: 'latest version of its asset, in review session "Dailies"',
+			},
+		],
+	);
+
+	// Only the listed rules apply, and lists match by pattern
+	assertEquals(
+		await service.findProtectedVersions(versionIds, {
+			latestDelivered: true,
+			lists: ["Final*"],
+		}),
+		[
+			{
+				versionId: SH010_v1,
+				label: "main v1",
+				reason: "latest delivered version",
+			},
+		],
+	);
+});
+
+Deno.test("DeletionProtectionService - should protect delivered versions by the mapping's attributes", async () => {
+	const server = new MockFtrackServer(createSeedData());
+	const { SH010_v1, SH020_v1 } = FIXTURE_IDS.versions;
+	server.insert("CustomAttributeConfiguration", {
+		id: "config-client-delivered",
+		key: "client_delivered",
+		label: "Client Delivered",
+		entity_type: "assetversion",
+		type_id: "attrtype-boolean",
+	});
+	server.insert("CustomAttributeValue", {
+		configuration_id: "config-client-delivered",
+		entity_id: SH020_v1,
+		value: true,
+	});
+	const service = new DeletionProtectionService(server.createSession(), {
+		...DEFAULT_LATEST_VERSION_MAPPING,
+		deliveredKey: "client_delivered",
+		sentDateKey: "client_date_sent",
+		linkKey: "client_latest_version",
+	});
+
+	// SH010 v1 is only delivered and linked by the default attributes
+	assertEquals(
+		await service.findProtectedVersions([SH010_v1, SH020_v1], {
+			delivered: true,
+			latestDelivered: true,
+		}),
+		[{ versionId: SH020_v1, label: "main v1", reason: "delivered" }],
+	);
+});
+
+Deno.test("DeletionProtectionService - should only add protections unless relaxing is allowed", () => {
+	const extra = { latestVersion: false, lists: ["Client*"] };
+
+	assertEquals(addProtections(DEFAULT_PROTECTION_RULES, extra), {
+		...DEFAULT_PROTECTION_RULES,
+		lists: ["*", "Client*"],
+	});
+	assertEquals(relaxedProtections(DEFAULT_PROTECTION_RULES, extra), [
+		"latestVersion",
+		"lists",
+	]);
+	assertEquals(
+		relaxedProtections(DEFAULT_PROTECTION_RULES, { lists: ["*", "Final*"] }),
+		[],
+	);
+	assertEquals(
+		addProtections({ lists: ["Final*"] }, { delivered: true }),
+		{
+			delivered: true,
+			latestDelivered: false,
+			latestVersion: false,
+			reviewSessions: false,
+			lists: ["Final*"],
+		},
+	);
+});
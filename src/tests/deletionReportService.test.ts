@@ -0,0 +1,68 @@
+import { assert, assertEquals } from "@std/assert";
+import { DeletionReportService } from "../services/deletionReportService.ts";
+import type {
+	DeletionResultSummary,
+	DryRunReportItem,
+} from "../types/deleteMedia.ts";
+
+Deno.test("DeletionReportService - should group versions by shot with totals", () => {
+	const report: DryRunReportItem[] = [
+		{
+			operation: "delete_version",
+			assetVersionId: "v1",
+			assetVersionLabel: "comp v1",
+			shotName: "SH010",
+			status: "Omitted",
+			user: "artist",
+			size: 3072,
+		},
+		{
+			operation: "delete_components",
+			assetVersionId: "v1",
+			assetVersionLabel: "comp v1",
+			shotName: "SH010",
+			componentName: "main",
+			componentType: "original",
+			size: 3072,
+		},
+		{
+			operation: "delete_components",
+			assetVersionId: "v2",
+			assetVersionLabel: "<plate> v2",
+			componentName: "proxy",
+			componentType: "encoded",
+			size: 1024,
+		},
+	];
+	const summary: DeletionResultSummary = {
+		versionsDeleted: 2,
+		componentsDeleted: 2,
+		bytesDeleted: 4096,
+		failures: [],
+		protectedVersions: [
+			{ versionId: "v3", label: "comp v3", reason: "delivered" },
+		],
+	};
+
+	const html = DeletionReportService.renderHtml(
+		summary,
+		report,
+		new Map([["v1", "data:image/jpeg;base64,AAAA"]]),
+		new Date("2024-12-31T00:00:00Z"),
+	);
+
+	assert(html.includes("Generated 2024-12-31T00:00:00.000Z"));
+	assert(html.includes("<tr><td>Total size</td><td>4 KB</td></tr>"));
+	assert(html.includes("<tr><td>Protected (kept)</td><td>1</td></tr>"));
+	// The whole-version row is not counted twice with its components
+	assert(
+		html.includes(
+			'<h2>SH010 <span class="muted">1 version(s), 3 KB</span></h2>',
+		),
+	);
+	assert(html.includes('<h2>(no shot) <span class="muted">1 version(s), 1 KB'));
+	assertEquals(html.match(/<img /g)?.length, 1);
+	assert(html.includes('<img src="data:image/jpeg;base64,AAAA"'));
+	assert(html.includes("&lt;plate&gt; v2"));
+	assert(html.includes("comp v3 <span class=\"muted\">(v3)</span>: delivered"));
+});
@@ -0,0 +1,114 @@
+import { assertEquals } from "@std/assert";
+import {
+	DownloadManifestService,
+	hashFile,
+	MANIFEST_CSV_FILENAME,
+	MANIFEST_JSON_FILENAME,
+} from "../services/downloadManifestService.ts";
+import type { AssetVersion, DownloadTask } from "../types/mediaDownload.ts";
+
+const mockVersion: AssetVersion = {
+	id: "version-1",
+	version: 3,
+	asset: {
+		id: "asset-1",
+		name: "comp",
+		parent: { id: "shot-1", name: "SH010" },
+		type: { id: "type-1", name: "Render" },
+	},
+	components: [],
+};
+
+function createTask(directory: string, name: string): DownloadTask {
+	return {
+		component: {
+			id: `component-${name}`,
+			name: "main",
+			file_type: ".mov",
+			size: 5,
+			component_locations: [],
+		},
+		assetVersion: mockVersion,
+		url: "https://example.com/file",
+		outputPath: directory,
+		filename: `${name}.mov`,
+	};
+}
+
+async function withTempDir(fn: (dir: string) => Promise<void>) {
+	const dir = await Deno.makeTempDir();
+	try {
+		await fn(dir);
+	} finally {
+		await Deno.remove(dir, { recursive: true });
+	}
+}
+
+Deno.test("hashFile - should return the SHA-256 hex digest", async () => {
+	await withTempDir(async (dir) => {
+		await Deno.writeTextFile(`${dir}/abc.txt`, "abc");
+
+		assertEquals(
+			await hashFile(`${dir}/abc.txt`),
+			"ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad",
+		);
+	});
+});
+
+Deno.test("DownloadManifestService - should write JSON and CSV manifests with relative paths", async () => {
+	await withTempDir(async (dir) => {
+		await Deno.writeTextFile(`${dir}/a.mov`, "hello");
+
+		const service = new DownloadManifestService();
+		await service.record(createTask(dir, "a"), "original");
+		const { jsonPath, csvPath } = await service.write(dir);
+
+		assertEquals(jsonPath, `${dir}/${MANIFEST_JSON_FILENAME}`);
+		const manifest = JSON.parse(await Deno.readTextFile(jsonPath));
+		assertEquals(manifest.entries.length, 1);
+		assertEquals(manifest.entries[0].path, "a.mov");
+		assertEquals(manifest.entries[0].shot, "SH010");
+		assertEquals(manifest.entries[0].size, 5);
+
+		const csvLines = (await Deno.readTextFile(csvPath)).trim().split("\n");
+		assertEquals(csvPath, `${dir}/${MANIFEST_CSV_FILENAME}`);
+		assertEquals(csvLines.length, 2);
+		assertEquals(csvLines[0].startsWith("Shot,Asset,Version"), true);
+	});
+});
+
+Deno.test("DownloadManifestService - should report missing and corrupted files", async () => {
+	await withTempDir(async (dir) => {
+		for (const name of ["ok", "missing", "resized", "changed"]) {
+			await Deno.writeTextFile(`${dir}/${name}.mov`, "hello");
+		}
+
+		const service = new DownloadManifestService();
+		for (const name of ["ok", "missing", "resized", "changed"]) {
+			await service.record(createTask(dir, name), "original");
+		}
+		await service.write(dir);
+
+		await Deno.remove(`${dir}/missing.mov`);
+		await Deno.writeTextFile(`${dir}/resized.mov`, "hello world");
+		await Deno.writeTextFile(`${dir}/changed.mov`, "HELLO");
+
+		const result = await new DownloadManifestService().verify(dir);
+
+		assertEquals(
+			result.verified.map((entry) => entry.path),
+			["ok.mov"],
+		);
+		assertEquals(
+			result.missing.map((entry) => entry.path),
+			["missing.mov"],
+		);
+		assertEquals(
+			result.corrupted.map(({ entry, reason }) => [entry.path, reason]),
+			[
+				["resized.mov", "Size mismatch: expected 5 bytes, got 11 bytes"],
+				["changed.mov", "Checksum mismatch"],
+			],
+		);
+	});
+});
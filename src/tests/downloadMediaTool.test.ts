@@ -4,6 +4,7 @@ import { SessionService } from "../services/session.ts";
 import type { ProjectContextService } from "../services/projectContext.ts";
 import { QueryService } from "../services/queries.ts";
 import { FilterService } from "../services/filterService.ts";
+import { ComponentService } from "../services/componentService.ts";
 import type {
 	StatusFilter,
 	UserFilter,
@@ -11,6 +12,7 @@ import type {
 	CustomAttrFilter,
 } from "../services/filterService.ts";
 import type { AssetVersion, Component, Shot } from "../types/mediaDownload.ts";
+import { matchesShotPattern } from "../tools/downloadMediaTool.ts";
 
 // Mock data for testing
 const mockShotData: Shot[] = [
@@ -668,3 +670,41 @@ Deno.test("AssetVersion Filtering - should handle no matching versions", async (
 
 	assertEquals(result.data.length, 0);
 });
+
+Deno.test("matchesShotPattern - should match substrings case-insensitively", () => {
+	assertEquals(matchesShotPattern("SHOT_010", "shot"), true);
+	assertEquals(matchesShotPattern("shot_010", "020"), false);
+});
+
+Deno.test("matchesShotPattern - should support wildcards", () => {
+	assertEquals(matchesShotPattern("shot_010", "*"), true);
+	assertEquals(matchesShotPattern("shot_010", "shot_0?0"), true);
+	assertEquals(matchesShotPattern("shot_010", "*_010"), true);
+	assertEquals(matchesShotPattern("shot_010", "seq*"), false);
+});
+
+Deno.test("ComponentService - should resolve local paths from location prefixes", () => {
+	const session = createMockSession();
+	const componentService = new ComponentService(
+		new SessionService(session),
+		createMockQueryService(session, createMockProjectContextService()),
+	);
+
+	// Nothing is mounted until prefixes are configured
+	assertEquals(componentService.getLocalPath(mockComponentData[0]), null);
+
+	componentService.setLocationPrefixes({ "studio.disk": "/mnt/projects/" });
+	assertEquals(
+		componentService.getLocalPath(mockComponentData[0]),
+		"/mnt/projects/path/to/file.mov",
+	);
+
+	componentService.setLocationPrefixes({ "studio.disk": "/path" });
+	assertEquals(
+		componentService.getLocalPath(mockComponentData[1]),
+		"/path/to/encoded.mp4",
+	);
+
+	componentService.setLocationPrefixes({ "other.disk": "/mnt/other" });
+	assertEquals(componentService.getLocalPath(mockComponentData[0]), null);
+});
@@ -0,0 +1,103 @@
+import { assertEquals } from "@std/assert";
+import { DownloadQueueService } from "../services/downloadQueueService.ts";
+import type {
+	AssetVersion,
+	DownloadRunSettings,
+	Shot,
+} from "../types/mediaDownload.ts";
+
+const settings: DownloadRunSettings = {
+	downloadPath: "/downloads/run",
+	mediaPreference: "original",
+	namingTemplate: "{shot}_{asset}.{ext}",
+	transfer: { maxConcurrentDownloads: 2 },
+	versionOrder: ["version-1", "version-2", "version-3"],
+};
+
+function makeEntry(index: number): {
+	shot: Shot;
+	latestVersion: AssetVersion;
+} {
+	const shot = { id: `shot-${index}`, name: `SH0${index}0` };
+	return {
+		shot,
+		latestVersion: {
+			id: `version-${index}`,
+			version: index,
+			asset: {
+				id: `asset-${index}`,
+				name: "comp",
+				parent: shot,
+				type: { id: "type-1", name: "Render" },
+			},
+			components: [],
+		},
+	};
+}
+
+Deno.test("DownloadQueueService - should persist progress across instances", async () => {
+	const dir = await Deno.makeTempDir();
+	const queuePath = `${dir}/queue/download_queue.json`;
+
+	try {
+		const service = new DownloadQueueService(queuePath);
+		await service.create(settings, [1, 2, 3].map(makeEntry));
+		await service.markProcessed([
+			{ shotId: "shot-1", versionId: "version-1", success: true },
+			{
+				shotId: "shot-2",
+				versionId: "version-2",
+				success: false,
+				reason: "HTTP error! status: 500",
+			},
+		]);
+
+		// A new instance, as after a restart
+		const restarted = new DownloadQueueService(queuePath);
+		const queue = await restarted.load();
+
+		assertEquals(queue?.downloadPath, "/downloads/run");
+		assertEquals(queue?.namingTemplate, "{shot}_{asset}.{ext}");
+		assertEquals(queue?.versionOrder, ["version-1", "version-2", "version-3"]);
+		assertEquals(queue?.items[1].reason, "HTTP error! status: 500");
+		assertEquals(
+			restarted.getPending().map(({ shot }) => shot.id),
+			["shot-3"],
+		);
+		// Failed versions are retried when resuming
+		assertEquals(
+			restarted.getRemaining().map(({ shot }) => shot.id),
+			["shot-2", "shot-3"],
+		);
+
+		await restarted.markProcessed([
+			{ shotId: "shot-2", versionId: "version-2", success: true },
+		]);
+		assertEquals(
+			restarted.getRemaining().map(({ shot }) => shot.id),
+			["shot-3"],
+		);
+	} finally {
+		await Deno.remove(dir, { recursive: true });
+	}
+});
+
+Deno.test("DownloadQueueService - should clear and ignore missing or unreadable queues", async () => {
+	const dir = await Deno.makeTempDir();
+	const queuePath = `${dir}/download_queue.json`;
+
+	try {
+		const service = new DownloadQueueService(queuePath);
+		assertEquals(await service.load(), null);
+
+		await service.create(settings, [makeEntry(1)]);
+		await service.clear();
+		assertEquals(await service.load(), null);
+		assertEquals(service.getRemaining(), []);
+
+		await Deno.writeTextFile(queuePath, "{ not json");
+		assertEquals(await service.load(), null);
+	} finally {
+		await Deno.remove(dir, { recursive: true });
+	}
+});
@@ -0,0 +1,1486 @@
+import { assert, assertEquals, assertRejects } from "@std/assert";
+import { Confirm, Input, Select } from "@cliffy/prompt";
+import { createMockContext, runWithMockServer } from "./mockServer/harness.ts";
+import {
+	buildEntity,
+	createSeedData,
+	FIXTURE_IDS,
+	versionEntities,
+} from "./mockServer/fixtures.ts";
+import { MockFtrackServer } from "./mockServer/mockFtrackServer.ts";
+import { DownloadManifestService } from "../services/downloadManifestService.ts";
+import { DeletionJournalService } from "../services/deletionJournalService.ts";
+import { inspectShot } from "../tools/inspectShot.ts";
+import { inspectNote } from "../tools/inspectNote.ts";
+import {
+	checkLatestVersionMapping,
+	updateLatestVersionsSent,
+} from "../tools/updateLatestVersions.ts";
+import { markVersionsDeliveredTool } from "../tools/markVersionsDeliveredTool.ts";
+import { deleteMediaTool } from "../tools/deleteMediaTool.ts";
+import { restoreDeletionTool } from "../tools/restoreDeletionTool.ts";
+import { storageReportTool } from "../tools/storageReportTool.ts";
+import { downloadMediaTool } from "../tools/downloadMediaTool.ts";
+import { manageLists } from "../tools/manageLists.ts";
+import { DEFAULT_LATEST_VERSION_MAPPING } from "../utils/latestVersionMapping.ts";
+import {
+	PROTECTION_OVERRIDE_PHRASE,
+} from "../services/deletionProtectionService.ts";
+
+/**
+ * Adds an EXR sequence (frames 1001, 1002 and 1004) to a version
+ */
+function insertSequence(server: MockFtrackServer, versionId: string): string {
+	const sequenceId = `${versionId}-render`;
+	server.insert("SequenceComponent", {
+		id: sequenceId,
+		name: "render",
+		version_id: versionId,
+		file_type: ".exr",
+		padding: 4,
+	});
+	server.insert("ComponentLocation", {
+		id: `${sequenceId}-location`,
+		component_id: sequenceId,
+		location_id: "location-server",
+		resource_identifier: `${sequenceId}.%04d.exr`,
+	});
+	for (const frame of [1001, 1002, 1004]) {
+		server.insert("Component", {
+			id: `${sequenceId}-${frame}`,
+			name: String(frame),
+			container_id: sequenceId,
+			file_type: ".exr",
+			size: 64,
+		});
+	}
+	return sequenceId;
+}
+
+async function listFiles(directory: string): Promise<Deno.FileInfo[]> {
+	const files: Deno.FileInfo[] = [];
+	for await (const entry of Deno.readDir(directory)) {
+		const path = `${directory}/${entry.name}`;
+		if (entry.isDirectory) {
+			files.push(...(await listFiles(path)));
+		} else {
+			files.push(await Deno.stat(path));
+		}
+	}
+	return files;
+}
+
+type PromptAnswers = Record<string, string | boolean>;
+
+/**
+ * Answers the Select, Input and Confirm prompts whose message contains one of
+ * the keys of `answers`, and fails on any other prompt
+ * @returns Restores the prompts
+ */
+function answerPrompts(answers: PromptAnswers): () => void {
+	const prompts = [Select, Input, Confirm] as unknown as Array<{
+		prompt: (opts: { message: string }) => Promise<unknown>;
+	}>;
+	const originals = prompts.map((prompt) => prompt.prompt);
+	for (const prompt of prompts) {
+		prompt.prompt = (opts) => {
+			const key = Object.keys(answers).find((key) =>
+				opts.message.includes(key),
+			);
+			return key === undefined
+				? Promise.reject(new Error(`Unexpected prompt: ${opts.message}`))
+				: Promise.resolve(answers[key]);
+		};
+	}
+	return () => {
+		prompts.forEach((prompt, i) => (prompt.prompt = originals[i]));
+	};
+}
+
+Deno.test("E2E - inspectShot should return tasks and versions from the server", async () => {
+	const { result } = await runWithMockServer(
+		(ctx) =>
+			inspectShot(
+				ctx.session,
+				ctx.projectContextService,
+				ctx.queryService,
+				FIXTURE_IDS.shots.SH010,
+				{ json: true },
+			),
+		{ project: "demo" },
+	);
+
+	assertEquals(result?.shot.name, "SH010");
+	assertEquals(result?.tasks.length, 1);
+	assertEquals(result?.versions.length, 2);
+});
+
+Deno.test("E2E - inspectNote should include the author and attachments", async () => {
+	const { result } = await runWithMockServer((ctx) =>
+		inspectNote(
+			ctx.session,
+			ctx.projectContextService,
+			ctx.queryService,
+			FIXTURE_IDS.note,
+			{ json: true },
+		),
+	);
+
+	assertEquals(
+		(result?.note.author as { username: string }).username,
+		"artist",
+	);
+	assertEquals(result?.attachments, []);
+});
+
+Deno.test("E2E - updateLatestVersionsSent should only preview without apply", async () => {
+	const { server } = await runWithMockServer((ctx) =>
+		updateLatestVersionsSent(
+			ctx.session,
+			ctx.projectContextService,
+			ctx.queryService,
+			{ mode: "new", apply: false },
+		),
+	);
+
+	assertEquals(server.operations, []);
+});
+
+Deno.test("E2E - updateLatestVersionsSent should move the link to the newest delivered version", async () => {
+	const { server } = await runWithMockServer((ctx) =>
+		updateLatestVersionsSent(
+			ctx.session,
+			ctx.projectContextService,
+			ctx.queryService,
+			{ mode: "new", apply: true },
+		),
+	);
+
+	assertEquals(
+		server.get("CustomAttributeLink", FIXTURE_IDS.latestVersionSentLink)?.to_id,
+		FIXTURE_IDS.versions.SH010_v2,
+	);
+	assertEquals(
+		server.get("ContextCustomAttributeValue", [
+			"config-latestVersionSentDate",
+			FIXTURE_IDS.shots.SH010,
+		])?.value,
+		"2024-02-20T00:00:00Z",
+	);
+});
+
+Deno.test("E2E - updateLatestVersionsSent should batch updates and report the ones that fail", async () => {
+	const server = new MockFtrackServer(createSeedData());
+	const shotIds: string[] = [];
+	for (let i = 0; i < 250; i++) {
+		const name = `BT${i.toString().padStart(4, "0")}`;
+		const shotId = `shot-${name}`;
+		shotIds.push(shotId);
+		for (
+			const entity of [
+				buildEntity("Shot", {
+					id: shotId,
+					name,
+					project_id: FIXTURE_IDS.project,
+					parent_id: FIXTURE_IDS.sequence,
+				}),
+				buildEntity("Asset", {
+					id: `asset-${name}`,
+					name: "main",
+					context_id: shotId,
+					project_id: FIXTURE_IDS.project,
+				}),
+				...versionEntities(
+					`version-${name}`,
+					shotId,
+					`asset-${name}`,
+					`task-${name}`,
+					1,
+					true,
+					"2024-03-01T00:00:00Z",
+				),
+			]
+		) {
+			server.insert(entity.type, entity.data);
+		}
+	}
+	const failingShot = shotIds[42];
+	const batches: number[] = [];
+
+	await assertRejects(
+		() =>
+			runWithMockServer(
+				(ctx) => {
+					const session = ctx.session as unknown as {
+						call: (operations: unknown[]) => Promise<unknown>;
+					};
+					const call = session.call;
+					session.call = (operations) => {
+						batches.push(operations.length);
+						// ftrack rejects the whole batch when one operation fails
+						if (JSON.stringify(operations).includes(failingShot)) {
+							return Promise.reject(new Error("Permission denied"));
+						}
+						return call(operations);
+					};
+					return updateLatestVersionsSent(
+						ctx.session,
+						ctx.projectContextService,
+						ctx.queryService,
+						{ mode: "new", apply: true },
+					);
+				},
+				{ server },
+			),
+		Error,
+		// The new shots and SH010
+		"1 of 251 shot update(s) failed",
+	);
+
+	// Three batches, and the rejected one retried change by change
+	assertEquals(batches.filter((size) => size > 2).length, 3);
+	assertEquals(batches.length, 3 + 100);
+	const sentDate = (shotId: string) =>
+		server.get("ContextCustomAttributeValue", [
+			"config-latestVersionSentDate",
+			shotId,
+		])?.value;
+	assertEquals(sentDate(shotIds[0]), "2024-03-01T00:00:00Z");
+	assertEquals(sentDate(shotIds[249]), "2024-03-01T00:00:00Z");
+	assertEquals(sentDate(failingShot), undefined);
+	assertEquals(
+		server.get("CustomAttributeLink", FIXTURE_IDS.latestVersionSentLink)?.to_id,
+		FIXTURE_IDS.versions.SH010_v2,
+	);
+});
+
+/**
+ * Adds sequence-level rollup attributes
+ */
+function insertSequenceRollupConfigs(server: MockFtrackServer): void {
+	for (
+		const key of [
+			"latestVersionSentDate",
+			"deliveredVersionCount",
+			"deliveredShots",
+		]
+	) {
+		server.insert("CustomAttributeConfiguration", {
+			id: `config-sequence-${key}`,
+			key,
+			entity_type: "task",
+			object_type_id: "objecttype-Sequence",
+		});
+	}
+}
+
+Deno.test("E2E - updateLatestVersionsSent should roll delivered versions up to sequences", async () => {
+	const server = new MockFtrackServer(createSeedData());
+	insertSequenceRollupConfigs(server);
+	const rollup = (aggregation: "latest" | "count" | "shots") =>
+		runWithMockServer(
+			(ctx) =>
+				updateLatestVersionsSent(
+					ctx.session,
+					ctx.projectContextService,
+					ctx.queryService,
+					{ mode: "new", apply: true, level: "Sequence", aggregation },
+				),
+			{ server },
+		);
+	const valueOf = (key: string) =>
+		server.get("ContextCustomAttributeValue", [
+			`config-sequence-${key}`,
+			FIXTURE_IDS.sequence,
+		])?.value;
+
+	await rollup("count");
+	await rollup("shots");
+	// SH020's only version is not delivered
+	assertEquals(valueOf("deliveredVersionCount"), 2);
+	assertEquals(valueOf("deliveredShots"), "SH010");
+
+	await rollup("latest");
+	assertEquals(valueOf("latestVersionSentDate"), "2024-02-20T00:00:00Z");
+	const link = server
+		.all("CustomAttributeLink")
+		.find((record) => record.from_id === FIXTURE_IDS.sequence);
+	assertEquals(link?.to_id, FIXTURE_IDS.versions.SH010_v2);
+
+	// Nothing changed since, so a new run proposes nothing
+	const operations = server.operations.length;
+	await rollup("count");
+	assertEquals(server.operations.length, operations);
+});
+
+Deno.test("E2E - checkLatestVersionMapping should list the mapped attributes that are missing", async () => {
+	const { session } = await createMockContext();
+
+	const check = await checkLatestVersionMapping(
+		session,
+		DEFAULT_LATEST_VERSION_MAPPING,
+	);
+	assertEquals(check.linkConfigId, "config-latestVersionSent");
+	assertEquals(check.valueConfigId, "config-latestVersionSentDate");
+	assertEquals(check.missing, []);
+
+	const renamed = await checkLatestVersionMapping(session, {
+		...DEFAULT_LATEST_VERSION_MAPPING,
+		linkEntityType: "shot",
+		deliveredKey: "isDelivered",
+		// Exists, but not on versions
+		sentDateKey: "latestVersionSentDate",
+	});
+	assertEquals(renamed.missing, ["linkKey", "sentDateKey", "deliveredKey"]);
+});
+
+Deno.test("E2E - markVersionsDeliveredTool should stamp versions and roll them up", async () => {
+	const server = new MockFtrackServer(createSeedData());
+	const versionId = FIXTURE_IDS.versions.SH020_v1;
+	const mark = (apply: boolean) =>
+		runWithMockServer(
+			(ctx) =>
+				markVersionsDeliveredTool(
+					ctx.session,
+					ctx.projectContextService,
+					ctx.queryService,
+					{
+						versionIds: [versionId],
+						date: "2024-03-01",
+						status: "approved",
+						apply,
+						rollup: apply,
+					},
+				),
+			{ server },
+		);
+	const valueOf = (configId: string) =>
+		server.get("ContextCustomAttributeValue", [configId, versionId])?.value;
+
+	const preview = await mark(false);
+	assert(preview.output.some((line) => line.includes("SH020 main v001")));
+	assert(preview.output.some((line) => line.includes("→ Approved")));
+	assertEquals(server.operations.length, 0);
+
+	await mark(true);
+	assertEquals(valueOf("config-delivered"), true);
+	assertEquals(valueOf("config-dateSent"), "2024-03-01T00:00:00.000Z");
+	assertEquals(
+		server.get("AssetVersion", versionId)?.status_id,
+		"status-approved",
+	);
+
+	// The rollup links SH020 to its newly delivered version
+	const link = server
+		.all("CustomAttributeLink")
+		.find((record) => record.from_id === FIXTURE_IDS.shots.SH020);
+	assertEquals(link?.to_id, versionId);
+});
+
+Deno.test("E2E - markVersionsDeliveredTool should only offer version workflow statuses and project versions", async () => {
+	const server = new MockFtrackServer(createSeedData());
+	// A task status, not in the version workflow
+	server.insert("Status", { id: "status-in-progress", name: "In Progress" });
+	server.insert("AssetVersion", {
+		id: "version-other",
+		asset_id: "asset-other",
+		project_id: FIXTURE_IDS.otherProject,
+		version: 1,
+	});
+	const mark = (versionIds: string[], status: string) =>
+		runWithMockServer(
+			(ctx) =>
+				markVersionsDeliveredTool(
+					ctx.session,
+					ctx.projectContextService,
+					ctx.queryService,
+					{ versionIds, status, apply: true },
+				),
+			{ server, project: "demo" },
+		);
+
+	await assertRejects(
+		() => mark([FIXTURE_IDS.versions.SH020_v1], "In Progress"),
+		Error,
+		'Status "In Progress" not found',
+	);
+	await assertRejects(
+		() => mark(["version-other"], "Approved"),
+		Error,
+		"Version(s) not found: version-other",
+	);
+	assertEquals(server.operations.length, 0);
+});
+
+Deno.test("E2E - markVersionsDeliveredTool should keep the status when the project has no version workflow", async () => {
+	const server = new MockFtrackServer(createSeedData());
+	server.update("Project", FIXTURE_IDS.project, {
+		project_schema_id: "schema-missing",
+	});
+	const versionId = FIXTURE_IDS.versions.SH020_v1;
+	const status = server.get("AssetVersion", versionId)?.status_id;
+	// No "Select the status" answer: the prompt must not be shown
+	const restorePrompts = answerPrompts({
+		"Select the versions": "ids",
+		"Enter Version IDs": versionId,
+		"Date sent": "2024-03-01",
+		"Move the versions to a status": true,
+		"delivered?": true,
+		"Update the latest versions sent": false,
+	});
+
+	try {
+		const { output } = await runWithMockServer(
+			(ctx) =>
+				markVersionsDeliveredTool(
+					ctx.session,
+					ctx.projectContextService,
+					ctx.queryService,
+				),
+			{ server },
+		);
+		assert(output.some((line) => line.includes("No version status is common")));
+		assertEquals(
+			server.get("ContextCustomAttributeValue", ["config-delivered", versionId])
+				?.value,
+			true,
+		);
+		assertEquals(server.get("AssetVersion", versionId)?.status_id, status);
+	} finally {
+		restorePrompts();
+	}
+});
+
+Deno.test("E2E - markVersionsDeliveredTool should match delivery folder files to versions", async () => {
+	const folder = await Deno.makeTempDir();
+	try {
+		await Deno.mkdir(`${folder}/client`);
+		for (const file of [
+			"SH020_main_v001_original.mov",
+			"client/SH010_main_v002_encoded_1080p.mp4",
+			"download_manifest.json",
+			"readme.txt",
+		]) {
+			await Deno.writeTextFile(`${folder}/${file}`, "");
+		}
+
+		const { server, output } = await runWithMockServer(
+			(ctx) =>
+				markVersionsDeliveredTool(
+					ctx.session,
+					ctx.projectContextService,
+					ctx.queryService,
+					{ folder, apply: true },
+				),
+			{ project: "demo" },
+		);
+
+		const printed = (text: string) =>
+			output.some((line) => line.includes(text));
+		assert(printed("Matched 2 file(s) to 2 version(s)"));
+		assert(printed("- readme.txt"));
+		assert(printed("(already delivered on 2024-02-20)"));
+		for (const versionId of [
+			FIXTURE_IDS.versions.SH010_v2,
+			FIXTURE_IDS.versions.SH020_v1,
+		]) {
+			const delivered = server.get("ContextCustomAttributeValue", [
+				"config-delivered",
+				versionId,
+			]);
+			assertEquals(delivered?.value, true);
+		}
+		// SH010 v001 is not in the folder, so keeps its date sent
+		assertEquals(
+			server.get("ContextCustomAttributeValue", [
+				"config-dateSent",
+				FIXTURE_IDS.versions.SH010_v1,
+			])?.value,
+			"2024-01-20T00:00:00Z",
+		);
+	} finally {
+		await Deno.remove(folder, { recursive: true });
+	}
+});
+
+Deno.test("E2E - deleteMediaTool should delete versions only when executed", async () => {
+	const reportDir = await Deno.makeTempDir();
+	const versionId = FIXTURE_IDS.versions.SH020_v1;
+	// The only version of its asset, so protected as the latest
+
+	try {
+		const preview = await runWithMockServer((ctx) =>
+			deleteMediaTool(ctx.session, ctx.projectContextService, ctx.queryService, {
+				mode: "versions",
+				versionIds: [versionId],
+				reportDir,
+				overrideProtection: true,
+			}),
+		);
+		assertEquals(preview.server.get("AssetVersion", versionId)?.id, versionId);
+		assertEquals((await listFiles(reportDir)).length, 1);
+
+		const executed = await runWithMockServer((ctx) =>
+			deleteMediaTool(ctx.session, ctx.projectContextService, ctx.queryService, {
+				mode: "versions",
+				versionIds: [versionId],
+				reportDir,
+				journalDir: reportDir,
+				execute: true,
+				overrideProtection: true,
+			}),
+		);
+		assertEquals(executed.server.get("AssetVersion", versionId), undefined);
+	} finally {
+		await Deno.remove(reportDir, { recursive: true });
+	}
+});
+
+Deno.test("E2E - deleteMediaTool should keep protected versions unless overridden", async () => {
+	const reportDir = await Deno.makeTempDir();
+	const server = new MockFtrackServer(createSeedData());
+	const versionId = FIXTURE_IDS.versions.SH010_v1;
+	const deleteVersion = (overrideProtection: boolean) =>
+		runWithMockServer(
+			(ctx) =>
+				deleteMediaTool(ctx.session, ctx.projectContextService, ctx.queryService, {
+					mode: "versions",
+					versionIds: [versionId],
+					reportDir,
+					journalDir: reportDir,
+					execute: true,
+					overrideProtection,
+				}),
+			{ server },
+		);
+
+	try {
+		const kept = await deleteVersion(false);
+		assertEquals(server.get("AssetVersion", versionId)?.id, versionId);
+		assert(
+			kept.output.some(
+				(line) =>
+					line.includes(versionId) &&
+					line.includes("delivered, latest delivered version"),
+			),
+		);
+
+		await deleteVersion(true);
+		assertEquals(server.get("AssetVersion", versionId), undefined);
+	} finally {
+		await Deno.remove(reportDir, { recursive: true });
+	}
+});
+
+Deno.test("E2E - deleteMediaTool should apply retention policies and keep protected versions", async () => {
+	const dir = await Deno.makeTempDir();
+	const policyFile = `${dir}/retention_policies.yaml`;
+	await Deno.writeTextFile(
+		policyFile,
+		`policies:
+  - name: pending-encoded
+    delete: components
+    components: encoded_only
+    match:
+      olderThanDays: 90
+      statuses: [Pending Review]
+    protect:
+      latestVersion: false
+      lists: ["Client*"]
+`,
+	);
+	const { SH010_v1, SH010_v2, SH020_v1 } = FIXTURE_IDS.versions;
+
+	try {
+		const run = await runWithMockServer((ctx) =>
+			deleteMediaTool(ctx.session, ctx.projectContextService, ctx.queryService, {
+				mode: "policy",
+				policyFile,
+				reportDir: dir,
+				journalDir: dir,
+				execute: true,
+				overrideProtection: true,
+			}),
+		);
+
+		assert(
+			run.output.some(
+				(line) =>
+					line.includes(SH010_v1) && line.includes("latest delivered version"),
+			),
+		);
+		assert(
+			run.output.some(
+				(line) =>
+					line.includes(SH010_v2) && line.includes('on list "Client Review"'),
+			),
+		);
+		assertEquals(
+			run.server.get("Component", `${SH020_v1}-ftrackreview-mp4-1080`),
+			undefined,
+		);
+		assertEquals(
+			run.server.get("Component", `${SH020_v1}-main`)?.id,
+			`${SH020_v1}-main`,
+		);
+		assertEquals(
+			run.server.get("Component", `${SH010_v2}-ftrackreview-mp4-1080`)?.id,
+			`${SH010_v2}-ftrackreview-mp4-1080`,
+		);
+	} finally {
+		await Deno.remove(dir, { recursive: true });
+	}
+});
+
+Deno.test("E2E - deleteMediaTool should not let retention policies turn protections off without the override", async () => {
+	const dir = await Deno.makeTempDir();
+	const policyFile = `${dir}/retention_policies.yaml`;
+	await Deno.writeTextFile(
+		policyFile,
+		`policies:
+  - name: pending-encoded
+    delete: components
+    components: encoded_only
+    match:
+      olderThanDays: 90
+      statuses: [Pending Review]
+    protect:
+      latestVersion: false
+      lists: ["Client*"]
+`,
+	);
+	const { SH020_v1 } = FIXTURE_IDS.versions;
+
+	try {
+		const run = await runWithMockServer((ctx) =>
+			deleteMediaTool(ctx.session, ctx.projectContextService, ctx.queryService, {
+				mode: "policy",
+				policyFile,
+				reportDir: dir,
+				journalDir: dir,
+				execute: true,
+			}),
+		);
+
+		assert(
+			run.output.some((line) =>
+				line.includes("turns off protection: latestVersion, lists"),
+			),
+		);
+		assert(
+			run.output.some(
+				(line) =>
+					line.includes(SH020_v1) &&
+					line.includes("latest version of its asset"),
+			),
+		);
+		assertEquals(
+			run.server.get("Component", `${SH020_v1}-ftrackreview-mp4-1080`)?.id,
+			`${SH020_v1}-ftrackreview-mp4-1080`,
+		);
+	} finally {
+		await Deno.remove(dir, { recursive: true });
+	}
+});
+
+Deno.test("E2E - deleteMediaTool should remove components from one location only", async () => {
+	const dir = await Deno.makeTempDir();
+	const versionId = FIXTURE_IDS.versions.SH020_v1;
+	const server = new MockFtrackServer(createSeedData());
+	server.insert("Location", { id: "location-disk", name: "studio.disk" });
+	server.insert("ComponentLocation", {
+		id: "disk-location",
+		component_id: `${versionId}-main`,
+		location_id: "location-disk",
+		resource_identifier: "shots/SH020/main.mov",
+	});
+
+	try {
+		const removed = await runWithMockServer(
+			(ctx) =>
+				deleteMediaTool(ctx.session, ctx.projectContextService, ctx.queryService, {
+					mode: "components",
+					versionIds: [versionId],
+					locations: ["studio.disk"],
+					reportDir: dir,
+					journalDir: dir,
+					execute: true,
+					overrideProtection: true,
+				}),
+			{ server },
+		);
+
+		// The component and its ftrack.server copy are kept
+		assertEquals(server.get("ComponentLocation", "disk-location"), undefined);
+		assertEquals(
+			server.get("ComponentLocation", `${versionId}-main-location`)?.id,
+			`${versionId}-main-location`,
+		);
+		assertEquals(
+			server.get("Component", `${versionId}-main`)?.id,
+			`${versionId}-main`,
+		);
+		assert(
+			removed.output.some((line) =>
+				line.includes("Freed in studio.disk: 2 KB"),
+			),
+		);
+
+		const files = await Array.fromAsync(Deno.readDir(dir));
+		const report = files.find((entry) => entry.name.endsWith(".csv"))!;
+		const csv = await Deno.readTextFile(`${dir}/${report.name}`);
+		assert(
+			csv.includes("Freed by Location\nLocation,Size (MB)\nstudio.disk,0.00"),
+		);
+		assert(csv.includes(`remove_from_location,${versionId}`));
+
+		const journal = files.find((entry) => entry.name.endsWith(".jsonl"))!;
+		await runWithMockServer(
+			(ctx) =>
+				restoreDeletionTool(ctx.session, ctx.projectContextService, ctx.queryService, {
+					journalPath: `${dir}/${journal.name}`,
+					apply: true,
+				}),
+			{ server },
+		);
+		const diskLocations = server
+			.all("ComponentLocation")
+			.filter((record) => record.location_id === "location-disk");
+		assertEquals(diskLocations.length, 1);
+		assertEquals(diskLocations[0].resource_identifier, "shots/SH020/main.mov");
+	} finally {
+		await Deno.remove(dir, { recursive: true });
+	}
+});
+
+Deno.test("E2E - deleteMediaTool should run large deletions only from an approved plan", async () => {
+	const dir = await Deno.makeTempDir();
+	const home = Deno.env.get("HOME");
+	const versionId = FIXTURE_IDS.versions.SH020_v1;
+	const server = new MockFtrackServer(createSeedData());
+	// Every deletion needs approval
+	await Deno.mkdir(`${dir}/.config/astra-ftrack-tools`, { recursive: true });
+	await Deno.writeTextFile(
+		`${dir}/.config/astra-ftrack-tools/deletion_approval.json`,
+		JSON.stringify({ maxVersions: 0 }),
+	);
+	Deno.env.set("HOME", dir);
+
+	try {
+		await assertRejects(
+			() =>
+				runWithMockServer(
+					(ctx) =>
+						deleteMediaTool(ctx.session, ctx.projectContextService, ctx.queryService, {
+							mode: "versions",
+							versionIds: [versionId],
+							reportDir: dir,
+							journalDir: dir,
+							execute: true,
+							overrideProtection: true,
+						}),
+					{ server },
+				),
+			Error,
+			"needs a second user's approval",
+		);
+		assertEquals(server.get("AssetVersion", versionId)?.id, versionId);
+		const plan = (await Array.fromAsync(Deno.readDir(dir))).find((entry) =>
+			entry.name.startsWith("delete-media-plan-"),
+		)!;
+		const planFile = `${dir}/${plan.name}`;
+
+		server.insert("User", { id: "user-producer", username: "producer" });
+		await runWithMockServer(
+			(ctx) =>
+				deleteMediaTool(
+					server.createSession("producer"),
+					ctx.projectContextService,
+					ctx.queryService,
+					{ mode: "approve", planFile },
+				),
+			{ server },
+		);
+		const executed = await runWithMockServer(
+			(ctx) =>
+				deleteMediaTool(ctx.session, ctx.projectContextService, ctx.queryService, {
+					mode: "plan",
+					planFile,
+					journalDir: dir,
+					execute: true,
+				}),
+			{ server },
+		);
+		assert(
+			executed.output.some((line) => line.includes("Approved by producer")),
+		);
+		assertEquals(server.get("AssetVersion", versionId), undefined);
+	} finally {
+		if (home) Deno.env.set("HOME", home);
+		await Deno.remove(dir, { recursive: true });
+	}
+});
+
+Deno.test("E2E - deleteMediaTool should ask approval for an override above the thresholds", async () => {
+	const dir = await Deno.makeTempDir();
+	const home = Deno.env.get("HOME");
+	// The only version of its asset, so protected as the latest
+	const versionId = FIXTURE_IDS.versions.SH020_v1;
+	const server = new MockFtrackServer(createSeedData());
+	// Without the protected version the preview is empty, so below them
+	await Deno.mkdir(`${dir}/.config/astra-ftrack-tools`, { recursive: true });
+	await Deno.mkdir(`${dir}/Downloads`);
+	await Deno.writeTextFile(
+		`${dir}/.config/astra-ftrack-tools/deletion_approval.json`,
+		JSON.stringify({ maxVersions: 0 }),
+	);
+	Deno.env.set("HOME", dir);
+	const restorePrompts = answerPrompts({
+		"Select deletion mode": "versions",
+		"How would you like to specify": "ids",
+		"Enter Version IDs": versionId,
+		"HTML report": false,
+		[PROTECTION_OVERRIDE_PHRASE]: PROTECTION_OVERRIDE_PHRASE,
+		"FINAL CONFIRMATION": true,
+	});
+
+	try {
+		await runWithMockServer(
+			(ctx) =>
+				deleteMediaTool(ctx.session, ctx.projectContextService, ctx.queryService),
+			{ server },
+		);
+		assertEquals(server.get("AssetVersion", versionId)?.id, versionId);
+		const exports = (await Array.fromAsync(Deno.readDir(`${dir}/Downloads`)))
+			.map((entry) => entry.name);
+		assert(exports.some((name) => name.includes("-override-")));
+		const plan = exports.find((name) => name.startsWith("delete-media-plan-"))!;
+		const planFile = `${dir}/Downloads/${plan}`;
+		const written = JSON.parse(await Deno.readTextFile(planFile));
+		assertEquals(written.request.overrideProtection, true);
+		assertEquals(written.versions, 1);
+
+		server.insert("User", { id: "user-producer", username: "producer" });
+		await runWithMockServer(
+			(ctx) =>
+				deleteMediaTool(
+					server.createSession("producer"),
+					ctx.projectContextService,
+					ctx.queryService,
+					{ mode: "approve", planFile },
+				),
+			{ server },
+		);
+		await runWithMockServer(
+			(ctx) =>
+				deleteMediaTool(ctx.session, ctx.projectContextService, ctx.queryService, {
+					mode: "plan",
+					planFile,
+					journalDir: dir,
+					execute: true,
+				}),
+			{ server },
+		);
+		assertEquals(server.get("AssetVersion", versionId), undefined);
+	} finally {
+		restorePrompts();
+		if (home) Deno.env.set("HOME", home);
+		await Deno.remove(dir, { recursive: true });
+	}
+});
+
+Deno.test("E2E - deleteMediaTool should run large retention policy deletions only from an approved plan", async () => {
+	const dir = await Deno.makeTempDir();
+	const home = Deno.env.get("HOME");
+	const policyFile = `${dir}/retention_policies.yaml`;
+	await Deno.writeTextFile(
+		policyFile,
+		`policies:
+  - name: pending-encoded
+    delete: components
+    components: encoded_only
+    match:
+      olderThanDays: 90
+      statuses: [Pending Review]
+    protect:
+      latestVersion: false
+`,
+	);
+	const { SH020_v1 } = FIXTURE_IDS.versions;
+	const encodedId = `${SH020_v1}-ftrackreview-mp4-1080`;
+	const server = new MockFtrackServer(createSeedData());
+	// Every deletion needs approval
+	await Deno.mkdir(`${dir}/.config/astra-ftrack-tools`, { recursive: true });
+	await Deno.writeTextFile(
+		`${dir}/.config/astra-ftrack-tools/deletion_approval.json`,
+		JSON.stringify({ maxVersions: 0 }),
+	);
+	Deno.env.set("HOME", dir);
+
+	try {
+		await assertRejects(
+			() =>
+				runWithMockServer(
+					(ctx) =>
+						deleteMediaTool(ctx.session, ctx.projectContextService, ctx.queryService, {
+							mode: "policy",
+							policyFile,
+							reportDir: dir,
+							journalDir: dir,
+							execute: true,
+							overrideProtection: true,
+						}),
+					{ server },
+				),
+			Error,
+			"needs a second user's approval",
+		);
+		assertEquals(server.get("Component", encodedId)?.id, encodedId);
+		const plan = (await Array.fromAsync(Deno.readDir(dir))).find((entry) =>
+			entry.name.startsWith("delete-media-plan-"),
+		)!;
+		const planFile = `${dir}/${plan.name}`;
+		const { request } = JSON.parse(await Deno.readTextFile(planFile));
+		assertEquals(request.mode, "policies");
+		assertEquals(request.policies[0].versionIds, [SH020_v1]);
+		assertEquals(request.policies[0].protectionRules.latestVersion, false);
+
+		server.insert("User", { id: "user-producer", username: "producer" });
+		await runWithMockServer(
+			(ctx) =>
+				deleteMediaTool(
+					server.createSession("producer"),
+					ctx.projectContextService,
+					ctx.queryService,
+					{ mode: "approve", planFile },
+				),
+			{ server },
+		);
+		const executed = await runWithMockServer(
+			(ctx) =>
+				deleteMediaTool(ctx.session, ctx.projectContextService, ctx.queryService, {
+					mode: "plan",
+					planFile,
+					journalDir: dir,
+					execute: true,
+				}),
+			{ server },
+		);
+		assert(
+			executed.output.some((line) =>
+				line.includes('Policy "pending-encoded": delete encoded_only'),
+			),
+		);
+		assert(executed.output.some((line) => line.includes("Deletion journal")));
+		assertEquals(server.get("Component", encodedId), undefined);
+		assertEquals(server.get("Component", `${SH020_v1}-main`)?.id, `${SH020_v1}-main`);
+	} finally {
+		if (home) Deno.env.set("HOME", home);
+		await Deno.remove(dir, { recursive: true });
+	}
+});
+
+Deno.test("E2E - deleteMediaTool should write an HTML report with thumbnails", async () => {
+	const dir = await Deno.makeTempDir();
+	const versionIds = [
+		FIXTURE_IDS.versions.SH010_v2,
+		FIXTURE_IDS.versions.SH020_v1,
+	];
+	try {
+		const { server } = await runWithMockServer((ctx) =>
+			deleteMediaTool(ctx.session, ctx.projectContextService, ctx.queryService, {
+				mode: "versions",
+				versionIds,
+				reportDir: dir,
+				htmlReport: true,
+				overrideProtection: true,
+			}),
+		);
+
+		// Dry run only
+		assertEquals(server.all("AssetVersion").length, 3);
+		const files = await Array.fromAsync(Deno.readDir(dir));
+		const report = files.find((entry) => entry.name.endsWith(".html"))!;
+		assertEquals(
+			report.name.replace(/\.html$/, ".csv"),
+			files.find((entry) => entry.name.endsWith(".csv"))!.name,
+		);
+
+		const html = await Deno.readTextFile(`${dir}/${report.name}`);
+		assert(html.includes("<h2>SH010 <span"));
+		assert(html.includes("<h2>SH020 <span"));
+		assert(html.includes("Pending Review"));
+		for (const versionId of versionIds) {
+			const thumbnail = server
+				.getComponentUrl(`${versionId}-thumbnail`)!
+				.split(",")[1];
+			assert(html.includes(`<img src="data:image/jpeg;base64,${thumbnail}"`));
+		}
+	} finally {
+		await Deno.remove(dir, { recursive: true });
+	}
+});
+
+Deno.test("E2E - restoreDeletionTool should recreate a deleted version from its journal", async () => {
+	const journalDir = await Deno.makeTempDir();
+	const versionId = FIXTURE_IDS.versions.SH020_v1;
+	const server = new MockFtrackServer(createSeedData());
+	server.insert("Location", { id: "location-disk", name: "studio.disk" });
+	server.insert("ComponentLocation", {
+		id: "disk-location",
+		component_id: `${versionId}-main`,
+		location_id: "location-disk",
+		resource_identifier: "shots/SH020/main.mov",
+	});
+	server.insert("ListObject", {
+		id: "listobject-version",
+		list_id: FIXTURE_IDS.list,
+		entity_id: versionId,
+	});
+
+	try {
+		const deleted = await runWithMockServer(
+			(ctx) =>
+				deleteMediaTool(
+					ctx.session,
+					ctx.projectContextService,
+					ctx.queryService,
+					{
+						mode: "versions",
+						versionIds: [versionId],
+						reportDir: journalDir,
+						journalDir,
+						execute: true,
+						overrideProtection: true,
+					},
+				),
+			{ server },
+		);
+		assert(deleted.output.some((line) => line.includes("Deletion journal")));
+
+		// ftrack removes everything attached to a version along with it
+		for (const type of ["Component", "ComponentLocation", "ListObject"]) {
+			for (const record of server.all(type)) {
+				const componentId = String(record.component_id ?? record.id);
+				if (
+					componentId.startsWith(versionId) ||
+					record.entity_id === versionId
+				) {
+					server.delete(type, record.id as string);
+				}
+			}
+		}
+		server.delete("CustomAttributeValue", ["config-delivered", versionId]);
+
+		const [journalFile] = (await Array.fromAsync(Deno.readDir(journalDir)))
+			.filter((entry) => entry.name.endsWith(".jsonl"));
+		const journalPath = `${journalDir}/${journalFile.name}`;
+		const readJournal = () =>
+			new DeletionJournalService(server.createSession()).load(journalPath);
+		const journal = await readJournal();
+		assertEquals(journal.entries[0].status, "deleted");
+		assertEquals(journal.entries[0].components.length, 3);
+
+		const restored = await runWithMockServer(
+			(ctx) =>
+				restoreDeletionTool(
+					ctx.session,
+					ctx.projectContextService,
+					ctx.queryService,
+					{ journalPath, apply: true },
+				),
+			{ server },
+		);
+
+		assertEquals(server.get("AssetVersion", versionId)?.version, 1);
+		assertEquals(server.get("Component", `${versionId}-main`)?.size, 2048);
+		assertEquals(
+			server
+				.all("ComponentLocation")
+				.filter((location) => location.component_id === `${versionId}-main`)
+				.map((location) => location.resource_identifier),
+			["shots/SH020/main.mov"],
+		);
+		assertEquals(
+			server.get("CustomAttributeValue", ["config-delivered", versionId])
+				?.value,
+			false,
+		);
+		assert(
+			server
+				.all("ListObject")
+				.some(
+					(item) =>
+						item.list_id === FIXTURE_IDS.list && item.entity_id === versionId,
+				),
+		);
+		// Files stored in ftrack.server are gone for good
+		assert(
+			restored.output.some((line) =>
+				line.includes("its file in ftrack.server was deleted"),
+			),
+		);
+		assertEquals((await readJournal()).entries[0].status, "restored");
+	} finally {
+		await Deno.remove(journalDir, { recursive: true });
+	}
+});
+
+Deno.test("E2E - storageReportTool should export the breakdowns and candidates", async () => {
+	const outputDir = await Deno.makeTempDir();
+
+	try {
+		const { output } = await runWithMockServer(
+			(ctx) =>
+				storageReportTool(
+					ctx.session,
+					ctx.projectContextService,
+					ctx.queryService,
+					{ dimension: "shot", outputDir },
+				),
+			{
+				seed: [
+					...createSeedData(),
+					...versionEntities(
+						"version-020-2",
+						FIXTURE_IDS.shots.SH020,
+						"asset-020",
+						"task-020",
+						2,
+						false,
+						null,
+					),
+				],
+			},
+		);
+
+		const files = (await Array.fromAsync(Deno.readDir(outputDir)))
+			.map((entry) => entry.name)
+			.sort();
+		assertEquals(files.length, 3);
+		const report = JSON.parse(
+			await Deno.readTextFile(
+				`${outputDir}/${files.find((name) => name.endsWith(".json"))}`,
+			),
+		);
+
+		// Four versions of 2048 + 1024 + 256 bytes
+		assertEquals(report.totalBytes, 4 * 3328);
+		assertEquals(
+			report.groups.shot.map((row: { key: string }) => row.key),
+			["SH010", "SH020"],
+		);
+		// SH020 v1 is superseded by v2
+		assertEquals(
+			report.candidates.map((c: { versionId: string }) => c.versionId),
+			[FIXTURE_IDS.versions.SH020_v1],
+		);
+		// SH010 v1 is superseded too, but delivered
+		assertEquals(report.protectedCandidates.length, 1);
+		assertEquals(
+			report.protectedCandidates[0].versionId,
+			FIXTURE_IDS.versions.SH010_v1,
+		);
+		assert(report.protectedCandidates[0].reason.includes("delivered"));
+		assert(output.some((line) => line.includes("reclaimable candidates")));
+		assert(output.some((line) => line.includes("protected from deletion")));
+	} finally {
+		await Deno.remove(outputDir, { recursive: true });
+	}
+});
+
+Deno.test("E2E - downloadMediaTool should download the original component", async () => {
+	const outputPath = await Deno.makeTempDir();
+
+	try {
+		await runWithMockServer((ctx) =>
+			downloadMediaTool(
+				ctx.session,
+				ctx.projectContextService,
+				ctx.queryService,
+				{
+					versionId: FIXTURE_IDS.versions.SH010_v2,
+					mediaPreference: "original",
+					outputPath,
+				},
+			),
+		);
+
+		// Each session goes into its own timestamped folder with a manifest
+		const [sessionDir] = await Array.fromAsync(Deno.readDir(outputPath));
+		const downloadDir = `${outputPath}/${sessionDir.name}`;
+		const manifest = JSON.parse(
+			await Deno.readTextFile(`${downloadDir}/download_manifest.json`),
+		);
+		assertEquals(manifest.entries.length, 1);
+		assertEquals(manifest.entries[0].size, 2048);
+		assertEquals(
+			(await Deno.stat(`${downloadDir}/${manifest.entries[0].path}`)).size,
+			2048,
+		);
+		assertEquals(
+			(await new DownloadManifestService().verify(downloadDir)).verified.length,
+			1,
+		);
+	} finally {
+		await Deno.remove(outputPath, { recursive: true });
+	}
+});
+
+Deno.test("E2E - downloadMediaTool sync should only fetch new versions", async () => {
+	const outputPath = await Deno.makeTempDir();
+	const server = new MockFtrackServer(createSeedData());
+	const sync = (shotPattern: string) =>
+		runWithMockServer(
+			(ctx) =>
+				downloadMediaTool(
+					ctx.session,
+					ctx.projectContextService,
+					ctx.queryService,
+					{ shotPattern, mediaPreference: "original", outputPath, sync: true },
+				),
+			{ project: "demo", server },
+		);
+
+	try {
+		await sync("SH010");
+		const { output } = await sync("SH0?0");
+
+		assertEquals(output.includes("   Added: 1"), true);
+		assertEquals(output.includes("   Skipped (already up to date): 1"), true);
+
+		// Files go straight into the folder with a single, cumulative manifest
+		const manifest = JSON.parse(
+			await Deno.readTextFile(`${outputPath}/download_manifest.json`),
+		);
+		assertEquals(manifest.entries.length, 2);
+	} finally {
+		await Deno.remove(outputPath, { recursive: true });
+	}
+});
+
+Deno.test("E2E - downloadMediaTool should name files with the naming template", async () => {
+	const outputPath = await Deno.makeTempDir();
+
+	try {
+		await runWithMockServer((ctx) =>
+			downloadMediaTool(ctx.session, ctx.projectContextService, ctx.queryService, {
+				versionId: FIXTURE_IDS.versions.SH010_v2,
+				mediaPreference: "original",
+				outputPath,
+				sync: true,
+				namingTemplate:
+					"{project}/{sequence}/{shot}/{shot}_{task}_v{version:03}.{ext}",
+			}),
+		);
+
+		const stat = await Deno.stat(
+			`${outputPath}/demo/SQ010/SH010/SH010_compositing_v002.mov`,
+		);
+		assertEquals(stat.size, 2048);
+	} finally {
+		await Deno.remove(outputPath, { recursive: true });
+	}
+});
+
+Deno.test("E2E - downloadMediaTool should copy from mounted storage and fall back to HTTP", async () => {
+	const outputPath = await Deno.makeTempDir();
+	const mountPath = await Deno.makeTempDir();
+	const localContent = "L".repeat(2048);
+
+	try {
+		// Only SH010 is on the mounted location, SH020 has to come over HTTP
+		await Deno.writeTextFile(
+			`${mountPath}/${FIXTURE_IDS.versions.SH010_v2}-main.mov`,
+			localContent,
+		);
+
+		const { output } = await runWithMockServer((ctx) =>
+			downloadMediaTool(ctx.session, ctx.projectContextService, ctx.queryService, {
+				shotPattern: "SH0?0",
+				mediaPreference: "original",
+				outputPath,
+				sync: true,
+				namingTemplate: "{shot}.{ext}",
+				local: {
+					mode: "copy",
+					locationPrefixes: { "ftrack.server": mountPath },
+				},
+			}),
+		);
+
+		assertEquals(
+			output.some((line) => line.includes("Copying from mounted locations")),
+			true,
+		);
+		assertEquals(
+			await Deno.readTextFile(`${outputPath}/SH010.mov`),
+			localContent,
+		);
+		const downloaded = await Deno.readTextFile(`${outputPath}/SH020.mov`);
+		assertEquals(downloaded.length, 2048);
+		assertEquals(downloaded === localContent, false);
+	} finally {
+		await Deno.remove(outputPath, { recursive: true });
+		await Deno.remove(mountPath, { recursive: true });
+	}
+});
+
+Deno.test("E2E - downloadMediaTool should download every frame of an image sequence", async () => {
+	const outputPath = await Deno.makeTempDir();
+	const server = new MockFtrackServer(createSeedData());
+	const versionId = FIXTURE_IDS.versions.SH020_v1;
+	insertSequence(server, versionId);
+	// Without the movie the EXR render is the original
+	server.delete("Component", `${versionId}-main`);
+
+	try {
+		const { output } = await runWithMockServer(
+			(ctx) =>
+				downloadMediaTool(
+					ctx.session,
+					ctx.projectContextService,
+					ctx.queryService,
+					{
+						versionId,
+						mediaPreference: "original",
+						outputPath,
+						sync: true,
+						namingTemplate: "{shot}_v{version:03}.{ext}",
+					},
+				),
+			{ server },
+		);
+
+		assertEquals(output.includes("   Added: 3"), true);
+		const frames = (await Array.fromAsync(Deno.readDir(`${outputPath}/SH020_v001`)))
+			.map((entry) => entry.name)
+			.sort();
+		assertEquals(frames, [
+			"SH020_v001.1001.exr",
+			"SH020_v001.1002.exr",
+			"SH020_v001.1004.exr",
+		]);
+
+		const manifest = JSON.parse(
+			await Deno.readTextFile(`${outputPath}/download_manifest.json`),
+		);
+		assertEquals(manifest.entries.length, 3);
+	} finally {
+		await Deno.remove(outputPath, { recursive: true });
+	}
+});
+
+Deno.test("E2E - deleteMediaTool preview should report sequence frame ranges", async () => {
+	const reportDir = await Deno.makeTempDir();
+	const server = new MockFtrackServer(createSeedData());
+	const versionId = FIXTURE_IDS.versions.SH020_v1;
+	const sequenceId = insertSequence(server, versionId);
+
+	try {
+		await runWithMockServer(
+			(ctx) =>
+				deleteMediaTool(ctx.session, ctx.projectContextService, ctx.queryService, {
+					mode: "components",
+					versionIds: [versionId],
+					componentChoice: "original_only",
+					reportDir,
+					overrideProtection: true,
+				}),
+			{ server },
+		);
+
+		const [report] = await Array.fromAsync(Deno.readDir(reportDir));
+		const rows = (await Deno.readTextFile(`${reportDir}/${report.name}`)).split(
+			"\n",
+		);
+		const sequenceRow = rows.find((row) => row.includes(sequenceId));
+		assertEquals(sequenceRow?.includes("image-sequence"), true);
+		assertEquals(sequenceRow?.includes('"1001-1002, 1004 (3 frames)"'), true);
+	} finally {
+		await Deno.remove(reportDir, { recursive: true });
+	}
+});
+
+Deno.test("E2E - downloadMediaTool should download list and review session versions in order", async () => {
+	const outputPath = await Deno.makeTempDir();
+	const server = new MockFtrackServer(createSeedData());
+	const { SH010_v2, SH020_v1 } = FIXTURE_IDS.versions;
+
+	server.insert("List", { id: "list-delivery", name: "Delivery" });
+	server.insert("ReviewSession", {
+		id: "review-1",
+		name: "Client Review",
+		project_id: FIXTURE_IDS.project,
+	});
+	for (const [index, versionId] of [SH020_v1, SH010_v2].entries()) {
+		server.insert("ListObject", {
+			list_id: "list-delivery",
+			entity_id: versionId,
+		});
+		server.insert("ReviewSessionObject", {
+			review_session_id: "review-1",
+			version_id: versionId,
+			// Reversed in the review session
+			sort_order: 1 - index,
+		});
+	}
+
+	const download = (source: { listId?: string; reviewSessionId?: string }) =>
+		runWithMockServer(
+			(ctx) =>
+				downloadMediaTool(
+					ctx.session,
+					ctx.projectContextService,
+					ctx.queryService,
+					{
+						...source,
+						mediaPreference: "original",
+						outputPath,
+						sync: true,
+						namingTemplate: "{index:02}_{shot}",
+					},
+				),
+			{ project: "demo", server },
+		);
+
+	try {
+		await download({ listId: "list-delivery" });
+		await download({ reviewSessionId: "review-1" });
+
+		const filenames = (await Array.fromAsync(Deno.readDir(outputPath)))
+			.map((entry) => entry.name)
+			.filter((name) => !name.startsWith("download_manifest"))
+			.sort();
+		assertEquals(filenames, ["01_SH010", "01_SH020", "02_SH010", "02_SH020"]);
+	} finally {
+		await Deno.remove(outputPath, { recursive: true });
+	}
+});
+
+Deno.test("E2E - manageLists should add shots and report unknown codes", async () => {
+	const server = new MockFtrackServer(createSeedData());
+
+	await assertRejects(
+		() =>
+			runWithMockServer(
+				(ctx) =>
+					manageLists(ctx.session, ctx.projectContextService, {
+						mode: "add_shots",
+						listName: "Client Review",
+						shotCodes: ["SH020", "SH999"],
+					}),
+				{ project: "demo", server },
+			),
+		Error,
+		"1 shot code(s) were not found",
+	);
+
+	const linked = server.runQuery(
+		`select entity_id from ListObject where list_id is "${FIXTURE_IDS.list}"`,
+	).data;
+	assertEquals(
+		linked.map((row) => row.entity_id).sort(),
+		[FIXTURE_IDS.shots.SH010, FIXTURE_IDS.shots.SH020],
+	);
+});
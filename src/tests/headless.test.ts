@@ -0,0 +1,38 @@
+import { assertEquals, assertRejects } from "@std/assert";
+import type { Session } from "@ftrack/api";
+import { resolveProjectContext } from "../cli/context.ts";
+import { runHeadless } from "../cli/headless.ts";
+
+const createMockSession = (projects: unknown[]) => {
+	return {
+		query: (_expression: string) => Promise.resolve({ data: projects }),
+	} as unknown as Session;
+};
+
+Deno.test("Headless - resolveProjectContext should default to global mode", async () => {
+	const context = await resolveProjectContext(createMockSession([]));
+	assertEquals(context, { project: null, isGlobal: true });
+});
+
+Deno.test("Headless - resolveProjectContext should resolve a project by name", async () => {
+	const project = { id: "project-1", name: "demo", full_name: "Demo" };
+	const context = await resolveProjectContext(
+		createMockSession([project]),
+		"demo",
+	);
+	assertEquals(context, { project, isGlobal: false });
+});
+
+Deno.test("Headless - resolveProjectContext should reject unknown projects", async () => {
+	await assertRejects(
+		() => resolveProjectContext(createMockSession([]), "missing"),
+		Error,
+		'Project "missing" not found',
+	);
+});
+
+Deno.test("Headless - should return exit code 2 for invalid usage", async () => {
+	assertEquals(await runHeadless(["download"]), 2);
+	assertEquals(await runHeadless(["delete", "--mode", "everything"]), 2);
+	assertEquals(await runHeadless(["not-a-command"]), 2);
+});
@@ -0,0 +1,84 @@
+import { assertEquals } from "@std/assert";
+import {
+	formatFrameRange,
+	isSequenceComponent,
+	padFrame,
+} from "../utils/imageSequence.ts";
+import { MediaDownloadService } from "../services/mediaDownloadService.ts";
+import type { AssetVersion, Component } from "../types/mediaDownload.ts";
+
+const frame = (name: string): Component => ({
+	id: `frame-${name}`,
+	name,
+	file_type: ".exr",
+	size: 10,
+	component_locations: [],
+});
+
+const sequence: Component = {
+	id: "sequence-1",
+	name: "render",
+	file_type: ".exr",
+	size: 30,
+	component_locations: [],
+	__entity_type__: "SequenceComponent",
+	padding: 4,
+	members: [frame("1001"), frame("1002"), frame("1003")],
+};
+
+const version: AssetVersion = {
+	id: "version-1",
+	version: 3,
+	asset: {
+		id: "asset-1",
+		name: "comp",
+		parent: { id: "shot-1", name: "SH010" },
+		type: { id: "type-1", name: "Render" },
+	},
+	components: [],
+};
+
+Deno.test("Image sequence - should detect sequence components", () => {
+	assertEquals(isSequenceComponent(sequence), true);
+	assertEquals(
+		isSequenceComponent({ ...sequence, __entity_type__: undefined }),
+		true,
+	);
+	assertEquals(isSequenceComponent(frame("1001")), false);
+});
+
+Deno.test("Image sequence - should format frame ranges with gaps", () => {
+	assertEquals(formatFrameRange([1003, 1001, 1002]), "1001-1003 (3 frames)");
+	assertEquals(
+		formatFrameRange([1, 2, 3, 5, 8, 9]),
+		"1-3, 5, 8-9 (6 frames)",
+	);
+	assertEquals(formatFrameRange([7]), "7 (1 frame)");
+	assertEquals(formatFrameRange([]), "no frames");
+});
+
+Deno.test("Image sequence - should pad frame numbers", () => {
+	assertEquals(padFrame(7, 4), "0007");
+	assertEquals(padFrame(1001, 0), "1001");
+	assertEquals(padFrame(-5, 3), "-005");
+});
+
+Deno.test("Image sequence - should name frames inside the sequence folder", () => {
+	const service = new MediaDownloadService();
+	service.setNamingTemplate("{shot}/{shot}_v{version:03}.{ext}");
+
+	const folder = service.generateSafeFilename(sequence, version);
+	assertEquals(folder, "SH010/SH010_v003");
+	assertEquals(
+		service.generateSequenceFrameFilename(folder, sequence, frame("1001")),
+		"SH010/SH010_v003/SH010_v003.1001.exr",
+	);
+	assertEquals(
+		service.generateSequenceFrameFilename(
+			folder,
+			{ ...sequence, padding: 6 },
+			frame("7"),
+		),
+		"SH010/SH010_v003/SH010_v003.000007.exr",
+	);
+});
@@ -138,3 +138,26 @@ Deno.test("inspectShot - should handle errors properly", async () => {
 		console.error = originalConsoleError;
 	}
 });
+
+Deno.test("inspectShot - should return the shot with its tasks and versions", async () => {
+	const originalConsoleLog = console.log;
+	console.log = (..._args: unknown[]) => {};
+
+	const mockSession = createMockSession([]);
+
+	try {
+		const result = await inspectShot(
+			mockSession,
+			mockProjectContextService,
+			mockQueryService,
+			"shot-1",
+			{ json: true },
+		);
+
+		assertEquals(result?.shot, mockShotData);
+		assertEquals(result?.tasks, mockTasksData);
+		assertEquals(result?.versions, mockVersionsData);
+	} finally {
+		console.log = originalConsoleLog;
+	}
+});
@@ -101,6 +101,45 @@ Deno.test("inspectTask - should process task details with provided taskId", asyn
 	}
 });
 
+Deno.test("inspectTask - should list time logs in text and JSON output", async () => {
+	const originalConsoleLog = console.log;
+	const output: string[] = [];
+	console.log = (...args: unknown[]) => {
+		output.push(args.join(" "));
+	};
+
+	try {
+		for (const json of [false, true]) {
+			output.length = 0;
+			// Time logs are the only session query; the task and versions
+			// come from the query service
+			const result = await inspectTask(
+				createMockSession([mockTimelogsData]),
+				mockProjectContextService,
+				mockQueryService,
+				"task-1",
+				{ json },
+			);
+
+			assertEquals(result?.timeLogs, mockTimelogsData);
+			if (json) {
+				assertEquals(
+					JSON.parse(output.join("\n")).timeLogs[0].id,
+					"timelog-1",
+				);
+			} else {
+				assertEquals(
+					output.some((line) => line.includes("• 1.00h - ")),
+					true,
+					"Should list the time log",
+				);
+			}
+		}
+	} finally {
+		console.log = originalConsoleLog;
+	}
+});
+
 Deno.test("inspectTask - should handle errors properly", async () => {
 	const originalConsoleError = console.error;
 	const errorCalls: string[] = [];
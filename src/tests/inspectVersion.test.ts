@@ -103,3 +103,35 @@ Deno.test("inspectVersion - should handle empty results gracefully", async () =>
 		console.log = originalConsoleLog;
 	}
 });
+
+Deno.test("inspectVersion - should return a structured result and print JSON when requested", async () => {
+	const originalConsoleLog = console.log;
+	const logCalls: string[] = [];
+	console.log = (...args: unknown[]) => {
+		logCalls.push(args.join(" "));
+	};
+
+	const mockAttributes = [{ id: "attr-1", value: "2024-01-01" }];
+	const mockNotes = [{ id: "note-1", content: "Looks good" }];
+	const mockSession = createMockSession([mockAttributes, mockNotes]);
+
+	try {
+		const result = await inspectVersion(
+			mockSession,
+			mockProjectContextService,
+			mockQueryService,
+			"version-1",
+			{ json: true },
+		);
+
+		assertEquals(result?.version.id, "version-1");
+		assertEquals(result?.customAttributes, mockAttributes);
+		assertEquals(result?.notes, mockNotes);
+
+		// Only the JSON document should be printed
+		assertEquals(logCalls.length, 1);
+		assertEquals(JSON.parse(logCalls[0]), result);
+	} finally {
+		console.log = originalConsoleLog;
+	}
+});
@@ -0,0 +1,357 @@
+import { assertEquals, assertRejects } from "@std/assert";
+import { MediaDownloadService } from "../services/mediaDownloadService.ts";
+import type { DownloadTask } from "../types/mediaDownload.ts";
+import {
+	DownloadStoppedError,
+	DownloadUrlNotFoundError,
+} from "../types/mediaDownload.ts";
+import { PauseController } from "../services/transferControl.ts";
+
+const CONTENT = new TextEncoder().encode("0123456789abcdefghij");
+
+/**
+ * Replaces fetch with a server returning CONTENT, optionally honouring Range headers
+ */
+function stubFetch(options: { supportsRange: boolean }) {
+	const originalFetch = globalThis.fetch;
+	const rangeHeaders: (string | null)[] = [];
+
+	globalThis.fetch = ((_url: string, init?: RequestInit) => {
+		const range = new Headers(init?.headers).get("Range");
+		rangeHeaders.push(range);
+
+		const start = range ? Number(/bytes=(\d+)-/.exec(range)?.[1] ?? 0) : 0;
+		if (options.supportsRange && range) {
+			const body = CONTENT.slice(start);
+			return Promise.resolve(
+				new Response(body, {
+					status: 206,
+					headers: { "content-length": String(body.length) },
+				}),
+			);
+		}
+		return Promise.resolve(
+			new Response(CONTENT, {
+				status: 200,
+				headers: { "content-length": String(CONTENT.length) },
+			}),
+		);
+	}) as typeof fetch;
+
+	return {
+		rangeHeaders,
+		restore: () => {
+			globalThis.fetch = originalFetch;
+		},
+	};
+}
+
+async function withTempDir(fn: (dir: string) => Promise<void>) {
+	const dir = await Deno.makeTempDir();
+	try {
+		await fn(dir);
+	} finally {
+		await Deno.remove(dir, { recursive: true });
+	}
+}
+
+Deno.test("MediaDownloadService - should resume a partial download with a Range request", async () => {
+	const fetchStub = stubFetch({ supportsRange: true });
+
+	try {
+		await withTempDir(async (dir) => {
+			await Deno.writeFile(`${dir}/clip.mov.part`, CONTENT.slice(0, 8));
+
+			const service = new MediaDownloadService();
+			await service.downloadFile("https://example.com/clip", dir, "clip.mov", 20);
+
+			assertEquals(fetchStub.rangeHeaders, ["bytes=8-"]);
+			assertEquals(await Deno.readFile(`${dir}/clip.mov`), CONTENT);
+			await assertRejects(() => Deno.stat(`${dir}/clip.mov.part`));
+		});
+	} finally {
+		fetchStub.restore();
+	}
+});
+
+Deno.test("MediaDownloadService - should restart when the server ignores Range", async () => {
+	const fetchStub = stubFetch({ supportsRange: false });
+
+	try {
+		await withTempDir(async (dir) => {
+			await Deno.writeFile(`${dir}/clip.mov.part`, CONTENT.slice(0, 8));
+
+			const service = new MediaDownloadService();
+			await service.downloadFile("https://example.com/clip", dir, "clip.mov", 20);
+
+			assertEquals(await Deno.readFile(`${dir}/clip.mov`), CONTENT);
+		});
+	} finally {
+		fetchStub.restore();
+	}
+});
+
+Deno.test("MediaDownloadService - should skip files that are already complete", async () => {
+	const fetchStub = stubFetch({ supportsRange: true });
+
+	try {
+		await withTempDir(async (dir) => {
+			await Deno.writeFile(`${dir}/clip.mov`, CONTENT);
+
+			const service = new MediaDownloadService();
+			await service.downloadFile("https://example.com/clip", dir, "clip.mov", 20);
+
+			assertEquals(fetchStub.rangeHeaders.length, 0);
+		});
+	} finally {
+		fetchStub.restore();
+	}
+});
+
+Deno.test("MediaDownloadService - should keep the part file when the size does not match", async () => {
+	const fetchStub = stubFetch({ supportsRange: true });
+
+	try {
+		await withTempDir(async (dir) => {
+			const service = new MediaDownloadService();
+
+			await assertRejects(
+				() =>
+					service.downloadFile("https://example.com/clip", dir, "clip.mov", 30),
+				Error,
+				"Size mismatch for clip.mov: expected 30 bytes, got 20 bytes",
+			);
+
+			// The partial file is kept so the next run can resume it
+			assertEquals((await Deno.stat(`${dir}/clip.mov.part`)).size, 20);
+			await assertRejects(() => Deno.stat(`${dir}/clip.mov`));
+		});
+	} finally {
+		fetchStub.restore();
+	}
+});
+
+function createTask(dir: string, componentId: string): DownloadTask {
+	return {
+		component: {
+			id: componentId,
+			name: "main",
+			file_type: ".mov",
+			size: CONTENT.length,
+			component_locations: [],
+		},
+		assetVersion: {
+			id: "version-1",
+			version: 1,
+			asset: {
+				id: "asset-1",
+				name: "comp",
+				parent: { id: "shot-1", name: "SH010" },
+				type: { id: "type-1", name: "Render" },
+			},
+			components: [],
+		},
+		url: "https://example.com/clip",
+		outputPath: dir,
+		filename: "clip.mov",
+	};
+}
+
+Deno.test("MediaDownloadService - sync should skip files already on disk", async () => {
+	const fetchStub = stubFetch({ supportsRange: true });
+
+	try {
+		await withTempDir(async (dir) => {
+			await Deno.writeFile(`${dir}/clip.mov`, CONTENT);
+
+			const service = new MediaDownloadService();
+			await service.startSync(dir);
+			await service.downloadComponent(createTask(dir, "component-1"));
+
+			assertEquals(fetchStub.rangeHeaders.length, 0);
+			assertEquals(service.getSyncSummary(), {
+				added: [],
+				updated: [],
+				skipped: ["clip.mov"],
+			});
+		});
+	} finally {
+		fetchStub.restore();
+	}
+});
+
+Deno.test("MediaDownloadService - sync should re-download files whose component changed", async () => {
+	const fetchStub = stubFetch({ supportsRange: true });
+
+	try {
+		await withTempDir(async (dir) => {
+			const first = new MediaDownloadService();
+			await first.startSync(dir);
+			await first.downloadComponent(createTask(dir, "component-1"));
+			await first.writeManifest(dir);
+			assertEquals(first.getSyncSummary()?.added, ["clip.mov"]);
+
+			// Same filename and size, but a new component according to the manifest
+			const second = new MediaDownloadService();
+			await second.startSync(dir);
+			await second.downloadComponent(createTask(dir, "component-2"));
+
+			assertEquals(fetchStub.rangeHeaders, [null, null]);
+			assertEquals(second.getSyncSummary(), {
+				added: [],
+				updated: ["clip.mov"],
+				skipped: [],
+			});
+		});
+	} finally {
+		fetchStub.restore();
+	}
+});
+
+Deno.test("MediaDownloadService - should retry server errors and resume the part file", async () => {
+	const originalFetch = globalThis.fetch;
+	const rangeHeaders: (string | null)[] = [];
+	let calls = 0;
+
+	globalThis.fetch = ((_url: string, init?: RequestInit) => {
+		calls++;
+		rangeHeaders.push(new Headers(init?.headers).get("Range"));
+		if (calls === 1) {
+			return Promise.resolve(new Response("busy", { status: 503 }));
+		}
+		return Promise.resolve(new Response(CONTENT.slice(8), { status: 206 }));
+	}) as typeof fetch;
+
+	try {
+		await withTempDir(async (dir) => {
+			await Deno.writeFile(`${dir}/clip.mov.part`, CONTENT.slice(0, 8));
+
+			const service = new MediaDownloadService();
+			service.setTransferOptions({ maxRetries: 2, retryBaseDelayMs: 1 });
+			await service.downloadFile("https://example.com/clip", dir, "clip.mov", 20);
+
+			assertEquals(rangeHeaders, ["bytes=8-", "bytes=8-"]);
+			assertEquals(await Deno.readFile(`${dir}/clip.mov`), CONTENT);
+		});
+	} finally {
+		globalThis.fetch = originalFetch;
+	}
+});
+
+Deno.test("MediaDownloadService - should stop without retrying and keep the part file", async () => {
+	const originalFetch = globalThis.fetch;
+	const pauseController = new PauseController();
+	let calls = 0;
+
+	// Sends the first 8 bytes, then stops the run and waits for the abort
+	globalThis.fetch = ((_url: string, init?: RequestInit) => {
+		calls++;
+		const body = new ReadableStream<Uint8Array>({
+			start(controller) {
+				controller.enqueue(CONTENT.slice(0, 8));
+				init?.signal?.addEventListener("abort", () =>
+					controller.error(init.signal?.reason),
+				);
+			},
+			pull() {
+				pauseController.requestStop();
+				return new Promise(() => {});
+			},
+		});
+		return Promise.resolve(new Response(body, { status: 200 }));
+	}) as typeof fetch;
+
+	try {
+		await withTempDir(async (dir) => {
+			const service = new MediaDownloadService();
+			service.setTransferOptions({ maxRetries: 2, retryBaseDelayMs: 1 });
+			service.setStopSignal(pauseController.stopSignal);
+
+			await assertRejects(
+				() => service.downloadFile("https://example.com/clip", dir, "clip.mov", 20),
+				DownloadStoppedError,
+			);
+			assertEquals(calls, 1);
+			assertEquals(await Deno.readFile(`${dir}/clip.mov.part`), CONTENT.slice(0, 8));
+
+			// Nothing new starts once stopped
+			await assertRejects(
+				() => service.downloadFile("https://example.com/other", dir, "other.mov", 20),
+				DownloadStoppedError,
+			);
+			assertEquals(calls, 1);
+		});
+	} finally {
+		globalThis.fetch = originalFetch;
+	}
+});
+
+Deno.test("MediaDownloadService - should copy components from a local path", async () => {
+	const fetchStub = stubFetch({ supportsRange: true });
+
+	try {
+		await withTempDir(async (dir) => {
+			await Deno.writeFile(`${dir}/source.mov`, CONTENT);
+
+			const service = new MediaDownloadService();
+			await service.downloadComponent({
+				...createTask(`${dir}/out`, "component-1"),
+				localPath: `${dir}/source.mov`,
+			});
+
+			assertEquals(await Deno.readFile(`${dir}/out/clip.mov`), CONTENT);
+			assertEquals(fetchStub.rangeHeaders.length, 0);
+		});
+	} finally {
+		fetchStub.restore();
+	}
+});
+
+Deno.test("MediaDownloadService - should hardlink components from a local path", async () => {
+	await withTempDir(async (dir) => {
+		await Deno.writeFile(`${dir}/source.mov`, CONTENT);
+
+		const service = new MediaDownloadService();
+		service.setLocalTransferMode("hardlink");
+		await service.downloadComponent({
+			...createTask(dir, "component-1"),
+			url: null,
+			localPath: `${dir}/source.mov`,
+		});
+
+		const source = await Deno.stat(`${dir}/source.mov`);
+		const linked = await Deno.stat(`${dir}/clip.mov`);
+		assertEquals(linked.ino, source.ino);
+	});
+});
+
+Deno.test("MediaDownloadService - should fall back to HTTP when the local file is missing", async () => {
+	const fetchStub = stubFetch({ supportsRange: true });
+
+	try {
+		await withTempDir(async (dir) => {
+			const service = new MediaDownloadService();
+			await service.downloadComponent({
+				...createTask(dir, "component-1"),
+				localPath: `${dir}/missing.mov`,
+			});
+
+			assertEquals(await Deno.readFile(`${dir}/clip.mov`), CONTENT);
+			assertEquals(fetchStub.rangeHeaders, [null]);
+
+			// Without a URL there is nothing to fall back to
+			await assertRejects(
+				() =>
+					service.downloadComponent({
+						...createTask(dir, "component-2"),
+						filename: "other.mov",
+						url: null,
+						localPath: `${dir}/missing.mov`,
+					}),
+				DownloadUrlNotFoundError,
+			);
+		});
+	} finally {
+		fetchStub.restore();
+	}
+});
@@ -0,0 +1,194 @@
+import { assertEquals, assertRejects, assertThrows } from "@std/assert";
+import { MockFtrackServer } from "./mockServer/mockFtrackServer.ts";
+import { createSeedData, FIXTURE_IDS } from "./mockServer/fixtures.ts";
+import { parseQuery, QuerySyntaxError } from "./mockServer/queryLanguage.ts";
+
+const createServer = () => new MockFtrackServer(createSeedData());
+
+const names = (rows: Record<string, unknown>[]) =>
+	rows.map((row) => row.name as string);
+
+Deno.test("Query language - should parse select, where, order by and limit", () => {
+	const query = parseQuery(
+		'select id, name from Shot where name is "SH010" or (bid > 2 and not name like "X%") order by name desc limit 5 offset 1',
+	);
+
+	assertEquals(query.projection, ["id", "name"]);
+	assertEquals(query.entityType, "Shot");
+	assertEquals(query.orderBy, [{ path: "name", direction: "desc" }]);
+	assertEquals(query.limit, 5);
+	assertEquals(query.offset, 1);
+	assertEquals(query.where?.kind, "or");
+});
+
+Deno.test("Query language - should reject malformed queries", () => {
+	assertThrows(() => parseQuery("select id from"), QuerySyntaxError);
+	assertThrows(
+		() => parseQuery('select id from Shot where name is "SH010'),
+		QuerySyntaxError,
+	);
+	assertThrows(
+		() => parseQuery("select id from Shot where name resembles 1"),
+		QuerySyntaxError,
+	);
+});
+
+Deno.test("MockFtrackServer - should project nested attributes", () => {
+	const server = createServer();
+	const { data } = server.runQuery(
+		`select id, version, asset.name, asset.parent.name, task.name from AssetVersion where id is "${FIXTURE_IDS.versions.SH010_v1}"`,
+	);
+
+	assertEquals(data.length, 1);
+	assertEquals(data[0].__entity_type__, "AssetVersion");
+	assertEquals(data[0].version, 1);
+	assertEquals(
+		(data[0].asset as { parent: { name: string } }).parent.name,
+		"SH010",
+	);
+	assertEquals((data[0].task as { name: string }).name, "compositing");
+	// Attributes that were not selected are not returned
+	assertEquals("comment" in data[0], false);
+});
+
+Deno.test("MockFtrackServer - should filter with in, like, order by and limit", () => {
+	const server = createServer();
+
+	assertEquals(
+		names(
+			server.runQuery(
+				'select name from Shot where name in ("SH010", "SH030") order by name desc',
+			).data,
+		),
+		["SH030", "SH010"],
+	);
+	assertEquals(
+		names(
+			server.runQuery(
+				'select name from Shot where name like "SH0%" and name not_in ("SH020") order by name limit 1',
+			).data,
+		),
+		["SH010"],
+	);
+});
+
+Deno.test("MockFtrackServer - should scope by project and resolve sub-queries", () => {
+	const server = createServer();
+
+	assertEquals(
+		names(
+			server.runQuery(
+				`select name from Shot where project.id is "${FIXTURE_IDS.otherProject}"`,
+			).data,
+		),
+		["OT010"],
+	);
+	assertEquals(
+		server.runQuery(
+			'select id from CustomAttributeConfiguration where key is "latestVersionSentDate" and object_type_id in (select id from ObjectType where name is "Shot")',
+		).data.length,
+		1,
+	);
+});
+
+Deno.test("MockFtrackServer - should evaluate any and has on relations", () => {
+	const server = createServer();
+
+	const delivered = server.runQuery(
+		'select id from AssetVersion where custom_attributes any (key is "Delivered" and value is true)',
+	).data;
+	assertEquals(delivered.map((row) => row.id).sort(), [
+		FIXTURE_IDS.versions.SH010_v1,
+		FIXTURE_IDS.versions.SH010_v2,
+	]);
+
+	const shots = server.runQuery(
+		'select name from Shot where parent has (name is "SQ010") order by name',
+	).data;
+	assertEquals(names(shots), ["SH010", "SH020", "SH030"]);
+});
+
+Deno.test("MockFtrackServer - should apply create, update and delete operations", async () => {
+	const server = createServer();
+	const session = server.createSession();
+
+	await session.call([
+		{
+			action: "create",
+			entity_type: "ListObject",
+			entity_data: { list_id: FIXTURE_IDS.list, entity_id: "shot-020" },
+		},
+	]);
+	await session.update("Shot", [FIXTURE_IDS.shots.SH030], {
+		thumbnail_id: "thumb-1",
+	});
+	await session.delete("AssetVersion", [FIXTURE_IDS.versions.SH020_v1]);
+
+	assertEquals(
+		server.runQuery(
+			`select entity_id from ListObject where list_id is "${FIXTURE_IDS.list}"`,
+		).data.length,
+		2,
+	);
+	assertEquals(
+		server.get("Shot", FIXTURE_IDS.shots.SH030)?.thumbnail_id,
+		"thumb-1",
+	);
+	assertEquals(
+		server.get("AssetVersion", FIXTURE_IDS.versions.SH020_v1),
+		undefined,
+	);
+	assertEquals(
+		server.operations.map((operation) => operation.action),
+		["create", "update", "delete"],
+	);
+});
+
+Deno.test("MockFtrackServer - should roll back a call when one of its operations fails", async () => {
+	const server = createServer();
+	const session = server.createSession();
+	const listObjects = () =>
+		server.runQuery(
+			`select id from ListObject where list_id is "${FIXTURE_IDS.list}"`,
+		).data.length;
+
+	await assertRejects(
+		() =>
+			session.call([
+				{
+					action: "create",
+					entity_type: "ListObject",
+					entity_data: { list_id: FIXTURE_IDS.list, entity_id: "shot-020" },
+				},
+				{
+					action: "update",
+					entity_type: "Shot",
+					entity_key: [FIXTURE_IDS.shots.SH030],
+					entity_data: { thumbnail_id: "thumb-1" },
+				},
+				{
+					action: "update",
+					entity_type: "Shot",
+					entity_key: ["missing-shot"],
+					entity_data: { thumbnail_id: "thumb-1" },
+				},
+			]),
+		Error,
+		"does not exist",
+	);
+
+	assertEquals(listObjects(), 1);
+	assertEquals(server.get("Shot", FIXTURE_IDS.shots.SH030)?.thumbnail_id, undefined);
+	assertEquals(server.operations, []);
+});
+
+Deno.test("MockFtrackServer - should serve component content of the recorded size", async () => {
+	const server = createServer();
+	const url = server.getComponentUrl(`${FIXTURE_IDS.versions.SH010_v1}-main`);
+
+	const response = await fetch(url!);
+	const bytes = new Uint8Array(await response.arrayBuffer());
+
+	assertEquals(bytes.length, 2048);
+	assertEquals(server.getComponentUrl("missing"), null);
+});
@@ -0,0 +1,391 @@
+/**
+ * Seed data for the mock ftrack server
+ *
+ * Records are built from the field definitions and samples in MOCK_SCHEMA,
+ * so required fields are always present. The seeded "demo" project has:
+ * - sequence SQ010 with shots SH010, SH020 and SH030
+ * - a compositing task and a "main" asset per shot
+ * - SH010: v001 and v002 (both delivered), currently linked to v001
+ * - SH020: v001 (not delivered)
+ * - a "Client Review" list containing SH010
+ * A second project "other" holds shot OT010 to check project scoping.
+ */
+
+import { MOCK_SCHEMA } from "../../schemas/mockSchema.ts";
+
+export type SeedEntity = { type: string; data: Record<string, unknown> };
+
+const FIELD_DEFAULTS: Record<string, unknown> = {
+	string: "",
+	number: 0,
+	boolean: false,
+	date: "2024-01-01T00:00:00Z",
+};
+
+/**
+ * Builds a record for an entity type: required field defaults, then the schema sample, then overrides
+ */
+export function buildEntity(
+	type: string,
+	overrides: Record<string, unknown>,
+): SeedEntity {
+	const schema = MOCK_SCHEMA[type];
+	const defaults: Record<string, unknown> = {};
+
+	for (const [field, definition] of Object.entries(schema?.baseFields ?? {})) {
+		if (definition.required && field !== "id") {
+			defaults[field] = FIELD_DEFAULTS[definition.type] ?? null;
+		}
+	}
+
+	const { id: _sampleId, ...sample } = schema?.sample ?? {};
+	return { type, data: { ...defaults, ...sample, ...overrides } };
+}
+
+export const FIXTURE_IDS = {
+	project: "project-demo",
+	otherProject: "project-other",
+	sequence: "seq-010",
+	shots: { SH010: "shot-010", SH020: "shot-020", SH030: "shot-030" },
+	otherShot: "shot-ot010",
+	versions: {
+		SH010_v1: "version-010-1",
+		SH010_v2: "version-010-2",
+		SH020_v1: "version-020-1",
+	},
+	list: "list-client-review",
+	note: "note-1",
+	latestVersionSentLink: "link-010",
+} as const;
+
+/**
+ * Custom attribute configurations derived from MOCK_SCHEMA plus the ones the tools rely on
+ */
+function customAttributeConfigurations(): SeedEntity[] {
+	const entities: SeedEntity[] = [];
+
+	for (const [type, schema] of Object.entries(MOCK_SCHEMA)) {
+		for (const attribute of schema.customAttributes.standard) {
+			entities.push({
+				type: "CustomAttributeConfiguration",
+				data: {
+					id: `${attribute.id}_${type}`,
+					key: attribute.key,
+					label: attribute.label,
+					entity_type: type === "AssetVersion" ? "assetversion" : "task",
+					object_type_id: `objecttype-${type}`,
+					type_id: `attrtype-${attribute.config?.type ?? "text"}`,
+				},
+			});
+		}
+		for (const attribute of schema.customAttributes.links) {
+			entities.push({
+				type: "CustomAttributeLinkConfiguration",
+				data: {
+					id: `${attribute.id}_${type}`,
+					key: attribute.key,
+					label: attribute.label,
+					entity_type: "task",
+				},
+			});
+		}
+	}
+
+	entities.push(
+		{
+			type: "CustomAttributeConfiguration",
+			data: {
+				id: "config-delivered",
+				key: "Delivered",
+				label: "Delivered",
+				entity_type: "assetversion",
+				type_id: "attrtype-boolean",
+			},
+		},
+		{
+			type: "CustomAttributeConfiguration",
+			data: {
+				id: "config-dateSent",
+				key: "dateSent",
+				label: "Date Sent",
+				entity_type: "assetversion",
+				type_id: "attrtype-date",
+			},
+		},
+		{
+			type: "CustomAttributeConfiguration",
+			data: {
+				id: "config-latestVersionSentDate",
+				key: "latestVersionSentDate",
+				label: "Latest Version Sent Date",
+				entity_type: "task",
+				object_type_id: "objecttype-Shot",
+				type_id: "attrtype-date",
+			},
+		},
+		{
+			type: "CustomAttributeLinkConfiguration",
+			data: {
+				id: "config-latestVersionSent",
+				key: "latestVersionSent",
+				label: "Latest Version Sent",
+				entity_type: "task",
+			},
+		},
+	);
+
+	return entities;
+}
+
+/**
+ * A version with its components, their locations and its Delivered and
+ * dateSent values
+ */
+export function versionEntities(
+	id: string,
+	shotId: string,
+	assetId: string,
+	taskId: string,
+	version: number,
+	delivered: boolean,
+	dateSent: string | null,
+): SeedEntity[] {
+	const date = `2024-0${version}-15T10:00:00Z`;
+	const components: SeedEntity[] = [
+		{ name: "main", file_type: ".mov", size: 2048 },
+		{ name: "ftrackreview-mp4-1080", file_type: ".mp4", size: 1024 },
+		{ name: "thumbnail", file_type: ".jpg", size: 256 },
+	].map((component) =>
+		buildEntity("Component", {
+			id: `${id}-${component.name}`,
+			version_id: id,
+			...component,
+		}),
+	);
+
+	const locations = components.map((component) => ({
+		type: "ComponentLocation",
+		data: {
+			id: `${component.data.id}-location`,
+			component_id: component.data.id,
+			location_id: "location-server",
+			resource_identifier: `${component.data.id}${component.data.file_type}`,
+		},
+	}));
+
+	const attributeValues: SeedEntity[] = [
+		{
+			type: "CustomAttributeValue",
+			data: {
+				configuration_id: "config-delivered",
+				entity_id: id,
+				value: delivered,
+			},
+		},
+	];
+	if (dateSent) {
+		attributeValues.push({
+			type: "CustomAttributeValue",
+			data: {
+				configuration_id: "config-dateSent",
+				entity_id: id,
+				value: dateSent,
+			},
+		});
+	}
+
+	return [
+		buildEntity("AssetVersion", {
+			id,
+			asset_id: assetId,
+			task_id: taskId,
+			project_id: FIXTURE_IDS.project,
+			version,
+			comment: `Version ${version} of ${shotId}`,
+			status_id: "status-pending",
+			user_id: "user-artist",
+			is_published: true,
+			date,
+			thumbnail_id: `${id}-thumbnail`,
+		}),
+		...components,
+		...locations,
+		...attributeValues,
+	];
+}
+
+/**
+ * Returns a fresh copy of the default seed data
+ */
+export function createSeedData(): SeedEntity[] {
+	const { project, otherProject, sequence, shots, versions } = FIXTURE_IDS;
+	const entities: SeedEntity[] = [
+		buildEntity("Project", {
+			id: project,
+			name: "demo",
+			full_name: "Demo Project",
+			project_schema_id: "schema-vfx",
+		}),
+		buildEntity("Project", {
+			id: otherProject,
+			name: "other",
+			full_name: "Other Project",
+			project_schema_id: "schema-vfx",
+		}),
+		{
+			type: "ProjectSchema",
+			data: {
+				id: "schema-vfx",
+				name: "VFX",
+				asset_version_workflow_schema_id: "workflow-version",
+			},
+		},
+		{ type: "WorkflowSchema", data: { id: "workflow-version", name: "Version" } },
+		...["status-pending", "status-approved"].map((statusId) => ({
+			type: "WorkflowSchemaStatus",
+			data: {
+				id: `workflow-version-${statusId}`,
+				workflow_schema_id: "workflow-version",
+				status_id: statusId,
+			},
+		})),
+		...["Shot", "Sequence", "Task", "AssetVersion"].map((name) => ({
+			type: "ObjectType",
+			data: { id: `objecttype-${name}`, name },
+		})),
+		{ type: "Status", data: { id: "status-pending", name: "Pending Review" } },
+		{ type: "Status", data: { id: "status-approved", name: "Approved" } },
+		{ type: "Type", data: { id: "type-compositing", name: "Compositing" } },
+		{ type: "AssetType", data: { id: "assettype-upload", name: "Upload" } },
+		{ type: "Location", data: { id: "location-server", name: "ftrack.server" } },
+		buildEntity("User", {
+			id: "user-artist",
+			username: "artist",
+			first_name: "Ada",
+			last_name: "Artist",
+		}),
+		buildEntity("Sequence", {
+			id: sequence,
+			name: "SQ010",
+			project_id: project,
+			parent_id: project,
+		}),
+		buildEntity("Shot", {
+			id: FIXTURE_IDS.otherShot,
+			name: "OT010",
+			project_id: otherProject,
+			parent_id: otherProject,
+			status_id: "status-pending",
+		}),
+		...customAttributeConfigurations(),
+		{ type: "ListCategory", data: { id: "listcategory-review", name: "Review" } },
+		{
+			type: "List",
+			data: {
+				id: FIXTURE_IDS.list,
+				name: "Client Review",
+				project_id: project,
+				category_id: "listcategory-review",
+				is_open: true,
+			},
+		},
+		{
+			type: "ListObject",
+			data: {
+				id: "listobject-1",
+				list_id: FIXTURE_IDS.list,
+				entity_id: shots.SH010,
+			},
+		},
+	];
+
+	for (const [name, shotId] of Object.entries(shots)) {
+		const suffix = name.slice(2);
+		entities.push(
+			buildEntity("Shot", {
+				id: shotId,
+				name,
+				project_id: project,
+				parent_id: sequence,
+				status_id: "status-pending",
+			}),
+			buildEntity("Task", {
+				id: `task-${suffix}`,
+				name: "compositing",
+				project_id: project,
+				parent_id: shotId,
+				status_id: "status-pending",
+				type_id: "type-compositing",
+			}),
+			buildEntity("Asset", {
+				id: `asset-${suffix}`,
+				name: "main",
+				context_id: shotId,
+				project_id: project,
+				type_id: "assettype-upload",
+			}),
+		);
+	}
+
+	entities.push(
+		...versionEntities(
+			versions.SH010_v1,
+			shots.SH010,
+			"asset-010",
+			"task-010",
+			1,
+			true,
+			"2024-01-20T00:00:00Z",
+		),
+		...versionEntities(
+			versions.SH010_v2,
+			shots.SH010,
+			"asset-010",
+			"task-010",
+			2,
+			true,
+			"2024-02-20T00:00:00Z",
+		),
+		...versionEntities(
+			versions.SH020_v1,
+			shots.SH020,
+			"asset-020",
+			"task-020",
+			1,
+			false,
+			null,
+		),
+		{
+			type: "CustomAttributeLink",
+			data: {
+				id: FIXTURE_IDS.latestVersionSentLink,
+				configuration_id: "config-latestVersionSent",
+				from_id: shots.SH010,
+				to_id: versions.SH010_v1,
+			},
+		},
+		{
+			type: "Note",
+			data: {
+				id: FIXTURE_IDS.note,
+				content: "Please check the edges",
+				parent_id: versions.SH010_v1,
+				user_id: "user-artist",
+				date: "2024-01-21T09:00:00Z",
+			},
+		},
+		{
+			type: "Timelog",
+			data: {
+				id: "timelog-1",
+				context_id: "task-010",
+				user_id: "user-artist",
+				start: "2024-01-19T09:00:00Z",
+				duration: 7200,
+				comment: "Comp pass",
+			},
+		},
+	);
+
+	return entities;
+}
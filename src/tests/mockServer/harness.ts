@@ -0,0 +1,92 @@
+/**
+ * Harness for running tools end-to-end against the mock ftrack server
+ *
+ * Builds the same service stack the app does (SessionService,
+ * ProjectContextService, QueryService) on top of a mock session, captures
+ * console output and restores it afterwards. Tools are driven through their
+ * non-interactive options so no prompts are shown.
+ */
+
+import type { Session } from "@ftrack/api";
+import { SessionService } from "../../services/session.ts";
+import { ProjectContextService } from "../../services/projectContext.ts";
+import { QueryService } from "../../services/queries.ts";
+import { resolveProjectContext } from "../../cli/context.ts";
+import { MockFtrackServer } from "./mockFtrackServer.ts";
+import { createSeedData, type SeedEntity } from "./fixtures.ts";
+
+export interface MockToolContext {
+	server: MockFtrackServer;
+	session: Session;
+	sessionService: SessionService;
+	projectContextService: ProjectContextService;
+	queryService: QueryService;
+}
+
+export interface MockRunOptions {
+	/** Project name to scope to (global when omitted) */
+	project?: string;
+	/** Seed data, defaults to createSeedData() */
+	seed?: SeedEntity[];
+	/** Reuse an existing server instead of seeding a new one */
+	server?: MockFtrackServer;
+}
+
+export interface MockRunResult<T> {
+	result: T;
+	server: MockFtrackServer;
+	output: string[];
+	errors: string[];
+}
+
+/**
+ * Creates a mock server and the service stack for it
+ */
+export async function createMockContext(
+	options: MockRunOptions = {},
+): Promise<MockToolContext> {
+	const server =
+		options.server ?? new MockFtrackServer(options.seed ?? createSeedData());
+	const session = server.createSession();
+	const sessionService = new SessionService(session);
+	const projectContextService = new ProjectContextService(
+		await resolveProjectContext(session, options.project),
+	);
+	const queryService = new QueryService(sessionService, projectContextService);
+
+	return {
+		server,
+		session,
+		sessionService,
+		projectContextService,
+		queryService,
+	};
+}
+
+/**
+ * Runs a tool against a freshly seeded mock server, capturing its console output
+ */
+export async function runWithMockServer<T>(
+	tool: (context: MockToolContext) => Promise<T>,
+	options: MockRunOptions = {},
+): Promise<MockRunResult<T>> {
+	const context = await createMockContext(options);
+	const output: string[] = [];
+	const errors: string[] = [];
+	const originalLog = console.log;
+	const originalError = console.error;
+	const originalWarn = console.warn;
+
+	console.log = (...args: unknown[]) => output.push(args.join(" "));
+	console.error = (...args: unknown[]) => errors.push(args.join(" "));
+	console.warn = (...args: unknown[]) => errors.push(args.join(" "));
+
+	try {
+		const result = await tool(context);
+		return { result, server: context.server, output, errors };
+	} finally {
+		console.log = originalLog;
+		console.error = originalError;
+		console.warn = originalWarn;
+	}
+}
@@ -0,0 +1,557 @@
+/**
+ * In-process stand-in for the ftrack API used by end-to-end tests
+ *
+ * Entities live in per-type tables keyed by their primary key. Relations are
+ * resolved on demand, either from an explicit relation below or by the
+ * `<attribute>_id` naming convention, so queries such as
+ * `select asset.parent.name from AssetVersion where task.parent_id is "..."`
+ * behave like they do against a real server.
+ */
+
+import type { Session } from "@ftrack/api";
+import {
+	evaluate,
+	compareValues,
+	parseQuery,
+	resolvePath,
+	type ParsedQuery,
+	type RecordResolver,
+} from "./queryLanguage.ts";
+
+export type EntityRecord = Record<string, unknown> & {
+	__entity_type__: string;
+};
+
+export interface MockOperation {
+	action: "create" | "update" | "delete";
+	entityType: string;
+	key: string[];
+	data?: Record<string, unknown>;
+}
+
+interface Relation {
+	foreignKey: string;
+	/** Target entity type for collections (scalar relations are looked up by id) */
+	type?: string;
+	collection?: boolean;
+	/** Link table of a many-to-many collection, and its key to the target */
+	through?: { type: string; targetKey: string };
+}
+
+const CONTEXT_TYPES = [
+	"Shot",
+	"Sequence",
+	"Episode",
+	"Task",
+	"AssetBuild",
+	"Folder",
+	"Milestone",
+];
+
+/** Abstract types that query across several concrete tables */
+const SUPERTYPES: Record<string, string[]> = {
+	TypedContext: CONTEXT_TYPES,
+	Context: [...CONTEXT_TYPES, "Project"],
+	Component: ["Component", "SequenceComponent"],
+};
+
+/** Types stored in the same table under another name */
+const TABLE_ALIASES: Record<string, string> = {
+	ContextCustomAttributeValue: "CustomAttributeValue",
+};
+
+const PRIMARY_KEYS: Record<string, string[]> = {
+	CustomAttributeValue: ["configuration_id", "entity_id"],
+};
+
+const CONTEXT_RELATIONS: Record<string, Relation> = {
+	children: { type: "TypedContext", foreignKey: "parent_id", collection: true },
+	assets: { type: "Asset", foreignKey: "context_id", collection: true },
+	notes: { type: "Note", foreignKey: "parent_id", collection: true },
+};
+
+const RELATIONS: Record<string, Record<string, Relation>> = {
+	Project: { children: CONTEXT_RELATIONS.children },
+	Asset: {
+		parent: { foreignKey: "context_id" },
+		versions: { type: "AssetVersion", foreignKey: "asset_id", collection: true },
+	},
+	AssetVersion: {
+		components: { type: "Component", foreignKey: "version_id", collection: true },
+		notes: { type: "Note", foreignKey: "parent_id", collection: true },
+		thumbnail: { foreignKey: "thumbnail_id" },
+	},
+	Component: {
+		version: { foreignKey: "version_id" },
+		component_locations: {
+			type: "ComponentLocation",
+			foreignKey: "component_id",
+			collection: true,
+		},
+	},
+	SequenceComponent: {
+		version: { foreignKey: "version_id" },
+		component_locations: {
+			type: "ComponentLocation",
+			foreignKey: "component_id",
+			collection: true,
+		},
+		members: { type: "Component", foreignKey: "container_id", collection: true },
+	},
+	List: {
+		items: { type: "ListObject", foreignKey: "list_id", collection: true },
+	},
+	ListObject: { entity: { foreignKey: "entity_id" } },
+	Note: {
+		author: { foreignKey: "user_id" },
+		components: { type: "Component", foreignKey: "note_id", collection: true },
+	},
+	ProjectSchema: {
+		_version_workflow: { foreignKey: "asset_version_workflow_schema_id" },
+	},
+	WorkflowSchema: {
+		statuses: {
+			foreignKey: "workflow_schema_id",
+			collection: true,
+			through: { type: "WorkflowSchemaStatus", targetKey: "status_id" },
+		},
+	},
+	CustomAttributeLink: {
+		from: { foreignKey: "from_id" },
+		to: { foreignKey: "to_id" },
+	},
+	Timelog: { context: { foreignKey: "context_id" } },
+	...Object.fromEntries(CONTEXT_TYPES.map((type) => [type, CONTEXT_RELATIONS])),
+};
+
+/**
+ * Mock ftrack server holding seeded entities
+ */
+export class MockFtrackServer implements RecordResolver {
+	readonly operations: MockOperation[] = [];
+	readonly queries: string[] = [];
+	private tables = new Map<string, Map<string, EntityRecord>>();
+	private idCounter = 0;
+
+	constructor(seed: Array<{ type: string; data: Record<string, unknown> }> = []) {
+		for (const { type, data } of seed) {
+			this.insert(type, data);
+		}
+	}
+
+	/**
+	 * Adds an entity without recording an operation (for seeding)
+	 */
+	insert(entityType: string, data: Record<string, unknown>): EntityRecord {
+		const table = this.tableName(entityType);
+		const record = { ...data, __entity_type__: entityType } as EntityRecord;
+		if (!this.primaryKey(table).some((field) => field !== "id") && !record.id) {
+			record.id = this.generateId();
+		}
+		this.table(table).set(this.keyOf(table, record), record);
+		return record;
+	}
+
+	/**
+	 * Returns stored entities of a type (including subtypes for abstract types)
+	 */
+	all(entityType: string): EntityRecord[] {
+		return this.tableNames(entityType).flatMap((name) => [
+			...(this.tables.get(name)?.values() ?? []),
+		]);
+	}
+
+	/**
+	 * Finds an entity of any type by id
+	 */
+	findById(id: unknown): EntityRecord | undefined {
+		if (typeof id !== "string") return undefined;
+		for (const table of this.tables.values()) {
+			const record = table.get(id);
+			if (record) return record;
+		}
+		return undefined;
+	}
+
+	get(entityType: string, key: string | string[]): EntityRecord | undefined {
+		const table = this.tableName(entityType);
+		return this.tables.get(table)?.get(([] as string[]).concat(key).join(","));
+	}
+
+	// RecordResolver implementation
+
+	resolve(record: Record<string, unknown>, attribute: string): unknown[] {
+		return this.lookup(record, attribute).values;
+	}
+
+	query(query: ParsedQuery): Record<string, unknown>[] {
+		return this.select(query);
+	}
+
+	// ftrack API surface
+
+	runQuery(expression: string): {
+		action: "query";
+		data: Record<string, unknown>[];
+		metadata: { next: { offset: number | null } };
+	} {
+		this.queries.push(expression);
+		const parsed = parseQuery(expression);
+		const rows = this.select(parsed).map((record) =>
+			this.project(record, parsed.projection),
+		);
+		return {
+			action: "query",
+			data: structuredClone(rows),
+			metadata: { next: { offset: null } },
+		};
+	}
+
+	create(
+		entityType: string,
+		data: Record<string, unknown>,
+	): { action: "create"; data: Record<string, unknown> } {
+		const record = this.insert(entityType, data);
+		const table = this.tableName(entityType);
+		this.operations.push({
+			action: "create",
+			entityType,
+			key: this.keyOf(table, record).split(","),
+			data: { ...data },
+		});
+		return { action: "create", data: structuredClone(record) };
+	}
+
+	update(
+		entityType: string,
+		key: string | string[],
+		data: Record<string, unknown>,
+	): { action: "update"; data: Record<string, unknown> } {
+		const keys = ([] as string[]).concat(key);
+		const table = this.tableName(entityType);
+		let record = this.get(entityType, keys);
+
+		if (!record) {
+			// ftrack upserts custom attribute values, everything else must exist
+			const primaryKey = this.primaryKey(table);
+			if (!primaryKey.some((field) => field !== "id")) {
+				throw new Error(
+					`${entityType} with key ${keys.join(",")} does not exist`,
+				);
+			}
+			record = this.insert(
+				entityType,
+				Object.fromEntries(primaryKey.map((field, i) => [field, keys[i]])),
+			);
+		}
+
+		Object.assign(record, data);
+		this.operations.push({ action: "update", entityType, key: keys, data });
+		return { action: "update", data: structuredClone(record) };
+	}
+
+	delete(
+		entityType: string,
+		key: string | string[],
+	): { action: "delete"; data: boolean } {
+		const keys = ([] as string[]).concat(key);
+		const table = this.tableName(entityType);
+		if (!this.tables.get(table)?.delete(keys.join(","))) {
+			throw new Error(`${entityType} with key ${keys.join(",")} does not exist`);
+		}
+		this.operations.push({ action: "delete", entityType, key: keys });
+		return { action: "delete", data: true };
+	}
+
+	/**
+	 * Runs operations in one transaction: like ftrack, a failing operation
+	 * rolls back the ones before it
+	 */
+	call(
+		operations: Array<{
+			action: string;
+			entity_type?: string;
+			entity_key?: string | string[];
+			entity_data?: Record<string, unknown>;
+			expression?: string;
+		}>,
+	): unknown[] {
+		const snapshot = {
+			tables: structuredClone(this.tables),
+			operations: this.operations.length,
+			idCounter: this.idCounter,
+		};
+		try {
+			return operations.map((operation) => this.apply(operation));
+		} catch (error) {
+			this.tables = snapshot.tables;
+			this.operations.length = snapshot.operations;
+			this.idCounter = snapshot.idCounter;
+			throw error;
+		}
+	}
+
+	// Applies one operation of a call
+	private apply(
+		operation: Parameters<MockFtrackServer["call"]>[0][number],
+	): unknown {
+		switch (operation.action) {
+			case "query":
+				return this.runQuery(operation.expression ?? "");
+			case "create":
+				return this.create(
+					operation.entity_type ?? "",
+					operation.entity_data ?? {},
+				);
+			case "update":
+				return this.update(
+					operation.entity_type ?? "",
+					operation.entity_key ?? [],
+					operation.entity_data ?? {},
+				);
+			case "delete":
+				return this.delete(operation.entity_type ?? "", operation.entity_key ?? []);
+			default:
+				throw new Error(`Unsupported operation: ${operation.action}`);
+		}
+	}
+
+	/**
+	 * Returns a data: URL serving the component's content, or null if unknown
+	 */
+	getComponentUrl(componentId: string): string | null {
+		const component = this.get("Component", componentId);
+		if (!component) return null;
+		return `data:application/octet-stream;base64,${btoa(
+			mockComponentContent(component),
+		)}`;
+	}
+
+	/**
+	 * Returns an object shaped like an `@ftrack/api` Session backed by this server
+	 * @param apiUser - Username the session is logged in as
+	 */
+	createSession(apiUser = "mock.user"): Session {
+		const wrap =
+			<T>(fn: () => T) =>
+			(): Promise<T> => {
+				try {
+					return Promise.resolve(fn());
+				} catch (error) {
+					return Promise.reject(error);
+				}
+			};
+
+		return {
+			initializing: Promise.resolve(),
+			serverUrl: "https://mock.ftrackapp.com",
+			apiUser,
+			query: (expression: string) => wrap(() => this.runQuery(expression))(),
+			create: (entityType: string, data: Record<string, unknown>) =>
+				wrap(() =>
+					this.create(entityType, this.withAuthor(entityType, data, apiUser)),
+				)(),
+			update: (
+				entityType: string,
+				key: string | string[],
+				data: Record<string, unknown>,
+			) => wrap(() => this.update(entityType, key, data))(),
+			delete: (entityType: string, key: string | string[]) =>
+				wrap(() => this.delete(entityType, key))(),
+			call: (operations: Parameters<MockFtrackServer["call"]>[0]) =>
+				wrap(() => this.call(operations))(),
+			getComponentUrl: (componentId: string) =>
+				wrap(() => this.getComponentUrl(componentId))(),
+		} as unknown as Session;
+	}
+
+	// Like ftrack, a note created without an author is the session user's
+	private withAuthor(
+		entityType: string,
+		data: Record<string, unknown>,
+		apiUser: string,
+	): Record<string, unknown> {
+		if (entityType !== "Note" || data.user_id) return data;
+		const user = this.all("User").find((record) => record.username === apiUser);
+		return { ...data, user_id: user?.id ?? null };
+	}
+
+	private select(query: ParsedQuery): EntityRecord[] {
+		let records = this.all(query.entityType);
+
+		if (query.where) {
+			const where = query.where;
+			records = records.filter((record) => evaluate(where, record, this));
+		}
+
+		if (query.orderBy.length > 0) {
+			records = [...records].sort((a, b) => {
+				for (const { path, direction } of query.orderBy) {
+					const result = compareValues(
+						resolvePath(a, path, this)[0],
+						resolvePath(b, path, this)[0],
+					);
+					if (result !== 0) return direction === "desc" ? -result : result;
+				}
+				return 0;
+			});
+		}
+
+		const offset = query.offset ?? 0;
+		const end = query.limit !== undefined ? offset + query.limit : undefined;
+		return records.slice(offset, end);
+	}
+
+	private lookup(
+		record: Record<string, unknown>,
+		attribute: string,
+	): { values: unknown[]; collection: boolean } {
+		const entityType = record.__entity_type__ as string | undefined;
+		const relation = entityType
+			? RELATIONS[entityType]?.[attribute]
+			: undefined;
+
+		if (attribute === "custom_attributes" && entityType && record.id) {
+			return { values: this.customAttributesOf(record.id), collection: true };
+		}
+
+		if (relation?.collection && relation.through) {
+			const { type, targetKey } = relation.through;
+			const values = this.all(type)
+				.filter((link) => link[relation.foreignKey] === record.id)
+				.map((link) => this.findById(link[targetKey]))
+				.filter((related) => related !== undefined);
+			return { values, collection: true };
+		}
+
+		if (relation?.collection && relation.type) {
+			const values = this.all(relation.type).filter(
+				(candidate) => candidate[relation.foreignKey] === record.id,
+			);
+			return { values, collection: true };
+		}
+
+		if (relation) {
+			const related = this.findById(record[relation.foreignKey]);
+			return { values: related ? [related] : [], collection: false };
+		}
+
+		if (attribute in record && record[attribute] !== undefined) {
+			const value = record[attribute];
+			return Array.isArray(value)
+				? { values: value, collection: true }
+				: { values: [value], collection: false };
+		}
+
+		if (entityType && `${attribute}_id` in record) {
+			const related = this.findById(record[`${attribute}_id`]);
+			return { values: related ? [related] : [], collection: false };
+		}
+
+		return { values: [], collection: false };
+	}
+
+	/**
+	 * Custom attribute values for an entity, shaped like ftrack's `custom_attributes`
+	 */
+	private customAttributesOf(entityId: unknown): Record<string, unknown>[] {
+		return this.all("CustomAttributeValue")
+			.filter((value) => value.entity_id === entityId)
+			.map((value) => ({
+				key: this.findById(value.configuration_id)?.key,
+				value: value.value,
+				configuration_id: value.configuration_id,
+				entity_id: value.entity_id,
+			}));
+	}
+
+	/**
+	 * Builds the nested result object for the selected attributes
+	 */
+	private project(
+		record: Record<string, unknown>,
+		paths: string[],
+	): Record<string, unknown> {
+		const result: Record<string, unknown> = {};
+		if (record.__entity_type__) {
+			result.__entity_type__ = record.__entity_type__;
+			for (const field of this.primaryKey(
+				this.tableName(record.__entity_type__ as string),
+			)) {
+				result[field] = record[field];
+			}
+		}
+
+		const grouped = new Map<string, string[]>();
+		for (const path of paths) {
+			const [head, ...rest] = path.split(".");
+			const children = grouped.get(head) ?? [];
+			if (rest.length > 0) children.push(rest.join("."));
+			grouped.set(head, children);
+		}
+
+		for (const [attribute, children] of grouped) {
+			const { values, collection } = this.lookup(record, attribute);
+			const shape = (value: unknown) => {
+				if (!value || typeof value !== "object" || Array.isArray(value)) {
+					return value;
+				}
+				const nested = value as Record<string, unknown>;
+				// Embedded objects (e.g. custom attribute entries) are returned whole
+				return nested.__entity_type__ || children.length > 0
+					? this.project(nested, children)
+					: nested;
+			};
+
+			if (collection) {
+				result[attribute] = values.map(shape);
+			} else {
+				result[attribute] = values.length > 0 ? shape(values[0]) : null;
+			}
+		}
+
+		return result;
+	}
+
+	private tableName(entityType: string): string {
+		return TABLE_ALIASES[entityType] ?? entityType;
+	}
+
+	private tableNames(entityType: string): string[] {
+		return SUPERTYPES[entityType] ?? [this.tableName(entityType)];
+	}
+
+	private table(name: string): Map<string, EntityRecord> {
+		let table = this.tables.get(name);
+		if (!table) {
+			table = new Map();
+			this.tables.set(name, table);
+		}
+		return table;
+	}
+
+	private primaryKey(table: string): string[] {
+		return PRIMARY_KEYS[table] ?? ["id"];
+	}
+
+	private keyOf(table: string, record: Record<string, unknown>): string {
+		return this.primaryKey(table)
+			.map((field) => String(record[field]))
+			.join(",");
+	}
+
+	private generateId(): string {
+		this.idCounter++;
+		return `mock-${this.idCounter.toString().padStart(8, "0")}`;
+	}
+}
+
+/**
+ * Deterministic file content for a component, `size` bytes long
+ */
+export function mockComponentContent(component: Record<string, unknown>): string {
+	if (typeof component.content === "string") return component.content;
+	const size = typeof component.size === "number" ? component.size : 0;
+	const seed = String(component.id ?? "component");
+	return seed.repeat(Math.ceil(size / seed.length) || 0).slice(0, size);
+}
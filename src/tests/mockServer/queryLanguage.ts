@@ -0,0 +1,529 @@
+/**
+ * Parser and evaluator for the subset of the ftrack query language used by the tools
+ *
+ * Supported:
+ * - select <attributes> from <EntityType>
+ * - where with and / or / not and parentheses
+ * - comparisons: is, is_not, =, !=, <, >, <=, >=, before, after, like, not_like
+ * - in / not_in with a value list or a nested `select ... from ... where ...`
+ * - has (scalar relation) and any (collection) sub-expressions
+ * - order by <attribute> [asc|ascending|desc|descending], ... / limit / offset
+ */
+
+export type QueryValue = string | number | boolean | null;
+
+export type Expression =
+	| { kind: "and" | "or"; left: Expression; right: Expression }
+	| { kind: "not"; expression: Expression }
+	| { kind: "compare"; path: string; operator: string; value: QueryValue }
+	| { kind: "in"; path: string; negate: boolean; values: QueryValue[] }
+	| { kind: "subquery"; path: string; negate: boolean; query: ParsedQuery }
+	| {
+			kind: "relation";
+			path: string;
+			operator: "has" | "any";
+			expression: Expression;
+	  };
+
+export interface ParsedQuery {
+	projection: string[];
+	entityType: string;
+	where?: Expression;
+	orderBy: Array<{ path: string; direction: "asc" | "desc" }>;
+	limit?: number;
+	offset?: number;
+}
+
+export class QuerySyntaxError extends Error {
+	constructor(message: string, expression: string) {
+		super(`${message} in query: ${expression.trim()}`);
+		this.name = "QuerySyntaxError";
+	}
+}
+
+type Token =
+	| { type: "word"; value: string }
+	| { type: "string"; value: string }
+	| { type: "number"; value: number }
+	| { type: "symbol"; value: string };
+
+const COMPARISON_SYMBOLS = ["!=", ">=", "<=", "=", ">", "<"];
+const COMPARISON_WORDS = ["is", "is_not", "before", "after", "like", "not_like"];
+
+function tokenize(expression: string): Token[] {
+	const tokens: Token[] = [];
+	let index = 0;
+
+	while (index < expression.length) {
+		const char = expression[index];
+
+		if (/\s/.test(char)) {
+			index++;
+			continue;
+		}
+
+		if (char === '"' || char === "'") {
+			let end = index + 1;
+			let value = "";
+			while (end < expression.length && expression[end] !== char) {
+				if (expression[end] === "\\" && end + 1 < expression.length) {
+					end++;
+				}
+				value += expression[end];
+				end++;
+			}
+			if (end >= expression.length) {
+				throw new QuerySyntaxError("Unterminated string", expression);
+			}
+			tokens.push({ type: "string", value });
+			index = end + 1;
+			continue;
+		}
+
+		const symbol = COMPARISON_SYMBOLS.find((candidate) =>
+			expression.startsWith(candidate, index),
+		);
+		if (symbol) {
+			tokens.push({ type: "symbol", value: symbol });
+			index += symbol.length;
+			continue;
+		}
+
+		if (char === "(" || char === ")" || char === ",") {
+			tokens.push({ type: "symbol", value: char });
+			index++;
+			continue;
+		}
+
+		const numberMatch = /^-?\d+(\.\d+)?(?![\w.])/.exec(expression.slice(index));
+		if (numberMatch) {
+			tokens.push({ type: "number", value: Number(numberMatch[0]) });
+			index += numberMatch[0].length;
+			continue;
+		}
+
+		const wordMatch = /^[A-Za-z_][\w.]*/.exec(expression.slice(index));
+		if (wordMatch) {
+			tokens.push({ type: "word", value: wordMatch[0] });
+			index += wordMatch[0].length;
+			continue;
+		}
+
+		throw new QuerySyntaxError(`Unexpected character "${char}"`, expression);
+	}
+
+	return tokens;
+}
+
+class Parser {
+	private position = 0;
+
+	constructor(
+		private tokens: Token[],
+		private source: string,
+	) {}
+
+	parseQuery(): ParsedQuery {
+		this.expectKeyword("select");
+		const projection = this.parseAttributeList();
+		this.expectKeyword("from");
+		const entityType = this.expectWord();
+
+		const query: ParsedQuery = { projection, entityType, orderBy: [] };
+
+		if (this.acceptKeyword("where")) {
+			query.where = this.parseOr();
+		}
+
+		while (this.peek() && !this.isSymbol(")")) {
+			if (this.acceptKeyword("order")) {
+				this.expectKeyword("by");
+				do {
+					const path = this.expectWord();
+					let direction: "asc" | "desc" = "asc";
+					if (this.acceptKeyword("desc") || this.acceptKeyword("descending")) {
+						direction = "desc";
+					} else if (!this.acceptKeyword("asc")) {
+						this.acceptKeyword("ascending");
+					}
+					query.orderBy.push({ path, direction });
+				} while (this.acceptSymbol(","));
+			} else if (this.acceptKeyword("limit")) {
+				query.limit = this.expectNumber();
+			} else if (this.acceptKeyword("offset")) {
+				query.offset = this.expectNumber();
+			} else {
+				this.fail(`Unexpected token "${this.describe(this.peek())}"`);
+			}
+		}
+
+		return query;
+	}
+
+	done(): boolean {
+		return this.position >= this.tokens.length;
+	}
+
+	private parseAttributeList(): string[] {
+		const attributes = [this.expectWord()];
+		while (this.acceptSymbol(",")) {
+			attributes.push(this.expectWord());
+		}
+		return attributes;
+	}
+
+	private parseOr(): Expression {
+		let left = this.parseAnd();
+		while (this.acceptKeyword("or")) {
+			left = { kind: "or", left, right: this.parseAnd() };
+		}
+		return left;
+	}
+
+	private parseAnd(): Expression {
+		let left = this.parseUnary();
+		while (this.acceptKeyword("and")) {
+			left = { kind: "and", left, right: this.parseUnary() };
+		}
+		return left;
+	}
+
+	private parseUnary(): Expression {
+		if (this.acceptKeyword("not")) {
+			return { kind: "not", expression: this.parseUnary() };
+		}
+		if (this.acceptSymbol("(")) {
+			const expression = this.parseOr();
+			this.expectSymbol(")");
+			return expression;
+		}
+		return this.parseCondition();
+	}
+
+	private parseCondition(): Expression {
+		const path = this.expectWord();
+		const token = this.next();
+
+		if (token?.type === "symbol" && COMPARISON_SYMBOLS.includes(token.value)) {
+			return {
+				kind: "compare",
+				path,
+				operator: token.value,
+				value: this.parseValue(),
+			};
+		}
+
+		const keyword = token?.type === "word" ? token.value.toLowerCase() : "";
+
+		if (COMPARISON_WORDS.includes(keyword)) {
+			return { kind: "compare", path, operator: keyword, value: this.parseValue() };
+		}
+
+		if (keyword === "in" || keyword === "not_in") {
+			const negate = keyword === "not_in";
+			this.expectSymbol("(");
+			if (this.isKeyword("select")) {
+				const query = this.parseQuery();
+				this.expectSymbol(")");
+				return { kind: "subquery", path, negate, query };
+			}
+			const values: QueryValue[] = [];
+			if (!this.isSymbol(")")) {
+				do {
+					values.push(this.parseValue());
+				} while (this.acceptSymbol(","));
+			}
+			this.expectSymbol(")");
+			return { kind: "in", path, negate, values };
+		}
+
+		if (keyword === "has" || keyword === "any") {
+			this.expectSymbol("(");
+			const expression = this.parseOr();
+			this.expectSymbol(")");
+			return { kind: "relation", path, operator: keyword, expression };
+		}
+
+		return this.fail(`Unknown operator "${this.describe(token)}"`);
+	}
+
+	private parseValue(): QueryValue {
+		const token = this.next();
+		if (!token) return this.fail("Expected a value");
+		if (token.type === "string" || token.type === "number") return token.value;
+		if (token.type === "word") {
+			const lower = token.value.toLowerCase();
+			if (lower === "true") return true;
+			if (lower === "false") return false;
+			if (lower === "null" || lower === "none") return null;
+		}
+		return this.fail(`Invalid value "${this.describe(token)}"`);
+	}
+
+	private peek(): Token | undefined {
+		return this.tokens[this.position];
+	}
+
+	private next(): Token | undefined {
+		return this.tokens[this.position++];
+	}
+
+	private isKeyword(keyword: string): boolean {
+		const token = this.peek();
+		return token?.type === "word" && token.value.toLowerCase() === keyword;
+	}
+
+	private isSymbol(symbol: string): boolean {
+		const token = this.peek();
+		return token?.type === "symbol" && token.value === symbol;
+	}
+
+	private acceptKeyword(keyword: string): boolean {
+		if (this.isKeyword(keyword)) {
+			this.position++;
+			return true;
+		}
+		return false;
+	}
+
+	private acceptSymbol(symbol: string): boolean {
+		if (this.isSymbol(symbol)) {
+			this.position++;
+			return true;
+		}
+		return false;
+	}
+
+	private expectKeyword(keyword: string): void {
+		if (!this.acceptKeyword(keyword)) this.fail(`Expected "${keyword}"`);
+	}
+
+	private expectSymbol(symbol: string): void {
+		if (!this.acceptSymbol(symbol)) this.fail(`Expected "${symbol}"`);
+	}
+
+	private expectWord(): string {
+		const token = this.next();
+		if (token?.type !== "word") {
+			return this.fail(`Expected an attribute name, got "${this.describe(token)}"`);
+		}
+		return token.value;
+	}
+
+	private expectNumber(): number {
+		const token = this.next();
+		if (token?.type !== "number") return this.fail("Expected a number");
+		return token.value;
+	}
+
+	private describe(token: Token | undefined): string {
+		return token ? String(token.value) : "end of query";
+	}
+
+	private fail(message: string): never {
+		throw new QuerySyntaxError(message, this.source);
+	}
+}
+
+/**
+ * Parses a query expression into its structured form
+ */
+export function parseQuery(expression: string): ParsedQuery {
+	const parser = new Parser(tokenize(expression), expression);
+	const query = parser.parseQuery();
+	if (!parser.done()) {
+		throw new QuerySyntaxError("Unexpected trailing input", expression);
+	}
+	return query;
+}
+
+/**
+ * Resolves attribute paths on records, following relations between entities
+ */
+export interface RecordResolver {
+	/** Returns the values reachable from `record` through `attribute` */
+	resolve(record: Record<string, unknown>, attribute: string): unknown[];
+	/** Runs a nested query and returns its rows */
+	query(query: ParsedQuery): Record<string, unknown>[];
+}
+
+/**
+ * Collects every value reachable through a dotted path (collections fan out)
+ */
+export function resolvePath(
+	record: Record<string, unknown>,
+	path: string,
+	resolver: RecordResolver,
+): unknown[] {
+	let current: unknown[] = [record];
+	for (const attribute of path.split(".")) {
+		current = current.flatMap((value) =>
+			value && typeof value === "object"
+				? resolver.resolve(value as Record<string, unknown>, attribute)
+				: [],
+		);
+	}
+	return current;
+}
+
+function asComparable(value: unknown): number | string | boolean | null {
+	if (value === undefined || value === null) return null;
+	if (typeof value === "number" || typeof value === "boolean") return value;
+	if (value instanceof Date) return value.getTime();
+	return String(value);
+}
+
+/**
+ * Compares two values the way ftrack would: numbers numerically, ISO dates by time
+ */
+export function compareValues(left: unknown, right: unknown): number {
+	const a = asComparable(left);
+	const b = asComparable(right);
+	if (a === b) return 0;
+	if (a === null) return -1;
+	if (b === null) return 1;
+
+	const numberA = typeof a === "number" ? a : Number(a);
+	const numberB = typeof b === "number" ? b : Number(b);
+	if (
+		typeof a !== "boolean" &&
+		typeof b !== "boolean" &&
+		a !== "" &&
+		b !== "" &&
+		!Number.isNaN(numberA) &&
+		!Number.isNaN(numberB)
+	) {
+		return numberA - numberB;
+	}
+
+	if (typeof a === "string" && typeof b === "string") {
+		const dateA = Date.parse(a);
+		const dateB = Date.parse(b);
+		if (!Number.isNaN(dateA) && !Number.isNaN(dateB)) {
+			return dateA - dateB;
+		}
+	}
+
+	return String(a).localeCompare(String(b));
+}
+
+function isEqual(left: unknown, right: QueryValue): boolean {
+	if (right === null) return left === null || left === undefined;
+	if (typeof right === "boolean") return left === right;
+	if (left === null || left === undefined) return false;
+	if (typeof left === "string" && typeof right === "string") {
+		return left === right;
+	}
+	return compareValues(left, right) === 0;
+}
+
+function matchesLike(value: unknown, pattern: string): boolean {
+	if (value === null || value === undefined) return false;
+	const regex = pattern
+		.split("%")
+		.map((part) => part.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"))
+		.join(".*");
+	return new RegExp(`^${regex}$`, "is").test(String(value));
+}
+
+function compare(value: unknown, operator: string, expected: QueryValue): boolean {
+	switch (operator) {
+		case "is":
+		case "=":
+			return isEqual(value, expected);
+		case "is_not":
+		case "!=":
+			return !isEqual(value, expected);
+		case "like":
+			return matchesLike(value, String(expected));
+		case "not_like":
+			return !matchesLike(value, String(expected));
+	}
+
+	if (value === null || value === undefined || expected === null) return false;
+	const result = compareValues(value, expected);
+	switch (operator) {
+		case "<":
+		case "before":
+			return result < 0;
+		case ">":
+		case "after":
+			return result > 0;
+		case "<=":
+			return result <= 0;
+		case ">=":
+			return result >= 0;
+		default:
+			return false;
+	}
+}
+
+/**
+ * Evaluates a where expression against a record
+ */
+export function evaluate(
+	expression: Expression,
+	record: Record<string, unknown>,
+	resolver: RecordResolver,
+): boolean {
+	switch (expression.kind) {
+		case "and":
+			return (
+				evaluate(expression.left, record, resolver) &&
+				evaluate(expression.right, record, resolver)
+			);
+		case "or":
+			return (
+				evaluate(expression.left, record, resolver) ||
+				evaluate(expression.right, record, resolver)
+			);
+		case "not":
+			return !evaluate(expression.expression, record, resolver);
+		case "compare": {
+			const values = resolvePath(record, expression.path, resolver);
+			const negative =
+				expression.operator === "is_not" ||
+				expression.operator === "!=" ||
+				expression.operator === "not_like";
+			if (values.length === 0) {
+				return compare(undefined, expression.operator, expression.value);
+			}
+			return negative
+				? values.every((value) =>
+						compare(value, expression.operator, expression.value),
+					)
+				: values.some((value) =>
+						compare(value, expression.operator, expression.value),
+					);
+		}
+		case "in": {
+			const values = resolvePath(record, expression.path, resolver);
+			const found = values.some((value) =>
+				expression.values.some((candidate) => isEqual(value, candidate)),
+			);
+			return expression.negate ? !found : found;
+		}
+		case "subquery": {
+			const attribute = expression.query.projection[0];
+			const candidates = resolver
+				.query(expression.query)
+				.flatMap((row) => resolvePath(row, attribute, resolver));
+			const values = resolvePath(record, expression.path, resolver);
+			const found = values.some((value) =>
+				candidates.some((candidate) =>
+					isEqual(value, candidate as QueryValue),
+				),
+			);
+			return expression.negate ? !found : found;
+		}
+		case "relation": {
+			const related = resolvePath(record, expression.path, resolver).filter(
+				(value): value is Record<string, unknown> =>
+					value !== null && typeof value === "object",
+			);
+			return related.some((value) =>
+				evaluate(expression.expression, value, resolver),
+			);
+		}
+	}
+}
@@ -0,0 +1,112 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import {
+	DEFAULT_NAMING_TEMPLATE,
+	renderNamingTemplate,
+	validateNamingTemplate,
+} from "../utils/namingTemplate.ts";
+import { MediaDownloadService } from "../services/mediaDownloadService.ts";
+import type { AssetVersion, Component } from "../types/mediaDownload.ts";
+
+const mockVersion: AssetVersion = {
+	id: "version-1",
+	version: 7,
+	asset: {
+		id: "asset-1",
+		name: "comp",
+		parent: {
+			id: "shot-1",
+			name: "SH010",
+			parent: { id: "seq-1", name: "SQ010" },
+			project: { name: "demo" },
+		},
+		type: { id: "type-1", name: "Render" },
+	},
+	components: [],
+	task: { name: "compositing" },
+	status: { id: "status-1", name: "Approved" },
+	user: { id: "user-1", username: "artist" },
+	date: "2024-03-05T10:00:00Z",
+};
+
+const mockComponent: Component = {
+	id: "component-1",
+	name: "ftrackreview-mp4-1080",
+	file_type: ".mp4",
+	size: 10,
+	component_locations: [],
+};
+
+Deno.test("Naming template - default template should keep the original filenames", () => {
+	const service = new MediaDownloadService();
+
+	assertEquals(
+		service.generateSafeFilename(mockComponent, mockVersion),
+		"SH010_comp_v007_encoded_1080p.mp4",
+	);
+	assertEquals(
+		service.generateSafeFilename(
+			{ ...mockComponent, name: "main", file_type: "" },
+			mockVersion,
+		),
+		"SH010_comp_v007_original",
+	);
+});
+
+Deno.test("Naming template - should render folders and every token", () => {
+	const service = new MediaDownloadService();
+	service.setNamingTemplate(
+		"{project}/{sequence}/{shot}/{shot}_{task}_v{version:03}.{ext}",
+	);
+
+	assertEquals(
+		service.generateSafeFilename(mockComponent, mockVersion),
+		"demo/SQ010/SH010/SH010_compositing_v007.mp4",
+	);
+
+	service.setNamingTemplate(
+		"{asset_type}_{status}_{user}_{date}_{date:YYYYMMDD}_{component}",
+	);
+	assertEquals(
+		service.generateSafeFilename(mockComponent, mockVersion),
+		"Render_Approved_artist_2024-03-05_20240305_encoded_1080p",
+	);
+});
+
+Deno.test("Naming template - should sanitise values and fill in missing ones", () => {
+	assertEquals(
+		renderNamingTemplate("{shot}/{task}_{asset}.{ext}", {
+			shot: "SH/010",
+			asset: 'a:b*"c"',
+		}),
+		"SH_010/unknown_a_b__c_",
+	);
+	assertEquals(
+		renderNamingTemplate(DEFAULT_NAMING_TEMPLATE, { version: 12 }),
+		"unknown_unknown_v012_unknown",
+	);
+});
+
+Deno.test("Naming template - should reject invalid templates", () => {
+	assertEquals(validateNamingTemplate(DEFAULT_NAMING_TEMPLATE), null);
+	assertEquals(
+		validateNamingTemplate("{shot}_{take}")?.startsWith("Unknown token {take}"),
+		true,
+	);
+	assertEquals(
+		validateNamingTemplate("{shot:abc}"),
+		'Invalid format "abc" for {shot} (use e.g. {shot:03})',
+	);
+	assertEquals(
+		validateNamingTemplate("{shot}/../{asset}"),
+		"Template folders must not be empty or ..",
+	);
+	assertEquals(
+		validateNamingTemplate("/{shot}"),
+		"Template must not start or end with /",
+	);
+	assertEquals(
+		validateNamingTemplate("{shot}_{asset"),
+		"Template has an unmatched { or }",
+	);
+	assertThrows(() => renderNamingTemplate("{nope}", {}), Error, "Unknown token");
+});
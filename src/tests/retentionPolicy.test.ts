@@ -0,0 +1,118 @@
+import { assertEquals, assertRejects } from "@std/assert";
+import {
+	loadRetentionPolicies,
+	validateRetentionPolicies,
+} from "../utils/retentionPolicy.ts";
+
+Deno.test("Retention policies - should reject incomplete policies", () => {
+	assertEquals(
+		validateRetentionPolicies({
+			policies: [
+				{
+					name: "old-wip",
+					delete: "versions",
+					match: { olderThanDays: 365, statuses: ["WIP"] },
+					protect: { latestVersion: true, lists: ["Client*"] },
+				},
+				{
+					name: "proxies",
+					delete: "components",
+					components: "profile:proxies",
+					match: { shots: ["SH0*"] },
+				},
+			],
+		}),
+		null,
+	);
+
+	assertEquals(
+		validateRetentionPolicies({ policies: [] }),
+		"Expected a policies list with at least one policy",
+	);
+	assertEquals(
+		validateRetentionPolicies({
+			policies: [{ name: "all", delete: "versions", match: {} }],
+		}),
+		'Policy "all": match needs at least one of olderThanDays, statuses, users, shots, assetTypes',
+	);
+	assertEquals(
+		validateRetentionPolicies({
+			policies: [
+				{
+					name: "encoded",
+					delete: "components",
+					components: "encoded",
+					match: { olderThanDays: 30 },
+				},
+			],
+		}),
+		'Policy "encoded": components must be one of all, original_only, encoded_only or profile:<name>',
+	);
+	assertEquals(
+		validateRetentionPolicies({
+			policies: [
+				{ name: "old", delete: "versions", match: { statuses: "WIP" } },
+			],
+		}),
+		'Policy "old": match.statuses must be a list of names',
+	);
+	assertEquals(
+		validateRetentionPolicies({
+			policies: [
+				{
+					name: "old",
+					delete: "versions",
+					match: { olderThanDays: 30 },
+					protect: { delivered: "yes" },
+				},
+			],
+		}),
+		'Policy "old": protect.delivered must be true or false',
+	);
+});
+
+Deno.test("Retention policies - should load the policy file", async () => {
+	const dir = await Deno.makeTempDir();
+	const path = `${dir}/retention_policies.yaml`;
+
+	try {
+		await assertRejects(
+			() => loadRetentionPolicies(path),
+			Error,
+			"Cannot read retention policies",
+		);
+
+		await Deno.writeTextFile(
+			path,
+			[
+				"policies:",
+				"  - name: omitted-encoded",
+				"    delete: components",
+				"    components: encoded_only",
+				"    match:",
+				"      olderThanDays: 90",
+				"      statuses: [Omitted]",
+			].join("\n"),
+		);
+		assertEquals(await loadRetentionPolicies(path), [
+			{
+				name: "omitted-encoded",
+				delete: "components",
+				components: "encoded_only",
+				match: { olderThanDays: 90, statuses: ["Omitted"] },
+			},
+		]);
+
+		await Deno.writeTextFile(
+			path,
+			"policies:\n  - name: omitted\n    delete: shots\n",
+		);
+		await assertRejects(
+			() => loadRetentionPolicies(path),
+			Error,
+			"Invalid retention policies",
+		);
+	} finally {
+		await Deno.remove(dir, { recursive: true });
+	}
+});
@@ -0,0 +1,165 @@
+import { assertEquals } from "@std/assert";
+import type { QueryService } from "../services/queries.ts";
+import type { DeletionProtectionService } from "../services/deletionProtectionService.ts";
+import {
+	StorageReportService,
+	type StorageVersionRecord,
+} from "../services/storageReportService.ts";
+
+const now = new Date("2024-12-31T00:00:00Z");
+
+function makeVersion(
+	id: string,
+	version: number,
+	date: string,
+	components: Array<{ size: number; locations: string[] }>,
+	overrides: Partial<StorageVersionRecord> = {},
+): StorageVersionRecord {
+	return {
+		id,
+		version,
+		date,
+		asset: {
+			id: "asset-comp",
+			name: "comp",
+			type: { name: "Upload" },
+			parent: { name: "SH010", parent: { name: "SQ010" } },
+		},
+		status: { name: "Approved" },
+		user: { username: "artist" },
+		components: components.map((component, index) => ({
+			id: `${id}-${index}`,
+			size: component.size,
+			component_locations: component.locations.map((name) => ({
+				location: { name },
+			})),
+		})),
+		...overrides,
+	};
+}
+
+Deno.test("StorageReportService - should aggregate sizes by dimension", () => {
+	const service = new StorageReportService({} as unknown as QueryService);
+	const report = service.buildReport(
+		[
+			makeVersion("v1", 1, "2024-01-15T00:00:00Z", [
+				{ size: 1000, locations: ["ftrack.server", "studio.disk"] },
+				{ size: 200, locations: [] },
+			]),
+			makeVersion(
+				"v2",
+				2,
+				"2024-12-20T00:00:00Z",
+				[{ size: 500, locations: ["ftrack.server"] }],
+				{ user: { username: "lead" }, status: null },
+			),
+		],
+		'project "demo"',
+		now,
+	);
+
+	assertEquals(report.totalBytes, 1700);
+	assertEquals(report.totalComponents, 3);
+	assertEquals(report.totalVersions, 2);
+	assertEquals(report.groups.shot, [
+		{ key: "SH010", bytes: 1700, components: 3, versions: 2 },
+	]);
+	assertEquals(
+		report.groups.user.map((row) => [row.key, row.bytes]),
+		[
+			["artist", 1200],
+			["lead", 500],
+		],
+	);
+	assertEquals(
+		report.groups.status.map((row) => row.key),
+		["Approved", "(unknown)"],
+	);
+	assertEquals(
+		report.groups.age.map((row) => [row.key, row.bytes]),
+		[
+			["180-365 days", 1200],
+			["< 30 days", 500],
+		],
+	);
+	// A component counts towards every location it is in
+	assertEquals(
+		report.groups.location.map((row) => [row.key, row.bytes]),
+		[
+			["ftrack.server", 1500],
+			["studio.disk", 1000],
+			["(no location)", 200],
+		],
+	);
+
+	// Only the superseded version is reclaimable
+	assertEquals(report.candidates.length, 1);
+	assertEquals(report.candidates[0].versionId, "v1");
+	assertEquals(report.candidates[0].bytes, 1200);
+	assertEquals(report.candidates[0].latestVersion, 2);
+
+	assertEquals(
+		StorageReportService.sortRows(report.groups.user, "name").map(
+			(row) => row.key,
+		),
+		["artist", "lead"],
+	);
+});
+
+Deno.test("StorageReportService - should not suggest recent superseded versions", () => {
+	const service = new StorageReportService({} as unknown as QueryService);
+	const report = service.buildReport(
+		[
+			makeVersion("v1", 1, "2024-12-20T00:00:00Z", [
+				{ size: 100, locations: [] },
+			]),
+			makeVersion("v2", 2, "2024-12-21T00:00:00Z", [
+				{ size: 100, locations: [] },
+			]),
+		],
+		"all projects",
+		now,
+	);
+
+	assertEquals(report.candidates, []);
+});
+
+Deno.test("StorageReportService - should leave protected versions out of the candidates", async () => {
+	const protectionService = {
+		findProtectedVersions: (versionIds: string[]) =>
+			Promise.resolve(
+				versionIds
+					.filter((id) => id === "v1")
+					.map((versionId) => ({ versionId, label: "", reason: "delivered" })),
+			),
+	} as unknown as DeletionProtectionService;
+	const service = new StorageReportService(
+		{} as unknown as QueryService,
+		protectionService,
+	);
+	const report = await service.excludeProtectedCandidates(
+		service.buildReport(
+			[
+				makeVersion("v1", 1, "2024-01-15T00:00:00Z", [
+					{ size: 300, locations: [] },
+				]),
+				makeVersion("v2", 2, "2024-02-15T00:00:00Z", [
+					{ size: 200, locations: [] },
+				]),
+				makeVersion("v3", 3, "2024-03-15T00:00:00Z", [
+					{ size: 100, locations: [] },
+				]),
+			],
+			"all projects",
+			now,
+		),
+	);
+
+	assertEquals(
+		report.candidates.map((candidate) => candidate.versionId),
+		["v2"],
+	);
+	assertEquals(report.protectedCandidates.length, 1);
+	assertEquals(report.protectedCandidates[0].versionId, "v1");
+	assertEquals(report.protectedCandidates[0].reason, "delivered");
+});
@@ -0,0 +1,166 @@
+import { assertEquals, assertRejects } from "@std/assert";
+import {
+	BandwidthLimiter,
+	ConcurrencyController,
+	isRetryableDownloadError,
+	PauseController,
+	withRetry,
+} from "../services/transferControl.ts";
+import { DownloadHttpError } from "../types/mediaDownload.ts";
+
+const MB = 1024 * 1024;
+
+Deno.test("BandwidthLimiter - should delay transfers beyond the rate", async () => {
+	const limiter = new BandwidthLimiter(10_000);
+	const start = Date.now();
+
+	// The first second's worth is allowed as a burst, the rest must wait
+	await limiter.consume(10_000);
+	await limiter.consume(1_000);
+
+	const elapsed = Date.now() - start;
+	assertEquals(elapsed >= 90, true, `elapsed ${elapsed}ms`);
+});
+
+Deno.test("ConcurrencyController - should hand slots to waiting downloads", async () => {
+	const controller = new ConcurrencyController(1);
+	const order: string[] = [];
+
+	await controller.acquire();
+	const waiting = controller.acquire().then(() => order.push("second"));
+	order.push("first");
+	controller.release();
+	await waiting;
+
+	assertEquals(order, ["first", "second"]);
+});
+
+Deno.test("ConcurrencyController - should adapt the limit to throughput", () => {
+	const controller = new ConcurrencyController(4, true);
+
+	controller.recordTransfer(10 * MB, 1000);
+	assertEquals(controller.getLimit(), 4);
+
+	// Throughput per stream halves - back off
+	controller.recordTransfer(4 * MB, 1000);
+	controller.recordTransfer(4 * MB, 1000);
+	assertEquals(controller.getLimit(), 2);
+
+	// Small transfers are ignored
+	controller.recordTransfer(1000, 1000);
+	assertEquals(controller.getLimit(), 2);
+
+	// Recovered - raise again
+	controller.recordTransfer(9 * MB, 1000);
+	assertEquals(controller.getLimit(), 3);
+});
+
+Deno.test("ConcurrencyController - should not back off when streams share the link", async () => {
+	const controller = new ConcurrencyController(4, true);
+
+	await controller.acquire();
+	controller.recordTransfer(8 * MB, 1000);
+	controller.release();
+
+	// Four streams each get a quarter of the link: the total is unchanged
+	for (let i = 0; i < 4; i++) await controller.acquire();
+	for (let i = 0; i < 4; i++) controller.recordTransfer(2 * MB, 1000);
+	assertEquals(controller.getLimit(), 4);
+
+	// The total halving still backs off
+	controller.recordTransfer(1 * MB, 2000);
+	assertEquals(controller.getLimit(), 3);
+});
+
+Deno.test("ConcurrencyController - should not back off after one unusually fast transfer", () => {
+	const controller = new ConcurrencyController(4, true);
+
+	controller.recordTransfer(8 * MB, 1000);
+	controller.recordTransfer(80 * MB, 1000);
+	for (let i = 0; i < 5; i++) controller.recordTransfer(8 * MB, 1000);
+	assertEquals(controller.getLimit(), 4);
+
+	// A real drop still backs off
+	controller.recordTransfer(2 * MB, 1000);
+	assertEquals(controller.getLimit(), 3);
+});
+
+Deno.test("ConcurrencyController - should keep a fixed limit when not adaptive", () => {
+	const controller = new ConcurrencyController(4);
+
+	controller.recordTransfer(10 * MB, 1000);
+	controller.recordTransfer(1 * MB, 1000);
+
+	assertEquals(controller.getLimit(), 4);
+});
+
+Deno.test("withRetry - should retry server errors with backoff", async () => {
+	let attempts = 0;
+	const result = await withRetry(
+		() => {
+			attempts++;
+			if (attempts < 3) {
+				return Promise.reject(new DownloadHttpError(503));
+			}
+			return Promise.resolve("done");
+		},
+		3,
+		1,
+		"file.mov",
+	);
+
+	assertEquals(result, "done");
+	assertEquals(attempts, 3);
+});
+
+Deno.test("withRetry - should not retry client errors or exceed the retry count", async () => {
+	let attempts = 0;
+	await assertRejects(
+		() =>
+			withRetry(
+				() => {
+					attempts++;
+					return Promise.reject(new DownloadHttpError(404));
+				},
+				3,
+				1,
+				"file.mov",
+			),
+		DownloadHttpError,
+	);
+	assertEquals(attempts, 1);
+
+	attempts = 0;
+	await assertRejects(() =>
+		withRetry(
+			() => {
+				attempts++;
+				return Promise.reject(new TypeError("connection reset"));
+			},
+			2,
+			1,
+			"file.mov",
+		),
+	);
+	assertEquals(attempts, 3);
+});
+
+Deno.test("isRetryableDownloadError - should classify errors", () => {
+	assertEquals(isRetryableDownloadError(new DownloadHttpError(500)), true);
+	assertEquals(isRetryableDownloadError(new DownloadHttpError(429)), true);
+	assertEquals(isRetryableDownloadError(new DownloadHttpError(403)), false);
+	assertEquals(
+		isRetryableDownloadError(new DOMException("slow", "TimeoutError")),
+		true,
+	);
+	assertEquals(isRetryableDownloadError(new Error("Size mismatch")), false);
+});
+
+Deno.test("PauseController - should hand out a pause request once", () => {
+	const controller = new PauseController();
+
+	assertEquals(controller.consumePauseRequest(), false);
+	controller.requestPause();
+	assertEquals(controller.consumePauseRequest(), true);
+	assertEquals(controller.consumePauseRequest(), false);
+});
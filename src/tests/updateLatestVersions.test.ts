@@ -1,7 +1,14 @@
-import { assertEquals, assertRejects } from "@std/assert";
+import { assertEquals, assertRejects, assertThrows } from "@std/assert";
 import type { Session } from "@ftrack/api";
-import { updateLatestVersionsSent } from "../tools/updateLatestVersions.ts";
+import {
+	updateLatestVersionsSent,
+	writeChangeReviewCsv,
+} from "../tools/updateLatestVersions.ts";
 import { debug, setDebugLogger } from "../utils/debug.ts";
+import {
+	DEFAULT_LATEST_VERSION_MAPPING,
+	resolveLatestVersionMapping,
+} from "../utils/latestVersionMapping.ts";
 import type { ProjectContextService } from "../services/projectContext.ts";
 import type { QueryService } from "../services/queries.ts";
 import { Select } from "@cliffy/prompt";
@@ -76,6 +83,12 @@ Deno.test("updateLatestVersionsSent should process shots and their versions", as
 	const mockConfigs = {
 		link: { id: "config-1", key: "latestVersionSent" },
 		date: { id: "date-config-1", key: "latestVersionSentDate" },
+		dateSent: { id: "sent-config-1", key: "dateSent", entity_type: "assetversion" },
+		delivered: {
+			id: "delivered-config-1",
+			key: "Delivered",
+			entity_type: "assetversion",
+		},
 	};
 
 	const mockVersion = {
@@ -95,7 +108,9 @@ Deno.test("updateLatestVersionsSent should process shots and their versions", as
 				case 1:
 					return Promise.resolve({ data: [mockConfigs.link] });
 				case 2:
-					return Promise.resolve({ data: [mockConfigs.date] });
+					return Promise.resolve({
+						data: [mockConfigs.date, mockConfigs.dateSent, mockConfigs.delivered],
+					});
 				case 3:
 					return Promise.resolve({ data: [mockVersion] });
 				case 4:
@@ -191,6 +206,12 @@ Deno.test("updateLatestVersionsSent should skip shots with no delivered versions
 	const mockConfigs = {
 		link: { id: "config-1", key: "latestVersionSent" },
 		date: { id: "date-config-1", key: "latestVersionSentDate" },
+		dateSent: { id: "sent-config-1", key: "dateSent", entity_type: "assetversion" },
+		delivered: {
+			id: "delivered-config-1",
+			key: "Delivered",
+			entity_type: "assetversion",
+		},
 	};
 
 	let queryCallCount = 0;
@@ -203,7 +224,9 @@ Deno.test("updateLatestVersionsSent should skip shots with no delivered versions
 				case 1:
 					return Promise.resolve({ data: [mockConfigs.link] });
 				case 2:
-					return Promise.resolve({ data: [mockConfigs.date] });
+					return Promise.resolve({
+						data: [mockConfigs.date, mockConfigs.dateSent, mockConfigs.delivered],
+					});
 				case 3:
 					return Promise.resolve({ data: [] }); // No versions
 				case 4:
@@ -264,3 +287,72 @@ Deno.test("updateLatestVersionsSent should skip shots with no delivered versions
 
 	restoreMocks();
 });
+
+Deno.test("resolveLatestVersionMapping should pick the chosen, then the project's profile", () => {
+	const profiles = {
+		studio: { deliveredKey: "isDelivered", projects: ["ProjectA"] },
+		legacy: { linkKey: "lastSent", linkEntityType: "shot" },
+	};
+
+	assertEquals(resolveLatestVersionMapping(profiles, undefined, "ProjectB"), {
+		name: null,
+		mapping: DEFAULT_LATEST_VERSION_MAPPING,
+	});
+	assertEquals(resolveLatestVersionMapping(profiles, undefined, "ProjectA"), {
+		name: "studio",
+		mapping: { ...DEFAULT_LATEST_VERSION_MAPPING, deliveredKey: "isDelivered" },
+	});
+	assertEquals(resolveLatestVersionMapping(profiles, "legacy", "ProjectA"), {
+		name: "legacy",
+		mapping: {
+			...DEFAULT_LATEST_VERSION_MAPPING,
+			linkKey: "lastSent",
+			linkEntityType: "shot",
+		},
+	});
+	assertThrows(
+		() => resolveLatestVersionMapping(profiles, "missing"),
+		Error,
+		'Unknown attribute mapping profile "missing"',
+	);
+});
+
+Deno.test("writeChangeReviewCsv should mark each change approved or rejected", async () => {
+	const dir = await Deno.makeTempDir();
+	const filePath = `${dir}/review.csv`;
+	const row = {
+		parent: "SQ010",
+		currentVersion: "main_v001",
+		newVersion: "main_v002",
+		currentValue: "2024-01-20",
+		newValue: "2024-02-20",
+		reason: "New version available",
+	};
+
+	try {
+		await writeChangeReviewCsv(
+			filePath,
+			[
+				{ ...row, id: "shot-1", context: "SH010" },
+				{ ...row, id: "shot-2", context: "SH020" },
+			],
+			["shot-2"],
+			"Date",
+		);
+
+		const lines = (await Deno.readTextFile(filePath)).trim().split("\n");
+		assertEquals(
+			lines[0],
+			"Decision,Name,Parent,Current Version,New Version,Current Date,New Date,Reason,ID",
+		);
+		assertEquals(
+			lines.slice(1),
+			[
+				"rejected,SH010,SQ010,main_v001,main_v002,2024-01-20,2024-02-20,New version available,shot-1",
+				"approved,SH020,SQ010,main_v001,main_v002,2024-01-20,2024-02-20,New version available,shot-2",
+			],
+		);
+	} finally {
+		await Deno.remove(dir, { recursive: true });
+	}
+});
@@ -2,15 +2,40 @@ import type { Session } from "@ftrack/api";
 import { Checkbox, Confirm, Input, Select } from "@cliffy/prompt";
 import chalk from "chalk";
 import { debug } from "../utils/debug.ts";
+import { loadComponentRules } from "../utils/componentRules.ts";
+import {
+	loadRetentionPolicies,
+	RETENTION_POLICIES_FILENAME,
+} from "../utils/retentionPolicy.ts";
+import {
+	getPreferencesFilePath,
+	loadLatestVersionMappings,
+} from "../utils/preferences.ts";
+import { resolveLatestVersionMapping } from "../utils/latestVersionMapping.ts";
 import type { ProjectContextService } from "../services/projectContext.ts";
 import type { QueryService } from "../services/queries.ts";
 import { DeletionService } from "../services/deletionService.ts";
+import { DeletionReportService } from "../services/deletionReportService.ts";
+import { DeletionApprovalService } from "../services/deletionApprovalService.ts";
+import { loadApprovalThresholds } from "../utils/deletionApproval.ts";
+import {
+	PROTECTION_OVERRIDE_PHRASE,
+} from "../services/deletionProtectionService.ts";
 import type {
 	ComponentDeletionChoice,
+	DeleteMediaOptions,
 	DeleteMode,
 	DeletionResultSummary,
 	DryRunReportItem,
 } from "../types/deleteMedia.ts";
+import type {
+	RetentionEvaluation,
+	RetentionPolicy,
+} from "../types/retentionPolicy.ts";
+import type {
+	DeletionPlan,
+	DeletionPlanRequest,
+} from "../types/deletionApproval.ts";
 import { SessionService } from "../services/session.ts";
 import {
 	getDownloadsDirectory,
@@ -166,6 +191,17 @@ async function writeMergedCSVWithProgress(
 			].join(","),
 		);
 
+		if (summary.bytesByLocation) {
+			await writeLine("");
+			await writeLine("Freed by Location");
+			await writeLine("Location,Size (MB)");
+			for (const [location, bytes] of Object.entries(summary.bytesByLocation)) {
+				await writeLine(
+					`${sanitizeCsv(location)},${(bytes / (1024 * 1024)).toFixed(2)}`,
+				);
+			}
+		}
+
 		if (summary.failures.length > 0) {
 			await writeLine("");
 			await writeLine("Failures");
@@ -192,6 +228,7 @@ async function writeMergedCSVWithProgress(
 				"Component Name",
 				"Component Type",
 				"Size (MB)",
+				"Frames",
 				"Locations",
 			].join(","),
 		);
@@ -216,6 +253,7 @@ async function writeMergedCSVWithProgress(
 					sanitizeCsv(item.componentName),
 					sanitizeCsv(item.componentType),
 					sizeMB,
+					sanitizeCsv(item.frameRange),
 					sanitizeCsv(item.locations?.join("; ")),
 				];
 				lines.push(row.join(","));
@@ -323,19 +361,725 @@ async function selectFromList(
 	return versionIds;
 }
 
+/**
+ * Point to the journal of an executed deletion, which the Restore Deletion
+ * tool reads
+ */
+function printJournalLocation(summary: DeletionResultSummary): void {
+	for (const path of [
+		...(summary.journalPath ? [summary.journalPath] : []),
+		...(summary.journalPaths ?? []),
+	]) {
+		console.log(chalk.blue(`📒 Deletion journal: ${path}`));
+	}
+}
+
+/**
+ * Show the bytes freed in each location, when removing from locations only
+ */
+function printLocationBytes(summary: DeletionResultSummary): void {
+	for (const [location, bytes] of Object.entries(
+		summary.bytesByLocation ?? {},
+	)) {
+		console.log(` - Freed in ${location}: ${DeletionService.formatBytes(bytes)}`);
+	}
+}
+
+/**
+ * Ask whether to delete the components, or only remove them from some of
+ * the locations holding them
+ * @returns The selected location names, or undefined to delete the components
+ */
+async function promptLocations(
+	deletionService: DeletionService,
+	versionIds: string[],
+): Promise<string[] | undefined> {
+	const scope = await Select.prompt({
+		message: "Delete the components from:",
+		options: [
+			{ name: "Every location (delete the components)", value: "all" },
+			{ name: "Selected locations only", value: "selected" },
+		],
+	});
+	if (scope === "all") return undefined;
+
+	const names = await deletionService.getComponentLocationNames(versionIds);
+	if (names.length === 0) {
+		console.log(chalk.yellow("The components are not in any location."));
+		return [];
+	}
+	return (await Checkbox.prompt({
+		message: "Remove the components from these locations",
+		options: names.map((name) => ({ name, value: name })),
+		minOptions: 1,
+	})) as string[];
+}
+
+/**
+ * Write the HTML report of a dry-run preview next to its CSV, to share for
+ * approval before the deletion is confirmed
+ */
+async function writeHtmlPreview(
+	session: Session,
+	csvPath: string,
+	summary: DeletionResultSummary,
+	report: DryRunReportItem[],
+): Promise<void> {
+	const htmlPath = csvPath.replace(/\.csv$/, ".html");
+	const spinner = createSpinner("Generating HTML report with thumbnails");
+	try {
+		await new DeletionReportService(session).writeHtmlReport(
+			htmlPath,
+			summary,
+			report,
+		);
+	} finally {
+		spinner.stop();
+	}
+	console.log(` - HTML: ${htmlPath}`);
+}
+
+/**
+ * Offer to write the HTML report of a dry-run preview (interactive mode)
+ */
+async function offerHtmlPreview(
+	session: Session,
+	csvPath: string,
+	summary: DeletionResultSummary,
+	report: DryRunReportItem[],
+): Promise<void> {
+	const wanted = await Confirm.prompt({
+		message: "Also create an HTML report with thumbnails for approval? (Safe)",
+		default: false,
+	});
+	if (wanted) {
+		await writeHtmlPreview(session, csvPath, summary, report);
+	}
+}
+
+/**
+ * List the protected versions a preview left out
+ */
+function printProtectedVersions(summary: DeletionResultSummary): void {
+	const protectedVersions = summary.protectedVersions ?? [];
+	if (protectedVersions.length === 0) return;
+	console.log(
+		chalk.yellow(
+			`\n🛡️  ${protectedVersions.length} protected version(s) are not in this preview:`,
+		),
+	);
+	for (const version of protectedVersions) {
+		console.log(
+			chalk.yellow(`  - ${version.label} (${version.versionId}): ${version.reason}`),
+		);
+	}
+}
+
+/**
+ * Ask whether protected versions should be deleted as well, which takes
+ * typing the override phrase
+ */
+async function confirmProtectionOverride(
+	summary: DeletionResultSummary,
+): Promise<boolean> {
+	const count = summary.protectedVersions?.length ?? 0;
+	if (count === 0) return false;
+	const answer = await Input.prompt({
+		message: `Type "${PROTECTION_OVERRIDE_PHRASE}" to delete the ${count} protected version(s) too, or press Enter to keep them`,
+		default: "",
+	});
+	const override = answer.trim() === PROTECTION_OVERRIDE_PHRASE;
+	console.log(
+		override
+			? chalk.red("Protection overridden for this deletion.")
+			: chalk.green("Protected versions will be kept."),
+	);
+	return override;
+}
+
+/**
+ * Ask whether protected versions should be deleted too. If so, the deletion
+ * is previewed again with them, and that preview is exported and shown in
+ * place of the first one, so approval and the reports cover what actually
+ * gets deleted.
+ * @param request - The previewed request, without the override
+ * @param reportDir - Where to export the new preview, or null if it cannot
+ *   be written
+ * @returns The request to approve and execute, with its preview
+ */
+async function confirmOverridePreview(
+	session: Session,
+	approvalService: DeletionApprovalService,
+	request: DeletionPlanRequest,
+	preview: { report: DryRunReportItem[]; summary: DeletionResultSummary },
+	reportDir: string | null,
+	exportPrefix: string,
+): Promise<{
+	request: DeletionPlanRequest;
+	report: DryRunReportItem[];
+	summary: DeletionResultSummary;
+}> {
+	if (!(await confirmProtectionOverride(preview.summary))) {
+		return { request, ...preview };
+	}
+
+	const overridden = { ...request, overrideProtection: true };
+	const spinner = createSpinner("Generating preview with protected versions...");
+	let result: { report: DryRunReportItem[]; summary: DeletionResultSummary };
+	try {
+		result = await approvalService.run(overridden, true);
+	} finally {
+		spinner.stop();
+	}
+	const { report, summary } = result;
+
+	if (reportDir) {
+		const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
+		const mergedPath = `${reportDir}/${exportPrefix}-override-${timestamp}.csv`;
+		try {
+			await writeMergedCSVWithProgress(mergedPath, summary, report);
+			console.log(chalk.green("\n📝 Dry-run export with protected versions:"));
+			console.log(` - Merged: ${mergedPath}`);
+			await offerHtmlPreview(session, mergedPath, summary, report);
+		} catch (err) {
+			debug(`Failed to write dry-run export: ${err}`);
+			console.log(chalk.red("Failed to write dry-run export file."));
+		}
+	}
+
+	console.log(`\nSummary with protected versions:`);
+	console.log(` - Versions: ${summary.versionsDeleted}`);
+	console.log(` - Components: ${summary.componentsDeleted}`);
+	console.log(
+		` - Size (MB): ${(summary.bytesDeleted / (1024 * 1024)).toFixed(2)}`,
+	);
+	return { request: overridden, report, summary };
+}
+
+/**
+ * Ask whether retention policies may turn protections off, which takes
+ * typing the override phrase
+ */
+async function confirmPolicyProtectionOverride(): Promise<boolean> {
+	const answer = await Input.prompt({
+		message: `Type "${PROTECTION_OVERRIDE_PHRASE}" to apply these policies without those protections, or press Enter to keep them`,
+		default: "",
+	});
+	return answer.trim() === PROTECTION_OVERRIDE_PHRASE;
+}
+
+/**
+ * Write a deletion plan when a preview is above the approval thresholds.
+ * Such a deletion only runs from its plan, once another user approved it.
+ * @returns Whether the deletion needs approval
+ */
+async function requestApproval(
+	approvalService: DeletionApprovalService,
+	request: DeletionPlanRequest,
+	summary: DeletionResultSummary,
+	report: DryRunReportItem[],
+	planDir: string,
+): Promise<boolean> {
+	const thresholds = await approvalService.loadThresholds(
+		request.versionIds,
+		await loadApprovalThresholds(),
+	);
+	if (!DeletionApprovalService.needsApproval(summary, report, thresholds)) {
+		return false;
+	}
+
+	const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
+	const planPath = `${planDir}/delete-media-plan-${timestamp}.json`;
+	await approvalService.createPlan(planPath, request, summary, report);
+	console.log(
+		chalk.yellow(
+			`\n👥 This deletion is above the approval thresholds (${thresholds.maxVersions} versions or ${thresholds.maxSizeGB} GB) and needs a second user's approval.`,
+		),
+	);
+	console.log(` - Plan: ${planPath}`);
+	console.log(
+		` - Approve, as another user: "Approve a deletion plan" in Delete Media, or astraftracktools approve-deletion "${planPath}"`,
+	);
+	console.log(
+		` - Then execute: "Execute an approved deletion plan" in Delete Media, or astraftracktools delete --plan "${planPath}" --execute`,
+	);
+	return true;
+}
+
+/**
+ * Show what a deletion plan deletes, and who created and approved it
+ */
+function printPlan(plan: DeletionPlan): void {
+	const { request } = plan;
+	const choices = [...new Set(Object.values(request.componentChoices ?? {}))];
+	const action =
+		request.mode === "policies"
+			? `Apply ${request.policies?.length ?? 0} retention policies`
+			: request.mode === "versions"
+				? "Delete whole versions"
+				: request.locations
+					? `Remove ${choices.join("/")} components from ${request.locations.join(", ")}`
+					: `Delete ${choices.join("/")} components`;
+	console.log(chalk.blue("\n📋 Deletion plan"));
+	console.log(` - Created by ${plan.createdBy} at ${plan.createdAt}`);
+	console.log(
+		` - ${action}: ${plan.versions} version(s), ${DeletionService.formatBytes(plan.bytes)}`,
+	);
+	for (const policy of request.policies ?? []) {
+		const policyAction =
+			policy.delete === "versions"
+				? "delete"
+				: `delete ${policy.components ?? "all"} components from`;
+		console.log(
+			`   - Policy "${policy.name}": ${policyAction} ${policy.versionIds.length} version(s)`,
+		);
+	}
+	if (request.overrideProtection) {
+		console.log(chalk.red(" - Protection is overridden"));
+	}
+	if (plan.approval) {
+		console.log(
+			` - Approved by ${plan.approval.approvedBy} at ${plan.approval.approvedAt}`,
+		);
+	}
+}
+
+/**
+ * Run the deletion for one evaluated retention policy. The evaluation has
+ * already left out the versions the policy protects; they are checked again
+ * with the same rules, in case they changed since.
+ */
+function runPolicyDeletion(
+	deletionService: DeletionService,
+	evaluation: RetentionEvaluation,
+	dryRun: boolean,
+): Promise<{ report: DryRunReportItem[]; summary: DeletionResultSummary }> {
+	const { policy, versionIds } = evaluation;
+	const opts = { dryRun, protectionRules: evaluation.protectionRules };
+	if (policy.delete === "versions") {
+		return deletionService.deleteAssetVersions(versionIds, opts);
+	}
+	return deletionService.deleteComponents(
+		new Map(versionIds.map((id) => [id, policy.components ?? "all"])),
+		opts,
+	);
+}
+
+/**
+ * Evaluate retention policies in order, export one dry-run CSV for all of
+ * them and, if `confirm` agrees, execute each policy's deletion. Versions a
+ * policy deletes whole are left out of the policies after it. Above the
+ * approval thresholds a plan of all the policies is written instead.
+ * @param confirmOverride - Asked when a policy turns protections off, which
+ *   it only does if this agrees
+ * @param exportHtml - Called with the CSV path to also export an HTML report
+ * @returns The failures of the executed deletions, or null when the
+ *   deletion needs approval
+ */
+async function runRetentionPolicies(
+	deletionService: DeletionService,
+	approvalService: DeletionApprovalService,
+	policies: RetentionPolicy[],
+	reportDir: string,
+	confirm: () => Promise<boolean>,
+	confirmOverride: () => Promise<boolean>,
+	exportHtml?: (
+		csvPath: string,
+		summary: DeletionResultSummary,
+		report: DryRunReportItem[],
+	) => Promise<void>,
+): Promise<DeletionResultSummary["failures"] | null> {
+	const profiles = deletionService.getComponentProfileNames();
+	for (const policy of policies) {
+		const profile = policy.components?.startsWith("profile:")
+			? policy.components.slice("profile:".length)
+			: null;
+		if (profile && !profiles.includes(profile)) {
+			throw new Error(
+				`Policy "${policy.name}": unknown component profile "${profile}"`,
+			);
+		}
+	}
+
+	let relaxing = false;
+	for (const policy of policies) {
+		const relaxed = deletionService.getRelaxedProtections(policy);
+		if (relaxed.length > 0) {
+			relaxing = true;
+			console.log(
+				chalk.yellow(
+					`⚠️  Policy "${policy.name}" turns off protection: ${relaxed.join(", ")}`,
+				),
+			);
+		}
+	}
+	const overrideProtection = relaxing && (await confirmOverride());
+	if (relaxing && !overrideProtection) {
+		console.log(
+			chalk.green("Protections stay on; the policies can only add to them."),
+		);
+	}
+
+	const evaluations: RetentionEvaluation[] = [];
+	const deletedVersions = new Set<string>();
+	const report: DryRunReportItem[] = [];
+	const summary: DeletionResultSummary = {
+		versionsDeleted: 0,
+		componentsDeleted: 0,
+		bytesDeleted: 0,
+		failures: [],
+	};
+
+	for (const policy of policies) {
+		const evaluation = await deletionService.evaluateRetentionPolicy(
+			policy,
+			overrideProtection,
+		);
+		evaluation.versionIds = evaluation.versionIds.filter(
+			(id) => !deletedVersions.has(id),
+		);
+		if (policy.delete === "versions") {
+			evaluation.versionIds.forEach((id) => deletedVersions.add(id));
+		}
+
+		const action =
+			policy.delete === "versions"
+				? "delete"
+				: `delete ${policy.components ?? "all"} components from`;
+		const count = evaluation.versionIds.length;
+		console.log(
+			chalk.blue(`\n📜 Policy "${policy.name}": ${action} ${count} version(s)`),
+		);
+		for (const kept of evaluation.protectedVersions) {
+			console.log(
+				chalk.green(
+					`  🛡️  Keeping ${kept.label} (${kept.versionId}): ${kept.reason}`,
+				),
+			);
+		}
+		if (count === 0) continue;
+
+		const preview = await runPolicyDeletion(deletionService, evaluation, true);
+		report.push(...preview.report);
+		summary.versionsDeleted += preview.summary.versionsDeleted;
+		summary.componentsDeleted += preview.summary.componentsDeleted;
+		summary.bytesDeleted += preview.summary.bytesDeleted;
+		summary.failures.push(...preview.summary.failures);
+		evaluations.push(evaluation);
+	}
+
+	if (await verifyDirectoryAccess(reportDir)) {
+		const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
+		const mergedPath = `${reportDir}/delete-media-policy-preview-${timestamp}.csv`;
+		await writeMergedCSVWithProgress(mergedPath, summary, report);
+		console.log(chalk.green("\n📝 Dry-run export created:"));
+		console.log(` - Merged: ${mergedPath}`);
+		if (exportHtml && report.length > 0) {
+			await exportHtml(mergedPath, summary, report);
+		}
+	} else {
+		console.log(chalk.red(`❌ Cannot write to report directory at: ${reportDir}`));
+	}
+
+	console.log(`\nSummary:`);
+	console.log(` - Versions: ${summary.versionsDeleted}`);
+	console.log(` - Components: ${summary.componentsDeleted}`);
+	console.log(
+		` - Size (MB): ${(summary.bytesDeleted / (1024 * 1024)).toFixed(2)}`,
+	);
+
+	if (evaluations.length === 0) {
+		console.log(chalk.green("\nNothing to delete."));
+		return [];
+	}
+	const request: DeletionPlanRequest = {
+		mode: "policies",
+		versionIds: [
+			...new Set(evaluations.flatMap((evaluation) => evaluation.versionIds)),
+		],
+		policies: evaluations.map(({ policy, versionIds, protectionRules }) => ({
+			name: policy.name,
+			delete: policy.delete,
+			components: policy.components,
+			versionIds,
+			protectionRules,
+		})),
+		overrideProtection: false,
+	};
+	if (
+		await requestApproval(approvalService, request, summary, report, reportDir)
+	) {
+		return null;
+	}
+	if (!(await confirm())) {
+		return [];
+	}
+
+	const failures: DeletionResultSummary["failures"] = [];
+	let bytesDeleted = 0;
+	for (const evaluation of evaluations) {
+		console.log(
+			chalk.red(`🗑️  Executing policy "${evaluation.policy.name}"...`),
+		);
+		const deletionResult = await runPolicyDeletion(
+			deletionService,
+			evaluation,
+			false,
+		);
+		printJournalLocation(deletionResult.summary);
+		printProtectedVersions(deletionResult.summary);
+		bytesDeleted += deletionResult.summary.bytesDeleted;
+		failures.push(...deletionResult.summary.failures);
+	}
+
+	console.log(`Total size freed: ${DeletionService.formatBytes(bytesDeleted)}`);
+	failures.forEach((failure) => {
+		console.log(chalk.red(`  - ${failure.id}: ${failure.reason}`));
+	});
+	return failures;
+}
+
+/**
+ * Non-interactive deletion used by the headless CLI.
+ * Always generates the dry-run preview and CSV; only deletes when `execute` is set.
+ */
+async function runHeadlessDeletion(
+	session: Session,
+	projectContextService: ProjectContextService,
+	deletionService: DeletionService,
+	options: DeleteMediaOptions,
+): Promise<void> {
+	if (options.mode === "policy") {
+		const policies = await loadRetentionPolicies(options.policyFile);
+		const unknown = options.policyNames?.find(
+			(name) => !policies.some((policy) => policy.name === name),
+		);
+		if (unknown) {
+			throw new Error(`Unknown retention policy "${unknown}"`);
+		}
+
+		const failures = await runRetentionPolicies(
+			deletionService,
+			new DeletionApprovalService(session, deletionService),
+			options.policyNames?.length
+				? policies.filter((policy) =>
+						options.policyNames!.includes(policy.name),
+					)
+				: policies,
+			options.reportDir || getDownloadsDirectory(),
+			() => {
+				if (!options.execute) {
+					console.log(
+						chalk.yellow(
+							"\nDry run only - pass --execute to perform the deletion.",
+						),
+					);
+				}
+				return Promise.resolve(options.execute ?? false);
+			},
+			() => Promise.resolve(options.overrideProtection ?? false),
+			options.htmlReport
+				? (csvPath, summary, report) =>
+						writeHtmlPreview(session, csvPath, summary, report)
+				: undefined,
+		);
+		if (!failures) {
+			if (options.execute) {
+				throw new Error(
+					"This deletion needs a second user's approval; execute it from its plan once approved",
+				);
+			}
+			return;
+		}
+		if (failures.length > 0) {
+			throw new Error(`${failures.length} deletion failure(s) occurred`);
+		}
+		if (options.execute) {
+			console.log(chalk.green(`\n✅ Deletion completed!`));
+		}
+		return;
+	}
+
+	const approvalService = new DeletionApprovalService(
+		session,
+		deletionService,
+	);
+	if (options.mode === "approve" || options.mode === "plan") {
+		if (!options.planFile) {
+			throw new Error("No deletion plan given");
+		}
+		if (options.mode === "approve") {
+			const plan = await approvalService.approvePlan(options.planFile);
+			printPlan(plan);
+			console.log(chalk.green("\n✅ Deletion plan approved."));
+			return;
+		}
+
+		const plan = await approvalService.loadApprovedPlan(options.planFile);
+		printPlan(plan);
+		if (!options.execute) {
+			console.log(
+				chalk.yellow(
+					"\nThe plan is approved and unchanged - pass --execute to perform the deletion.",
+				),
+			);
+			return;
+		}
+		await executeHeadlessDeletion(approvalService, plan.request);
+		return;
+	}
+
+	const profile = options.componentChoice?.startsWith("profile:")
+		? options.componentChoice.slice("profile:".length)
+		: null;
+	if (profile && !deletionService.getComponentProfileNames().includes(profile)) {
+		throw new Error(`Unknown component profile "${profile}"`);
+	}
+
+	let versionIds = options.versionIds ?? [];
+
+	if (options.listId) {
+		const listService = new ListService(session, projectContextService);
+		console.log(chalk.blue("Extracting asset versions from list..."));
+		versionIds = [
+			...versionIds,
+			...(await listService.getAssetVersionIdsFromList(options.listId)),
+		];
+	}
+
+	versionIds = Array.from(new Set(versionIds));
+	if (versionIds.length === 0) {
+		throw new Error("No asset versions selected for deletion");
+	}
+
+	const request: DeletionPlanRequest = {
+		mode: options.mode,
+		versionIds,
+		componentChoices: Object.fromEntries(
+			versionIds.map((id) => [id, options.componentChoice ?? "all"]),
+		),
+		locations: options.locations,
+		overrideProtection: options.overrideProtection ?? false,
+	};
+	const { report, summary } = await approvalService.run(request, true);
+
+	const reportDir = options.reportDir || getDownloadsDirectory();
+	if (await verifyDirectoryAccess(reportDir)) {
+		const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
+		const mergedPath = `${reportDir}/delete-media-${options.mode}-preview-${timestamp}.csv`;
+		await writeMergedCSVWithProgress(mergedPath, summary, report);
+		console.log(chalk.green("\n📝 Dry-run export created:"));
+		console.log(` - Merged: ${mergedPath}`);
+		if (options.htmlReport) {
+			await writeHtmlPreview(session, mergedPath, summary, report);
+		}
+	} else {
+		console.log(chalk.red(`❌ Cannot write to report directory at: ${reportDir}`));
+	}
+
+	console.log(`\nSummary:`);
+	console.log(` - Versions: ${summary.versionsDeleted}`);
+	console.log(` - Components: ${summary.componentsDeleted}`);
+	console.log(
+		` - Size (MB): ${(summary.bytesDeleted / (1024 * 1024)).toFixed(2)}`,
+	);
+	printLocationBytes(summary);
+	if (!options.overrideProtection) {
+		printProtectedVersions(summary);
+	}
+
+	if (
+		await requestApproval(approvalService, request, summary, report, reportDir)
+	) {
+		if (options.execute) {
+			throw new Error(
+				"This deletion needs a second user's approval; execute it from its plan once approved",
+			);
+		}
+		return;
+	}
+
+	if (!options.execute) {
+		console.log(
+			chalk.yellow("\nDry run only - pass --execute to perform the deletion."),
+		);
+		return;
+	}
+
+	await executeHeadlessDeletion(approvalService, request);
+}
+
+/**
+ * Execute a headless deletion, failing when any part of it failed
+ */
+async function executeHeadlessDeletion(
+	approvalService: DeletionApprovalService,
+	request: DeletionPlanRequest,
+): Promise<void> {
+	console.log(chalk.red("🗑️  Executing deletion..."));
+	const deletionResult = await approvalService.run(request, false);
+	printJournalLocation(deletionResult.summary);
+	console.log(
+		`Total size freed: ${DeletionService.formatBytes(
+			deletionResult.summary.bytesDeleted,
+		)}`,
+	);
+
+	if (deletionResult.summary.failures.length > 0) {
+		deletionResult.summary.failures.forEach((failure) => {
+			console.log(chalk.red(`  - ${failure.id}: ${failure.reason}`));
+		});
+		throw new Error(
+			`${deletionResult.summary.failures.length} deletion failure(s) occurred`,
+		);
+	}
+
+	console.log(chalk.green(`\n✅ Deletion completed!`));
+}
+
 /**
  * Delete Media Tool
  * Provides dry-run previews, CSV exports, and actual deletion for asset versions and components.
  * Supports multiple input modes: manual IDs, age-based, filter-based, and list-based selection.
  * Includes progressive safety measures: preview → export → confirm → execute.
+ * When `options` is provided the prompts are skipped (headless CLI).
  */
 export async function deleteMediaTool(
 	session: Session,
 	projectContextService: ProjectContextService,
 	queryService: QueryService,
+	options?: DeleteMediaOptions,
 ): Promise<void> {
 	debug("Starting Delete Media Tool");
 
+	const sessionService = new SessionService(session);
+	const deletionService = new DeletionService(
+		session,
+		sessionService,
+		queryService,
+	);
+	deletionService.setComponentRules(await loadComponentRules());
+	deletionService.setLatestVersionMapping(
+		resolveLatestVersionMapping(
+			await loadLatestVersionMappings(),
+			undefined,
+			projectContextService.getContext().project?.name,
+		).mapping,
+	);
+
+	if (options) {
+		if (options.journalDir) {
+			deletionService.setJournalDirectory(options.journalDir);
+		}
+		await runHeadlessDeletion(
+			session,
+			projectContextService,
+			deletionService,
+			options,
+		);
+		return;
+	}
+
 	// Enforce project-scoped only
 	console.log(chalk.blue("\n📋 Delete Media Tool"));
 	console.log(
@@ -359,16 +1103,22 @@ export async function deleteMediaTool(
 			},
 			{ name: "Age-based cleanup", value: "age" },
 			{ name: "Filter-based deletion", value: "filter" },
+			{ name: "Retention policies (YAML file)", value: "policy" },
+			{ name: "Approve a deletion plan (second user)", value: "approve" },
+			{ name: "Execute an approved deletion plan", value: "plan" },
 		],
 	})) as DeleteMode;
 
-	const sessionService = new SessionService(session);
-	const deletionService = new DeletionService(
+	const approvalService = new DeletionApprovalService(
 		session,
-		sessionService,
-		queryService,
+		deletionService,
 	);
 
+	// Saved component profiles, offered next to original/encoded
+	const profileChoices = deletionService
+		.getComponentProfileNames()
+		.map((name) => ({ name: `Profile "${name}"`, value: `profile:${name}` }));
+
 	if (mode === "versions") {
 		// Choose input method
 		const inputMethod = await Select.prompt({
@@ -473,6 +1223,7 @@ export async function deleteMediaTool(
 				await writeMergedCSVWithProgress(mergedPath, summary, report);
 				console.log(chalk.green("\n📝 Dry-run export created:"));
 				console.log(` - Merged: ${mergedPath}`);
+				await offerHtmlPreview(session, mergedPath, summary, report);
 			} catch (err) {
 				debug(`Failed to write dry-run export: ${err}`);
 				console.log(chalk.red("Failed to write dry-run export file."));
@@ -486,6 +1237,27 @@ export async function deleteMediaTool(
 		console.log(
 			` - Size (MB): ${(summary.bytesDeleted / (1024 * 1024)).toFixed(2)}`,
 		);
+		printProtectedVersions(summary);
+		const confirmed = await confirmOverridePreview(
+			session,
+			approvalService,
+			{ mode: "versions", versionIds, overrideProtection: false },
+			{ report, summary },
+			canWrite ? downloadsDir : null,
+			"delete-media-preview",
+		);
+		const overrideProtection = confirmed.request.overrideProtection;
+		if (
+			await requestApproval(
+				approvalService,
+				confirmed.request,
+				confirmed.summary,
+				confirmed.report,
+				downloadsDir,
+			)
+		) {
+			return;
+		}
 
 		// Typed confirmation gating sample (per decisions)
 		const needsTyped = versionIds.length > 1;
@@ -515,11 +1287,12 @@ export async function deleteMediaTool(
 			// Perform actual deletion
 			const deletionResult = await deletionService.deleteAssetVersions(
 				versionIds,
-				{ dryRun: false },
+				{ dryRun: false, overrideProtection },
 			);
 
 			// Show final results
 			console.log(chalk.green(`\n✅ Deletion completed!`));
+			printJournalLocation(deletionResult.summary);
 			console.log(
 				`Successfully processed: ${deletionResult.summary.versionsDeleted} versions`,
 			);
@@ -706,6 +1479,10 @@ export async function deleteMediaTool(
 				{ name: "Apply to all: All components", value: "all" },
 				{ name: "Apply to all: Only original", value: "original_only" },
 				{ name: "Apply to all: Only encoded", value: "encoded_only" },
+				...profileChoices.map(({ name, value }) => ({
+					name: `Apply to all: ${name}`,
+					value,
+				})),
 				{ name: "Choose per version ID", value: "per_version" },
 			],
 		});
@@ -743,6 +1520,7 @@ export async function deleteMediaTool(
 						{ name: "All components", value: "all" },
 						{ name: "Only original", value: "original_only" },
 						{ name: "Only encoded", value: "encoded_only" },
+						...profileChoices,
 					],
 				})) as ComponentDeletionChoice;
 				choiceMap.set(id, choice);
@@ -752,6 +1530,8 @@ export async function deleteMediaTool(
 			for (const id of versionIds) choiceMap.set(id, globalChoice);
 		}
 
+		const locations = await promptLocations(deletionService, versionIds);
+
 		// Remove inner spinner definition and use shared one
 		// Spinner during enumeration/generation
 		const spinner = createSpinner("Generating preview...");
@@ -760,6 +1540,7 @@ export async function deleteMediaTool(
 		try {
 			const result = await deletionService.deleteComponents(choiceMap, {
 				dryRun: true,
+				locations,
 			});
 			report = result.report;
 			summary = result.summary;
@@ -789,6 +1570,7 @@ export async function deleteMediaTool(
 				await writeMergedCSVWithProgress(mergedPath, summary, report);
 				console.log(chalk.green("\n📝 Dry-run export created:"));
 				console.log(` - Merged: ${mergedPath}`);
+				await offerHtmlPreview(session, mergedPath, summary, report);
 			} catch (err) {
 				debug(`Failed to write dry-run export: ${err}`);
 				console.log(chalk.red("Failed to write dry-run export file."));
@@ -802,6 +1584,34 @@ export async function deleteMediaTool(
 		console.log(
 			` - Size (MB): ${(summary.bytesDeleted / (1024 * 1024)).toFixed(2)}`,
 		);
+		printLocationBytes(summary);
+		printProtectedVersions(summary);
+		const confirmed = await confirmOverridePreview(
+			session,
+			approvalService,
+			{
+				mode: "components",
+				versionIds,
+				componentChoices: Object.fromEntries(choiceMap),
+				locations,
+				overrideProtection: false,
+			},
+			{ report, summary },
+			canWrite ? downloadsDir : null,
+			"delete-media-components-preview",
+		);
+		const overrideProtection = confirmed.request.overrideProtection;
+		if (
+			await requestApproval(
+				approvalService,
+				confirmed.request,
+				confirmed.summary,
+				confirmed.report,
+				downloadsDir,
+			)
+		) {
+			return;
+		}
 
 		// Typed confirmation gating sample (per decisions)
 		const needsTyped = versionIds.length > 1;
@@ -830,10 +1640,13 @@ export async function deleteMediaTool(
 			// Perform actual deletion
 			const deletionResult = await deletionService.deleteComponents(choiceMap, {
 				dryRun: false,
+				overrideProtection,
+				locations,
 			});
 
 			// Show final results
 			console.log(chalk.green(`\n✅ Component deletion completed!`));
+			printJournalLocation(deletionResult.summary);
 			console.log(
 				`Successfully processed: ${deletionResult.summary.versionsDeleted} versions`,
 			);
@@ -936,6 +1749,7 @@ export async function deleteMediaTool(
 					{ name: "All components", value: "all" },
 					{ name: "Only original", value: "original_only" },
 					{ name: "Only encoded", value: "encoded_only" },
+					...profileChoices,
 				],
 			})) as ComponentDeletionChoice;
 		}
@@ -1020,6 +1834,7 @@ export async function deleteMediaTool(
 				await writeMergedCSVWithProgress(mergedPath, summary, report);
 				console.log(chalk.green("\n📝 Dry-run export created:"));
 				console.log(` - Merged: ${mergedPath}`);
+				await offerHtmlPreview(session, mergedPath, summary, report);
 			} catch (err) {
 				debug(`Failed to write dry-run export: ${err}`);
 				console.log(chalk.red("Failed to write dry-run export file."));
@@ -1033,6 +1848,36 @@ export async function deleteMediaTool(
 		console.log(
 			` - Size (MB): ${(summary.bytesDeleted / (1024 * 1024)).toFixed(2)}`,
 		);
+		printProtectedVersions(summary);
+		const confirmed = await confirmOverridePreview(
+			session,
+			approvalService,
+			deletionType === "versions"
+				? { mode: "versions", versionIds, overrideProtection: false }
+				: {
+						mode: "components",
+						versionIds,
+						componentChoices: Object.fromEntries(
+							versionIds.map((id) => [id, componentChoice]),
+						),
+						overrideProtection: false,
+					},
+			{ report, summary },
+			canWrite ? downloadsDir : null,
+			"delete-media-age-preview",
+		);
+		const overrideProtection = confirmed.request.overrideProtection;
+		if (
+			await requestApproval(
+				approvalService,
+				confirmed.request,
+				confirmed.summary,
+				confirmed.report,
+				downloadsDir,
+			)
+		) {
+			return;
+		}
 
 		// Confirmation gating
 		const needsTyped = versionIds.length > 1;
@@ -1062,11 +1907,12 @@ export async function deleteMediaTool(
 			// Perform actual deletion
 			const deletionResult = await deletionService.deleteAssetVersions(
 				versionIds,
-				{ dryRun: false },
+				{ dryRun: false, overrideProtection },
 			);
 
 			// Show final results
 			console.log(chalk.green(`\n✅ Deletion completed!`));
+			printJournalLocation(deletionResult.summary);
 			console.log(
 				`Successfully processed: ${deletionResult.summary.versionsDeleted} versions`,
 			);
@@ -1265,6 +2111,7 @@ export async function deleteMediaTool(
 					{ name: "All components", value: "all" },
 					{ name: "Only original", value: "original_only" },
 					{ name: "Only encoded", value: "encoded_only" },
+					...profileChoices,
 				],
 			})) as ComponentDeletionChoice;
 		}
@@ -1314,6 +2161,7 @@ export async function deleteMediaTool(
 				await writeMergedCSVWithProgress(mergedPath, summary, report);
 				console.log(chalk.green("\n📝 Dry-run export created:"));
 				console.log(` - Merged: ${mergedPath}`);
+				await offerHtmlPreview(session, mergedPath, summary, report);
 			} catch (err) {
 				debug(`Failed to write dry-run export: ${err}`);
 				console.log(chalk.red("Failed to write dry-run export file."));
@@ -1327,6 +2175,36 @@ export async function deleteMediaTool(
 		console.log(
 			` - Size (MB): ${(summary.bytesDeleted / (1024 * 1024)).toFixed(2)}`,
 		);
+		printProtectedVersions(summary);
+		const confirmed = await confirmOverridePreview(
+			session,
+			approvalService,
+			deletionType === "versions"
+				? { mode: "versions", versionIds, overrideProtection: false }
+				: {
+						mode: "components",
+						versionIds,
+						componentChoices: Object.fromEntries(
+							versionIds.map((id) => [id, componentChoice]),
+						),
+						overrideProtection: false,
+					},
+			{ report, summary },
+			canWrite ? downloadsDir : null,
+			"delete-media-filter-preview",
+		);
+		const overrideProtection = confirmed.request.overrideProtection;
+		if (
+			await requestApproval(
+				approvalService,
+				confirmed.request,
+				confirmed.summary,
+				confirmed.report,
+				downloadsDir,
+			)
+		) {
+			return;
+		}
 
 		// Confirmation gating
 		const needsTyped = versionIds.length > 1;
@@ -1356,11 +2234,12 @@ export async function deleteMediaTool(
 			// Perform actual deletion
 			const deletionResult = await deletionService.deleteAssetVersions(
 				versionIds,
-				{ dryRun: false },
+				{ dryRun: false, overrideProtection },
 			);
 
 			// Show final results
 			console.log(chalk.green(`\n✅ Deletion completed!`));
+			printJournalLocation(deletionResult.summary);
 			console.log(
 				`Successfully processed: ${deletionResult.summary.versionsDeleted} versions`,
 			);
@@ -1386,6 +2265,99 @@ export async function deleteMediaTool(
 		return;
 	}
 
+	if (mode === "approve" || mode === "plan") {
+		const planFile = (
+			await Input.prompt({ message: "Deletion plan file:" })
+		).trim();
+		printPlan(await approvalService.loadPlan(planFile));
+
+		if (mode === "approve") {
+			const approve = await Confirm.prompt({
+				message:
+					"Approve this deletion plan as the current user? It is previewed again first (Safe)",
+				default: false,
+			});
+			if (!approve) {
+				console.log(chalk.yellow("Operation cancelled."));
+				return;
+			}
+			await approvalService.approvePlan(planFile);
+			console.log(
+				chalk.green("\n✅ Deletion plan approved. It can now be executed."),
+			);
+			return;
+		}
+
+		const plan = await approvalService.loadApprovedPlan(planFile);
+		const confirmText = await Input.prompt({
+			message: `Type "DELETE NOW" to execute the approved plan`,
+			default: "",
+		});
+		if (confirmText.trim() !== "DELETE NOW") {
+			console.log(chalk.yellow("Deletion cancelled by user."));
+			return;
+		}
+
+		console.log(chalk.red("🗑️  Executing deletion..."));
+		const deletionResult = await approvalService.run(plan.request, false);
+		console.log(chalk.green(`\n✅ Deletion completed!`));
+		printJournalLocation(deletionResult.summary);
+		console.log(
+			`Total size freed: ${DeletionService.formatBytes(
+				deletionResult.summary.bytesDeleted,
+			)}`,
+		);
+		deletionResult.summary.failures.forEach((failure) => {
+			console.log(chalk.red(`  - ${failure.id}: ${failure.reason}`));
+		});
+		return;
+	}
+
+	if (mode === "policy") {
+		const policyFile = await Input.prompt({
+			message: "Retention policy file:",
+			default: getPreferencesFilePath(RETENTION_POLICIES_FILENAME),
+		});
+		const policies = await loadRetentionPolicies(policyFile.trim());
+
+		const selectedNames =
+			policies.length > 1
+				? ((await Checkbox.prompt({
+						message: "Select policies to apply",
+						options: policies.map((policy) => ({
+							name: policy.name,
+							value: policy.name,
+							checked: true,
+						})),
+					})) as string[])
+				: policies.map((policy) => policy.name);
+
+		const failures = await runRetentionPolicies(
+			deletionService,
+			approvalService,
+			policies.filter((policy) => selectedNames.includes(policy.name)),
+			getDownloadsDirectory(),
+			async () => {
+				const confirmText = await Input.prompt({
+					message: `Type "DELETE NOW" to delete what the policies selected`,
+					default: "",
+				});
+				if (confirmText.trim() !== "DELETE NOW") {
+					console.log(chalk.yellow("Deletion cancelled by user."));
+					return false;
+				}
+				return true;
+			},
+			confirmPolicyProtectionOverride,
+			(csvPath, summary, report) =>
+				offerHtmlPreview(session, csvPath, summary, report),
+		);
+		if (failures && failures.length > 0) {
+			console.log(chalk.yellow(`\n⚠️  ${failures.length} failures occurred`));
+		}
+		return;
+	}
+
 	// End
 }
 
@@ -1439,6 +2411,7 @@ function formatMergedCSV(
 		"Component Name",
 		"Component Type",
 		"Size (MB)",
+		"Frames",
 		"Locations",
 	];
 	lines.push(headers.join(","));
@@ -1457,6 +2430,7 @@ function formatMergedCSV(
 			sanitizeCsv(item.componentName),
 			sanitizeCsv(item.componentType),
 			sizeMB,
+			sanitizeCsv(item.frameRange),
 			sanitizeCsv(item.locations?.join("; ")), // semicolon-separated list inside one CSV cell
 		];
 		lines.push(row.join(","));
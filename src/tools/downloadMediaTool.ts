@@ -1,12 +1,29 @@
 import { Checkbox, Confirm, Input, Select } from "@cliffy/prompt";
 import { debugToFile } from "../utils/debug.ts";
-import { loadPreferences } from "../utils/preferences.ts";
+import {
+	loadLocationPrefixes,
+	loadNamingTemplates,
+	saveLocationPrefix,
+	saveNamingTemplate,
+} from "../utils/preferences.ts";
+import {
+	DEFAULT_NAMING_TEMPLATE,
+	DEFAULT_ORDERED_NAMING_TEMPLATE,
+	NAMING_TEMPLATE_TOKENS,
+	validateNamingTemplate,
+} from "../utils/namingTemplate.ts";
+import { loadComponentRules } from "../utils/componentRules.ts";
 import { handleError, withErrorHandling } from "../utils/errorHandler.ts";
 import { getDownloadsDirectory } from "../utils/systemPaths.ts";
+import { WildcardResolver } from "../utils/wildcardResolver.ts";
 
 import { SessionService } from "../services/session.ts";
 import { ComponentService } from "../services/componentService.ts";
 import { MediaDownloadService } from "../services/mediaDownloadService.ts";
+import { ListService } from "../services/listService.ts";
+import { DownloadManifestService } from "../services/downloadManifestService.ts";
+import { DownloadQueueService } from "../services/downloadQueueService.ts";
+import { PauseController } from "../services/transferControl.ts";
 import type { ProjectContextService } from "../services/projectContext.ts";
 import type { QueryService } from "../services/queries.ts";
 import { FilterService } from "../services/filterService.ts";
@@ -21,6 +38,15 @@ import type { Session } from "@ftrack/api";
 import type {
 	AssetVersion,
 	Component,
+	DownloadMediaOptions,
+	DownloadMode,
+	DownloadQueue,
+	DownloadRunSettings,
+	DownloadTask,
+	DownloadTransferOptions,
+	LocalTransferMode,
+	LocalTransferOptions,
+	ManifestVerificationResult,
 	MediaPreference,
 	Shot,
 } from "../types/mediaDownload.ts";
@@ -34,13 +60,33 @@ const DEBUG_LOG_PATH =
  * This tool allows users to:
  * - Download from single asset version by ID
  * - Download from multiple shots using fuzzy search
+ * - Download every version on a List or in a ReviewSession, keeping their order
  * - Choose media preferences (original vs encoded)
  * - Download media files with progress tracking
+ * - Verify a previous download folder against its manifest
+ *
+ * Each download session goes into a timestamped folder together with a
+ * manifest (JSON and CSV) listing every file and its SHA-256 hash. In sync
+ * mode a fixed folder is used instead and only new or changed files are
+ * downloaded. File and folder names follow a configurable naming template
+ * (see utils/namingTemplate.ts). Components on a storage location mounted
+ * on this machine can be copied or hardlinked from there instead of being
+ * downloaded over HTTP. Components are classified and selected with the
+ * rules and profiles of the component rules file (see utils/componentRules.ts).
+ *
+ * Bulk downloads keep their queue in the preferences directory: Ctrl+C
+ * pauses after the current batch, and a paused or interrupted run can be
+ * resumed later, even after a restart.
+ *
+ * When `options` is provided the tool runs non-interactively (headless CLI):
+ * prompts are replaced by the given values and an error is thrown if any
+ * download could not be completed.
  */
 export async function downloadMediaTool(
 	session: Session,
 	projectContextService: ProjectContextService,
 	queryService: QueryService,
+	options?: DownloadMediaOptions,
 ): Promise<void> {
 	const projectContext = projectContextService.getContext();
 	const contextDisplay = projectContext.isGlobal
@@ -53,12 +99,14 @@ export async function downloadMediaTool(
 	// Initialize services
 	const sessionService = new SessionService(session);
 	const componentService = new ComponentService(sessionService, queryService);
+	const listService = new ListService(session, projectContextService);
 
-	// Get authentication headers for downloads as fallback
-	const prefs = await loadPreferences();
+	// Authentication headers for downloads as fallback, from the credentials
+	// the session was opened with (environment variables first, in headless mode)
+	const credentials = session as Session & { apiUser?: string; apiKey?: string };
 	const authHeaders = {
-		"ftrack-user": prefs.FTRACK_API_USER || "",
-		"ftrack-api-key": prefs.FTRACK_API_KEY || "",
+		"ftrack-user": credentials.apiUser || "",
+		"ftrack-api-key": credentials.apiKey || "",
 	};
 
 	// Pass session object for session-based authentication, with auth headers as fallback
@@ -77,21 +125,65 @@ export async function downloadMediaTool(
 		await debugToFile(DEBUG_LOG_PATH, "Project context:", projectContext);
 		await debugToFile(DEBUG_LOG_PATH, "Context display:", contextDisplay);
 
+		componentService.setComponentRules(await loadComponentRules());
+		mediaDownloadService.setComponentTypeResolver((component) =>
+			componentService.identifyComponentType(component),
+		);
+
+		if (options) {
+			await handleHeadlessDownload(
+				options,
+				componentService,
+				mediaDownloadService,
+				queryService,
+				listService,
+			);
+			console.log("\n✅ Download process completed!");
+			return;
+		}
+
 		// Step 1: Initial Selection - Single Asset Version vs Multiple Shots
-		const downloadMode = await selectDownloadMode();
+		const queueService = new DownloadQueueService();
+		const previousQueue = await queueService.load();
+		const downloadMode = await selectDownloadMode(
+			previousQueue ? queueService.getRemaining().length : 0,
+		);
 		await debugToFile(DEBUG_LOG_PATH, "Download mode selected:", downloadMode);
 
-		if (downloadMode === "single") {
+		if (downloadMode === "verify") {
+			const directory = await promptForVerifyDirectory();
+			await verifyDownloadFolder(directory);
+			return;
+		}
+
+		if (downloadMode === "resume" && previousQueue) {
+			await handleResumeDownload(
+				previousQueue,
+				queueService,
+				componentService,
+				mediaDownloadService,
+			);
+		} else if (downloadMode === "single") {
 			await handleSingleVersionDownload(
 				componentService,
 				mediaDownloadService,
 				queryService,
 			);
+		} else if (downloadMode === "list" || downloadMode === "review_session") {
+			await handleOrderedVersionsDownload(
+				downloadMode,
+				listService,
+				componentService,
+				mediaDownloadService,
+				queryService,
+				queueService,
+			);
 		} else {
 			await handleMultipleShotsDownload(
 				componentService,
 				mediaDownloadService,
 				queryService,
+				queueService,
 			);
 		}
 
@@ -108,17 +200,37 @@ export async function downloadMediaTool(
 
 /**
  * Prompt user to select download mode
+ * @param remainingInQueue - Versions left in a previous run's queue, offered for resuming
  */
-async function selectDownloadMode(): Promise<"single" | "multiple"> {
+async function selectDownloadMode(
+	remainingInQueue: number,
+): Promise<DownloadMode> {
 	const mode = await Select.prompt({
 		message: "Download media from:",
 		options: [
 			{ name: "A) Single version (enter ID)", value: "single" as const },
 			{ name: "B) Multiple shots (fuzzy search)", value: "multiple" as const },
+			{ name: "C) Versions on a List", value: "list" as const },
+			{
+				name: "D) Versions in a Review Session",
+				value: "review_session" as const,
+			},
+			{
+				name: "E) Verify a previous download folder",
+				value: "verify" as const,
+			},
+			...(remainingInQueue > 0
+				? [
+						{
+							name: `F) Resume previous download (${remainingInQueue} remaining)`,
+							value: "resume" as const,
+						},
+					]
+				: []),
 		],
 	});
 
-	return mode as "single" | "multiple";
+	return mode as DownloadMode;
 }
 
 /**
@@ -165,9 +277,9 @@ async function handleSingleVersionDownload(
 		}`,
 	);
 
-	// Get media preference and download path
-	const mediaPreference = await selectMediaPreference();
-	const downloadPath = await getDownloadPath();
+	// Get media preference, download path and run settings
+	const { mediaPreference, downloadPath } =
+		await configureDownloadRun(mediaDownloadService, componentService);
 
 	// Process the asset version
 	const result = await processAssetVersion(
@@ -208,6 +320,8 @@ async function handleSingleVersionDownload(
 			console.log(`❌ No components available for fallback`);
 		}
 	}
+
+	await finishDownloadSession(mediaDownloadService, downloadPath);
 }
 
 /**
@@ -575,6 +689,7 @@ async function handleMultipleShotsDownload(
 	componentService: ComponentService,
 	mediaDownloadService: MediaDownloadService,
 	queryService: QueryService,
+	queueService: DownloadQueueService,
 ): Promise<void> {
 	// Get search pattern from user first
 	const searchPattern = await promptForShotSearchPattern();
@@ -628,16 +743,9 @@ async function handleMultipleShotsDownload(
 	}
 
 	// Filter shots using fuzzy matching (case-insensitive) or wildcard
-	const matchingShots =
-		searchPattern === "*"
-			? allShots.data
-			: allShots.data.filter((shot: unknown) => {
-					const typedShot = shot as Shot;
-					return (
-						typedShot.name &&
-						typedShot.name.toLowerCase().includes(searchPattern.toLowerCase())
-					);
-				});
+	const matchingShots = allShots.data.filter((shot: unknown) =>
+		matchesShotPattern((shot as Shot).name, searchPattern),
+	);
 
 	// Sort shots alphabetically by name
 	matchingShots.sort((a: unknown, b: unknown) => {
@@ -737,19 +845,198 @@ async function handleMultipleShotsDownload(
 		return;
 	}
 
-	// Get media preference and download path
-	const mediaPreference = await selectMediaPreference();
-	const downloadPath = await getDownloadPath();
+	// Get media preference, download path and run settings
+	const run = await configureDownloadRun(
+		mediaDownloadService,
+		componentService,
+	);
 
 	// Process each shot's latest version with concurrency
+	await queueService.create(run, shotsWithVersions);
+	await runQueuedDownload(
+		shotsWithVersions,
+		run,
+		componentService,
+		mediaDownloadService,
+		queueService,
+	);
+}
 
-	const failedDownloads = await processShotsWithConcurrency(
+/**
+ * Handle downloading every version on a List or in a ReviewSession, keeping
+ * their order with the {index} naming token
+ */
+async function handleOrderedVersionsDownload(
+	source: "list" | "review_session",
+	listService: ListService,
+	componentService: ComponentService,
+	mediaDownloadService: MediaDownloadService,
+	queryService: QueryService,
+	queueService: DownloadQueueService,
+): Promise<void> {
+	const versionIds =
+		source === "list"
+			? await selectListVersionIds(listService)
+			: await selectReviewSessionVersionIds(listService);
+	if (!versionIds) return;
+
+	await debugToFile(DEBUG_LOG_PATH, "Ordered version IDs:", versionIds);
+
+	const shotsWithVersions = await fetchVersionsInOrder(
+		versionIds,
+		queryService,
+	);
+	if (shotsWithVersions.length === 0) {
+		console.log("❌ No asset versions found");
+		return;
+	}
+
+	console.log(`\n📋 Found ${shotsWithVersions.length} version(s):`);
+	shotsWithVersions.forEach(({ shot, latestVersion }, index) => {
+		console.log(
+			`   ${index + 1}. ${shot.name} - ${
+				latestVersion.asset?.name || "Unknown"
+			} v${latestVersion.version}`,
+		);
+	});
+
+	const proceed = await Confirm.prompt({
+		message: `Continue with downloading these ${shotsWithVersions.length} versions?`,
+		default: true,
+	});
+	if (!proceed) {
+		console.log("❌ Download cancelled by user");
+		return;
+	}
+
+	mediaDownloadService.setVersionOrder(versionIds);
+	const run: DownloadRunSettings = {
+		...(await configureDownloadRun(
+			mediaDownloadService,
+			componentService,
+			DEFAULT_ORDERED_NAMING_TEMPLATE,
+		)),
+		versionOrder: versionIds,
+	};
+
+	await queueService.create(run, shotsWithVersions);
+	await runQueuedDownload(
 		shotsWithVersions,
+		run,
 		componentService,
 		mediaDownloadService,
-		mediaPreference,
-		downloadPath,
+		queueService,
+	);
+}
+
+/**
+ * Resume the run left in the download queue, with its original settings.
+ * Files finished before the pause are found in the download folder (and its
+ * checkpoint manifest) and skipped.
+ */
+async function handleResumeDownload(
+	queue: DownloadQueue,
+	queueService: DownloadQueueService,
+	componentService: ComponentService,
+	mediaDownloadService: MediaDownloadService,
+): Promise<void> {
+	const remaining = queueService.getRemaining();
+	const completed = queue.items.length - remaining.length;
+
+	console.log(
+		`\n⏯️  Previous download from ${new Date(queue.createdAt).toLocaleString()}`,
+	);
+	console.log(`   Folder: ${queue.downloadPath}`);
+	console.log(
+		`   ${completed}/${queue.items.length} done, ${remaining.length} remaining`,
+	);
+
+	const action = await Select.prompt({
+		message: "What would you like to do?",
+		options: [
+			{ name: "Resume the download", value: "resume" },
+			{ name: "Discard the previous download queue", value: "discard" },
+			{ name: "Cancel", value: "cancel" },
+		],
+	});
+
+	if (action === "discard") {
+		await queueService.clear();
+		console.log("🗑️  Previous download queue discarded");
+		return;
+	}
+	if (action === "cancel") {
+		console.log("❌ Resume cancelled by user");
+		return;
+	}
+
+	await mediaDownloadService.startSync(queue.downloadPath);
+	await applyRunSettings(queue, componentService, mediaDownloadService);
+
+	await runQueuedDownload(
+		remaining,
+		queue,
+		componentService,
+		mediaDownloadService,
+		queueService,
 	);
+}
+
+/**
+ * Download the versions of a queued run, which can be paused with Ctrl+C
+ * after any batch, or stopped straight away with a second Ctrl+C. Fallbacks
+ * are offered and the session is finished only once the whole queue is
+ * processed; a paused or stopped run keeps its queue so it can be resumed
+ * later.
+ */
+async function runQueuedDownload(
+	shotsWithVersions: Array<{ shot: Shot; latestVersion: AssetVersion }>,
+	run: DownloadRunSettings,
+	componentService: ComponentService,
+	mediaDownloadService: MediaDownloadService,
+	queueService: DownloadQueueService,
+): Promise<void> {
+	const pauseController = new PauseController();
+	pauseController.listen((alreadyRequested) => {
+		if (alreadyRequested) {
+			console.log("\n⏹️  Stopping the downloads in progress...");
+			pauseController.requestStop();
+			return;
+		}
+		console.log(
+			"\n⏸️  Pausing after the current batch... (Ctrl+C again to stop now)",
+		);
+	});
+	console.log("\n💡 Press Ctrl+C to pause after the current batch");
+
+	let failedDownloads;
+	mediaDownloadService.setStopSignal(pauseController.stopSignal);
+	try {
+		failedDownloads = await processShotsWithConcurrency(
+			shotsWithVersions,
+			componentService,
+			mediaDownloadService,
+			run.mediaPreference,
+			run.downloadPath,
+			{ queueService, pauseController },
+		);
+	} finally {
+		pauseController.stopListening();
+		mediaDownloadService.setStopSignal(undefined);
+	}
+
+	if (pauseController.stopSignal.aborted) {
+		console.log(
+			`\n⏹️  Download stopped. Choose "Resume previous download" to continue.`,
+		);
+		return;
+	}
+	if (queueService.getPending().length > 0) {
+		console.log(
+			`\n⏸️  Download paused. Choose "Resume previous download" to continue.`,
+		);
+		return;
+	}
 
 	// Handle fallback downloads if there are any failures
 	if (failedDownloads.length > 0) {
@@ -757,13 +1044,402 @@ async function handleMultipleShotsDownload(
 			failedDownloads,
 			componentService,
 			mediaDownloadService,
-			downloadPath,
+			run.downloadPath,
+		);
+	}
+
+	await finishDownloadSession(mediaDownloadService, run.downloadPath);
+	await queueService.clear();
+}
+
+/**
+ * Let the user pick a List and return its asset version IDs in list order
+ */
+async function selectListVersionIds(
+	listService: ListService,
+): Promise<string[] | null> {
+	const lists = (await listService.fetchAssetVersionLists()) as Array<{
+		id: string;
+		name: string;
+		category?: { name: string };
+	}>;
+	if (lists.length === 0) {
+		console.log("❌ No lists found in current project scope");
+		return null;
+	}
+
+	const listId = await Select.prompt({
+		message: "Select a list:",
+		options: lists.map((list) => ({
+			name: `${list.name} (${list.category?.name || "Uncategorized"})`,
+			value: list.id,
+		})),
+	});
+
+	const versionIds = await listService.getAssetVersionIdsFromList(listId);
+	if (versionIds.length === 0) {
+		console.log("❌ No asset versions found on the selected list");
+		return null;
+	}
+	return versionIds;
+}
+
+/**
+ * Let the user pick a ReviewSession and return its asset version IDs in order
+ */
+async function selectReviewSessionVersionIds(
+	listService: ListService,
+): Promise<string[] | null> {
+	const reviewSessions = (await listService.fetchReviewSessions()) as Array<{
+		id: string;
+		name: string;
+		project?: { name: string };
+	}>;
+	if (reviewSessions.length === 0) {
+		console.log("❌ No review sessions found in current project scope");
+		return null;
+	}
+
+	const reviewSessionId = await Select.prompt({
+		message: "Select a review session:",
+		options: reviewSessions.map((reviewSession) => ({
+			name: `${reviewSession.name} (${
+				reviewSession.project?.name || "No Project"
+			})`,
+			value: reviewSession.id,
+		})),
+	});
+
+	const versionIds =
+		await listService.getAssetVersionIdsFromReviewSession(reviewSessionId);
+	if (versionIds.length === 0) {
+		console.log("❌ No asset versions found in the selected review session");
+		return null;
+	}
+	return versionIds;
+}
+
+/**
+ * Fetch asset versions by ID, returned in the order of the given IDs
+ */
+async function fetchVersionsInOrder(
+	versionIds: string[],
+	queryService: QueryService,
+): Promise<Array<{ shot: Shot; latestVersion: AssetVersion }>> {
+	const versionsById = new Map<string, AssetVersion>();
+	const chunkSize = 50;
+
+	for (let i = 0; i < versionIds.length; i += chunkSize) {
+		const chunk = versionIds.slice(i, i + chunkSize);
+		const result = await queryService.queryAssetVersions(
+			`id in (${chunk.map((id) => `"${id}"`).join(", ")})`,
+		);
+		for (const version of (result?.data || []) as AssetVersion[]) {
+			versionsById.set(version.id, version);
+		}
+	}
+
+	return versionIds
+		.map((id) => versionsById.get(id))
+		.filter((version): version is AssetVersion => !!version)
+		.map((version) => ({
+			shot: {
+				id: version.asset?.parent?.id || "",
+				name: version.asset?.parent?.name || "Unknown",
+			},
+			latestVersion: version,
+		}));
+}
+
+/**
+ * Prompt for the settings shared by every download run and apply them to the
+ * services: media preference, folder, sync, naming, transfer and whether to
+ * copy from mounted storage
+ */
+async function configureDownloadRun(
+	mediaDownloadService: MediaDownloadService,
+	componentService: ComponentService,
+	defaultTemplate: string = DEFAULT_NAMING_TEMPLATE,
+): Promise<DownloadRunSettings> {
+	const mediaPreference = await selectMediaPreference();
+	const basePath = await getDownloadPath();
+	const downloadPath = await prepareSessionDirectory(
+		mediaDownloadService,
+		basePath,
+		await promptForSync(),
+	);
+	const run: DownloadRunSettings = {
+		downloadPath,
+		mediaPreference,
+		profile: await selectComponentProfile(componentService),
+		namingTemplate: await selectNamingTemplate(defaultTemplate),
+		transfer: await configureTransferOptions(),
+		local: (await configureLocalTransfer()) ?? undefined,
+	};
+
+	await applyRunSettings(run, componentService, mediaDownloadService);
+	return run;
+}
+
+/**
+ * Apply a run's naming template, transfer options, version order and
+ * mounted storage settings to the services
+ */
+async function applyRunSettings(
+	run: DownloadRunSettings,
+	componentService: ComponentService,
+	mediaDownloadService: MediaDownloadService,
+): Promise<void> {
+	componentService.setActiveProfile(run.profile ?? null);
+	mediaDownloadService.setNamingTemplate(run.namingTemplate);
+	mediaDownloadService.setTransferOptions(run.transfer);
+	if (run.versionOrder) {
+		mediaDownloadService.setVersionOrder(run.versionOrder);
+	}
+	if (run.local) {
+		await applyLocalTransfer(run.local, componentService, mediaDownloadService);
+	}
+}
+
+/**
+ * Handle a non-interactive download driven by CLI options
+ */
+async function handleHeadlessDownload(
+	options: DownloadMediaOptions,
+	componentService: ComponentService,
+	mediaDownloadService: MediaDownloadService,
+	queryService: QueryService,
+	listService: ListService,
+): Promise<void> {
+	// Fails early for an unknown profile name
+	componentService.setActiveProfile(options.profile ?? null);
+
+	const shotsWithVersions: Array<{ shot: Shot; latestVersion: AssetVersion }> =
+		[];
+	let defaultTemplate = DEFAULT_NAMING_TEMPLATE;
+
+	if (options.listId || options.reviewSessionId) {
+		const versionIds = options.listId
+			? await listService.getAssetVersionIdsFromList(options.listId)
+			: await listService.getAssetVersionIdsFromReviewSession(
+					options.reviewSessionId!,
+				);
+		console.log(`\n📋 Found ${versionIds.length} version(s)`);
+		shotsWithVersions.push(
+			...(await fetchVersionsInOrder(versionIds, queryService)),
+		);
+		mediaDownloadService.setVersionOrder(versionIds);
+		defaultTemplate = DEFAULT_ORDERED_NAMING_TEMPLATE;
+	} else if (options.versionId) {
+		console.log(`\n🔍 Looking up version: ${options.versionId}`);
+		const result = await queryService.queryAssetVersions(
+			`id is "${options.versionId}"`,
+		);
+		if (!result?.data || result.data.length === 0) {
+			throw new Error(`Version "${options.versionId}" not found`);
+		}
+		const version = result.data[0] as AssetVersion;
+		shotsWithVersions.push({
+			shot: {
+				id: version.asset?.parent?.id || "",
+				name: version.asset?.parent?.name || "Unknown",
+			},
+			latestVersion: version,
+		});
+	} else if (options.shotPattern) {
+		console.log(`\n🔍 Searching for shots matching: "${options.shotPattern}"`);
+		const allShots = await queryService.queryShots();
+		const matchingShots = ((allShots?.data || []) as Shot[])
+			.filter((shot) => matchesShotPattern(shot.name, options.shotPattern!))
+			.sort((a, b) => a.name.localeCompare(b.name));
+
+		if (matchingShots.length === 0) {
+			throw new Error(`No shots found matching pattern: "${options.shotPattern}"`);
+		}
+
+		for (const shot of matchingShots) {
+			const versions = await getFilteredAssetVersionsForShot(
+				shot.id,
+				queryService,
+				null,
+			);
+			if (versions.length > 0) {
+				console.log(`   - ${shot.name} (Latest version: v${versions[0].version})`);
+				shotsWithVersions.push({ shot, latestVersion: versions[0] });
+			} else {
+				console.log(`   - ${shot.name} (No matching versions)`);
+			}
+		}
+	} else {
+		throw new Error(
+			"A version ID, shot pattern, list ID or review session ID is required",
+		);
+	}
+
+	if (shotsWithVersions.length === 0) {
+		throw new Error("No asset versions found for matching shots");
+	}
+
+	const downloadPath = await prepareSessionDirectory(
+		mediaDownloadService,
+		options.outputPath || getDownloadsDirectory(),
+		options.sync ?? false,
+	);
+	mediaDownloadService.setNamingTemplate(
+		options.namingTemplate
+			? await resolveNamingTemplate(options.namingTemplate)
+			: defaultTemplate,
+	);
+	if (options.transfer) {
+		mediaDownloadService.setTransferOptions(options.transfer);
+	}
+	if (options.local) {
+		await applyLocalTransfer(
+			options.local,
+			componentService,
+			mediaDownloadService,
+		);
+	}
+	const failedDownloads = await processShotsWithConcurrency(
+		shotsWithVersions,
+		componentService,
+		mediaDownloadService,
+		options.mediaPreference,
+		downloadPath,
+	);
+
+	let remainingFailures = failedDownloads.length;
+	if (failedDownloads.length > 0 && options.fallback === "automatic") {
+		console.log(
+			`\n📥 Processing ${failedDownloads.length} fallback download(s)...`,
+		);
+		for (const { shot, version, components } of failedDownloads) {
+			console.log(`\nFallback for ${shot.name}:`);
+			if (components.length === 0) {
+				console.log(`❌ No components available for fallback`);
+				continue;
+			}
+			const recovered = await handleAutomaticFallback(
+				shot,
+				version,
+				components,
+				componentService,
+				mediaDownloadService,
+				downloadPath,
+			);
+			if (recovered) remainingFailures--;
+		}
+	}
+
+	await finishDownloadSession(mediaDownloadService, downloadPath);
+
+	if (remainingFailures > 0) {
+		throw new Error(
+			`${remainingFailures} of ${shotsWithVersions.length} download(s) failed`,
+		);
+	}
+}
+
+/**
+ * Resolve the folder for a download session: the base path itself in sync
+ * mode, otherwise a new timestamped folder inside it
+ */
+async function prepareSessionDirectory(
+	mediaDownloadService: MediaDownloadService,
+	basePath: string,
+	sync: boolean,
+): Promise<string> {
+	if (sync) {
+		await mediaDownloadService.startSync(basePath);
+		console.log(`\n🔁 Syncing into: ${basePath}`);
+		return basePath;
+	}
+
+	return await mediaDownloadService.prepareDownloadDirectory(basePath);
+}
+
+/**
+ * Report the sync summary (when syncing) and write the manifest for a
+ * download session
+ */
+async function finishDownloadSession(
+	mediaDownloadService: MediaDownloadService,
+	downloadPath: string,
+): Promise<void> {
+	const summary = mediaDownloadService.getSyncSummary();
+	if (summary) {
+		console.log("\n🔁 Sync summary");
+		console.log(`   Added: ${summary.added.length}`);
+		for (const filename of summary.added) {
+			console.log(`     + ${filename}`);
+		}
+		console.log(`   Updated: ${summary.updated.length}`);
+		for (const filename of summary.updated) {
+			console.log(`     ~ ${filename}`);
+		}
+		console.log(`   Skipped (already up to date): ${summary.skipped.length}`);
+	}
+
+	const manifest = await mediaDownloadService.writeManifest(downloadPath);
+	if (manifest) {
+		console.log(`\n🧾 Download manifest written to: ${manifest.jsonPath}`);
+		console.log(`   CSV: ${manifest.csvPath}`);
+	}
+}
+
+/**
+ * Re-hash the files listed in a download folder's manifest and report
+ * missing or corrupted ones
+ */
+export async function verifyDownloadFolder(
+	directory: string,
+): Promise<ManifestVerificationResult> {
+	console.log(`\n🔎 Verifying download folder: ${directory}`);
+
+	const result = await new DownloadManifestService().verify(directory);
+
+	for (const entry of result.missing) {
+		console.log(`❌ Missing: ${entry.path}`);
+	}
+	for (const { entry, reason } of result.corrupted) {
+		console.log(`❌ Corrupted: ${entry.path} (${reason})`);
+	}
+
+	const total =
+		result.verified.length + result.missing.length + result.corrupted.length;
+	console.log(
+		`\n📊 Verified ${result.verified.length}/${total} file(s): ${result.missing.length} missing, ${result.corrupted.length} corrupted`,
+	);
+
+	return result;
+}
+
+/**
+ * Match a shot name against a search pattern.
+ * "*" matches everything, patterns containing wildcards (* or ?) are matched
+ * against the whole name, anything else is a case-insensitive substring match.
+ */
+export function matchesShotPattern(name: string, pattern: string): boolean {
+	if (!name) return false;
+	if (pattern === "*") return true;
+
+	if (pattern.includes("*") || pattern.includes("?")) {
+		return (
+			WildcardResolver.resolve([pattern], [name], {
+				enableFuzzy: false,
+				enableRegex: false,
+			}).length > 0
 		);
 	}
+
+	return name.toLowerCase().includes(pattern.toLowerCase());
 }
 
 /**
- * Process shots with concurrency using simple console logging
+ * Process shots with concurrency using simple console logging. With a queue,
+ * each batch's outcome is saved along with a checkpoint manifest, and the run
+ * stops early when the user stops it, or pauses and does not continue
+ * straight away.
  */
 async function processShotsWithConcurrency(
 	shotsWithVersions: Array<{ shot: Shot; latestVersion: AssetVersion }>,
@@ -771,6 +1447,10 @@ async function processShotsWithConcurrency(
 	mediaDownloadService: MediaDownloadService,
 	mediaPreference: MediaPreference,
 	downloadPath: string,
+	queue?: {
+		queueService: DownloadQueueService;
+		pauseController: PauseController;
+	},
 ): Promise<
 	Array<{
 		shot: Shot;
@@ -786,10 +1466,12 @@ async function processShotsWithConcurrency(
 		reason: string;
 	}> = [];
 
-	const BATCH_SIZE = 4;
+	const BATCH_SIZE = mediaDownloadService.getMaxConcurrentDownloads();
 	const totalShots = shotsWithVersions.length;
 	const totalBatches = Math.ceil(shotsWithVersions.length / BATCH_SIZE);
 	const startTime = Date.now();
+	let processedCount = 0;
+	let paused = false;
 
 	// Simple progress tracking without complex libraries
 	const progressState = new Map<
@@ -934,17 +1616,52 @@ async function processShotsWithConcurrency(
 		console.log(
 			`   ⏱️  Batch ${batchNumber} completed: ${batchSuccessCount} successful, ${batchFailureCount} failed (${batchElapsed}s)`,
 		);
+		processedCount += batch.length;
+
+		if (queue) {
+			await queue.queueService.markProcessed(
+				batchResults.map((result, batchIndex) => ({
+					shotId: batch[batchIndex].shot.id,
+					versionId: batch[batchIndex].latestVersion.id,
+					success: result.status === "fulfilled" && result.value.success,
+					reason:
+						result.status === "fulfilled"
+							? result.value.reason || undefined
+							: String(result.reason),
+				})),
+			);
+			// Checkpoint so finished files are recognised when resuming
+			await mediaDownloadService.writeManifest(downloadPath);
+
+			if (queue.pauseController.stopSignal.aborted) {
+				paused = true;
+				break;
+			}
+			if (
+				processedCount < totalShots &&
+				queue.pauseController.consumePauseRequest()
+			) {
+				const resumeNow = await Confirm.prompt({
+					message: `⏸️  Paused with ${totalShots - processedCount} file(s) remaining. Resume now?`,
+					default: true,
+				});
+				if (!resumeNow) {
+					paused = true;
+					break;
+				}
+			}
+		}
 	}
 
 	// Final summary
 	const totalElapsed = formatTotalElapsed();
-	const successCount = totalShots - failedDownloads.length;
+	const successCount = processedCount - failedDownloads.length;
 
 	console.log("\n" + "═".repeat(80));
-	console.log("📊 DOWNLOAD COMPLETED");
+	console.log(paused ? "📊 DOWNLOAD PAUSED" : "📊 DOWNLOAD COMPLETED");
 	console.log(
-		`Results: ${successCount}/${totalShots} successful (${Math.round(
-			(successCount / totalShots) * 100,
+		`Results: ${successCount}/${processedCount} successful (${Math.round(
+			(successCount / Math.max(processedCount, 1)) * 100,
 		)}%)`,
 	);
 	console.log(`Total time: ${totalElapsed}`);
@@ -1092,6 +1809,237 @@ async function promptForShotSearchPattern(): Promise<string | null> {
 	return searchPattern.trim() || null;
 }
 
+/**
+ * Prompt user for a download folder to verify
+ */
+async function promptForVerifyDirectory(): Promise<string> {
+	const directory = await Input.prompt({
+		message: "Enter the download folder to verify:",
+		validate: (input: string) => {
+			if (!input.trim()) {
+				return "Folder path is required";
+			}
+			return true;
+		},
+	});
+
+	return directory.trim();
+}
+
+/**
+ * Ask whether to sync into the download folder instead of creating a new one
+ */
+async function promptForSync(): Promise<boolean> {
+	return await Confirm.prompt({
+		message:
+			"Sync into this folder? (only new or changed files are downloaded, no timestamped subfolder)",
+		default: false,
+	});
+}
+
+/**
+ * Let the user pick the naming template for this run: the default, a saved
+ * one, or a new custom template that can be saved for later
+ */
+export async function selectNamingTemplate(
+	defaultTemplate: string = DEFAULT_NAMING_TEMPLATE,
+): Promise<string> {
+	const savedTemplates = await loadNamingTemplates();
+	const CUSTOM = "__custom__";
+
+	const choice = await Select.prompt({
+		message: "Select file naming template:",
+		options: [
+			{
+				name: `Default (${defaultTemplate})`,
+				value: defaultTemplate,
+			},
+			...Object.entries(savedTemplates).map(([name, template]) => ({
+				name: `${name} (${template})`,
+				value: template,
+			})),
+			{ name: "Custom template...", value: CUSTOM },
+		],
+	});
+
+	if (choice !== CUSTOM) {
+		return choice;
+	}
+
+	const tokens = NAMING_TEMPLATE_TOKENS.map((token) => `{${token}}`).join(" ");
+	const template = await Input.prompt({
+		message: `Enter template, use / for folders (e.g. {sequence}/{shot}/{shot}_{task}_v{version:03}.{ext})\n Tokens: ${tokens}\n`,
+		validate: (input: string) => validateNamingTemplate(input.trim()) ?? true,
+	});
+
+	const save = await Confirm.prompt({
+		message: "Save this template for future runs?",
+		default: false,
+	});
+	if (save) {
+		const name = await Input.prompt({
+			message: "Template name:",
+			validate: (input: string) =>
+				input.trim() ? true : "Template name is required",
+		});
+		await saveNamingTemplate(name.trim(), template.trim());
+		console.log(`💾 Saved naming template "${name.trim()}"`);
+	}
+
+	return template.trim();
+}
+
+/**
+ * Resolve a naming template given on the command line: the name of a saved
+ * template, or a template itself
+ */
+export async function resolveNamingTemplate(
+	nameOrTemplate: string,
+): Promise<string> {
+	const savedTemplates = await loadNamingTemplates();
+	const template = savedTemplates[nameOrTemplate] ?? nameOrTemplate;
+
+	const error = validateNamingTemplate(template);
+	if (error) {
+		throw new Error(`Invalid naming template "${template}": ${error}`);
+	}
+	return template;
+}
+
+/**
+ * Optionally configure bandwidth cap, retries and concurrency for this run
+ */
+async function configureTransferOptions(): Promise<DownloadTransferOptions> {
+	const configure = await Confirm.prompt({
+		message:
+			"Configure transfer settings (bandwidth cap, retries, concurrency)?",
+		default: false,
+	});
+	if (!configure) {
+		return {};
+	}
+
+	const parseNumber = (min: number) => (input: string) => {
+		const value = Number(input.trim());
+		return Number.isFinite(value) && value >= min
+			? true
+			: `Enter a number of at least ${min}`;
+	};
+
+	const maxMegabytesPerSecond = await Input.prompt({
+		message: "Bandwidth cap in MB/s for all downloads (0 = unlimited):",
+		default: "0",
+		validate: parseNumber(0),
+	});
+	const maxConcurrentDownloads = await Input.prompt({
+		message: "Maximum concurrent downloads:",
+		default: "4",
+		validate: parseNumber(1),
+	});
+	const maxRetries = await Input.prompt({
+		message: "Retries per file on server errors and timeouts:",
+		default: "3",
+		validate: parseNumber(0),
+	});
+	const adaptiveConcurrency = await Confirm.prompt({
+		message: "Lower concurrency automatically when throughput per file drops?",
+		default: true,
+	});
+
+	return {
+		maxBytesPerSecond: Number(maxMegabytesPerSecond) * 1024 * 1024,
+		maxConcurrentDownloads: Math.floor(Number(maxConcurrentDownloads)),
+		maxRetries: Math.floor(Number(maxRetries)),
+		adaptiveConcurrency,
+	};
+}
+
+/**
+ * Optionally fetch components from mounted storage locations instead of over
+ * HTTP, asking for the mount path of each location not saved yet
+ */
+async function configureLocalTransfer(): Promise<LocalTransferOptions | null> {
+	const mode = await Select.prompt({
+		message: "Fetch files from mounted storage locations?",
+		options: [
+			{ name: "No, download over HTTP", value: "http" },
+			{
+				name: "Copy from mounted storage (HTTP when missing)",
+				value: "copy",
+			},
+			{
+				name: "Hardlink from mounted storage (HTTP when missing)",
+				value: "hardlink",
+			},
+		],
+	});
+	if (mode === "http") {
+		return null;
+	}
+
+	const locationPrefixes = await loadLocationPrefixes();
+	for (const [locationName, prefix] of Object.entries(locationPrefixes)) {
+		console.log(`   ${locationName} → ${prefix}`);
+	}
+
+	while (
+		Object.keys(locationPrefixes).length === 0 ||
+		(await Confirm.prompt({
+			message: "Add a location mount path?",
+			default: false,
+		}))
+	) {
+		const locationName = (
+			await Input.prompt({
+				message: "Location name (as shown in ftrack):",
+				validate: (input: string) =>
+					input.trim() ? true : "Location name is required",
+			})
+		).trim();
+		const prefix = (
+			await Input.prompt({
+				message: `Path where "${locationName}" is mounted:`,
+				validate: (input: string) =>
+					input.trim() ? true : "Mount path is required",
+			})
+		).trim();
+
+		locationPrefixes[locationName] = prefix;
+		await saveLocationPrefix(locationName, prefix);
+		console.log(`💾 Saved mount path for "${locationName}"`);
+	}
+
+	return { mode: mode as LocalTransferMode, locationPrefixes };
+}
+
+/**
+ * Copy or hardlink components from mounted locations for this run. The
+ * given prefixes take precedence over saved ones.
+ */
+async function applyLocalTransfer(
+	local: LocalTransferOptions,
+	componentService: ComponentService,
+	mediaDownloadService: MediaDownloadService,
+): Promise<void> {
+	const locationPrefixes = {
+		...(await loadLocationPrefixes()),
+		...local.locationPrefixes,
+	};
+	if (Object.keys(locationPrefixes).length === 0) {
+		throw new Error(
+			"No location mount paths configured for copying from mounted storage",
+		);
+	}
+
+	componentService.setLocationPrefixes(locationPrefixes);
+	mediaDownloadService.setLocalTransferMode(local.mode);
+	console.log(
+		`\n📂 ${local.mode === "hardlink" ? "Hardlinking" : "Copying"} from mounted locations (${Object.keys(
+			locationPrefixes,
+		).join(", ")}), downloading over HTTP when missing`,
+	);
+}
+
 /**
  * Get user's media preference
  */
@@ -1110,6 +2058,34 @@ async function selectMediaPreference(): Promise<MediaPreference> {
 	return preference as MediaPreference;
 }
 
+/**
+ * Offer the saved component profiles for choosing components, when any
+ * @returns The profile name, or undefined to use the media preference's order
+ */
+async function selectComponentProfile(
+	componentService: ComponentService,
+): Promise<string | undefined> {
+	const profileNames = componentService.getCustomProfileNames();
+	if (profileNames.length === 0) {
+		return undefined;
+	}
+
+	const profile = await Select.prompt({
+		message: "Select components with:",
+		options: [
+			{ name: "Media preference (default order)", value: "" },
+			...profileNames.map((name) => ({
+				name: `Profile "${name}" (${componentService
+					.getProfileTypes(name)
+					.join(" > ")})`,
+				value: name,
+			})),
+		],
+	});
+
+	return profile || undefined;
+}
+
 /**
  * Get download path from user
  */
@@ -1169,41 +2145,38 @@ async function processAssetVersion(
 			};
 		}
 
-		const componentType = componentService.identifyComponentType(bestComponent);
+		const componentType =
+			componentService.formatComponentTypeDisplay(bestComponent);
 		console.log(
 			`🎯 Selected component: ${bestComponent.name} (${componentType})`,
 		);
 
-		// Get download URL
-		const downloadUrl = await componentService.getDownloadUrl(bestComponent.id);
+		// Get download URL (and the frames of image sequences)
+		const task = await createDownloadTask(
+			bestComponent,
+			version,
+			downloadPath,
+			componentService,
+			mediaDownloadService,
+		);
 		await debugToFile(
 			DEBUG_LOG_PATH,
 			`Generated download URL for component ${bestComponent.id}:`,
-			downloadUrl,
+			task?.url,
 		);
 
-		if (!downloadUrl) {
+		if (!task) {
 			console.log(
 				`❌ Could not get download URL for component: ${bestComponent.name}`,
 			);
 			return { success: false, reason: "Could not get download URL" };
 		}
 
-		// Generate filename
-		const filename = mediaDownloadService.generateSafeFilename(
-			bestComponent,
-			version,
-		);
-
-		console.log(`📥 Starting download: ${filename}`);
+		console.log(`📥 Starting download: ${task.filename}`);
 
 		// Download the file
-		await mediaDownloadService.downloadFile(
-			downloadUrl,
-			downloadPath,
-			filename,
-		);
-		console.log(`✅ Download completed: ${filename}`);
+		await mediaDownloadService.downloadComponent(task);
+		console.log(`✅ Download completed: ${task.filename}`);
 
 		return { success: true };
 	} catch (error) {
@@ -1257,32 +2230,28 @@ async function processAssetVersionWithProgress(
 		const componentType = componentService.identifyComponentType(bestComponent);
 		progressCallback(50, `Selected ${componentType} component`);
 
-		// Get download URL
-		const downloadUrl = await componentService.getDownloadUrl(bestComponent.id);
+		// Get download URL (and the frames of image sequences)
+		const task = await createDownloadTask(
+			bestComponent,
+			version,
+			downloadPath,
+			componentService,
+			mediaDownloadService,
+		);
 		await debugToFile(
 			DEBUG_LOG_PATH,
 			`Generated download URL for component ${bestComponent.id}:`,
-			downloadUrl,
+			task?.url,
 		);
 
-		if (!downloadUrl) {
+		if (!task) {
 			return { success: false, reason: "Could not get download URL" };
 		}
 
 		progressCallback(70, "Starting download...");
 
-		// Generate filename
-		const filename = mediaDownloadService.generateSafeFilename(
-			bestComponent,
-			version,
-		);
-
 		// Download the file
-		await mediaDownloadService.downloadFile(
-			downloadUrl,
-			downloadPath,
-			filename,
-		);
+		await mediaDownloadService.downloadComponent(task);
 
 		progressCallback(100, "✅ Completed");
 
@@ -1297,6 +2266,76 @@ async function processAssetVersionWithProgress(
 	}
 }
 
+/**
+ * Build the download task for a component with its HTTP URL and mounted
+ * path. Image sequences get a task per frame, written into a folder named
+ * after the sequence.
+ * @returns The task, or null when the component (or any frame) can neither
+ * be downloaded nor copied
+ */
+async function createDownloadTask(
+	component: Component,
+	version: AssetVersion,
+	downloadPath: string,
+	componentService: ComponentService,
+	mediaDownloadService: MediaDownloadService,
+): Promise<DownloadTask | null> {
+	const resolveSource = async (source: Component) => ({
+		url: await componentService.getDownloadUrl(source.id),
+		localPath: componentService.getLocalPath(source),
+	});
+	const filename = mediaDownloadService.generateSafeFilename(
+		component,
+		version,
+	);
+
+	if (!componentService.isSequenceComponent(component)) {
+		const { url, localPath } = await resolveSource(component);
+		return url || localPath
+			? {
+					component,
+					assetVersion: version,
+					url,
+					localPath,
+					outputPath: downloadPath,
+					filename,
+				}
+			: null;
+	}
+
+	const members = component.members ?? [];
+	const sequenceMembers: DownloadTask[] = [];
+	for (const member of members) {
+		const { url, localPath } = await resolveSource(member);
+		if (!url && !localPath) {
+			return null;
+		}
+		sequenceMembers.push({
+			component: member,
+			assetVersion: version,
+			url,
+			localPath,
+			outputPath: downloadPath,
+			filename: mediaDownloadService.generateSequenceFrameFilename(
+				filename,
+				component,
+				member,
+			),
+		});
+	}
+
+	return sequenceMembers.length > 0
+		? {
+				component,
+				assetVersion: version,
+				url: null,
+				outputPath: downloadPath,
+				filename,
+				sequenceMembers,
+			}
+		: null;
+}
+
 /**
  * Handle fallback downloads for failed media downloads
  */
@@ -1376,7 +2415,7 @@ async function handleFallbackDownloads(
 }
 
 /**
- * Handle automatic fallback with priority: 720p > 1080p > image > original
+ * Handle automatic fallback using the "fallback" component profile
  */
 async function handleAutomaticFallback(
 	_shot: Shot,
@@ -1385,87 +2424,37 @@ async function handleAutomaticFallback(
 	componentService: ComponentService,
 	mediaDownloadService: MediaDownloadService,
 	downloadPath: string,
-): Promise<void> {
-	// Categorize components by type
-	const componentsByType = new Map<string, Component[]>();
-
-	for (const component of components) {
-		const type = componentService.identifyComponentType(component);
-		if (!componentsByType.has(type)) {
-			componentsByType.set(type, []);
-		}
-		componentsByType.get(type)!.push(component);
-	}
-
-	// Define fallback priority: 720p > 1080p > image > original > other
-	const fallbackPriority = [
-		"encoded-720p",
-		"encoded-1080p",
-		"other",
-		"original",
-	];
-
-	let selectedComponent: Component | null = null;
-	let selectedType = "";
-
-	for (const type of fallbackPriority) {
-		const componentsOfType = componentsByType.get(type);
-		if (componentsOfType && componentsOfType.length > 0) {
-			// For 'other' type, prefer image files
-			if (type === "other") {
-				const imageComponent = componentsOfType.find(
-					(c) =>
-						c.file_type &&
-						["jpg", "jpeg", "png", "tiff", "tif", "exr", "dpx"].some((ext) =>
-							c.file_type.toLowerCase().includes(ext),
-						),
-				);
-				if (imageComponent) {
-					selectedComponent = imageComponent;
-					selectedType = "image";
-					break;
-				}
-			} else {
-				// For other types, pick the largest component
-				selectedComponent = componentsOfType.reduce((best, current) =>
-					(current.size || 0) > (best.size || 0) ? current : best,
-				);
-				selectedType = type;
-				break;
-			}
-		}
-	}
-
-	if (!selectedComponent) {
+): Promise<boolean> {
+	// Priority from the "fallback" profile, by default 720p > 1080p > image > original
+	const selected = componentService.findFallbackComponent(components);
+	if (!selected) {
 		console.log(`❌ No suitable fallback component found`);
-		return;
+		return false;
 	}
+	const { component: selectedComponent, type: selectedType } = selected;
 
 	console.log(`🎯 Auto-selected: ${selectedComponent.name} (${selectedType})`);
 
 	try {
-		const downloadUrl = await componentService.getDownloadUrl(
-			selectedComponent.id,
-		);
-		if (!downloadUrl) {
-			console.log(`❌ Could not get download URL for fallback component`);
-			return;
-		}
-
-		const filename = mediaDownloadService.generateSafeFilename(
+		const task = await createDownloadTask(
 			selectedComponent,
 			version,
-		);
-		console.log(`📥 Starting fallback download: ${filename}`);
-
-		await mediaDownloadService.downloadFile(
-			downloadUrl,
 			downloadPath,
-			filename,
+			componentService,
+			mediaDownloadService,
 		);
-		console.log(`✅ Fallback download completed: ${filename}`);
+		if (!task) {
+			console.log(`❌ Could not get download URL for fallback component`);
+			return false;
+		}
+
+		console.log(`📥 Starting fallback download: ${task.filename}`);
+		await mediaDownloadService.downloadComponent(task);
+		console.log(`✅ Fallback download completed: ${task.filename}`);
+		return true;
 	} catch (error) {
 		console.log(`❌ Fallback download failed: ${error}`);
+		return false;
 	}
 }
 
@@ -1484,7 +2473,7 @@ async function handleManualFallback(
 
 	// Create options for each component with type and size info
 	const componentOptions = components.map((component, index) => {
-		const type = componentService.identifyComponentType(component);
+		const type = componentService.formatComponentTypeDisplay(component);
 		const sizeInfo = component.size
 			? formatBytes(component.size)
 			: "Unknown size";
@@ -1514,26 +2503,21 @@ async function handleManualFallback(
 	console.log(`🎯 Selected: ${selectedComponent.name}`);
 
 	try {
-		const downloadUrl = await componentService.getDownloadUrl(
-			selectedComponent.id,
+		const task = await createDownloadTask(
+			selectedComponent,
+			version,
+			downloadPath,
+			componentService,
+			mediaDownloadService,
 		);
-		if (!downloadUrl) {
+		if (!task) {
 			console.log(`❌ Could not get download URL for selected component`);
 			return;
 		}
 
-		const filename = mediaDownloadService.generateSafeFilename(
-			selectedComponent,
-			version,
-		);
-		console.log(`📥 Starting download: ${filename}`);
-
-		await mediaDownloadService.downloadFile(
-			downloadUrl,
-			downloadPath,
-			filename,
-		);
-		console.log(`✅ Download completed: ${filename}`);
+		console.log(`📥 Starting download: ${task.filename}`);
+		await mediaDownloadService.downloadComponent(task);
+		console.log(`✅ Download completed: ${task.filename}`);
 	} catch (error) {
 		console.log(`❌ Download failed: ${error}`);
 	}
@@ -1,20 +1,31 @@
 import type { Session } from "@ftrack/api";
-import { Input } from "@cliffy/prompt";
+import { Confirm, Input } from "@cliffy/prompt";
 import { debug } from "../utils/debug.ts";
 import type { ProjectContextService } from "../services/projectContext.ts";
 import type { QueryService } from "../services/queries.ts";
 import { handleError, withErrorHandling } from "../utils/errorHandler.ts";
+import type {
+	InspectOptions,
+	InspectRecord,
+	NoteInspection,
+} from "../types/inspect.ts";
 
 export async function inspectNote(
 	session: Session,
 	projectContextService: ProjectContextService,
 	_queryService: QueryService,
 	noteId?: string,
-): Promise<void> {
+	options: InspectOptions = {},
+): Promise<NoteInspection | null> {
 	const projectContext = projectContextService.getContext();
 	const contextDisplay = projectContext.isGlobal
 		? "all projects"
 		: `project "${projectContext.project?.name}"`;
+	let outputJson = options.json ?? false;
+	// Text output is suppressed when emitting JSON so stdout stays parseable
+	const log = (...args: unknown[]) => {
+		if (!outputJson) console.log(...args);
+	};
 
 	try {
 		// Prompt for note ID if not provided
@@ -29,9 +40,16 @@ export async function inspectNote(
 				},
 			});
 			noteId = noteId.trim();
+
+			if (options.json === undefined) {
+				outputJson = await Confirm.prompt({
+					message: "Output as JSON?",
+					default: false,
+				});
+			}
 		}
 
-		console.log(`\n🔍 Inspecting Note: ${noteId} (${contextDisplay})`);
+		log(`\n🔍 Inspecting Note: ${noteId} (${contextDisplay})`);
 
 		// Fetch note details using direct session query (notes don't need project scoping)
 		const noteResponse = await withErrorHandling(
@@ -59,30 +77,33 @@ export async function inspectNote(
 		);
 
 		if (!noteResponse?.data || noteResponse.data.length === 0) {
-			console.log(`❌ Note with ID "${noteId}" not found`);
-			return;
+			if (outputJson) {
+				throw new Error(`Note with ID "${noteId}" not found`);
+			}
+			log(`❌ Note with ID "${noteId}" not found`);
+			return null;
 		}
 
 		const note = noteResponse.data[0];
 
 		// Display note information
-		console.log("\n📝 Note Details:");
-		console.log(`   ID: ${note.id}`);
-		console.log(`   Content: ${note.content || "No content"}`);
-		console.log(
+		log("\n📝 Note Details:");
+		log(`   ID: ${note.id}`);
+		log(`   Content: ${note.content || "No content"}`);
+		log(
 			`   Author: ${note.author?.first_name} ${note.author?.last_name} (${note.author?.username})`,
 		);
-		console.log(
+		log(
 			`   Date: ${
 				note.date ? new Date(note.date).toLocaleString() : "Unknown"
 			}`,
 		);
-		console.log(
+		log(
 			`   Category: ${note.category?.name || "No category"} ${
 				note.category?.color ? `(${note.category.color})` : ""
 			}`,
 		);
-		console.log(
+		log(
 			`   Parent: ${note.parent?.name || "No parent"} ${
 				note.parent?.id ? `(${note.parent.id})` : ""
 			}`,
@@ -108,21 +129,21 @@ export async function inspectNote(
 		);
 
 		if (componentsResponse?.data && componentsResponse.data.length > 0) {
-			console.log("\n📎 Attachments:");
+			log("\n📎 Attachments:");
 			componentsResponse.data.forEach((component: unknown) => {
 				const comp = component as {
 					name: string;
 					file_type?: string;
 					size?: number;
 				};
-				console.log(
+				log(
 					`   • ${comp.name} (${comp.file_type || "unknown type"}, ${
 						comp.size ? `${comp.size} bytes` : "unknown size"
 					})`,
 				);
 			});
 		} else {
-			console.log("\n📎 No attachments found");
+			log("\n📎 No attachments found");
 		}
 
 		// Fetch component locations using direct session query
@@ -144,14 +165,14 @@ export async function inspectNote(
 		);
 
 		if (locationsResponse?.data && locationsResponse.data.length > 0) {
-			console.log("\n📍 Component Locations:");
+			log("\n📍 Component Locations:");
 			locationsResponse.data.forEach((location: unknown) => {
 				const loc = location as {
 					component?: { name: string };
 					location?: { name: string };
 					resource_identifier: string;
 				};
-				console.log(
+				log(
 					`   • ${loc.component?.name}: ${loc.location?.name} - ${loc.resource_identifier}`,
 				);
 			});
@@ -175,16 +196,28 @@ export async function inspectNote(
 		);
 
 		if (metadataResponse?.data && metadataResponse.data.length > 0) {
-			console.log("\n🏷️  Metadata:");
+			log("\n🏷️  Metadata:");
 			metadataResponse.data.forEach((meta: unknown) => {
 				const metadata = meta as { key: string; value: string };
-				console.log(`   ${metadata.key}: ${metadata.value}`);
+				log(`   ${metadata.key}: ${metadata.value}`);
 			});
 		} else {
-			console.log("\n🏷️  No metadata found");
+			log("\n🏷️  No metadata found");
+		}
+
+		const result: NoteInspection = {
+			note: note as InspectRecord,
+			attachments: (componentsResponse?.data ?? []) as InspectRecord[],
+			componentLocations: (locationsResponse?.data ?? []) as InspectRecord[],
+			metadata: (metadataResponse?.data ?? []) as InspectRecord[],
+		};
+
+		if (outputJson) {
+			console.log(JSON.stringify(result, null, 2));
 		}
 
 		debug(`Note inspection completed for ID: ${noteId}`);
+		return result;
 	} catch (error) {
 		handleError(error, {
 			operation: "inspect note",
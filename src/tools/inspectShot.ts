@@ -1,20 +1,31 @@
 import type { Session } from "@ftrack/api";
-import { Input } from "@cliffy/prompt";
+import { Confirm, Input } from "@cliffy/prompt";
 import { debug } from "../utils/debug.ts";
 import type { ProjectContextService } from "../services/projectContext.ts";
 import type { QueryService } from "../services/queries.ts";
 import { handleError, withErrorHandling } from "../utils/errorHandler.ts";
+import type {
+	InspectOptions,
+	InspectRecord,
+	ShotInspection,
+} from "../types/inspect.ts";
 
 export async function inspectShot(
 	_session: Session,
 	projectContextService: ProjectContextService,
 	queryService: QueryService,
 	shotId?: string,
-): Promise<void> {
+	options: InspectOptions = {},
+): Promise<ShotInspection | null> {
 	const projectContext = projectContextService.getContext();
 	const contextDisplay = projectContext.isGlobal
 		? "all projects"
 		: `project "${projectContext.project?.name}"`;
+	let outputJson = options.json ?? false;
+	// Text output is suppressed when emitting JSON so stdout stays parseable
+	const log = (...args: unknown[]) => {
+		if (!outputJson) console.log(...args);
+	};
 
 	try {
 		// Prompt for shot ID if not provided
@@ -29,9 +40,16 @@ export async function inspectShot(
 				},
 			});
 			shotId = shotId.trim();
+
+			if (options.json === undefined) {
+				outputJson = await Confirm.prompt({
+					message: "Output as JSON?",
+					default: false,
+				});
+			}
 		}
 
-		console.log(`\n🔍 Inspecting Shot: ${shotId} (${contextDisplay})`);
+		log(`\n🔍 Inspecting Shot: ${shotId} (${contextDisplay})`);
 
 		// Fetch shot details using QueryService
 		const shotResponse = await withErrorHandling(
@@ -44,8 +62,11 @@ export async function inspectShot(
 		);
 
 		if (!shotResponse?.data || shotResponse.data.length === 0) {
-			console.log(`❌ Shot with ID "${shotId}" not found`);
-			return;
+			if (outputJson) {
+				throw new Error(`Shot with ID "${shotId}" not found`);
+			}
+			log(`❌ Shot with ID "${shotId}" not found`);
+			return null;
 		}
 
 		const shot = shotResponse.data[0];
@@ -57,11 +78,11 @@ export async function inspectShot(
 		};
 
 		// Display shot information
-		console.log("\n🎬 Shot Details:");
-		console.log(`   ID: ${shotData.id}`);
-		console.log(`   Name: ${shotData.name}`);
-		console.log(`   Status: ${shotData.status?.name || "No status"}`);
-		console.log(`   Parent: ${shotData.parent?.name || "No parent"}`);
+		log("\n🎬 Shot Details:");
+		log(`   ID: ${shotData.id}`);
+		log(`   Name: ${shotData.name}`);
+		log(`   Status: ${shotData.status?.name || "No status"}`);
+		log(`   Parent: ${shotData.parent?.name || "No parent"}`);
 
 		// Fetch associated tasks using QueryService
 		const tasksResponse = await withErrorHandling(
@@ -74,7 +95,7 @@ export async function inspectShot(
 		);
 
 		if (tasksResponse?.data && tasksResponse.data.length > 0) {
-			console.log("\n📋 Associated Tasks:");
+			log("\n📋 Associated Tasks:");
 			tasksResponse.data.forEach((task: unknown) => {
 				const taskData = task as {
 					id: string;
@@ -82,14 +103,14 @@ export async function inspectShot(
 					type?: { name?: string };
 					status?: { name?: string };
 				};
-				console.log(
+				log(
 					`   • ${taskData.name} (${taskData.type?.name || "Unknown type"})`,
 				);
-				console.log(`     Status: ${taskData.status?.name || "No status"}`);
-				console.log(`     ID: ${taskData.id}`);
+				log(`     Status: ${taskData.status?.name || "No status"}`);
+				log(`     ID: ${taskData.id}`);
 			});
 		} else {
-			console.log("\n📋 No associated tasks found");
+			log("\n📋 No associated tasks found");
 		}
 
 		// Fetch latest versions using QueryService
@@ -103,7 +124,7 @@ export async function inspectShot(
 		);
 
 		if (versionsResponse?.data && versionsResponse.data.length > 0) {
-			console.log("\n📦 Latest Versions:");
+			log("\n📦 Latest Versions:");
 			versionsResponse.data.forEach((version: unknown) => {
 				const versionData = version as {
 					id: string;
@@ -111,23 +132,34 @@ export async function inspectShot(
 					asset?: { name?: string; parent?: { name?: string } };
 					task?: { name?: string };
 				};
-				console.log(
+				log(
 					`   • ${versionData.asset?.name || "Unknown asset"} v${
 						versionData.version || "Unknown"
 					}`,
 				);
-				console.log(`     Task: ${versionData.task?.name || "Unknown task"}`);
-				console.log(
+				log(`     Task: ${versionData.task?.name || "Unknown task"}`);
+				log(
 					`     Parent: ${versionData.asset?.parent?.name || "Unknown parent"}`,
 				);
-				console.log(`     ID: ${versionData.id}`);
-				console.log("");
+				log(`     ID: ${versionData.id}`);
+				log("");
 			});
 		} else {
-			console.log("\n📦 No versions found");
+			log("\n📦 No versions found");
+		}
+
+		const result: ShotInspection = {
+			shot: shot as InspectRecord,
+			tasks: (tasksResponse?.data ?? []) as InspectRecord[],
+			versions: (versionsResponse?.data ?? []) as InspectRecord[],
+		};
+
+		if (outputJson) {
+			console.log(JSON.stringify(result, null, 2));
 		}
 
 		debug(`Shot inspection completed for ID: ${shotId}`);
+		return result;
 	} catch (error) {
 		handleError(error, {
 			operation: "inspect shot",
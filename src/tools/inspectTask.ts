@@ -1,20 +1,31 @@
 import type { Session } from "@ftrack/api";
-import { Input } from "@cliffy/prompt";
+import { Confirm, Input } from "@cliffy/prompt";
 import { debug } from "../utils/debug.ts";
 import type { ProjectContextService } from "../services/projectContext.ts";
 import type { QueryService } from "../services/queries.ts";
 import { handleError, withErrorHandling } from "../utils/errorHandler.ts";
+import type {
+	InspectOptions,
+	InspectRecord,
+	TaskInspection,
+} from "../types/inspect.ts";
 
 export async function inspectTask(
 	session: Session,
 	projectContextService: ProjectContextService,
 	queryService: QueryService,
 	taskId?: string,
-): Promise<void> {
+	options: InspectOptions = {},
+): Promise<TaskInspection | null> {
 	const projectContext = projectContextService.getContext();
 	const contextDisplay = projectContext.isGlobal
 		? "all projects"
 		: `project "${projectContext.project?.name}"`;
+	let outputJson = options.json ?? false;
+	// Text output is suppressed when emitting JSON so stdout stays parseable
+	const log = (...args: unknown[]) => {
+		if (!outputJson) console.log(...args);
+	};
 
 	try {
 		// Prompt for task ID if not provided
@@ -29,9 +40,16 @@ export async function inspectTask(
 				},
 			});
 			taskId = taskId.trim();
+
+			if (options.json === undefined) {
+				outputJson = await Confirm.prompt({
+					message: "Output as JSON?",
+					default: false,
+				});
+			}
 		}
 
-		console.log(`\n🔍 Inspecting Task: ${taskId} (${contextDisplay})`);
+		log(`\n🔍 Inspecting Task: ${taskId} (${contextDisplay})`);
 
 		// Fetch task details using QueryService
 		const taskResponse = await withErrorHandling(
@@ -44,8 +62,11 @@ export async function inspectTask(
 		);
 
 		if (!taskResponse?.data || taskResponse.data.length === 0) {
-			console.log(`❌ Task with ID "${taskId}" not found`);
-			return;
+			if (outputJson) {
+				throw new Error(`Task with ID "${taskId}" not found`);
+			}
+			log(`❌ Task with ID "${taskId}" not found`);
+			return null;
 		}
 
 		const task = taskResponse.data[0];
@@ -58,12 +79,12 @@ export async function inspectTask(
 		};
 
 		// Display task information
-		console.log("\n📋 Task Details:");
-		console.log(`   ID: ${taskData.id}`);
-		console.log(`   Name: ${taskData.name}`);
-		console.log(`   Type: ${taskData.type?.name || "Unknown type"}`);
-		console.log(`   Status: ${taskData.status?.name || "No status"}`);
-		console.log(`   Parent: ${taskData.parent?.name || "No parent"}`);
+		log("\n📋 Task Details:");
+		log(`   ID: ${taskData.id}`);
+		log(`   Name: ${taskData.name}`);
+		log(`   Type: ${taskData.type?.name || "Unknown type"}`);
+		log(`   Status: ${taskData.status?.name || "No status"}`);
+		log(`   Parent: ${taskData.parent?.name || "No parent"}`);
 
 		// Fetch time logs using direct session query (time logs don't need project scoping)
 		const timeLogsResponse = await withErrorHandling(
@@ -90,9 +111,9 @@ export async function inspectTask(
 		);
 
 		if (timeLogsResponse?.data && timeLogsResponse.data.length > 0) {
-			console.log("\n⏰ Recent Time Logs (last 10):");
-			timeLogsResponse.data.forEach((log: unknown) => {
-				const logData = log as {
+			log("\n⏰ Recent Time Logs (last 10):");
+			timeLogsResponse.data.forEach((timeLog: unknown) => {
+				const logData = timeLog as {
 					id: string;
 					duration?: number;
 					start?: string;
@@ -109,14 +130,14 @@ export async function inspectTask(
 					? `${logData.user.first_name} ${logData.user.last_name} (${logData.user.username})`
 					: "Unknown user";
 
-				console.log(`   • ${duration} - ${user}`);
-				console.log(`     Start: ${start}`);
-				console.log(`     Comment: ${logData.comment || "No comment"}`);
-				console.log(`     ID: ${logData.id}`);
-				console.log("");
+				log(`   • ${duration} - ${user}`);
+				log(`     Start: ${start}`);
+				log(`     Comment: ${logData.comment || "No comment"}`);
+				log(`     ID: ${logData.id}`);
+				log("");
 			});
 		} else {
-			console.log("\n⏰ No time logs found");
+			log("\n⏰ No time logs found");
 		}
 
 		// Fetch associated versions using QueryService
@@ -130,7 +151,7 @@ export async function inspectTask(
 		);
 
 		if (versionsResponse?.data && versionsResponse.data.length > 0) {
-			console.log("\n📦 Associated Versions:");
+			log("\n📦 Associated Versions:");
 			versionsResponse.data.forEach((version: unknown) => {
 				const versionData = version as {
 					id: string;
@@ -138,23 +159,34 @@ export async function inspectTask(
 					asset?: { name?: string; parent?: { name?: string } };
 					task?: { name?: string };
 				};
-				console.log(
+				log(
 					`   • ${versionData.asset?.name || "Unknown asset"} v${
 						versionData.version || "Unknown"
 					}`,
 				);
-				console.log(`     Task: ${versionData.task?.name || "Unknown task"}`);
-				console.log(
+				log(`     Task: ${versionData.task?.name || "Unknown task"}`);
+				log(
 					`     Parent: ${versionData.asset?.parent?.name || "Unknown parent"}`,
 				);
-				console.log(`     ID: ${versionData.id}`);
-				console.log("");
+				log(`     ID: ${versionData.id}`);
+				log("");
 			});
 		} else {
-			console.log("\n📦 No associated versions found");
+			log("\n📦 No associated versions found");
+		}
+
+		const result: TaskInspection = {
+			task: task as InspectRecord,
+			timeLogs: (timeLogsResponse?.data ?? []) as InspectRecord[],
+			versions: (versionsResponse?.data ?? []) as InspectRecord[],
+		};
+
+		if (outputJson) {
+			console.log(JSON.stringify(result, null, 2));
 		}
 
 		debug(`Task inspection completed for ID: ${taskId}`);
+		return result;
 	} catch (error) {
 		handleError(error, {
 			operation: "inspect task",
@@ -1,20 +1,31 @@
 import type { Session } from "@ftrack/api";
-import { Input } from "@cliffy/prompt";
+import { Confirm, Input } from "@cliffy/prompt";
 import { debug } from "../utils/debug.ts";
 import type { ProjectContextService } from "../services/projectContext.ts";
 import type { QueryService } from "../services/queries.ts";
 import { handleError, withErrorHandling } from "../utils/errorHandler.ts";
+import type {
+	InspectOptions,
+	InspectRecord,
+	VersionInspection,
+} from "../types/inspect.ts";
 
 export async function inspectVersion(
 	session: Session,
 	projectContextService: ProjectContextService,
 	queryService: QueryService,
 	versionId?: string,
-): Promise<void> {
+	options: InspectOptions = {},
+): Promise<VersionInspection | null> {
 	const projectContext = projectContextService.getContext();
 	const contextDisplay = projectContext.isGlobal
 		? "all projects"
 		: `project "${projectContext.project?.name}"`;
+	let outputJson = options.json ?? false;
+	// Text output is suppressed when emitting JSON so stdout stays parseable
+	const log = (...args: unknown[]) => {
+		if (!outputJson) console.log(...args);
+	};
 
 	try {
 		// Prompt for version ID if not provided
@@ -29,9 +40,16 @@ export async function inspectVersion(
 				},
 			});
 			versionId = versionId.trim();
+
+			if (options.json === undefined) {
+				outputJson = await Confirm.prompt({
+					message: "Output as JSON?",
+					default: false,
+				});
+			}
 		}
 
-		console.log(`\n🔍 Inspecting Version: ${versionId} (${contextDisplay})`);
+		log(`\n🔍 Inspecting Version: ${versionId} (${contextDisplay})`);
 
 		// Fetch version details using QueryService
 		const versionResponse = await withErrorHandling(
@@ -44,8 +62,11 @@ export async function inspectVersion(
 		);
 
 		if (!versionResponse?.data || versionResponse.data.length === 0) {
-			console.log(`❌ Version with ID "${versionId}" not found`);
-			return;
+			if (outputJson) {
+				throw new Error(`Version with ID "${versionId}" not found`);
+			}
+			log(`❌ Version with ID "${versionId}" not found`);
+			return null;
 		}
 
 		const version = versionResponse.data[0];
@@ -61,23 +82,23 @@ export async function inspectVersion(
 		};
 
 		// Display version information
-		console.log("\n📦 Version Details:");
-		console.log(`   ID: ${versionData.id}`);
-		console.log(`   Asset: ${versionData.asset?.name || "Unknown asset"}`);
-		console.log(`   Version: ${versionData.version || "Unknown"}`);
-		console.log(`   Status: ${versionData.status?.name || "No status"}`);
-		console.log(`   Task: ${versionData.task?.name || "No task"}`);
-		console.log(
+		log("\n📦 Version Details:");
+		log(`   ID: ${versionData.id}`);
+		log(`   Asset: ${versionData.asset?.name || "Unknown asset"}`);
+		log(`   Version: ${versionData.version || "Unknown"}`);
+		log(`   Status: ${versionData.status?.name || "No status"}`);
+		log(`   Task: ${versionData.task?.name || "No task"}`);
+		log(
 			`   User: ${versionData.user?.first_name} ${versionData.user?.last_name} (${versionData.user?.username})`,
 		);
-		console.log(
+		log(
 			`   Date: ${
 				versionData.date
 					? new Date(versionData.date).toLocaleString()
 					: "Unknown"
 			}`,
 		);
-		console.log(`   Comment: ${versionData.comment || "No comment"}`);
+		log(`   Comment: ${versionData.comment || "No comment"}`);
 
 		// Fetch custom attribute links using direct session query (custom attributes don't need project scoping)
 		const customAttributeLinksResponse = await withErrorHandling(
@@ -103,7 +124,7 @@ export async function inspectVersion(
 			customAttributeLinksResponse?.data &&
 			customAttributeLinksResponse.data.length > 0
 		) {
-			console.log("\n🏷️ Custom Attributes:");
+			log("\n🏷️ Custom Attributes:");
 			customAttributeLinksResponse.data.forEach((attr: unknown) => {
 				const attrData = attr as {
 					id: string;
@@ -114,21 +135,21 @@ export async function inspectVersion(
 						type?: { name?: string };
 					};
 				};
-				console.log(
+				log(
 					`   • ${
 						attrData.configuration?.label ||
 						attrData.configuration?.key ||
 						"Unknown"
 					}: ${attrData.value || "No value"}`,
 				);
-				console.log(
+				log(
 					`     Type: ${attrData.configuration?.type?.name || "Unknown type"}`,
 				);
-				console.log(`     ID: ${attrData.id}`);
-				console.log("");
+				log(`     ID: ${attrData.id}`);
+				log("");
 			});
 		} else {
-			console.log("\n🏷️ No custom attributes found");
+			log("\n🏷️ No custom attributes found");
 		}
 
 		// Fetch linked notes using direct session query (notes don't need project scoping)
@@ -156,7 +177,7 @@ export async function inspectVersion(
 		);
 
 		if (linkedNotesResponse?.data && linkedNotesResponse.data.length > 0) {
-			console.log("\n📝 Linked Notes (last 10):");
+			log("\n📝 Linked Notes (last 10):");
 			linkedNotesResponse.data.forEach((note: unknown) => {
 				const noteData = note as {
 					id: string;
@@ -172,17 +193,28 @@ export async function inspectVersion(
 					? new Date(noteData.date).toLocaleString()
 					: "Unknown date";
 
-				console.log(`   • ${noteData.category?.name || "General"} - ${user}`);
-				console.log(`     Date: ${date}`);
-				console.log(`     Content: ${noteData.content || "No content"}`);
-				console.log(`     ID: ${noteData.id}`);
-				console.log("");
+				log(`   • ${noteData.category?.name || "General"} - ${user}`);
+				log(`     Date: ${date}`);
+				log(`     Content: ${noteData.content || "No content"}`);
+				log(`     ID: ${noteData.id}`);
+				log("");
 			});
 		} else {
-			console.log("\n📝 No linked notes found");
+			log("\n📝 No linked notes found");
+		}
+
+		const result: VersionInspection = {
+			version: version as InspectRecord,
+			customAttributes: (customAttributeLinksResponse?.data ?? []) as InspectRecord[],
+			notes: (linkedNotesResponse?.data ?? []) as InspectRecord[],
+		};
+
+		if (outputJson) {
+			console.log(JSON.stringify(result, null, 2));
 		}
 
 		debug(`Version inspection completed for ID: ${versionId}`);
+		return result;
 	} catch (error) {
 		handleError(error, {
 			operation: "inspect version",
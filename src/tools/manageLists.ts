@@ -41,9 +41,21 @@ interface PaginatedListDisplay {
 	totalPages: number;
 }
 
+/**
+ * Non-interactive options used by the headless CLI
+ */
+export interface ManageListsOptions {
+	mode: OperationMode;
+	listName?: string;
+	categoryName?: string;
+	shotCodes?: string[];
+	confirmDelete?: boolean;
+}
+
 export async function manageLists(
 	session: Session,
 	projectContextService: ProjectContextService,
+	options?: ManageListsOptions,
 ): Promise<void> {
 	try {
 		debug("Starting manageLists process");
@@ -55,6 +67,11 @@ export async function manageLists(
 
 		console.log(chalk.blue(`\nManaging lists for: ${contextInfo}\n`));
 
+		if (options) {
+			await runHeadlessListOperation(session, projectContextService, options);
+			return;
+		}
+
 		// Mode selection
 		const mode = await Select.prompt({
 			message: "What would you like to do?",
@@ -82,6 +99,139 @@ export async function manageLists(
 	}
 }
 
+/**
+ * Runs a list operation from CLI options without prompting
+ */
+async function runHeadlessListOperation(
+	session: Session,
+	projectContextService: ProjectContextService,
+	options: ManageListsOptions,
+): Promise<void> {
+	if (options.mode === "create_list") {
+		const name = options.listName?.trim();
+		const projectId = projectContextService.getCurrentProjectId();
+		if (!name || !options.categoryName) {
+			throw new Error("A list name and category are required to create a list");
+		}
+		if (!projectId) {
+			throw new Error("A project must be selected to create a list");
+		}
+
+		const existing = await session.query(
+			projectContextService.buildProjectScopedQuery(
+				`select id from List where name is "${name}"`,
+			),
+		);
+		if (existing.data?.length) {
+			throw new Error(`A list named "${name}" already exists`);
+		}
+
+		const categoryResponse = await session.query(
+			`select id, name from ListCategory where name is "${options.categoryName}"`,
+		);
+		const category = categoryResponse.data?.[0] as ListCategory | undefined;
+		if (!category) {
+			throw new Error(`List category "${options.categoryName}" not found`);
+		}
+
+		await session.call([
+			{
+				action: "create",
+				entity_type: "List",
+				entity_data: {
+					name,
+					category_id: category.id,
+					project_id: projectId,
+					is_open: true,
+				},
+			},
+		]);
+		console.log(
+			chalk.green(
+				`✅ Successfully created list "${name}" in category "${category.name}"`,
+			),
+		);
+		return;
+	}
+
+	const list = await findListByName(
+		session,
+		projectContextService,
+		options.listName,
+	);
+
+	if (options.mode === "delete_list") {
+		if (!options.confirmDelete) {
+			throw new Error(
+				`Refusing to delete list "${list.name}" without explicit confirmation`,
+			);
+		}
+		await session.call([
+			{ action: "delete", entity_type: "List", entity_key: list.id },
+		]);
+		console.log(chalk.green(`✅ Successfully deleted list "${list.name}"`));
+		return;
+	}
+
+	const codes = options.shotCodes ?? [];
+	if (codes.length === 0) {
+		throw new Error("No shot codes provided");
+	}
+
+	const { shotsToAdd, notFoundCodes, alreadyLinkedShots } =
+		await resolveShotsForList(session, projectContextService, list.id, codes);
+
+	if (notFoundCodes.length > 0) {
+		console.log(
+			chalk.yellow(`Shot codes not found: ${notFoundCodes.join(", ")}`),
+		);
+	}
+	if (alreadyLinkedShots.length > 0) {
+		console.log(
+			chalk.yellow(
+				`Already in list: ${alreadyLinkedShots.map((shot) => shot.name).join(", ")}`,
+			),
+		);
+	}
+
+	if (shotsToAdd.length > 0) {
+		await linkShotsToList(session, list.id, shotsToAdd);
+		console.log(
+			chalk.green(
+				`Successfully added ${shotsToAdd.length} shots to list "${list.name}"`,
+			),
+		);
+	}
+
+	if (notFoundCodes.length > 0) {
+		throw new Error(`${notFoundCodes.length} shot code(s) were not found`);
+	}
+}
+
+/**
+ * Finds a list by name in the current project scope
+ */
+async function findListByName(
+	session: Session,
+	projectContextService: ProjectContextService,
+	listName?: string,
+): Promise<{ id: string; name: string }> {
+	if (!listName) {
+		throw new Error("A list name is required");
+	}
+
+	const response = await session.query(
+		projectContextService.buildProjectScopedQuery(
+			`select id, name from List where name is "${listName}"`,
+		),
+	);
+	const list = response.data?.[0] as List | undefined;
+	if (!list) {
+		throw new Error(`List "${listName}" not found`);
+	}
+	return { id: list.id, name: list.name || listName };
+}
+
 /**
  * Fetches and organizes lists by category
  */
@@ -698,21 +848,13 @@ async function addShotsToList(
 
 	debug(`Parsed ${parsedCodes.length} shot codes: ${parsedCodes.join(", ")}`);
 
-	// Query shots that match the provided codes using project scoping
-	const shotQuery = projectContextService.buildProjectScopedQuery(`
-    select id, name, parent.name
-    from Shot
-    where name in (${parsedCodes.map((code: string) => `"${code}"`).join(",")})
-  `);
-
-	const shotsResponse = await session.query(shotQuery);
-	const foundShots = (shotsResponse.data || []) as Shot[];
-
-	// Compare found shots against requested codes
-	const foundShotNames = foundShots.map((shot) => shot.name);
-	const notFoundCodes = parsedCodes.filter(
-		(code: string) => !foundShotNames.includes(code),
-	);
+	const { foundShots, notFoundCodes, shotsToAdd, alreadyLinkedShots } =
+		await resolveShotsForList(
+			session,
+			projectContextService,
+			listId,
+			parsedCodes,
+		);
 
 	if (notFoundCodes.length > 0) {
 		console.log(
@@ -735,24 +877,6 @@ async function addShotsToList(
 		console.log(`- ${shot.name} (${shot.parent?.name || "No Parent"})`);
 	});
 
-	// Check if shots are already in the list
-	const existingLinksResponse = await session.query(`
-    select entity_id
-    from ListObject
-    where list_id is "${listId}"
-  `);
-
-	const existingLinks = (existingLinksResponse.data || []) as ListObject[];
-	const existingEntityIds = existingLinks.map((link) => link.entity_id);
-
-	// Filter out shots that are already in the list
-	const shotsToAdd = foundShots.filter(
-		(shot) => !existingEntityIds.includes(shot.id),
-	);
-	const alreadyLinkedShots = foundShots.filter((shot) =>
-		existingEntityIds.includes(shot.id),
-	);
-
 	if (alreadyLinkedShots.length > 0) {
 		console.log(chalk.yellow(`\nThe following shots are already in the list:`));
 		alreadyLinkedShots.forEach((shot) => {
@@ -791,8 +915,75 @@ async function addShotsToList(
 		return addShotsToList(session, projectContextService, listId, listName);
 	}
 
-	// Create list objects to link shots to the list
-	const operations = shotsToAdd.map((shot) => ({
+	await linkShotsToList(session, listId, shotsToAdd);
+
+	console.log(
+		chalk.green(
+			`\nSuccessfully added ${shotsToAdd.length} shots to list "${listName}"`,
+		),
+	);
+}
+
+/**
+ * Looks up shots by code and splits them by whether they are already in the list
+ */
+async function resolveShotsForList(
+	session: Session,
+	projectContextService: ProjectContextService,
+	listId: string,
+	shotCodes: string[],
+): Promise<{
+	foundShots: Shot[];
+	notFoundCodes: string[];
+	shotsToAdd: Shot[];
+	alreadyLinkedShots: Shot[];
+}> {
+	// Query shots that match the provided codes using project scoping
+	const shotQuery = projectContextService.buildProjectScopedQuery(`
+    select id, name, parent.name
+    from Shot
+    where name in (${shotCodes.map((code: string) => `"${code}"`).join(",")})
+  `);
+
+	const shotsResponse = await session.query(shotQuery);
+	const foundShots = (shotsResponse.data || []) as Shot[];
+
+	// Compare found shots against requested codes
+	const foundShotNames = foundShots.map((shot) => shot.name);
+	const notFoundCodes = shotCodes.filter(
+		(code: string) => !foundShotNames.includes(code),
+	);
+
+	// Check if shots are already in the list
+	const existingLinksResponse = await session.query(`
+    select entity_id
+    from ListObject
+    where list_id is "${listId}"
+  `);
+
+	const existingLinks = (existingLinksResponse.data || []) as ListObject[];
+	const existingEntityIds = existingLinks.map((link) => link.entity_id);
+
+	// Filter out shots that are already in the list
+	const shotsToAdd = foundShots.filter(
+		(shot) => !existingEntityIds.includes(shot.id),
+	);
+	const alreadyLinkedShots = foundShots.filter((shot) =>
+		existingEntityIds.includes(shot.id),
+	);
+
+	return { foundShots, notFoundCodes, shotsToAdd, alreadyLinkedShots };
+}
+
+/**
+ * Creates list objects to link shots to the list
+ */
+async function linkShotsToList(
+	session: Session,
+	listId: string,
+	shots: Shot[],
+): Promise<void> {
+	const operations = shots.map((shot) => ({
 		action: "create",
 		entity_type: "ListObject",
 		entity_data: {
@@ -804,10 +995,4 @@ async function addShotsToList(
 	debug(`Creating ${operations.length} links to list ${listId}`);
 	const result = await session.call(operations);
 	debug(`Create operation result: ${JSON.stringify(result)}`);
-
-	console.log(
-		chalk.green(
-			`\nSuccessfully added ${shotsToAdd.length} shots to list "${listName}"`,
-		),
-	);
 }
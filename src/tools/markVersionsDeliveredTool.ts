@@ -0,0 +1,364 @@
+import type { Session } from "@ftrack/api";
+import { Confirm, Input, Select } from "@cliffy/prompt";
+import chalk from "chalk";
+import { debug } from "../utils/debug.ts";
+import { loadLatestVersionMappings } from "../utils/preferences.ts";
+import { resolveLatestVersionMapping } from "../utils/latestVersionMapping.ts";
+import { loadComponentRules } from "../utils/componentRules.ts";
+import { DEFAULT_NAMING_TEMPLATE } from "../utils/namingTemplate.ts";
+import type { ProjectContextService } from "../services/projectContext.ts";
+import type { QueryService } from "../services/queries.ts";
+import { SessionService } from "../services/session.ts";
+import { ComponentService } from "../services/componentService.ts";
+import { MediaDownloadService } from "../services/mediaDownloadService.ts";
+import { ListService } from "../services/listService.ts";
+import { DeliveryService } from "../services/deliveryService.ts";
+import {
+	resolveNamingTemplate,
+	selectNamingTemplate,
+} from "./downloadMediaTool.ts";
+import { updateLatestVersionsSent } from "./updateLatestVersions.ts";
+import type {
+	DeliveryFolderMatch,
+	DeliveryVersion,
+	MarkDeliveredOptions,
+	MarkDeliveredResult,
+} from "../types/markDelivered.ts";
+import type { ChangeReviewer } from "../types/changeReview.ts";
+
+/**
+ * Parse the date sent, defaulting to now
+ * @throws When the date cannot be parsed
+ */
+export function parseDateSent(input?: string): string {
+	if (!input?.trim()) {
+		return new Date().toISOString();
+	}
+	const time = Date.parse(input.trim());
+	if (Number.isNaN(time)) {
+		throw new Error(`Invalid date "${input}", expected e.g. 2024-03-01`);
+	}
+	return new Date(time).toISOString();
+}
+
+/**
+ * Match a delivery folder, using the naming template and component rules
+ * the files were downloaded with
+ */
+async function matchDeliveryFolder(
+	session: Session,
+	queryService: QueryService,
+	deliveryService: DeliveryService,
+	mediaDownloadService: MediaDownloadService,
+	folder: string,
+	namingTemplate: string,
+): Promise<string[]> {
+	const componentService = new ComponentService(
+		new SessionService(session),
+		queryService,
+	);
+	componentService.setComponentRules(await loadComponentRules());
+	mediaDownloadService.setComponentTypeResolver((component) =>
+		componentService.identifyComponentType(component),
+	);
+	mediaDownloadService.setNamingTemplate(namingTemplate);
+
+	console.log(chalk.blue(`Matching files in ${folder}... ⏳`));
+	const match = await deliveryService.matchFolder(folder);
+	printFolderMatch(match);
+	return Object.keys(match.files);
+}
+
+function printFolderMatch(match: DeliveryFolderMatch): void {
+	const matched = Object.values(match.files).flat();
+	console.log(
+		`Matched ${matched.length} file(s) to ${Object.keys(match.files).length} version(s)`,
+	);
+	if (match.unmatched.length > 0) {
+		console.log(
+			chalk.yellow(`⚠️  ${match.unmatched.length} file(s) match no version:`),
+		);
+		for (const file of match.unmatched) {
+			console.log(chalk.yellow(`  - ${file}`));
+		}
+	}
+}
+
+/**
+ * Show the versions to mark, with their current delivery values
+ */
+function printVersions(
+	versions: DeliveryVersion[],
+	dateSent: string,
+	status?: string,
+): void {
+	console.log(chalk.bold(`\nVersions to mark delivered (${versions.length}):`));
+	for (const version of versions) {
+		const current = version.delivered
+			? chalk.gray(
+					` (already delivered${
+						version.dateSent
+							? ` on ${new Date(version.dateSent).toISOString().split("T")[0]}`
+							: ""
+					})`,
+				)
+			: "";
+		const statusChange =
+			status && status !== version.status
+				? ` · ${version.status ?? "No status"} → ${status}`
+				: "";
+		console.log(`  - ${version.label}${statusChange}${current}`);
+	}
+	console.log(`\nDate sent: ${dateSent}`);
+}
+
+function printResult(result: MarkDeliveredResult, total: number): void {
+	console.log(
+		chalk.green(`\n✅ Marked ${result.marked.length} version(s) delivered`),
+	);
+	if (result.failures.length > 0) {
+		console.log(
+			chalk.yellow(
+				`⚠️  ${result.failures.length} of ${total} version(s) could not be marked:`,
+			),
+		);
+		for (const { versionId, error } of result.failures) {
+			console.log(chalk.yellow(`  - ${versionId}: ${error}`));
+		}
+	}
+}
+
+/**
+ * Let the user pick where the versions come from
+ */
+async function selectVersionIds(
+	session: Session,
+	projectContextService: ProjectContextService,
+	queryService: QueryService,
+	deliveryService: DeliveryService,
+	mediaDownloadService: MediaDownloadService,
+): Promise<string[]> {
+	const source = await Select.prompt({
+		message: "Select the versions to mark delivered:",
+		options: [
+			{ name: "Enter version IDs", value: "ids" },
+			{ name: "From a list", value: "list" },
+			{ name: "Match the files of a delivery folder", value: "folder" },
+		],
+	});
+
+	if (source === "ids") {
+		const idsRaw = await Input.prompt({
+			message: "Enter Version IDs (comma-separated)",
+			default: "",
+		});
+		return idsRaw
+			.split(/[,\s]+/)
+			.map((s) => s.trim())
+			.filter(Boolean);
+	}
+
+	if (source === "list") {
+		const listService = new ListService(session, projectContextService);
+		const lists = await listService.fetchAssetVersionLists();
+		if (lists.length === 0) {
+			console.log(chalk.yellow("No lists found in current project scope."));
+			return [];
+		}
+		const listId = await Select.prompt({
+			message: "Select a list:",
+			options: lists.map((list) => ({ name: list.name, value: list.id })),
+		});
+		return await listService.getAssetVersionIdsFromList(listId);
+	}
+
+	const folder = await Input.prompt({
+		message: "Delivery folder:",
+		validate: (input: string) =>
+			input.trim() ? true : "Delivery folder is required",
+	});
+	return await matchDeliveryFolder(
+		session,
+		queryService,
+		deliveryService,
+		mediaDownloadService,
+		folder.trim(),
+		await selectNamingTemplate(),
+	);
+}
+
+/**
+ * Mark Versions Delivered Tool
+ * Sets the Delivered and date sent attributes (of the latest version
+ * mapping) on versions picked by ID, from a list, or by matching the files
+ * of a delivery folder, optionally moves them to a status, and then offers
+ * to update the latest versions sent (reviewed with `reviewChanges`).
+ * When `options` is provided the prompts are skipped (headless CLI).
+ */
+export async function markVersionsDeliveredTool(
+	session: Session,
+	projectContextService: ProjectContextService,
+	queryService: QueryService,
+	options?: MarkDeliveredOptions,
+	reviewChanges?: ChangeReviewer,
+): Promise<void> {
+	debug("Starting Mark Versions Delivered Tool");
+
+	const { mapping } = resolveLatestVersionMapping(
+		await loadLatestVersionMappings(),
+		options?.mapping,
+		projectContextService.getContext().project?.name,
+	);
+	const mediaDownloadService = new MediaDownloadService();
+	const deliveryService = new DeliveryService(
+		session,
+		queryService,
+		mapping,
+		mediaDownloadService,
+	);
+
+	if (options) {
+		let versionIds = options.versionIds ?? [];
+		if (options.listId) {
+			versionIds = await new ListService(
+				session,
+				projectContextService,
+			).getAssetVersionIdsFromList(options.listId);
+		} else if (options.folder) {
+			versionIds = await matchDeliveryFolder(
+				session,
+				queryService,
+				deliveryService,
+				mediaDownloadService,
+				options.folder,
+				options.namingTemplate
+					? await resolveNamingTemplate(options.namingTemplate)
+					: DEFAULT_NAMING_TEMPLATE,
+			);
+		}
+		if (versionIds.length === 0) {
+			console.log(chalk.yellow("No versions to mark delivered."));
+			return;
+		}
+
+		const dateSent = parseDateSent(options.date);
+		const versions = await deliveryService.loadVersions(versionIds);
+		const status = options.status
+			? await deliveryService.findStatus(options.status, versions)
+			: undefined;
+		printVersions(versions, dateSent, status?.name);
+
+		if (!options.apply) {
+			console.log(
+				chalk.yellow("\nPreview only - pass --apply to mark them delivered."),
+			);
+			return;
+		}
+
+		const result = await deliveryService.markDelivered({
+			versionIds: versions.map((version) => version.id),
+			dateSent,
+			statusId: status?.id,
+		});
+		printResult(result, versions.length);
+		if (result.failures.length > 0) {
+			throw new Error(
+				`${result.failures.length} of ${versions.length} version(s) could not be marked delivered`,
+			);
+		}
+
+		if (options.rollup) {
+			await updateLatestVersionsSent(
+				session,
+				projectContextService,
+				queryService,
+				{ mode: "new", apply: true, mapping: options.mapping },
+			);
+		}
+		return;
+	}
+
+	console.log(chalk.blue("\n📦 Mark Versions Delivered"));
+
+	const versionIds = await selectVersionIds(
+		session,
+		projectContextService,
+		queryService,
+		deliveryService,
+		mediaDownloadService,
+	);
+	if (versionIds.length === 0) {
+		console.log(chalk.yellow("No versions to mark delivered."));
+		return;
+	}
+	const versions = await deliveryService.loadVersions(versionIds);
+
+	const dateSent = parseDateSent(
+		await Input.prompt({
+			message: "Date sent (e.g. 2024-03-01, empty for now):",
+			default: "",
+			validate: (input: string) => {
+				try {
+					parseDateSent(input);
+					return true;
+				} catch (error) {
+					return (error as Error).message;
+				}
+			},
+		}),
+	);
+
+	let status: { id: string; name: string } | undefined;
+	const moveStatus = await Confirm.prompt({
+		message: "Move the versions to a status?",
+		default: false,
+	});
+	if (moveStatus) {
+		const statuses = await deliveryService.fetchStatuses(versions);
+		if (statuses.length === 0) {
+			console.log(
+				chalk.yellow(
+					"No version status is common to the versions' projects; keeping their statuses.",
+				),
+			);
+		} else {
+			const statusId = await Select.prompt({
+				message: "Select the status:",
+				options: statuses.map((s) => ({ name: s.name, value: s.id })),
+			});
+			status = statuses.find((s) => s.id === statusId);
+		}
+	}
+
+	printVersions(versions, dateSent, status?.name);
+
+	const proceed = await Confirm.prompt({
+		message: `Mark ${versions.length} version(s) delivered?`,
+		default: false,
+	});
+	if (!proceed) {
+		console.log(chalk.yellow("Cancelled."));
+		return;
+	}
+
+	const result = await deliveryService.markDelivered({
+		versionIds: versions.map((version) => version.id),
+		dateSent,
+		statusId: status?.id,
+	});
+	printResult(result, versions.length);
+
+	const rollup = await Confirm.prompt({
+		message: "Update the latest versions sent now?",
+		default: true,
+	});
+	if (rollup) {
+		await updateLatestVersionsSent(
+			session,
+			projectContextService,
+			queryService,
+			undefined,
+			reviewChanges,
+		);
+	}
+}
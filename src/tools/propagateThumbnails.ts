@@ -38,8 +38,8 @@ export async function propagateThumbnails(
 		: `project "${projectContext.project?.name}"`;
 
 	try {
-		// Prompt for shot ID if not provided
-		if (!shotId) {
+		// Prompt for shot ID if not provided (an empty string processes all shots)
+		if (shotId === undefined) {
 			debug("No shot ID provided, prompting user for input");
 			shotId = await Input.prompt({
 				message: "Enter Shot ID (leave empty to process all shots):",
@@ -0,0 +1,111 @@
+import type { Session } from "@ftrack/api";
+import { Confirm, Select } from "@cliffy/prompt";
+import chalk from "chalk";
+import { debug } from "../utils/debug.ts";
+import type { ProjectContextService } from "../services/projectContext.ts";
+import type { QueryService } from "../services/queries.ts";
+import { DeletionJournalService } from "../services/deletionJournalService.ts";
+import { DeletionRestoreService } from "../services/deletionRestoreService.ts";
+import type {
+	RestoreDeletionOptions,
+	RestoreResult,
+} from "../types/deletionJournal.ts";
+
+/**
+ * Print what was (or would be) restored for each journal entry
+ */
+function printRestoreResults(results: RestoreResult[], apply: boolean): void {
+	for (const result of results) {
+		console.log(chalk.bold(`\n${result.label}`));
+		for (const item of result.restored) {
+			console.log(
+				chalk.green(`  ${apply ? "✅ Restored" : "+ Would restore"}: ${item}`),
+			);
+		}
+		for (const item of result.notRestored) {
+			console.log(chalk.yellow(`  ⚠️  Cannot restore: ${item}`));
+		}
+	}
+
+	const restored = results.reduce((total, r) => total + r.restored.length, 0);
+	const notRestored = results.reduce(
+		(total, r) => total + r.notRestored.length,
+		0,
+	);
+	console.log(`\nSummary:`);
+	console.log(` - ${apply ? "Restored" : "Restorable"}: ${restored}`);
+	console.log(` - Cannot restore: ${notRestored}`);
+}
+
+/**
+ * Restore Deletion Tool
+ * Recreates the versions, components, locations, custom attribute values and
+ * list memberships recorded in a deletion journal, and reports what cannot be
+ * recreated (e.g. files that were stored in ftrack.server).
+ * When `options` is provided the prompts are skipped (headless CLI).
+ */
+export async function restoreDeletionTool(
+	session: Session,
+	_projectContextService: ProjectContextService,
+	_queryService: QueryService,
+	options?: RestoreDeletionOptions,
+): Promise<void> {
+	debug("Starting Restore Deletion Tool");
+
+	const journalService = new DeletionJournalService(session);
+	const restoreService = new DeletionRestoreService(session, journalService);
+
+	if (options) {
+		const apply = options.apply ?? false;
+		const results = await restoreService.restoreJournal(
+			options.journalPath,
+			apply,
+		);
+		printRestoreResults(results, apply);
+		if (!apply) {
+			console.log(chalk.yellow("\nDry run only - pass --apply to restore."));
+		}
+		return;
+	}
+
+	console.log(chalk.blue("\n♻️  Restore Deletion Tool"));
+
+	const journals = await journalService.listJournals();
+	if (journals.length === 0) {
+		console.log(chalk.yellow("No deletion journals found."));
+		return;
+	}
+
+	const journalPath = await Select.prompt({
+		message: "Select the deletion to restore:",
+		options: journals.map((journal) => ({
+			name: `${new Date(journal.createdAt).toLocaleString()} - ${journal.mode}, ${journal.entries} version(s)${
+				journal.restored > 0 ? ` (${journal.restored} restored)` : ""
+			}`,
+			value: journal.path,
+		})),
+	});
+
+	// Preview first, restore after confirmation
+	console.log(chalk.blue("\n📋 Restore preview"));
+	const preview = await restoreService.restoreJournal(journalPath, false);
+	printRestoreResults(preview, false);
+
+	if (!preview.some((result) => result.restored.length > 0)) {
+		console.log(chalk.yellow("\nNothing left to restore."));
+		return;
+	}
+
+	const proceed = await Confirm.prompt({
+		message: "Restore the entities listed above?",
+		default: false,
+	});
+	if (!proceed) {
+		console.log(chalk.yellow("Operation cancelled."));
+		return;
+	}
+
+	const results = await restoreService.restoreJournal(journalPath, true);
+	printRestoreResults(results, true);
+	console.log(chalk.green(`\n✅ Restore completed!`));
+}
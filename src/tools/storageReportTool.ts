@@ -0,0 +1,263 @@
+import type { Session } from "@ftrack/api";
+import { Select } from "@cliffy/prompt";
+import chalk from "chalk";
+import { debug } from "../utils/debug.ts";
+import { loadLatestVersionMappings } from "../utils/preferences.ts";
+import { resolveLatestVersionMapping } from "../utils/latestVersionMapping.ts";
+import type { ProjectContextService } from "../services/projectContext.ts";
+import type { QueryService } from "../services/queries.ts";
+import { DeletionService } from "../services/deletionService.ts";
+import { DeletionProtectionService } from "../services/deletionProtectionService.ts";
+import {
+	STORAGE_DIMENSIONS,
+	StorageReportService,
+} from "../services/storageReportService.ts";
+import type {
+	StorageDimension,
+	StorageReport,
+	StorageReportOptions,
+	StorageSortKey,
+} from "../types/storageReport.ts";
+import {
+	getDownloadsDirectory,
+	verifyDirectoryAccess,
+} from "../utils/systemPaths.ts";
+
+const DEFAULT_TOP = 20;
+
+const DIMENSION_LABELS: Record<StorageDimension, string> = {
+	sequence: "Sequence",
+	shot: "Shot",
+	asset_type: "Asset Type",
+	status: "Status",
+	user: "User",
+	age: "Age",
+	location: "Location",
+};
+
+const SORT_LABELS: Record<StorageSortKey, string> = {
+	size: "Size (largest first)",
+	name: "Name (A-Z)",
+	components: "Components (most first)",
+	versions: "Versions (most first)",
+};
+
+/**
+ * Print rows as aligned columns; numeric columns are right-aligned
+ */
+function printTable(
+	headers: string[],
+	rows: string[][],
+	rightAligned: boolean[],
+): void {
+	const widths = headers.map((header, column) =>
+		Math.max(header.length, ...rows.map((row) => row[column].length)),
+	);
+	const format = (cells: string[]) =>
+		cells
+			.map((cell, column) =>
+				rightAligned[column]
+					? cell.padStart(widths[column])
+					: cell.padEnd(widths[column]),
+			)
+			.join("  ");
+
+	console.log(chalk.bold(format(headers)));
+	console.log(widths.map((width) => "─".repeat(width)).join("  "));
+	for (const row of rows) {
+		console.log(format(row));
+	}
+}
+
+function printTotals(report: StorageReport): void {
+	console.log(chalk.bold(`\n📊 Storage used by ${report.scope}`));
+	console.log(` - Total size: ${DeletionService.formatBytes(report.totalBytes)}`);
+	console.log(` - Components: ${report.totalComponents}`);
+	console.log(` - Versions: ${report.totalVersions}`);
+}
+
+function printBreakdown(
+	report: StorageReport,
+	dimension: StorageDimension,
+	sortBy: StorageSortKey,
+	top: number,
+): void {
+	const rows = StorageReportService.sortRows(report.groups[dimension], sortBy);
+	console.log(chalk.blue(`\nBy ${DIMENSION_LABELS[dimension]}:`));
+	printTable(
+		[DIMENSION_LABELS[dimension], "Size", "%", "Components", "Versions"],
+		rows.slice(0, top).map((row) => [
+			row.key,
+			DeletionService.formatBytes(row.bytes),
+			report.totalBytes
+				? ((row.bytes / report.totalBytes) * 100).toFixed(1)
+				: "0.0",
+			String(row.components),
+			String(row.versions),
+		]),
+		[false, true, true, true, true],
+	);
+	if (rows.length > top) {
+		console.log(chalk.gray(`... ${rows.length - top} more in the CSV export`));
+	}
+}
+
+function printCandidates(report: StorageReport, top: number): void {
+	if (report.protectedCandidates.length > 0) {
+		const protectedBytes = report.protectedCandidates.reduce(
+			(total, candidate) => total + candidate.bytes,
+			0,
+		);
+		console.log(
+			chalk.gray(
+				`\n🛡️  ${report.protectedCandidates.length} superseded version(s) (${DeletionService.formatBytes(protectedBytes)}) are protected from deletion and left out.`,
+			),
+		);
+	}
+
+	const candidates = report.candidates.slice(0, top);
+	if (candidates.length === 0) {
+		console.log(chalk.green("\nNo reclaimable versions found."));
+		return;
+	}
+
+	const reclaimable = report.candidates.reduce(
+		(total, candidate) => total + candidate.bytes,
+		0,
+	);
+	console.log(
+		chalk.yellow(
+			`\n♻️  Top reclaimable candidates - superseded versions, ${
+				report.candidates.length
+			} in total (${DeletionService.formatBytes(reclaimable)}):`,
+		),
+	);
+	printTable(
+		["Version", "Shot", "Latest", "Status", "User", "Age", "Size", "ID"],
+		candidates.map((candidate) => [
+			candidate.label,
+			candidate.shot,
+			`v${candidate.latestVersion}`,
+			candidate.status ?? "",
+			candidate.user ?? "",
+			`${candidate.ageDays}d`,
+			DeletionService.formatBytes(candidate.bytes),
+			candidate.versionId,
+		]),
+		[false, false, false, false, false, true, true, false],
+	);
+	console.log(
+		chalk.gray("Delete them with the Delete Media tool, by version ID."),
+	);
+}
+
+async function exportReport(
+	storageReportService: StorageReportService,
+	report: StorageReport,
+	directory: string,
+): Promise<void> {
+	if (!(await verifyDirectoryAccess(directory))) {
+		console.log(chalk.red(`❌ Cannot write to report directory at: ${directory}`));
+		return;
+	}
+	const paths = await storageReportService.writeReport(report, directory);
+	console.log(chalk.green("\n📝 Storage report exported:"));
+	console.log(` - CSV: ${paths.csvPath}`);
+	console.log(` - Candidates CSV: ${paths.candidatesCsvPath}`);
+	console.log(` - JSON: ${paths.jsonPath}`);
+}
+
+/**
+ * Storage Report Tool
+ * Shows where storage is going: component sizes added up by sequence, shot,
+ * asset type, status, user, age and location, with the largest superseded
+ * versions highlighted as reclaimable (protected versions left out).
+ * Exports CSV and JSON.
+ * When `options` is provided the prompts are skipped (headless CLI).
+ */
+export async function storageReportTool(
+	session: Session,
+	projectContextService: ProjectContextService,
+	queryService: QueryService,
+	options?: StorageReportOptions,
+): Promise<void> {
+	debug("Starting Storage Report Tool");
+
+	const projectContext = projectContextService.getContext();
+	const scope = projectContext.isGlobal
+		? "all projects"
+		: `project "${projectContext.project?.name}"`;
+
+	const { mapping } = resolveLatestVersionMapping(
+		await loadLatestVersionMappings(),
+		undefined,
+		projectContext.project?.name,
+	);
+	const storageReportService = new StorageReportService(
+		queryService,
+		new DeletionProtectionService(session, mapping),
+	);
+	console.log(chalk.blue(`\nCollecting component sizes for ${scope}...`));
+	const report = await storageReportService.excludeProtectedCandidates(
+		storageReportService.buildReport(
+			await storageReportService.fetchVersions(),
+			scope,
+		),
+	);
+	printTotals(report);
+
+	if (options) {
+		const top = options.top ?? DEFAULT_TOP;
+		for (const dimension of options.dimension
+			? [options.dimension]
+			: STORAGE_DIMENSIONS) {
+			printBreakdown(report, dimension, options.sortBy ?? "size", top);
+		}
+		printCandidates(report, top);
+		await exportReport(
+			storageReportService,
+			report,
+			options.outputDir || getDownloadsDirectory(),
+		);
+		return;
+	}
+
+	while (true) {
+		const action = await Select.prompt({
+			message: "What would you like to see?",
+			options: [
+				...STORAGE_DIMENSIONS.map((dimension) => ({
+					name: `📊 By ${DIMENSION_LABELS[dimension]}`,
+					value: dimension,
+				})),
+				{ name: "♻️  Reclaimable candidates", value: "candidates" },
+				{ name: "📝 Export CSV and JSON", value: "export" },
+				{ name: "🚪 Exit", value: "exit" },
+			],
+		});
+
+		if (action === "exit") {
+			return;
+		}
+		if (action === "candidates") {
+			printCandidates(report, DEFAULT_TOP);
+		} else if (action === "export") {
+			await exportReport(storageReportService, report, getDownloadsDirectory());
+		} else {
+			const sortBy = (await Select.prompt({
+				message: "Sort by:",
+				options: Object.entries(SORT_LABELS).map(([value, name]) => ({
+					name,
+					value,
+				})),
+				default: "size",
+			})) as StorageSortKey;
+			printBreakdown(
+				report,
+				action as StorageDimension,
+				sortBy,
+				Number.POSITIVE_INFINITY,
+			);
+		}
+	}
+}
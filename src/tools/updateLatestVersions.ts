@@ -1,5 +1,6 @@
 /**
- * Updates shots' latest delivered version links and sent dates.
+ * Updates shots' latest delivered version links and sent dates, or rolls the
+ * delivered versions up to sequences, episodes or asset builds.
  *
  * This tool provides two main modes:
  * 1. Check for new changes only (default)
@@ -15,53 +16,123 @@
  * 1. Get all shots and their current version links
  * 2. Find the latest delivered version for each shot
  * 3. Show a preview of all proposed changes
- * 4. Allow batch or individual update confirmation
+ * 4. Allow batch or individual update confirmation, or a review of all
+ *    changes in a table (in the Ink app)
  *
  * Note: Only considers published and delivered versions
+ *
+ * Rollups use one aggregation per run: the latest delivered version and its
+ * sent date (the shot behaviour above), the count of delivered versions, or
+ * the list of shots with delivered versions.
+ *
+ * The attribute keys come from an attribute mapping (see
+ * utils/latestVersionMapping.ts), which is checked against the server's
+ * configurations before anything is loaded.
  */
 
-import type { Session } from "@ftrack/api";
-import { Confirm, Select } from "@cliffy/prompt";
+import type { operation, Session } from "@ftrack/api";
+import { Confirm, Input, Select } from "@cliffy/prompt";
 import chalk from "chalk";
+import { createObjectCsvWriter } from "csv-writer";
 import type {
 	AssetVersion,
 	ContextCustomAttributeValue,
 	Shot,
 } from "../schemas/schema.ts";
-import { isDeliveredAttribute } from "../types/index.ts";
+import type {
+	ChangeReviewer,
+	ChangeReviewRow,
+} from "../types/changeReview.ts";
+import type {
+	LatestVersionMapping,
+	LatestVersionMappingCheck,
+	LatestVersionMappingProfile,
+	LatestVersionRollup,
+	RollupAggregation,
+	RollupLevel,
+} from "../types/latestVersionMapping.ts";
 import { debug } from "../utils/debug.ts";
+import { callInBatches } from "../utils/batchCall.ts";
+import {
+	DEFAULT_ROLLUP,
+	LATEST_VERSION_MAPPING_LABELS,
+	resolveLatestVersionMapping,
+	ROLLUP_LEVELS,
+	ROLLUP_OBJECT_TYPES,
+	ROLLUP_VALUE_KEYS,
+	rollupMappingKeys,
+} from "../utils/latestVersionMapping.ts";
+import {
+	loadLatestVersionMappings,
+	saveLatestVersionMapping,
+} from "../utils/preferences.ts";
+import {
+	getDownloadsDirectory,
+	verifyDirectoryAccess,
+} from "../utils/systemPaths.ts";
 import type { ProjectContextService } from "../services/projectContext.ts";
 import type { QueryService } from "../services/queries.ts";
 
+// Sent date (latest), count or shot list
+type RollupValue = string | number;
+
 interface ProposedChange {
-	shotName: string;
-	shotId: string;
-	currentVersion: string;
-	newVersion: string;
-	versionId: string;
-	date: string;
+	contextName: string;
+	contextId: string;
 	parentName: string;
-	currentLinkId?: string;
-	dateSent: string | null;
-	dateAttributeConfig?: {
+	/** The latest version link, for the latest aggregation */
+	link?: {
+		currentLinkId?: string;
+		currentVersion: string;
+		newVersion: string;
+		versionId: string;
+	};
+	valueAttributeConfig: {
 		configuration_id: string;
 		key: string;
 		entity_id: string;
 	};
-	reason: "new_version" | "force_update";
-	currentDate: string | null;
-	newDate: string | null;
+	reason: "new_version" | "new_value" | "force_update";
+	currentValue: RollupValue | null;
+	newValue: RollupValue | null;
 }
 
 interface LinkMap {
-	[shotId: string]: {
+	[contextId: string]: {
 		linkId: string;
 		versionId: string;
 	};
 }
 
-interface DateMap {
-	[shotId: string]: string;
+interface ValueMap {
+	[contextId: string]: RollupValue;
+}
+
+interface RollupContext {
+	id: string;
+	name: string;
+	parent?: { name?: string };
+}
+
+const ROLLUP_VALUE_LABELS: Record<RollupAggregation, string> = {
+	latest: "Date",
+	count: "Delivered versions",
+	shots: "Delivered shots",
+};
+
+/**
+ * Non-interactive options used by the headless CLI.
+ * Without `apply` the proposed changes are only previewed.
+ */
+export interface UpdateLatestVersionsOptions {
+	mode: "new" | "force";
+	apply: boolean;
+	/** Saved attribute mapping profile, instead of the project's */
+	mapping?: string;
+	/** Context type to roll up to (default: Shot) */
+	level?: RollupLevel;
+	/** How to roll up the delivered versions (default: latest) */
+	aggregation?: RollupAggregation;
 }
 
 // Helper function to reliably detect interactive TTY environments (works better than Deno.stdin.isTerminal in tests)
@@ -82,19 +153,377 @@ function formatDate(dateString: string | null): string {
 	return new Date(dateString).toISOString().split("T")[0];
 }
 
-function isDateSentAttribute(
-	attr: ContextCustomAttributeValue,
-): attr is ContextCustomAttributeValue & {
-	key: "dateSent";
-	value: string;
-} {
-	return attr?.key === "dateSent";
+// Value of a version's custom attribute
+function getAttributeValue(version: AssetVersion, key: string): unknown {
+	return (
+		(version.custom_attributes as ContextCustomAttributeValue[] | undefined) ??
+		[]
+	).find((attr) => attr?.key === key)?.value;
+}
+
+// Show a rolled-up value, as a date for the latest aggregation
+function formatValue(
+	value: RollupValue | null,
+	aggregation: RollupAggregation,
+): string {
+	if (aggregation === "latest") return formatDate(value as string | null);
+	return value === null || value === "" ? "Not set" : String(value);
+}
+
+/**
+ * Look up the attribute configurations a mapping names, for a rollup
+ * @returns The configuration IDs the tool writes to, and the mapping keys
+ * whose configuration does not exist
+ */
+export async function checkLatestVersionMapping(
+	session: Session,
+	mapping: LatestVersionMapping,
+	rollup: LatestVersionRollup = DEFAULT_ROLLUP,
+): Promise<LatestVersionMappingCheck> {
+	const keys = rollupMappingKeys(rollup.aggregation);
+	const valueKey = ROLLUP_VALUE_KEYS[rollup.aggregation];
+	const check: LatestVersionMappingCheck = { missing: [] };
+
+	if (keys.includes("linkKey")) {
+		const linkResponse = await session.query(`
+      select id, key
+      from CustomAttributeLinkConfiguration
+      where key is "${mapping.linkKey}"
+      and entity_type is "${mapping.linkEntityType}"
+    `);
+		check.linkConfigId = linkResponse.data?.[0]?.id;
+	}
+	const configResponse = await session.query(`
+      select id, key, entity_type
+      from CustomAttributeConfiguration
+      where (
+        key is "${mapping[valueKey]}"
+        and object_type_id in (
+          select id from ObjectType where name is "${ROLLUP_OBJECT_TYPES[rollup.level]}"
+        )
+      ) or (
+        key in ("${mapping.sentDateKey}", "${mapping.deliveredKey}")
+        and entity_type is "assetversion"
+      )
+    `);
+
+	const configs = (configResponse.data ?? []) as Array<{
+		id: string;
+		key: string;
+		entity_type?: string;
+	}>;
+	const findConfig = (key: string, onVersions: boolean) =>
+		configs.find(
+			(config) =>
+				config.key === key &&
+				(config.entity_type === "assetversion") === onVersions,
+		);
+	check.valueConfigId = findConfig(mapping[valueKey], false)?.id;
+
+	for (const key of keys) {
+		const found =
+			key === "linkKey"
+				? check.linkConfigId
+				: key === valueKey
+					? check.valueConfigId
+					: findConfig(mapping[key], true);
+		if (!found) check.missing.push(key);
+	}
+	return check;
+}
+
+/**
+ * Show which attributes a rollup uses, and which of them are missing
+ */
+function printMappingCheck(
+	mapping: LatestVersionMapping,
+	check: LatestVersionMappingCheck,
+	profileName: string | null,
+	rollup: LatestVersionRollup,
+): void {
+	console.log(
+		`\nAttribute mapping: ${profileName ? `profile "${profileName}"` : "default keys"}`,
+	);
+	for (const key of rollupMappingKeys(rollup.aggregation)) {
+		const value =
+			key === "linkKey"
+				? `${mapping.linkKey} (${mapping.linkEntityType})`
+				: mapping[key];
+		console.log(
+			check.missing.includes(key)
+				? chalk.red(`  ❌ ${LATEST_VERSION_MAPPING_LABELS[key]}: ${value} - not found`)
+				: `  ✅ ${LATEST_VERSION_MAPPING_LABELS[key]}: ${value}`,
+		);
+	}
+}
+
+/**
+ * Group delivered versions by the rollup contexts they are under, walking up
+ * from their task's and asset's parents
+ * @param parentIds - Parent of each context; empty for the shot level
+ * @returns Delivered versions by context ID
+ */
+function groupByContext(
+	versions: AssetVersion[],
+	contextIds: Set<string>,
+	parentIds: Map<string, string>,
+): Map<string, AssetVersion[]> {
+	const grouped = new Map<string, AssetVersion[]>();
+	for (const version of versions) {
+		const ancestors = new Set<string>();
+		for (const start of [version.task?.parent?.id, version.asset?.parent?.id]) {
+			let id: string | undefined = start;
+			while (id && !ancestors.has(id)) {
+				ancestors.add(id);
+				id = parentIds.get(id);
+			}
+		}
+		for (const id of ancestors) {
+			if (!contextIds.has(id)) continue;
+			if (!grouped.has(id)) grouped.set(id, []);
+			grouped.get(id)!.push(version);
+		}
+	}
+	return grouped;
+}
+
+// Version label used in the preview, e.g. main_v003
+function versionName(version?: AssetVersion): string | null {
+	if (!version?.asset?.name || !version.version) return null;
+	return `${version.asset.name}_v${version.version.toString().padStart(3, "0")}`;
+}
+
+function hasDifference(
+	change: ProposedChange,
+	aggregation: RollupAggregation,
+): boolean {
+	return (
+		change.link?.currentVersion !== change.link?.newVersion ||
+		formatValue(change.currentValue, aggregation) !==
+			formatValue(change.newValue, aggregation)
+	);
+}
+
+/**
+ * Print a proposed change, highlighting what differs
+ */
+function printChange(
+	change: ProposedChange,
+	aggregation: RollupAggregation,
+): void {
+	console.log(`\n${chalk.bold(change.contextName)} (${change.parentName})`);
+
+	const printDiff = (label: string, from: string, to: string) => {
+		const diff = from !== to;
+		console.log(`${label}:`);
+		console.log(`  From: ${diff ? chalk.red(from) : from}`);
+		console.log(`  To:   ${diff ? chalk.green(to) : to}`);
+	};
+	if (change.link) {
+		printDiff("Version", change.link.currentVersion, change.link.newVersion);
+	}
+	printDiff(
+		ROLLUP_VALUE_LABELS[aggregation],
+		formatValue(change.currentValue, aggregation),
+		formatValue(change.newValue, aggregation),
+	);
+
+	console.log(`Reason: ${chalk.blue(REASON_LABELS[change.reason])}`);
+}
+
+const REASON_LABELS: Record<ProposedChange["reason"], string> = {
+	force_update: "Force update",
+	new_version: "New version available",
+	new_value: "New delivered versions",
+};
+
+function toReviewRow(
+	change: ProposedChange,
+	aggregation: RollupAggregation,
+): ChangeReviewRow {
+	return {
+		id: change.contextId,
+		context: change.contextName,
+		parent: change.parentName,
+		currentVersion: change.link?.currentVersion ?? null,
+		newVersion: change.link?.newVersion ?? null,
+		currentValue: formatValue(change.currentValue, aggregation),
+		newValue: formatValue(change.newValue, aggregation),
+		reason: REASON_LABELS[change.reason],
+	};
+}
+
+/**
+ * Write reviewed changes to a CSV file, each marked approved or rejected
+ */
+export async function writeChangeReviewCsv(
+	filePath: string,
+	rows: ChangeReviewRow[],
+	approvedIds: string[],
+	valueLabel: string,
+): Promise<void> {
+	const approved = new Set(approvedIds);
+	await createObjectCsvWriter({
+		path: filePath,
+		header: [
+			{ id: "decision", title: "Decision" },
+			{ id: "context", title: "Name" },
+			{ id: "parent", title: "Parent" },
+			{ id: "currentVersion", title: "Current Version" },
+			{ id: "newVersion", title: "New Version" },
+			{ id: "currentValue", title: `Current ${valueLabel}` },
+			{ id: "newValue", title: `New ${valueLabel}` },
+			{ id: "reason", title: "Reason" },
+			{ id: "id", title: "ID" },
+		],
+	}).writeRecords(
+		rows.map((row) => ({
+			...row,
+			decision: approved.has(row.id) ? "approved" : "rejected",
+		})),
+	);
+	debug(`Wrote change review to ${filePath}`);
+}
+
+// One-line summary of an applied change
+function describeChange(
+	change: ProposedChange,
+	aggregation: RollupAggregation,
+): string {
+	if (change.link) {
+		return `${change.link.currentVersion} → ${change.link.newVersion} (Date: ${
+			change.newValue || "Not set"
+		})`;
+	}
+	return `${formatValue(change.currentValue, aggregation)} → ${formatValue(
+		change.newValue,
+		aggregation,
+	)}`;
+}
+
+/**
+ * The operations writing a change: the latest version link when there is
+ * one, then the rolled-up value
+ */
+function changeOperations(
+	change: ProposedChange,
+	configId?: string,
+): operation.Operation[] {
+	const operations: operation.Operation[] = [];
+	if (change.link) {
+		if (change.link.currentLinkId) {
+			operations.push({
+				action: "update",
+				entity_type: "CustomAttributeLink",
+				entity_key: [change.link.currentLinkId],
+				entity_data: { to_id: change.link.versionId },
+			});
+		} else {
+			operations.push({
+				action: "create",
+				entity_type: "CustomAttributeLink",
+				entity_data: {
+					configuration_id: configId,
+					from_id: change.contextId,
+					to_id: change.link.versionId,
+					to_entity_type: "AssetVersion",
+				},
+			});
+		}
+	}
+
+	// Update the value if available
+	if (change.newValue !== null) {
+		const { configuration_id, entity_id, key } = change.valueAttributeConfig;
+		operations.push({
+			action: "update",
+			entity_type: "ContextCustomAttributeValue",
+			entity_key: [configuration_id, entity_id],
+			entity_data: { value: change.newValue, key, entity_id, configuration_id },
+		});
+	}
+	return operations;
+}
+
+/**
+ * Write a single change
+ */
+async function applyChange(
+	session: Session,
+	change: ProposedChange,
+	configId?: string,
+): Promise<void> {
+	debug(`Context ID: ${change.contextId}, config ID: ${configId}`);
+	await session.call(changeOperations(change, configId));
+}
+
+/**
+ * Let the user pick the attribute mapping for this run: the project's, a
+ * saved profile, or a new profile
+ */
+async function selectLatestVersionMapping(
+	profiles: Record<string, LatestVersionMappingProfile>,
+	projectName?: string,
+): Promise<string | undefined> {
+	const projectMapping = resolveLatestVersionMapping(
+		profiles,
+		undefined,
+		projectName,
+	);
+	const NEW = "__new__";
+	const PROJECT = "__project__";
+	const choice = await Select.prompt({
+		message: "Select attribute mapping:",
+		options: [
+			{
+				name: projectMapping.name
+					? `Project profile (${projectMapping.name})`
+					: "Default keys",
+				value: PROJECT,
+			},
+			...Object.keys(profiles)
+				.filter((name) => name !== projectMapping.name)
+				.map((name) => ({ name: `Profile "${name}"`, value: name })),
+			{ name: "New mapping profile...", value: NEW },
+		],
+	});
+	if (choice === PROJECT) return projectMapping.name ?? undefined;
+	if (choice !== NEW) return choice;
+
+	const profile: LatestVersionMappingProfile = {};
+	for (const key of Object.keys(projectMapping.mapping) as Array<
+		keyof LatestVersionMapping
+	>) {
+		const value = await Input.prompt({
+			message: `${LATEST_VERSION_MAPPING_LABELS[key]}:`,
+			default: projectMapping.mapping[key],
+		});
+		profile[key] = value.trim() || projectMapping.mapping[key];
+	}
+	const projects = await Input.prompt({
+		message: "Projects using this profile by default (comma-separated):",
+		default: projectName ?? "",
+	});
+	profile.projects = projects
+		.split(",")
+		.map((project) => project.trim())
+		.filter(Boolean);
+	const name = await Input.prompt({
+		message: "Profile name:",
+		validate: (input: string) =>
+			input.trim() ? true : "Profile name is required",
+	});
+	await saveLatestVersionMapping(name.trim(), profile);
+	console.log(`💾 Saved attribute mapping "${name.trim()}"`);
+	return name.trim();
 }
 
 export async function updateLatestVersionsSent(
 	session: Session,
 	projectContextService: ProjectContextService,
 	queryService: QueryService,
+	options?: UpdateLatestVersionsOptions,
+	reviewChanges?: ChangeReviewer,
 ): Promise<void> {
 	try {
 		debug("Starting updateLatestVersionsSent process");
@@ -106,49 +535,79 @@ export async function updateLatestVersionsSent(
 
 		console.log(chalk.blue(`\nUpdating latest versions for: ${contextInfo}\n`));
 
-		let mode: "new" | "force" = "new";
+		let mode: "new" | "force" = options?.mode ?? "new";
+		const rollup: LatestVersionRollup = {
+			level: options?.level ?? DEFAULT_ROLLUP.level,
+			aggregation: options?.aggregation ?? DEFAULT_ROLLUP.aggregation,
+		};
 		// Skip interactive prompt in non-interactive environments (e.g., automated tests)
-		if (isInteractive()) {
+		if (!options && isInteractive()) {
 			mode = (await Select.prompt({
 				message: "Select update mode:",
 				options: [
 					{ name: "Check for new changes only", value: "new" },
-					{ name: "Force update all shots", value: "force" },
+					{ name: "Force update all", value: "force" },
 				],
 				default: "new",
 			})) as "new" | "force";
+			rollup.level = (await Select.prompt({
+				message: "Roll up delivered versions to:",
+				options: ROLLUP_LEVELS.map((level) => ({
+					name: ROLLUP_OBJECT_TYPES[level],
+					value: level,
+				})),
+				default: DEFAULT_ROLLUP.level,
+			})) as RollupLevel;
+			rollup.aggregation = (await Select.prompt({
+				message: "Select aggregation:",
+				options: [
+					{ name: "Latest delivered version and its date", value: "latest" },
+					{ name: "Count of delivered versions", value: "count" },
+					{ name: "List of delivered shots", value: "shots" },
+				],
+				default: DEFAULT_ROLLUP.aggregation,
+			})) as RollupAggregation;
 		}
 
 		const forceUpdate = mode === "force";
+		const { aggregation } = rollup;
+		const levelName = ROLLUP_OBJECT_TYPES[rollup.level].toLowerCase();
 		debug(`Update mode: ${forceUpdate ? "Force update" : "New changes only"}`);
+		debug(`Rollup: ${aggregation} per ${rollup.level}`);
+
+		const profiles = await loadLatestVersionMappings();
+		let mappingName = options?.mapping;
+		if (!options && isInteractive()) {
+			mappingName = await selectLatestVersionMapping(
+				profiles,
+				projectContext.project?.name,
+			);
+		}
+		const { name: profileName, mapping } = resolveLatestVersionMapping(
+			profiles,
+			mappingName,
+			projectContext.project?.name,
+		);
 
 		console.log("Loading configurations... ⏳");
 
-		// Get both custom attribute configurations
-		const configResponse = await session.query(`
-      select id, key
-      from CustomAttributeLinkConfiguration
-      where key is "latestVersionSent"
-      and entity_type is "task"
-    `);
-
-		const dateConfigResponse = await session.query(`
-      select id, key
-      from CustomAttributeConfiguration
-      where key is "latestVersionSentDate"
-      and object_type_id in (select id from ObjectType where name is "Shot")
-    `);
-
-		// ... existing code ...
-		if (!configResponse.data?.length || !dateConfigResponse.data?.length) {
+		// Check the mapped attributes exist before loading anything else
+		const check = await checkLatestVersionMapping(session, mapping, rollup);
+		printMappingCheck(mapping, check, profileName, rollup);
+		if (check.missing.length > 0) {
 			console.log("❌ Failed to load configurations");
-			throw new Error("Could not find necessary configurations");
+			throw new Error(
+				`Could not find necessary configurations: ${check.missing
+					.map((key) => mapping[key])
+					.join(", ")}`,
+			);
 		}
 
-		const configId = configResponse.data[0].id;
-		const dateConfigId = dateConfigResponse.data[0].id;
+		const configId = check.linkConfigId;
+		const valueConfigId = check.valueConfigId!;
+		const valueKey = mapping[ROLLUP_VALUE_KEYS[aggregation]];
 		debug(`Found configuration ID: ${configId}`);
-		debug(`Found date configuration ID: ${dateConfigId}`);
+		debug(`Found value configuration ID: ${valueConfigId}`);
 
 		console.log("\r✅ Configurations loaded");
 		console.log("Loading project data... ⏳");
@@ -163,38 +622,65 @@ export async function updateLatestVersionsSent(
         id, version, asset.name, asset.parent.id,
         date, custom_attributes, is_published, task.parent.id
       from AssetVersion
-      where custom_attributes any (key is "dateSent")
+      where custom_attributes any (key is "${mapping.sentDateKey}")
     `);
 
 		const linksQuery = projectContextService.buildProjectScopedQuery(`
       select id, from_id, to_id
       from CustomAttributeLink
-      where configuration.key is "latestVersionSent"
+      where configuration_id is "${configId}"
     `);
 
-		const datesQuery = projectContextService.buildProjectScopedQuery(`
+		const valuesQuery = projectContextService.buildProjectScopedQuery(`
       select entity_id, value
       from ContextCustomAttributeValue
-      where configuration_id is "${dateConfigId}"
+      where configuration_id is "${valueConfigId}"
     `);
 
 		// Fetch all necessary data in bulk with project scoping
-		const [versionsResponse, linksResponse, datesResponse] = await Promise.all([
-			session.query(versionQuery),
-			session.query(linksQuery),
-			session.query(datesQuery),
-		]);
+		const [versionsResponse, linksResponse, valuesResponse] = await Promise.all(
+			[
+				session.query(versionQuery),
+				configId ? session.query(linksQuery) : { data: [] },
+				session.query(valuesQuery),
+			],
+		);
+
+		// Above the shot level, versions are rolled up through the hierarchy
+		let contexts: RollupContext[] = shots;
+		const parentIds = new Map<string, string>();
+		if (rollup.level !== "Shot") {
+			const [contextsResponse, hierarchyResponse] = await Promise.all([
+				session.query(
+					projectContextService.buildProjectScopedQuery(
+						`select id, name, parent.name from ${rollup.level}`,
+					),
+				),
+				session.query(
+					projectContextService.buildProjectScopedQuery(
+						"select id, parent_id from TypedContext",
+					),
+				),
+			]);
+			contexts = contextsResponse.data as RollupContext[];
+			for (const context of hierarchyResponse.data as Array<{
+				id: string;
+				parent_id?: string;
+			}>) {
+				if (context.parent_id) parentIds.set(context.id, context.parent_id);
+			}
+		}
 
 		console.log("\r✅ Project data loaded");
-		console.log("Processing shots... ⏳\n");
+		console.log(`Processing ${levelName}s... ⏳\n`);
 
 		// Create lookup maps
 		const linkMap: LinkMap = {};
-		// Filter links to only include those for shots in the current project
-		const shotIds = new Set(shots.map((shot) => shot.id));
+		// Filter links to only include those for contexts in the current project
+		const contextIds = new Set(contexts.map((context) => context.id));
 		linksResponse.data.forEach((link) => {
-			// Only include links for shots in the current project
-			if (shotIds.has(link.from_id)) {
+			// Only include links for contexts in the current project
+			if (contextIds.has(link.from_id)) {
 				linkMap[link.from_id] = {
 					linkId: link.id,
 					versionId: link.to_id,
@@ -202,166 +688,180 @@ export async function updateLatestVersionsSent(
 			}
 		});
 
-		const dateMap: DateMap = {};
-		// Filter dates to only include those for shots in the current project
-		datesResponse.data.forEach((date) => {
-			// Only include dates for shots in the current project
-			if (shotIds.has(date.entity_id)) {
-				dateMap[date.entity_id] = date.value;
+		const valueMap: ValueMap = {};
+		// Filter values to only include those for contexts in the current project
+		valuesResponse.data.forEach((value) => {
+			// Only include values for contexts in the current project
+			if (contextIds.has(value.entity_id)) {
+				valueMap[value.entity_id] = value.value;
 			}
 		});
 
-		debug(`Found ${shotsResponse.data.length} shots to process`);
+		// Filter for delivered versions
+		const deliveredVersions = (versionsResponse.data as AssetVersion[]).filter(
+			(version) =>
+				version.is_published &&
+				getAttributeValue(version, mapping.deliveredKey) === true,
+		);
+		const deliveredByContext = groupByContext(
+			deliveredVersions,
+			contextIds,
+			parentIds,
+		);
+		// The shot each delivered version is under, for the shots aggregation
+		const shotNames = new Map(shots.map((shot) => [shot.id, shot.name]));
+		const shotOfVersion = new Map<string, string>();
+		for (const [shotId, versions] of groupByContext(
+			deliveredVersions,
+			new Set(shotNames.keys()),
+			parentIds,
+		)) {
+			for (const version of versions) {
+				shotOfVersion.set(version.id, shotNames.get(shotId)!);
+			}
+		}
+		const shotNamesOf = (versions: AssetVersion[]) =>
+			[
+				...new Set(
+					versions
+						.map((version) => shotOfVersion.get(version.id))
+						.filter((name): name is string => !!name),
+				),
+			].sort((a, b) => a.localeCompare(b));
+
+		debug(`Found ${contexts.length} ${levelName}s to process`);
 
-		// Sort shots alphabetically for consistent processing order
-		shots.sort((a, b) => a.name.localeCompare(b.name));
+		// Sort contexts alphabetically for consistent processing order
+		contexts.sort((a, b) => a.name.localeCompare(b.name));
 
-		// Process each shot
+		// Process each context
 		const proposedChanges: ProposedChange[] = [];
 		const noDeliveredVersions: Array<{ name: string; parent: string }> = [];
-		const totalShots = shots.length;
+		const totalContexts = contexts.length;
 		let processedCount = 0;
 
-		for (const shot of shots) {
+		for (const context of contexts) {
 			processedCount++;
-			const progress = `${processedCount.toString().padStart(3, "0")}/${totalShots
+			const progress = `${processedCount.toString().padStart(3, "0")}/${totalContexts
 				.toString()
 				.padStart(3, "0")}`;
 
-			console.log(`[${progress}] Processing shot: ${shot.name}`);
-			debug(`Processing shot: ${shot.name} (${shot.id})`);
+			console.log(`[${progress}] Processing ${levelName}: ${context.name}`);
+			debug(`Processing ${levelName}: ${context.name} (${context.id})`);
 
 			// Use map lookups
-			const currentLink = linkMap[shot.id];
-			const currentDate = dateMap[shot.id];
-
-			// Get all versions for this shot (through task or asset parent)
-			const shotVersions = (versionsResponse.data as AssetVersion[]).filter(
-				(version) =>
-					version.task?.parent?.id === shot.id ||
-					version.asset?.parent?.id === shot.id,
-			);
-
-			// Filter for delivered versions
-			const deliveredVersions = shotVersions.filter((version) => {
-				if (!version.custom_attributes) return false;
-				const deliveredAttr = (
-					version.custom_attributes as ContextCustomAttributeValue[]
-				).find(isDeliveredAttribute);
-				return version.is_published && deliveredAttr?.value === true;
-			});
+			const currentLink = linkMap[context.id];
+			const currentValue = valueMap[context.id] ?? null;
+			const contextVersions = deliveredByContext.get(context.id) ?? [];
 
 			debug(
-				`Found ${deliveredVersions.length} delivered versions for ${shot.name}`,
+				`Found ${contextVersions.length} delivered versions for ${context.name}`,
 			);
 
-			// Sort by dateSent first, then by version number if dates are equal
-			const sortedVersions = deliveredVersions.sort((a, b) => {
-				const aAttr = (
-					a.custom_attributes as ContextCustomAttributeValue[]
-				).find(isDateSentAttribute);
-				const bAttr = (
-					b.custom_attributes as ContextCustomAttributeValue[]
-				).find(isDateSentAttribute);
-
-				const aDate = aAttr?.value || "";
-				const bDate = bAttr?.value || "";
-
-				// Compare dates first
-				const dateComparison =
-					new Date(bDate).getTime() - new Date(aDate).getTime();
-
-				// If dates are equal, compare version numbers
-				if (dateComparison === 0) {
-					return (b.version || 0) - (a.version || 0);
-				}
+			if (contextVersions.length === 0) {
+				noDeliveredVersions.push({
+					name: context.name,
+					parent: context.parent?.name || "No Parent",
+				});
+				continue;
+			}
 
-				return dateComparison;
-			});
+			const change: ProposedChange = {
+				contextName: context.name,
+				contextId: context.id,
+				parentName: context.parent?.name || "No Parent",
+				valueAttributeConfig: {
+					configuration_id: valueConfigId,
+					key: valueKey,
+					entity_id: context.id,
+				},
+				reason: forceUpdate ? "force_update" : "new_value",
+				currentValue,
+				newValue: null,
+			};
+
+			if (aggregation === "latest") {
+				// Sort by dateSent first, then by version number if dates are equal
+				const sortedVersions = [...contextVersions].sort((a, b) => {
+					const aDate =
+						(getAttributeValue(a, mapping.sentDateKey) as string | undefined) ||
+						"";
+					const bDate =
+						(getAttributeValue(b, mapping.sentDateKey) as string | undefined) ||
+						"";
+
+					// Compare dates first
+					const dateComparison =
+						new Date(bDate).getTime() - new Date(aDate).getTime();
+
+					// If dates are equal, compare version numbers
+					if (dateComparison === 0) {
+						return (b.version || 0) - (a.version || 0);
+					}
 
-			if (sortedVersions.length > 0) {
+					return dateComparison;
+				});
 				const latestVersion = sortedVersions[0];
-
-				// Get the date from the version's custom attributes
-				const dateSentAttr = (
-					latestVersion.custom_attributes as ContextCustomAttributeValue[]
-				).find(isDateSentAttribute);
-				const dateSent = dateSentAttr?.value || null;
-
-				// Get current version details
-				let currentVersionName = "None";
-				if (currentLink) {
-					const currentVersion = deliveredVersions.find(
-						(v) => v.id === currentLink.versionId,
-					);
-					if (currentVersion?.asset?.name && currentVersion.version) {
-						currentVersionName = `${currentVersion.asset.name}_v${currentVersion.version
-							.toString()
-							.padStart(3, "0")}`;
-					}
+				const newVersionName = versionName(latestVersion);
+				if (!newVersionName) continue;
+				if (!forceUpdate && currentLink?.versionId === latestVersion.id) {
+					continue;
 				}
 
-				if (latestVersion.asset?.name && latestVersion.version) {
-					const newVersionName = `${latestVersion.asset.name}_v${latestVersion.version
-						.toString()
-						.padStart(3, "0")}`;
-					if (forceUpdate || currentLink?.versionId !== latestVersion.id) {
-						debug(
-							`${
-								forceUpdate ? "Force updating" : "Found newer version for"
-							} ${shot.name}: ${newVersionName}`,
-						);
-						proposedChanges.push({
-							shotName: shot.name,
-							shotId: shot.id,
-							currentVersion: currentVersionName,
-							newVersion: newVersionName,
-							versionId: latestVersion.id,
-							date: latestVersion.date
-								? formatDate(latestVersion.date)
-								: "No date",
-							parentName: shot.parent?.name || "No Parent",
-							currentLinkId: currentLink?.linkId,
-							dateSent,
-							dateAttributeConfig: {
-								configuration_id: dateConfigId,
-								key: "latestVersionSentDate",
-								entity_id: shot.id,
-							},
-							reason: forceUpdate ? "force_update" : "new_version",
-							currentDate,
-							newDate: dateSent,
-						});
-					}
-				}
+				debug(
+					`${
+						forceUpdate ? "Force updating" : "Found newer version for"
+					} ${context.name}: ${newVersionName}`,
+				);
+				change.link = {
+					currentLinkId: currentLink?.linkId,
+					currentVersion:
+						(currentLink &&
+							versionName(
+								contextVersions.find((v) => v.id === currentLink.versionId),
+							)) ||
+						"None",
+					newVersion: newVersionName,
+					versionId: latestVersion.id,
+				};
+				// Get the date from the version's custom attributes
+				change.newValue =
+					(getAttributeValue(latestVersion, mapping.sentDateKey) as
+						| string
+						| undefined) || null;
+				if (!forceUpdate) change.reason = "new_version";
 			} else {
-				noDeliveredVersions.push({
-					name: shot.name,
-					parent: shot.parent?.name || "No Parent",
-				});
+				change.newValue =
+					aggregation === "count"
+						? contextVersions.length
+						: shotNamesOf(contextVersions).join(", ");
+				if (!forceUpdate && !hasDifference(change, aggregation)) continue;
 			}
+			proposedChanges.push(change);
 		}
 
-		// Sort and log shots with no delivered versions
+		// Sort and log contexts with no delivered versions
 		if (noDeliveredVersions.length > 0) {
 			noDeliveredVersions.sort((a, b) => a.name.localeCompare(b.name));
 
 			// Get unique parents, sort them
 			const uniqueParents = [
-				...new Set(noDeliveredVersions.map((shot) => shot.parent)),
+				...new Set(noDeliveredVersions.map((context) => context.parent)),
 			].sort((a, b) => a.localeCompare(b));
 
 			console.log(
 				`\nNo delivered versions found for the following ${chalk.yellow(
 					noDeliveredVersions.length,
-				)} shots:`,
+				)} ${levelName}s:`,
 			);
 			console.log(`Parents: ${uniqueParents.join(", ")}`);
-			console.log(noDeliveredVersions.map((shot) => shot.name).join(", "));
+			console.log(
+				noDeliveredVersions.map((context) => context.name).join(", "),
+			);
 		}
 
-		// Sort proposed changes by shot name
-		proposedChanges.sort((a, b) => a.shotName.localeCompare(b.shotName));
+		// Sort proposed changes by context name
+		proposedChanges.sort((a, b) => a.contextName.localeCompare(b.contextName));
 
 		// Store all changes if in force mode for potential filtering
 		const changesPool = [...proposedChanges];
@@ -371,50 +871,10 @@ export async function updateLatestVersionsSent(
 		console.log("=================");
 
 		// Show changes summary
-		proposedChanges.forEach((change) => {
-			console.log(`\n${chalk.bold(change.shotName)} (${change.parentName})`);
-
-			// Version diff
-			const versionDiff = change.currentVersion !== change.newVersion;
-			console.log("Version:");
-			console.log(
-				`  From: ${
-					versionDiff ? chalk.red(change.currentVersion) : change.currentVersion
-				}`,
-			);
-			console.log(
-				`  To:   ${
-					versionDiff ? chalk.green(change.newVersion) : change.newVersion
-				}`,
-			);
-
-			// Date diff with formatted dates - compare formatted dates
-			const formattedCurrentDate = formatDate(change.currentDate);
-			const formattedNewDate = formatDate(change.newDate);
-			const dateDiff = formattedCurrentDate !== formattedNewDate;
-			console.log("Date:");
-			console.log(
-				`  From: ${
-					dateDiff ? chalk.red(formattedCurrentDate) : formattedCurrentDate
-				}`,
-			);
-			console.log(
-				`  To:   ${
-					dateDiff ? chalk.green(formattedNewDate) : formattedNewDate
-				}`,
-			);
-
-			console.log(
-				`Reason: ${chalk.blue(
-					change.reason === "force_update"
-						? "Force update"
-						: "New version available",
-				)}`,
-			);
-		});
+		proposedChanges.forEach((change) => printChange(change, aggregation));
 
 		// If in force mode, offer option to switch to only differences
-		if (forceUpdate && proposedChanges.length > 0) {
+		if (!options && forceUpdate && proposedChanges.length > 0) {
 			const switchMode = await Select.prompt({
 				message: "You are in force update mode. How would you like to proceed?",
 				options: [
@@ -424,166 +884,132 @@ export async function updateLatestVersionsSent(
 			});
 
 			if (switchMode === "differences") {
-				// Filter to keep only changes where version or date is different
+				// Filter to keep only changes where the version or value is different
 				proposedChanges.length = 0; // Clear array keeping reference
-				const filteredChanges = changesPool.filter((change) => {
-					const versionDiff = change.currentVersion !== change.newVersion;
-					const dateDiff =
-						formatDate(change.currentDate) !== formatDate(change.newDate);
-					return versionDiff || dateDiff;
-				});
-				proposedChanges.push(...filteredChanges);
+				proposedChanges.push(
+					...changesPool.filter((change) =>
+						hasDifference(change, aggregation),
+					),
+				);
 
 				// Show updated summary
 				console.log("\nUpdated Changes (Differences Only):");
 				console.log("==================================");
-				proposedChanges.forEach((change) => {
-					console.log(
-						`\n${chalk.bold(change.shotName)} (${change.parentName})`,
-					);
-
-					// Version diff
-					const versionDiff = change.currentVersion !== change.newVersion;
-					console.log("Version:");
-					console.log(
-						`  From: ${
-							versionDiff
-								? chalk.red(change.currentVersion)
-								: change.currentVersion
-						}`,
-					);
-					console.log(
-						`  To:   ${
-							versionDiff ? chalk.green(change.newVersion) : change.newVersion
-						}`,
-					);
-
-					// Date diff with formatted dates - compare formatted dates
-					const formattedCurrentDate = formatDate(change.currentDate);
-					const formattedNewDate = formatDate(change.newDate);
-					const dateDiff = formattedCurrentDate !== formattedNewDate;
-					console.log("Date:");
-					console.log(
-						`  From: ${
-							dateDiff ? chalk.red(formattedCurrentDate) : formattedCurrentDate
-						}`,
-					);
-					console.log(
-						`  To:   ${
-							dateDiff ? chalk.green(formattedNewDate) : formattedNewDate
-						}`,
-					);
-
-					console.log(
-						`Reason: ${chalk.blue(
-							change.reason === "force_update"
-								? "Force update"
-								: "New version available",
-						)}`,
-					);
-				});
+				proposedChanges.forEach((change) => printChange(change, aggregation));
 			}
 		}
 
 		// Replace confirm prompt with Cliffy
 		let action = "cancel";
-		if (isInteractive()) {
+		if (options) {
+			action = options.apply ? "all" : "cancel";
+		} else if (isInteractive()) {
 			action = await Select.prompt({
 				message: `How would you like to proceed with these ${proposedChanges.length} changes?`,
 				options: [
 					{ name: "Apply all changes", value: "all" },
 					{ name: "Review one by one", value: "review" },
+					...(reviewChanges
+						? [{ name: "Review in a table", value: "table" }]
+						: []),
 					{ name: "Cancel", value: "cancel" },
 				],
 			});
 		}
 
+		if (action === "table" && reviewChanges) {
+			const rows = proposedChanges.map((change) =>
+				toReviewRow(change, aggregation),
+			);
+			const valueLabel = ROLLUP_VALUE_LABELS[aggregation];
+			const approvedIds = await reviewChanges(rows, {
+				title: `Review ${rows.length} proposed changes`,
+				valueLabel,
+				exportCsv: async (approvedIds) => {
+					const downloadsDir = getDownloadsDirectory();
+					if (!(await verifyDirectoryAccess(downloadsDir))) {
+						throw new Error(
+							`Cannot write to Downloads directory at: ${downloadsDir}`,
+						);
+					}
+					const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
+					const filePath = `${downloadsDir}/update-latest-versions-review-${timestamp}.csv`;
+					await writeChangeReviewCsv(filePath, rows, approvedIds, valueLabel);
+					return filePath;
+				},
+			});
+			if (!approvedIds) {
+				console.log("Update cancelled.");
+				return;
+			}
+
+			const approved = new Set(approvedIds);
+			const approvedChanges = proposedChanges.filter((change) =>
+				approved.has(change.contextId),
+			);
+			console.log(
+				`Approved ${approvedChanges.length} of ${proposedChanges.length} changes.`,
+			);
+			proposedChanges.length = 0;
+			proposedChanges.push(...approvedChanges);
+			action = "all";
+		}
+
 		if (action === "cancel") {
-			console.log("Update cancelled.");
+			console.log(
+				options
+					? "Preview only - pass --apply to write these changes."
+					: "Update cancelled.",
+			);
 			return;
 		}
 
 		if (action === "all") {
 			console.log("Applying updates... ⏳");
 
-			// Perform all updates at once
-			for await (const change of proposedChanges) {
-				try {
-					debug(`Processing update for ${change.shotName}`);
-					debug(`Shot ID: ${change.shotId}`);
-					debug(`Version ID: ${change.versionId}`);
-					debug(`Config ID: ${configId}`);
-
-					if (change.currentLinkId) {
-						debug(`Updating existing link: ${change.currentLinkId}`);
-						await session.update(
-							"CustomAttributeLink",
-							[change.currentLinkId],
-							{
-								to_id: change.versionId,
-							},
-						);
-					} else {
-						debug("Creating new link");
-						const linkData = {
-							configuration_id: configId,
-							from_id: change.shotId,
-							to_id: change.versionId,
-							to_entity_type: "AssetVersion",
-						};
-						debug(`Link data: ${JSON.stringify(linkData, null, 2)}`);
-
-						const operation = {
-							action: "create",
-							entity_type: "CustomAttributeLink",
-							entity_data: linkData,
-						};
-
-						debug("Sending direct operation");
-						await session.call([operation]);
-					}
-
-					// Update date if available
-					if (change.dateSent && change.dateAttributeConfig) {
-						await session.update(
-							"ContextCustomAttributeValue",
-							[
-								change.dateAttributeConfig.configuration_id,
-								change.dateAttributeConfig.entity_id,
-							],
-							{
-								value: change.dateSent,
-								key: change.dateAttributeConfig.key,
-								entity_id: change.dateAttributeConfig.entity_id,
-								configuration_id: change.dateAttributeConfig.configuration_id,
-							},
-						);
-					}
-
+			// Perform all updates in batches
+			const failures = await callInBatches(
+				session,
+				proposedChanges,
+				(change) => changeOperations(change, configId),
+				(change) =>
 					console.log(
-						`Updated ${change.shotName}: ${change.currentVersion} → ${change.newVersion} (Date: ${
-							change.dateSent || "Not set"
-						})`,
-					);
-				} catch (error) {
-					console.error(`Failed to update shot ${change.shotName}:`, error);
+						`Updated ${change.contextName}: ${describeChange(change, aggregation)}`,
+					),
+			);
+			for (const { item: change, error } of failures) {
+				console.error(
+					`Failed to update ${levelName} ${change.contextName}:`,
+					error,
+				);
+			}
+			if (failures.length > 0) {
+				const message = `${failures.length} of ${proposedChanges.length} ${levelName} update(s) failed`;
+				if (options) {
+					throw new Error(message);
 				}
+				console.log(chalk.yellow(`\n⚠️  ${message}`));
+			} else {
+				console.log(
+					`\n✅ All updates completed successfully! Processed ${totalContexts} ${levelName}s, updated ${proposedChanges.length} ${levelName}s.`,
+				);
 			}
-			console.log(
-				`\n✅ All updates completed successfully! Processed ${totalShots} shots, updated ${proposedChanges.length} shots.`,
-			);
 		} else if (action === "review") {
 			// Replace individual prompts with Cliffy
 			for (const change of proposedChanges) {
 				let confirm = "no";
 				if (isInteractive()) {
+					const versionLine = change.link
+						? `\nVersion: ${chalk.red(change.link.currentVersion)} → ${chalk.green(
+								change.link.newVersion,
+							)}`
+						: "";
 					confirm = await Select.prompt({
 						message: `
-Update ${chalk.bold(change.shotName)} (${change.parentName})?
-Version: ${chalk.red(change.currentVersion)} → ${chalk.green(change.newVersion)}
-Date: ${chalk.red(formatDate(change.currentDate))} → ${chalk.green(
-							formatDate(change.newDate),
-						)}
+Update ${chalk.bold(change.contextName)} (${change.parentName})?${versionLine}
+${ROLLUP_VALUE_LABELS[aggregation]}: ${chalk.red(
+							formatValue(change.currentValue, aggregation),
+						)} → ${chalk.green(formatValue(change.newValue, aggregation))}
           `,
 						options: [
 							{ name: "Yes", value: "yes" },
@@ -599,68 +1025,20 @@ Date: ${chalk.red(formatDate(change.currentDate))} → ${chalk.green(
 				}
 
 				if (confirm === "yes") {
-					console.log(`Updating ${change.shotName}... ⏳`);
+					console.log(`Updating ${change.contextName}... ⏳`);
 
 					try {
-						debug(`Processing individual update for ${change.shotName}`);
-						debug(`Shot ID: ${change.shotId}`);
-						debug(`Version ID: ${change.versionId}`);
-						debug(`Config ID: ${configId}`);
-
-						if (change.currentLinkId) {
-							debug(`Updating existing link: ${change.currentLinkId}`);
-							await session.update(
-								"CustomAttributeLink",
-								[change.currentLinkId],
-								{
-									to_id: change.versionId,
-								},
-							);
-						} else {
-							debug("Creating new link");
-							const linkData = {
-								configuration_id: configId,
-								from_id: change.shotId,
-								to_id: change.versionId,
-								to_entity_type: "AssetVersion",
-							};
-							debug(`Link data: ${JSON.stringify(linkData, null, 2)}`);
-
-							const operation = {
-								action: "create",
-								entity_type: "CustomAttributeLink",
-								entity_data: linkData,
-							};
-
-							debug("Sending direct operation");
-							await session.call([operation]);
-						}
-
-						// Update date if available
-						if (change.dateSent && change.dateAttributeConfig) {
-							await session.update(
-								"ContextCustomAttributeValue",
-								[
-									change.dateAttributeConfig.configuration_id,
-									change.dateAttributeConfig.entity_id,
-								],
-								{
-									value: change.dateSent,
-									key: change.dateAttributeConfig.key,
-									entity_id: change.dateAttributeConfig.entity_id,
-									configuration_id: change.dateAttributeConfig.configuration_id,
-								},
-							);
-						}
-
+						debug(`Processing individual update for ${change.contextName}`);
+						await applyChange(session, change, configId);
 						console.log(
-							`\r✅ Updated ${change.shotName}: ${change.currentVersion} → ${change.newVersion} (Date: ${
-								change.dateSent || "Not set"
-							})`,
+							`\r✅ Updated ${change.contextName}: ${describeChange(change, aggregation)}`,
 						);
 					} catch (error) {
-						console.log(`\r❌ Failed to update ${change.shotName}`);
-						console.error(`Failed to update shot ${change.shotName}:`, error);
+						console.log(`\r❌ Failed to update ${change.contextName}`);
+						console.error(
+							`Failed to update ${levelName} ${change.contextName}:`,
+							error,
+						);
 						const continueAfterError = await Confirm.prompt({
 							message: "Continue with remaining updates?",
 							default: true,
@@ -671,12 +1049,12 @@ Date: ${chalk.red(formatDate(change.currentDate))} → ${chalk.green(
 						}
 					}
 				} else {
-					debug(`Skipped update for ${change.shotName}`);
-					console.log(`Skipped ${change.shotName}`);
+					debug(`Skipped update for ${change.contextName}`);
+					console.log(`Skipped ${change.contextName}`);
 				}
 			}
 			console.log(
-				`\n✅ Finished processing all selected updates. Processed ${totalShots} shots total.`,
+				`\n✅ Finished processing all selected updates. Processed ${totalContexts} ${levelName}s total.`,
 			);
 		}
 	} catch (error) {
@@ -0,0 +1,41 @@
+/**
+ * Types for the table review of proposed changes
+ *
+ * Tools that propose a batch of changes can hand them to a review screen,
+ * which the Ink app renders. The screen returns the changes the user
+ * approved.
+ */
+
+// A proposed change as one row of the review table
+export interface ChangeReviewRow {
+	id: string;
+	context: string;
+	/** Parent of the context, e.g. the sequence of a shot; used for filtering */
+	parent: string;
+	/** Version columns; null when the change does not link a version */
+	currentVersion: string | null;
+	newVersion: string | null;
+	currentValue: string;
+	newValue: string;
+	reason: string;
+}
+
+export interface ChangeReviewOptions {
+	title: string;
+	/** Header of the value columns, e.g. "Date" */
+	valueLabel: string;
+	/**
+	 * Write the approved and rejected rows to a CSV file
+	 * @returns The written file path
+	 */
+	exportCsv: (approvedIds: string[]) => Promise<string>;
+}
+
+/**
+ * Shows the review screen
+ * @returns The IDs of the approved rows, or null when the review is cancelled
+ */
+export type ChangeReviewer = (
+	rows: ChangeReviewRow[],
+	options: ChangeReviewOptions,
+) => Promise<string[] | null>;
@@ -0,0 +1,40 @@
+/**
+ * Types for user-defined component classification rules and selection profiles
+ *
+ * Rules map components to a component type when the built-in naming
+ * conventions (ftrackreview-mp4...) do not apply. Profiles are ordered
+ * component type preferences used to pick a component for download, which
+ * components to delete, and the automatic fallback.
+ */
+
+import type { ComponentType } from "./mediaDownload.ts";
+
+/**
+ * Every criterion given must match. Rules are tried in order and the first
+ * match sets the component's type.
+ */
+export interface ComponentClassificationRule {
+	/** Component type assigned when the rule matches */
+	type: ComponentType;
+	/** Component name, case-insensitive; "/pattern/flags" is a regular expression */
+	name?: string;
+	/** File type, with or without the leading dot (e.g. "exr") */
+	fileType?: string;
+	/** Name of a location the component must be in */
+	location?: string;
+	/** Minimum component size in MB */
+	minSizeMB?: number;
+	/** Maximum component size in MB */
+	maxSizeMB?: number;
+}
+
+export interface ComponentSelectionProfile {
+	name: string;
+	/** Component types, most preferred first */
+	types: ComponentType[];
+}
+
+export interface ComponentRulesConfig {
+	rules: ComponentClassificationRule[];
+	profiles: ComponentSelectionProfile[];
+}
@@ -4,11 +4,74 @@
  * Defines modes, reporting structures and result summaries used by the tool
  */
 
-export type DeleteMode = "versions" | "components" | "age" | "filter";
-export type ComponentDeletionChoice = "all" | "original_only" | "encoded_only";
+export type DeleteMode =
+	| "versions"
+	| "components"
+	| "age"
+	| "filter"
+	| "policy"
+	| "approve"
+	| "plan";
+/** "profile:<name>" deletes the component types listed in a saved profile */
+export type ComponentDeletionChoice =
+	| "all"
+	| "original_only"
+	| "encoded_only"
+	| `profile:${string}`;
+
+/**
+ * Non-interactive (headless) deletion options.
+ * Without `execute` only the dry-run preview and CSV export are produced.
+ */
+export interface DeleteMediaOptions {
+	/**
+	 * "policy" deletes what the retention policies in `policyFile` select;
+	 * "approve" approves the deletion plan in `planFile` and "plan" runs it
+	 */
+	mode: "versions" | "components" | "policy" | "approve" | "plan";
+	versionIds?: string[];
+	listId?: string;
+	componentChoice?: ComponentDeletionChoice;
+	/** Only remove the components from these locations (components mode) */
+	locations?: string[];
+	/** Retention policy YAML, in the preferences directory by default */
+	policyFile?: string;
+	/** Only apply these policies of the file */
+	policyNames?: string[];
+	/** Deletion plan of a deletion that needs a second user's approval */
+	planFile?: string;
+	execute?: boolean;
+	reportDir?: string;
+	/** Also write the preview as an HTML report with thumbnails, for sign-off */
+	htmlReport?: boolean;
+	/** Folder for the deletion journal, in the preferences directory by default */
+	journalDir?: string;
+	/** Also delete versions the protection rules would keep */
+	overrideProtection?: boolean;
+}
+
+// Versions a deletion keeps unless protection is overridden
+export interface DeletionProtectionRules {
+	/** Versions flagged with the Delivered or dateSent attributes */
+	delivered?: boolean;
+	/** The version linked as latestVersionSent on its shot */
+	latestDelivered?: boolean;
+	/** The newest version of each asset */
+	latestVersion?: boolean;
+	/** Versions in a review session */
+	reviewSessions?: boolean;
+	/** List names or wildcard patterns; protects versions on them, or whose shot is */
+	lists?: string[];
+}
+
+export interface ProtectedVersion {
+	versionId: string;
+	label: string;
+	reason: string;
+}
 
 export interface DryRunReportItem {
-	operation: "delete_version" | "delete_components";
+	operation: "delete_version" | "delete_components" | "remove_from_location";
 	assetVersionId: string;
 	assetVersionLabel?: string;
 	shotName?: string;
@@ -18,6 +81,9 @@ export interface DryRunReportItem {
 	componentName?: string;
 	componentType?: string;
 	size?: number;
+	/** Frame range of image sequence components, e.g. "1001-1100 (100 frames)" */
+	frameRange?: string;
+	/** Resource identifiers; the location name for remove_from_location */
 	locations?: string[];
 }
 
@@ -26,4 +92,12 @@ export interface DeletionResultSummary {
 	componentsDeleted: number;
 	bytesDeleted: number;
 	failures: Array<{ id: string; reason: string }>; // aggregate failures with context
+	/** Journal of an executed deletion, for restoring it */
+	journalPath?: string;
+	/** Journals of an executed policies plan, one per policy */
+	journalPaths?: string[];
+	/** Protected versions among those requested; skipped unless overridden */
+	protectedVersions?: ProtectedVersion[];
+	/** Bytes freed in each location, when removing from locations only */
+	bytesByLocation?: Record<string, number>;
 }
@@ -0,0 +1,66 @@
+/**
+ * Types for two-person approval of large deletions
+ *
+ * A dry-run above the approval thresholds writes a deletion plan file. A
+ * second user approves the plan with their own ftrack credentials, and only
+ * an approved plan whose preview is unchanged can be executed.
+ */
+
+import type {
+	ComponentDeletionChoice,
+	DeletionProtectionRules,
+} from "./deleteMedia.ts";
+
+// Deletions above either threshold need a second user's approval
+export interface DeletionApprovalThresholds {
+	/** Versions touched by the deletion */
+	maxVersions: number;
+	/** Size of what the deletion frees, in GB */
+	maxSizeGB: number;
+}
+
+// What one retention policy of a policies plan deletes
+export interface DeletionPlanPolicy {
+	name: string;
+	delete: "versions" | "components";
+	/** Components to delete, when deleting components */
+	components?: ComponentDeletionChoice;
+	/** Sorted */
+	versionIds: string[];
+	/** The protections the policy was evaluated with, checked again on delete */
+	protectionRules: DeletionProtectionRules;
+}
+
+// The exact deletion a plan describes
+export interface DeletionPlanRequest {
+	mode: "versions" | "components" | "policies";
+	/** Sorted; every version of the policies, in policies mode */
+	versionIds: string[];
+	/** Components to delete for each version, in components mode */
+	componentChoices?: Record<string, ComponentDeletionChoice>;
+	locations?: string[];
+	/** The retention policies to run in order, in policies mode */
+	policies?: DeletionPlanPolicy[];
+	overrideProtection: boolean;
+}
+
+export interface DeletionPlanApproval {
+	/** ftrack username of the approving user */
+	approvedBy: string;
+	approvedAt: string;
+	/** The approver's note on the first version, holding the plan hash */
+	noteId: string;
+}
+
+export interface DeletionPlan {
+	createdAt: string;
+	/** ftrack username of the user who previewed the deletion */
+	createdBy: string;
+	request: DeletionPlanRequest;
+	/** Totals of the preview, for the approver */
+	versions: number;
+	bytes: number;
+	/** SHA-256 of the request and of every row of its dry-run preview */
+	hash: string;
+	approval?: DeletionPlanApproval;
+}
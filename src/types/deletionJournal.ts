@@ -0,0 +1,96 @@
+/**
+ * Types for the deletion journal
+ *
+ * Every executed deletion records the full payload of what it removes before
+ * removing it, so the metadata can be recreated by the restore tool.
+ */
+
+export interface JournalComponentLocation {
+	location_id: string;
+	location_name?: string;
+	resource_identifier: string;
+}
+
+export interface JournalComponentSnapshot {
+	id: string;
+	name: string;
+	file_type: string;
+	size: number;
+	/** "FileComponent" or "SequenceComponent" */
+	entity_type?: string;
+	padding?: number;
+	locations: JournalComponentLocation[];
+	/** Frames of a SequenceComponent */
+	members?: JournalComponentSnapshot[];
+}
+
+export interface JournalCustomAttributeValue {
+	configuration_id: string;
+	key?: string;
+	value: unknown;
+}
+
+export interface JournalListMembership {
+	list_id: string;
+	list_name?: string;
+}
+
+export interface JournalVersionSnapshot {
+	id: string;
+	/** "<asset> v<version>" for reports */
+	label: string;
+	/** Scalar AssetVersion attributes, as returned by the API */
+	fields: Record<string, unknown>;
+	custom_attributes: JournalCustomAttributeValue[];
+	lists: JournalListMembership[];
+}
+
+export type DeletionJournalStatus =
+	| "pending"
+	| "deleted"
+	| "partial"
+	| "failed"
+	| "restored";
+
+export interface DeletionJournalEntry {
+	operation: "delete_version" | "delete_components" | "remove_from_location";
+	version: JournalVersionSnapshot;
+	/**
+	 * Every component of a deleted version, or only the deleted components;
+	 * with only the removed locations for remove_from_location
+	 */
+	components: JournalComponentSnapshot[];
+	/** "pending" until the deletion returns - left as is when the run crashed */
+	status: DeletionJournalStatus;
+	error?: string;
+	failedComponentIds?: string[];
+	restoredAt?: string;
+}
+
+export interface DeletionJournal {
+	createdAt: string;
+	mode: "versions" | "components" | "locations";
+	entries: DeletionJournalEntry[];
+}
+
+export interface DeletionJournalInfo {
+	path: string;
+	createdAt: string;
+	mode: DeletionJournal["mode"];
+	entries: number;
+	restored: number;
+}
+
+// What was (or, in a dry run, would be) restored for one journal entry
+export interface RestoreResult {
+	label: string;
+	restored: string[];
+	notRestored: string[];
+}
+
+// Non-interactive (headless) restore options
+export interface RestoreDeletionOptions {
+	journalPath: string;
+	/** Recreate the entities (default is a dry run) */
+	apply?: boolean;
+}
@@ -1,2 +1,4 @@
 export * from "./customAttributes.ts";
 export * from "./mediaDownload.ts";
+export * from "./inspect.ts";
+export * from "./componentRules.ts";
@@ -0,0 +1,38 @@
+/**
+ * Types for the inspect tools
+ *
+ * Each inspect function returns one of these records so callers (and the
+ * `--json` output) get the same data that is printed in the text view.
+ */
+
+export interface InspectOptions {
+	/** Print the result as JSON instead of the decorated text view */
+	json?: boolean;
+}
+
+export type InspectRecord = Record<string, unknown>;
+
+export interface VersionInspection {
+	version: InspectRecord;
+	customAttributes: InspectRecord[];
+	notes: InspectRecord[];
+}
+
+export interface ShotInspection {
+	shot: InspectRecord;
+	tasks: InspectRecord[];
+	versions: InspectRecord[];
+}
+
+export interface TaskInspection {
+	task: InspectRecord;
+	timeLogs: InspectRecord[];
+	versions: InspectRecord[];
+}
+
+export interface NoteInspection {
+	note: InspectRecord;
+	attachments: InspectRecord[];
+	componentLocations: InspectRecord[];
+	metadata: InspectRecord[];
+}
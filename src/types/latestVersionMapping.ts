@@ -0,0 +1,57 @@
+/**
+ * Types for latest-version-sent attribute mappings and rollups
+ *
+ * A mapping names the custom attributes the Update Latest Versions tool reads
+ * on versions and writes on the rolled-up contexts. Projects whose attributes
+ * use other keys than the defaults get a saved mapping profile.
+ */
+
+// Context types the delivered versions are rolled up to
+export type RollupLevel = "Shot" | "Sequence" | "Episode" | "AssetBuild";
+
+/**
+ * How the delivered versions under a context are rolled up:
+ * - latest: link to the most recently sent version, and its sent date
+ * - count: number of delivered versions
+ * - shots: names of the shots with delivered versions
+ */
+export type RollupAggregation = "latest" | "count" | "shots";
+
+export interface LatestVersionRollup {
+	level: RollupLevel;
+	aggregation: RollupAggregation;
+}
+
+export interface LatestVersionMapping {
+	/** Link attribute pointing to the latest delivered version */
+	linkKey: string;
+	/** Entity type of the link attribute's configuration */
+	linkEntityType: string;
+	/** Date attribute set to the sent date of the linked version */
+	shotDateKey: string;
+	/** Version attribute holding the date the version was sent */
+	sentDateKey: string;
+	/** Boolean version attribute marking delivered versions */
+	deliveredKey: string;
+	/** Number attribute holding the count of delivered versions */
+	deliveredCountKey: string;
+	/** Text attribute listing the shots with delivered versions */
+	deliveredShotsKey: string;
+}
+
+// A saved mapping. Keys left out keep the defaults.
+export interface LatestVersionMappingProfile
+	extends Partial<LatestVersionMapping> {
+	/** Projects using this profile unless another one is chosen */
+	projects?: string[];
+}
+
+// A mapping checked against the attribute configurations on the server
+export interface LatestVersionMappingCheck {
+	/** Only looked up for the latest aggregation */
+	linkConfigId?: string;
+	/** The attribute the rollup writes: sent date, count or shot list */
+	valueConfigId?: string;
+	/** The mapping keys whose configuration was not found */
+	missing: Array<keyof LatestVersionMapping>;
+}
@@ -0,0 +1,59 @@
+/**
+ * Types for the Mark Versions Delivered tool
+ *
+ * Versions are picked by ID, from a list, or by matching the files of a
+ * delivery folder to the names generateSafeFilename gives their components.
+ */
+
+// A version to stamp, with its current delivery values
+export interface DeliveryVersion {
+	id: string;
+	/** e.g. "SH010 main v002" */
+	label: string;
+	shot: string;
+	projectId: string;
+	status: string | null;
+	delivered: boolean;
+	dateSent: string | null;
+}
+
+// Files of a delivery folder matched to versions
+export interface DeliveryFolderMatch {
+	/** Matched files and sequence folders (relative paths) by version ID */
+	files: Record<string, string[]>;
+	/** Files no version component is named like */
+	unmatched: string[];
+}
+
+export interface MarkDeliveredRequest {
+	versionIds: string[];
+	/** Date sent, as an ISO string */
+	dateSent: string;
+	/** Status to move the versions to */
+	statusId?: string;
+}
+
+export interface MarkDeliveredResult {
+	marked: string[];
+	failures: Array<{ versionId: string; error: string }>;
+}
+
+// Non-interactive (headless) options; one of versionIds, listId or folder
+export interface MarkDeliveredOptions {
+	versionIds?: string[];
+	listId?: string;
+	/** Delivery folder to match against the project's versions */
+	folder?: string;
+	/** Naming template (or saved template name) the folder was written with */
+	namingTemplate?: string;
+	/** Date sent (default: now) */
+	date?: string;
+	/** Name of the status to move the versions to */
+	status?: string;
+	/** Write the values (default is preview only) */
+	apply?: boolean;
+	/** Run the latest version rollup afterwards */
+	rollup?: boolean;
+	/** Attribute mapping profile (default: the project's) */
+	mapping?: string;
+}
@@ -9,6 +9,12 @@ export interface Component {
 	file_type: string;
 	size: number;
 	component_locations: ComponentLocation[];
+	/** Entity type returned by the API, e.g. "FileComponent" or "SequenceComponent" */
+	__entity_type__?: string;
+	/** Frame number padding of a SequenceComponent (0 = unpadded) */
+	padding?: number;
+	/** Frames of a SequenceComponent, each a FileComponent named by its frame number */
+	members?: Component[];
 }
 
 export interface ComponentLocation {
@@ -26,6 +32,7 @@ export interface AssetVersion {
 	version: number;
 	asset: Asset;
 	components: Component[];
+	task?: { id?: string; name: string };
 	status?: { id: string; name: string };
 	user?: { id: string; username: string };
 	date?: string;
@@ -48,6 +55,7 @@ export interface Shot {
 	id: string;
 	name: string;
 	parent?: Sequence;
+	project?: { id?: string; name: string };
 }
 
 export interface Sequence {
@@ -59,9 +67,15 @@ export interface Sequence {
 export interface DownloadTask {
 	component: Component;
 	assetVersion: AssetVersion;
-	url: string;
+	/** HTTP download URL, null when the component is only on a mounted location */
+	url: string | null;
+	/** Path of the component on a mounted storage location, when configured */
+	localPath?: string | null;
 	outputPath: string;
+	/** Relative file path, or the sequence folder for image sequences */
 	filename: string;
+	/** One task per frame when the component is an image sequence */
+	sequenceMembers?: DownloadTask[];
 }
 
 export interface DownloadResult {
@@ -72,16 +86,132 @@ export interface DownloadResult {
 	fileSize?: number;
 }
 
+// Download manifest - written into each download folder
+export interface DownloadManifestEntry {
+	shot: string;
+	asset: string;
+	version: number;
+	versionId: string;
+	componentId: string;
+	componentName: string;
+	componentType: string;
+	size: number;
+	/** Path relative to the folder containing the manifest */
+	path: string;
+	sha256: string;
+}
+
+export interface DownloadManifest {
+	createdAt: string;
+	entries: DownloadManifestEntry[];
+}
+
+// Files handled by a sync (incremental) download, by filename
+export interface SyncSummary {
+	added: string[];
+	updated: string[];
+	skipped: string[];
+}
+
+export interface ManifestVerificationResult {
+	directory: string;
+	verified: DownloadManifestEntry[];
+	missing: DownloadManifestEntry[];
+	corrupted: Array<{ entry: DownloadManifestEntry; reason: string }>;
+}
+
 // Configuration types
 export type MediaPreference = "original" | "encoded";
-export type DownloadMode = "single" | "multiple";
+export type DownloadMode =
+	| "single"
+	| "multiple"
+	| "list"
+	| "review_session"
+	| "verify"
+	| "resume";
 export type ComponentType =
 	| "original"
 	| "encoded-1080p"
 	| "encoded-720p"
 	| "image"
+	| "image-sequence"
 	| "other";
 
+// Transfer tuning for a download run
+export interface DownloadTransferOptions {
+	/** Maximum number of files downloaded at the same time */
+	maxConcurrentDownloads?: number;
+	/** Global bandwidth cap shared by all downloads, in bytes per second (0 = unlimited) */
+	maxBytesPerSecond?: number;
+	/** Retries per file after the first attempt, for 5xx responses, timeouts and network errors */
+	maxRetries?: number;
+	/** Delay before the first retry in ms, doubled for every further retry */
+	retryBaseDelayMs?: number;
+	/** Abort a request when no data arrives for this long, in ms */
+	idleTimeoutMs?: number;
+	/** Lower concurrency when throughput per stream drops, and raise it again when it recovers */
+	adaptiveConcurrency?: boolean;
+}
+
+// How components on a mounted storage location are transferred
+export type LocalTransferMode = "copy" | "hardlink";
+
+// Fetch components from mounted storage instead of over HTTP
+export interface LocalTransferOptions {
+	mode: LocalTransferMode;
+	/** Filesystem prefix for each location name, prepended to the resource identifier */
+	locationPrefixes: Record<string, string>;
+}
+
+// Settings chosen for an interactive download run, kept so it can be resumed
+export interface DownloadRunSettings {
+	downloadPath: string;
+	mediaPreference: MediaPreference;
+	/** Component profile used instead of the media preference's order */
+	profile?: string;
+	namingTemplate: string;
+	transfer: DownloadTransferOptions;
+	local?: LocalTransferOptions;
+	/** Version ids in List or ReviewSession order, for {index} */
+	versionOrder?: string[];
+}
+
+// A version waiting in (or done by) a persisted download queue
+export interface QueuedDownload {
+	shot: Shot;
+	version: AssetVersion;
+	status: "pending" | "completed" | "failed";
+	reason?: string;
+}
+
+// Download queue written to the preferences directory. Download URLs are
+// not stored as they carry credentials - they are resolved again on resume.
+export interface DownloadQueue extends DownloadRunSettings {
+	createdAt: string;
+	items: QueuedDownload[];
+}
+
+// Non-interactive (headless) download options - replaces the prompts when provided
+export interface DownloadMediaOptions {
+	versionId?: string;
+	shotPattern?: string;
+	/** Download every version on this List, in list order */
+	listId?: string;
+	/** Download every version in this ReviewSession, in session order */
+	reviewSessionId?: string;
+	mediaPreference: MediaPreference;
+	/** Component profile used instead of the media preference's order */
+	profile?: string;
+	outputPath?: string;
+	fallback?: "automatic" | "skip";
+	/** Download into outputPath directly, skipping files already there */
+	sync?: boolean;
+	/** Naming template, or the name of a saved one */
+	namingTemplate?: string;
+	transfer?: DownloadTransferOptions;
+	local?: LocalTransferOptions;
+}
+
 // Download progress tracking
 export interface DownloadProgress {
 	taskId: string;
@@ -115,6 +245,20 @@ export class DownloadUrlNotFoundError extends Error {
 	}
 }
 
+export class DownloadHttpError extends Error {
+	constructor(public readonly status: number) {
+		super(`HTTP error! status: ${status}`);
+		this.name = "DownloadHttpError";
+	}
+}
+
+export class DownloadStoppedError extends Error {
+	constructor() {
+		super("Download stopped");
+		this.name = "DownloadStoppedError";
+	}
+}
+
 export class InvalidAssetVersionError extends Error {
 	constructor(assetVersionId: string) {
 		super(`Invalid or non-existent asset version: ${assetVersionId}`);
@@ -0,0 +1,54 @@
+/**
+ * Types for retention policies
+ *
+ * Policies are read from a YAML file and describe which versions (or which of
+ * their components) a scheduled cleanup deletes, and which it must keep.
+ */
+
+import type {
+	ComponentDeletionChoice,
+	DeletionProtectionRules,
+	ProtectedVersion,
+} from "./deleteMedia.ts";
+
+// Versions a policy applies to - every criterion given must match
+export interface RetentionMatch {
+	/** Versions published more than this many days ago */
+	olderThanDays?: number;
+	/** Status names */
+	statuses?: string[];
+	/** Usernames of the publishing users */
+	users?: string[];
+	/** Shot names or wildcard patterns, e.g. "SH0*" */
+	shots?: string[];
+	/** Asset type names */
+	assetTypes?: string[];
+}
+
+// Versions a policy never deletes, even when they match. Rules left out keep
+// the deletion protection defaults, and turning a protection off takes the
+// override phrase.
+export type RetentionProtection = DeletionProtectionRules;
+
+export interface RetentionPolicy {
+	name: string;
+	/** Delete whole versions, or only some of their components */
+	delete: "versions" | "components";
+	/** Components to delete when deleting components (default "all") */
+	components?: ComponentDeletionChoice;
+	match: RetentionMatch;
+	protect?: RetentionProtection;
+}
+
+export interface RetentionPolicyFile {
+	policies: RetentionPolicy[];
+}
+
+// Versions a policy deletes, and the matching versions it keeps
+export interface RetentionEvaluation {
+	policy: RetentionPolicy;
+	versionIds: string[];
+	protectedVersions: ProtectedVersion[];
+	/** The protections the policy was evaluated with, checked again on delete */
+	protectionRules: DeletionProtectionRules;
+}
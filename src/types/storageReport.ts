@@ -0,0 +1,71 @@
+/**
+ * Types for the Storage Report tool
+ */
+
+export type StorageDimension =
+	| "sequence"
+	| "shot"
+	| "asset_type"
+	| "status"
+	| "user"
+	| "age"
+	| "location";
+
+export type StorageSortKey = "size" | "name" | "components" | "versions";
+
+// Component sizes added up for one sequence, shot, user...
+export interface StorageUsageRow {
+	key: string;
+	bytes: number;
+	components: number;
+	versions: number;
+}
+
+// A superseded version worth deleting to free space
+export interface ReclaimableCandidate {
+	versionId: string;
+	label: string;
+	shot: string;
+	status?: string;
+	user?: string;
+	/** Days since the version was published, null when it has no date */
+	ageDays: number | null;
+	bytes: number;
+	/** Newest version number of the same asset */
+	latestVersion: number;
+}
+
+// A superseded version the Delete Media tool would refuse to delete
+export interface ProtectedCandidate extends ReclaimableCandidate {
+	/** Why the version is protected, e.g. "delivered" */
+	reason: string;
+}
+
+export interface StorageReport {
+	createdAt: string;
+	/** Project name, or "all projects" */
+	scope: string;
+	totalBytes: number;
+	totalComponents: number;
+	totalVersions: number;
+	/**
+	 * Rows per dimension, largest first. A component in several locations
+	 * counts towards each of them.
+	 */
+	groups: Record<StorageDimension, StorageUsageRow[]>;
+	/** Largest superseded versions first */
+	candidates: ReclaimableCandidate[];
+	/** Superseded versions left out of the candidates as they are protected */
+	protectedCandidates: ProtectedCandidate[];
+}
+
+// Non-interactive (headless) options - replaces the prompts when provided
+export interface StorageReportOptions {
+	/** Only print this breakdown (default: all of them) */
+	dimension?: StorageDimension;
+	sortBy?: StorageSortKey;
+	/** Rows printed per breakdown and number of candidates (default 20) */
+	top?: number;
+	/** Folder for the CSV and JSON exports (default: Downloads) */
+	outputDir?: string;
+}
@@ -0,0 +1,57 @@
+/**
+ * Batched writes through session.call
+ *
+ * ftrack runs the operations of one call in a single transaction and rejects
+ * the whole call when one of them fails. Items are written in batches, and a
+ * rejected batch is retried item by item so only the failing items are
+ * reported.
+ */
+
+import type { operation, Session } from "@ftrack/api";
+import { debug } from "./debug.ts";
+
+// Items written per session.call
+export const CALL_BATCH_SIZE = 100;
+
+export interface BatchCallFailure<T> {
+	item: T;
+	error: unknown;
+}
+
+/**
+ * Write items in batches
+ * @param toOperations - The operations writing one item
+ * @param onApplied - Called for each item written
+ * @returns The items that could not be written, with their errors
+ */
+export async function callInBatches<T>(
+	session: Session,
+	items: T[],
+	toOperations: (item: T) => operation.Operation[],
+	onApplied: (item: T) => void = () => {},
+	batchSize: number = CALL_BATCH_SIZE,
+): Promise<BatchCallFailure<T>[]> {
+	const failures: BatchCallFailure<T>[] = [];
+
+	for (let i = 0; i < items.length; i += batchSize) {
+		const batch = items.slice(i, i + batchSize);
+		try {
+			await session.call(batch.flatMap(toOperations));
+			batch.forEach(onApplied);
+		} catch (error) {
+			debug(
+				`Batch of ${batch.length} items failed, retrying one by one: ${error}`,
+			);
+			for (const item of batch) {
+				try {
+					await session.call(toOperations(item));
+					onApplied(item);
+				} catch (itemError) {
+					failures.push({ item, error: itemError });
+				}
+			}
+		}
+		debug(`Wrote ${Math.min(i + batchSize, items.length)}/${items.length} items`);
+	}
+	return failures;
+}
@@ -0,0 +1,218 @@
+/**
+ * Component classification rules and selection profiles
+ *
+ * Both are read from component_rules.json in the preferences directory:
+ *
+ * {
+ *   "rules": [
+ *     { "name": "review_h264", "type": "encoded-1080p" },
+ *     { "name": "/^proxy(_|$)/i", "type": "encoded-720p" },
+ *     { "name": "main", "minSizeMB": 50, "type": "original" },
+ *     { "fileType": "exr", "location": "studio.disk", "type": "image-sequence" }
+ *   ],
+ *   "profiles": [
+ *     { "name": "proxies", "types": ["encoded-720p", "encoded-1080p"] }
+ *   ]
+ * }
+ *
+ * Components matching no rule keep the built-in identification. A saved
+ * profile named "original", "encoded" or "fallback" replaces the built-in one.
+ */
+
+import { getPreferencesFilePath } from "./preferences.ts";
+import type {
+	Component,
+	ComponentClassificationRule,
+	ComponentRulesConfig,
+	ComponentType,
+} from "../types/index.ts";
+
+export const COMPONENT_RULES_FILENAME = "component_rules.json";
+
+export const COMPONENT_TYPES: ComponentType[] = [
+	"original",
+	"encoded-1080p",
+	"encoded-720p",
+	"image",
+	"image-sequence",
+	"other",
+];
+
+/** Orders used when no profile with the same name is saved */
+export const BUILTIN_COMPONENT_PROFILES: Record<string, ComponentType[]> = {
+	original: [
+		"original",
+		"image-sequence",
+		"encoded-1080p",
+		"encoded-720p",
+		"image",
+	],
+	encoded: [
+		"encoded-1080p",
+		"encoded-720p",
+		"image",
+		"original",
+		"image-sequence",
+	],
+	fallback: [
+		"encoded-720p",
+		"encoded-1080p",
+		"image",
+		"original",
+		"image-sequence",
+	],
+};
+
+const MB = 1024 * 1024;
+
+/**
+ * Whether a component matches every criterion of a rule
+ * @param component - The component, with component_locations for location rules
+ * @param rule - A rule accepted by validateComponentRules
+ */
+export function matchesComponentRule(
+	component: Component,
+	rule: ComponentClassificationRule,
+): boolean {
+	if (rule.name !== undefined) {
+		const pattern = parseRegExp(rule.name);
+		const matches = pattern
+			? pattern.test(component.name)
+			: component.name.toLowerCase() === rule.name.toLowerCase();
+		if (!matches) return false;
+	}
+
+	if (
+		rule.fileType !== undefined &&
+		normaliseFileType(component.file_type) !== normaliseFileType(rule.fileType)
+	) {
+		return false;
+	}
+
+	if (
+		rule.location !== undefined &&
+		!(component.component_locations ?? []).some(
+			(componentLocation) =>
+				componentLocation.location?.name?.toLowerCase() ===
+				rule.location!.toLowerCase(),
+		)
+	) {
+		return false;
+	}
+
+	const size = component.size || 0;
+	if (rule.minSizeMB !== undefined && size < rule.minSizeMB * MB) {
+		return false;
+	}
+	if (rule.maxSizeMB !== undefined && size > rule.maxSizeMB * MB) {
+		return false;
+	}
+
+	return true;
+}
+
+/**
+ * Check rules and profiles loaded from the rules file
+ * @param config - The parsed file content
+ * @returns An error message, or null when the config is valid
+ */
+export function validateComponentRules(config: unknown): string | null {
+	if (typeof config !== "object" || config === null) {
+		return "Expected an object with rules and profiles";
+	}
+	const { rules = [], profiles = [] } = config as Partial<ComponentRulesConfig>;
+	if (!Array.isArray(rules) || !Array.isArray(profiles)) {
+		return "rules and profiles must be arrays";
+	}
+
+	for (const [index, rule] of rules.entries()) {
+		const label = `Rule ${index + 1}`;
+		if (!COMPONENT_TYPES.includes(rule?.type)) {
+			return `${label}: type must be one of ${COMPONENT_TYPES.join(", ")}`;
+		}
+		const criteria = [
+			rule.name,
+			rule.fileType,
+			rule.location,
+			rule.minSizeMB,
+			rule.maxSizeMB,
+		];
+		if (criteria.every((criterion) => criterion === undefined)) {
+			return `${label}: needs at least one of name, fileType, location, minSizeMB or maxSizeMB`;
+		}
+		if (rule.name !== undefined) {
+			try {
+				parseRegExp(rule.name);
+			} catch (error) {
+				return `${label}: invalid name pattern ${rule.name} (${
+					error instanceof Error ? error.message : error
+				})`;
+			}
+		}
+		for (const key of ["minSizeMB", "maxSizeMB"] as const) {
+			const value = rule[key];
+			if (value !== undefined && (typeof value !== "number" || value < 0)) {
+				return `${label}: ${key} must be a positive number`;
+			}
+		}
+	}
+
+	const names = new Set<string>();
+	for (const profile of profiles) {
+		if (!profile?.name) {
+			return "Every profile needs a name";
+		}
+		if (names.has(profile.name)) {
+			return `Profile "${profile.name}" is defined twice`;
+		}
+		names.add(profile.name);
+		if (!Array.isArray(profile.types) || profile.types.length === 0) {
+			return `Profile "${profile.name}": types must list at least one component type`;
+		}
+		const unknown = profile.types.find(
+			(type) => !COMPONENT_TYPES.includes(type),
+		);
+		if (unknown) {
+			return `Profile "${profile.name}": unknown component type "${unknown}"`;
+		}
+	}
+
+	return null;
+}
+
+/**
+ * Load the rules file
+ * @param path - The rules file, in the preferences directory by default
+ * @returns The rules and profiles, empty when there is no rules file
+ */
+export async function loadComponentRules(
+	path: string = getPreferencesFilePath(COMPONENT_RULES_FILENAME),
+): Promise<ComponentRulesConfig> {
+	let config: Partial<ComponentRulesConfig>;
+	try {
+		config = JSON.parse(await Deno.readTextFile(path));
+	} catch (error) {
+		if (error instanceof Deno.errors.NotFound) {
+			return { rules: [], profiles: [] };
+		}
+		throw new Error(`Cannot read component rules ${path}: ${error}`);
+	}
+
+	const error = validateComponentRules(config);
+	if (error) {
+		throw new Error(`Invalid component rules ${path}: ${error}`);
+	}
+	return { rules: config.rules ?? [], profiles: config.profiles ?? [] };
+}
+
+/**
+ * "/pattern/flags" as a regular expression, null for plain names
+ */
+function parseRegExp(value: string): RegExp | null {
+	const match = value.match(/^\/(.+)\/([a-z]*)$/);
+	return match ? new RegExp(match[1], match[2]) : null;
+}
+
+function normaliseFileType(fileType?: string): string {
+	return (fileType || "").replace(/^\.+/, "").toLowerCase();
+}
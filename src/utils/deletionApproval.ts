@@ -0,0 +1,52 @@
+/**
+ * Thresholds above which a deletion needs a second user's approval
+ *
+ * Set per project with the deletionApprovalMaxVersions and
+ * deletionApprovalMaxSizeGB custom attributes, which the defaults stand in
+ * for. deletion_approval.json in the preferences directory can lower them
+ * for the local user, but not raise them:
+ *
+ * { "maxVersions": 50, "maxSizeGB": 200 }
+ */
+
+import { getPreferencesFilePath } from "./preferences.ts";
+import type { DeletionApprovalThresholds } from "../types/deletionApproval.ts";
+
+export const DELETION_APPROVAL_FILENAME = "deletion_approval.json";
+
+export const APPROVAL_THRESHOLD_KEYS = {
+	maxVersions: "deletionApprovalMaxVersions",
+	maxSizeGB: "deletionApprovalMaxSizeGB",
+} as const;
+
+export const DEFAULT_APPROVAL_THRESHOLDS: DeletionApprovalThresholds = {
+	maxVersions: 100,
+	maxSizeGB: 500,
+};
+
+/**
+ * Load the local user's approval thresholds, only those the file sets
+ */
+export async function loadApprovalThresholds(
+	path: string = getPreferencesFilePath(DELETION_APPROVAL_FILENAME),
+): Promise<Partial<DeletionApprovalThresholds>> {
+	let config: Partial<DeletionApprovalThresholds>;
+	try {
+		config = JSON.parse(await Deno.readTextFile(path));
+	} catch (error) {
+		if (error instanceof Deno.errors.NotFound) {
+			return {};
+		}
+		throw new Error(`Cannot read approval thresholds ${path}: ${error}`);
+	}
+
+	for (const key of ["maxVersions", "maxSizeGB"] as const) {
+		const value = config[key];
+		if (value !== undefined && (typeof value !== "number" || value < 0)) {
+			throw new Error(
+				`Invalid approval thresholds ${path}: ${key} must be a positive number`,
+			);
+		}
+	}
+	return config;
+}
@@ -0,0 +1,53 @@
+/**
+ * Helpers for image sequences: ftrack SequenceComponents whose members are
+ * the individual frames, each a FileComponent named by its frame number
+ */
+
+import type { Component } from "../types/index.ts";
+
+/**
+ * Whether a component is an image sequence
+ * @param component - The component to check
+ */
+export function isSequenceComponent(component: Component): boolean {
+	return (
+		component.__entity_type__ === "SequenceComponent" ||
+		(component.members?.length ?? 0) > 0
+	);
+}
+
+/**
+ * Format frame numbers as compact ranges with a frame count, listing gaps
+ * separately, e.g. "1001-1010, 1012-1100 (99 frames)"
+ * @param frames - Frame numbers in any order
+ * @returns The formatted range
+ */
+export function formatFrameRange(frames: number[]): string {
+	const sorted = [...new Set(frames)].sort((a, b) => a - b);
+	if (sorted.length === 0) {
+		return "no frames";
+	}
+
+	const ranges: string[] = [];
+	let start = sorted[0];
+	for (let i = 1; i <= sorted.length; i++) {
+		if (sorted[i] !== sorted[i - 1] + 1) {
+			const end = sorted[i - 1];
+			ranges.push(start === end ? `${start}` : `${start}-${end}`);
+			start = sorted[i];
+		}
+	}
+
+	const count = `${sorted.length} frame${sorted.length === 1 ? "" : "s"}`;
+	return `${ranges.join(", ")} (${count})`;
+}
+
+/**
+ * Pad a frame number to the sequence padding, keeping the sign of negative frames
+ * @param frame - The frame number
+ * @param padding - Number of digits (0 = unpadded)
+ */
+export function padFrame(frame: number, padding: number): string {
+	const digits = String(Math.abs(frame)).padStart(padding, "0");
+	return frame < 0 ? `-${digits}` : digits;
+}
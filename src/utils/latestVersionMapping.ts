@@ -0,0 +1,118 @@
+/**
+ * Attribute mappings and rollups for the Update Latest Versions tool
+ *
+ * Mapping profiles are saved in the preferences. A run uses the profile
+ * chosen for it, else the profile listing the current project, else the
+ * default keys below.
+ */
+
+import type {
+	LatestVersionMapping,
+	LatestVersionMappingProfile,
+	LatestVersionRollup,
+	RollupAggregation,
+	RollupLevel,
+} from "../types/latestVersionMapping.ts";
+
+export const ROLLUP_LEVELS: RollupLevel[] = [
+	"Shot",
+	"Sequence",
+	"Episode",
+	"AssetBuild",
+];
+
+export const ROLLUP_AGGREGATIONS: RollupAggregation[] = [
+	"latest",
+	"count",
+	"shots",
+];
+
+export const DEFAULT_ROLLUP: LatestVersionRollup = {
+	level: "Shot",
+	aggregation: "latest",
+};
+
+// ftrack object type names, which custom attributes are configured on
+export const ROLLUP_OBJECT_TYPES: Record<RollupLevel, string> = {
+	Shot: "Shot",
+	Sequence: "Sequence",
+	Episode: "Episode",
+	AssetBuild: "Asset Build",
+};
+
+export const DEFAULT_LATEST_VERSION_MAPPING: LatestVersionMapping = {
+	linkKey: "latestVersionSent",
+	linkEntityType: "task",
+	shotDateKey: "latestVersionSentDate",
+	sentDateKey: "dateSent",
+	deliveredKey: "Delivered",
+	deliveredCountKey: "deliveredVersionCount",
+	deliveredShotsKey: "deliveredShots",
+};
+
+export const LATEST_VERSION_MAPPING_LABELS: Record<
+	keyof LatestVersionMapping,
+	string
+> = {
+	linkKey: "Latest version link",
+	linkEntityType: "Link entity type",
+	shotDateKey: "Latest sent date",
+	sentDateKey: "Sent date on versions",
+	deliveredKey: "Delivered flag on versions",
+	deliveredCountKey: "Delivered version count",
+	deliveredShotsKey: "Delivered shots",
+};
+
+// The mapping key of the attribute each aggregation writes on the contexts
+export const ROLLUP_VALUE_KEYS: Record<
+	RollupAggregation,
+	keyof LatestVersionMapping
+> = {
+	latest: "shotDateKey",
+	count: "deliveredCountKey",
+	shots: "deliveredShotsKey",
+};
+
+/**
+ * The mapping keys a rollup reads or writes
+ */
+export function rollupMappingKeys(
+	aggregation: RollupAggregation,
+): Array<keyof LatestVersionMapping> {
+	return [
+		...(aggregation === "latest" ? ["linkKey" as const] : []),
+		ROLLUP_VALUE_KEYS[aggregation],
+		"sentDateKey",
+		"deliveredKey",
+	];
+}
+
+/**
+ * Pick the mapping for a run
+ * @param name - A saved profile to use, instead of the project's
+ * @returns The mapping, and the name of its profile (null for the defaults)
+ */
+export function resolveLatestVersionMapping(
+	profiles: Record<string, LatestVersionMappingProfile>,
+	name?: string,
+	projectName?: string,
+): { name: string | null; mapping: LatestVersionMapping } {
+	if (name && !profiles[name]) {
+		throw new Error(`Unknown attribute mapping profile "${name}"`);
+	}
+	const profileName =
+		name ??
+		Object.keys(profiles).find(
+			(key) => projectName && profiles[key].projects?.includes(projectName),
+		);
+	if (!profileName) {
+		return { name: null, mapping: { ...DEFAULT_LATEST_VERSION_MAPPING } };
+	}
+
+	const mapping = { ...DEFAULT_LATEST_VERSION_MAPPING };
+	for (const key of Object.keys(mapping) as Array<keyof LatestVersionMapping>) {
+		const value = profiles[profileName][key];
+		if (value) mapping[key] = value;
+	}
+	return { name: profileName, mapping };
+}
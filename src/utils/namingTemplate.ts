@@ -0,0 +1,134 @@
+/**
+ * Filename and folder templates for downloaded media
+ *
+ * Templates are made of {token} placeholders and literal text, with "/"
+ * creating sub-folders, e.g. "{sequence}/{shot}/{shot}_{task}_v{version:03}.{ext}".
+ * A format can follow the token name after a colon:
+ * - {version:03} pads the version number with zeros to 3 digits
+ * - {date:YYYYMMDD} formats the version date (moment format, default YYYY-MM-DD)
+ *
+ * {index} is the 1-based position of the version in the List or ReviewSession
+ * it was downloaded from, so files sort in the same order.
+ */
+
+import moment from "moment";
+
+export const NAMING_TEMPLATE_TOKENS = [
+	"project",
+	"sequence",
+	"shot",
+	"asset",
+	"asset_type",
+	"task",
+	"version",
+	"status",
+	"user",
+	"date",
+	"component",
+	"ext",
+	"index",
+] as const;
+
+export type NamingTemplateToken = (typeof NAMING_TEMPLATE_TOKENS)[number];
+
+export type NamingTemplateValues = Partial<
+	Record<NamingTemplateToken, string | number | undefined>
+>;
+
+/** Matches the filenames produced before templates were configurable */
+export const DEFAULT_NAMING_TEMPLATE =
+	"{shot}_{asset}_v{version:03}_{component}.{ext}";
+
+/** Default for List and ReviewSession downloads, keeping their order */
+export const DEFAULT_ORDERED_NAMING_TEMPLATE =
+	`{index:03}_${DEFAULT_NAMING_TEMPLATE}`;
+
+const TOKEN_PATTERN = /\{([^{}:]*)(?::([^{}]*))?\}/g;
+const UNSAFE_CHARACTERS = /[<>:"/\\|?*]/g;
+const FALLBACK_VALUE = "unknown";
+
+/**
+ * Check a template for unknown tokens, invalid formats and unsafe paths
+ * @param template - The template to check
+ * @returns An error message, or null when the template is valid
+ */
+export function validateNamingTemplate(template: string): string | null {
+	if (!template.trim()) {
+		return "Template is empty";
+	}
+	if (template.startsWith("/") || template.endsWith("/")) {
+		return "Template must not start or end with /";
+	}
+	if (template.split("/").some((segment) => !segment || segment === "..")) {
+		return "Template folders must not be empty or ..";
+	}
+
+	for (const [, token, format] of template.matchAll(TOKEN_PATTERN)) {
+		if (!NAMING_TEMPLATE_TOKENS.includes(token as NamingTemplateToken)) {
+			return `Unknown token {${token}}. Available: ${NAMING_TEMPLATE_TOKENS.join(", ")}`;
+		}
+		if (format !== undefined && token !== "date" && !/^0\d+$/.test(format)) {
+			return `Invalid format "${format}" for {${token}} (use e.g. {${token}:03})`;
+		}
+	}
+
+	// Anything left over is an unbalanced brace
+	if (/[{}]/.test(template.replace(TOKEN_PATTERN, ""))) {
+		return "Template has an unmatched { or }";
+	}
+
+	return null;
+}
+
+/**
+ * Render a template into a relative file path. Values are sanitised so they
+ * cannot introduce folders or characters that are invalid in filenames;
+ * missing values are rendered as "unknown".
+ * @param template - A template accepted by validateNamingTemplate
+ * @param values - Values for the tokens
+ * @returns The relative path, using "/" between folders
+ */
+export function renderNamingTemplate(
+	template: string,
+	values: NamingTemplateValues,
+): string {
+	const error = validateNamingTemplate(template);
+	if (error) {
+		throw new Error(`Invalid naming template "${template}": ${error}`);
+	}
+
+	const rendered = template.replace(
+		TOKEN_PATTERN,
+		(_match, token: NamingTemplateToken, format?: string) => {
+			const value = values[token];
+			if (value === undefined || value === null || value === "") {
+				// A missing extension simply leaves it off
+				return token === "ext" ? "" : FALLBACK_VALUE;
+			}
+			return formatValue(token, value, format).replace(UNSAFE_CHARACTERS, "_");
+		},
+	);
+
+	// Drop the dot left behind by an empty {ext}
+	return rendered
+		.split("/")
+		.map((segment) => segment.replace(/\.+$/, "") || FALLBACK_VALUE)
+		.join("/");
+}
+
+function formatValue(
+	token: NamingTemplateToken,
+	value: string | number,
+	format?: string,
+): string {
+	if (token === "date") {
+		const date = moment(value);
+		return date.isValid()
+			? date.format(format || "YYYY-MM-DD")
+			: String(value);
+	}
+	if (format) {
+		return String(value).padStart(Number(format), "0");
+	}
+	return String(value);
+}
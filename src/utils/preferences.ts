@@ -1,28 +1,42 @@
 import { decrypt, encrypt, generateKey } from "./crypto.ts";
+import type { LatestVersionMappingProfile } from "../types/latestVersionMapping.ts";
 
 type Preferences = {
 	FTRACK_SERVER?: string;
 	FTRACK_API_USER?: string;
 	FTRACK_API_KEY?: string;
+	/** Saved download naming templates, JSON encoded as { name: template } */
+	DOWNLOAD_NAMING_TEMPLATES?: string;
+	/** Mount prefixes of storage locations, JSON encoded as { locationName: prefix } */
+	DOWNLOAD_LOCATION_PREFIXES?: string;
+	/** Latest version sent attribute mappings, JSON encoded as { name: profile } */
+	LATEST_VERSION_MAPPINGS?: string;
 };
 
-function getPreferencesPath(): string {
+/**
+ * Path of a file in the app's preferences directory
+ */
+export function getPreferencesFilePath(filename: string): string {
 	const appName = "astra-ftrack-tools";
 
 	switch (Deno.build.os) {
 		case "windows":
-			return `${Deno.env.get("APPDATA")}\\${appName}\\preferences.json`;
+			return `${Deno.env.get("APPDATA")}\\${appName}\\${filename}`;
 		case "darwin":
 			return `${Deno.env.get(
 				"HOME",
-			)}/Library/Application Support/${appName}/preferences.json`;
+			)}/Library/Application Support/${appName}/${filename}`;
 		case "linux":
-			return `${Deno.env.get("HOME")}/.config/${appName}/preferences.json`;
+			return `${Deno.env.get("HOME")}/.config/${appName}/${filename}`;
 		default:
 			throw new Error("Unsupported operating system");
 	}
 }
 
+function getPreferencesPath(): string {
+	return getPreferencesFilePath("preferences.json");
+}
+
 async function ensurePreferencesDir(): Promise<void> {
 	const prefsPath = getPreferencesPath();
 	const prefsDir = prefsPath.slice(
@@ -39,12 +53,16 @@ async function ensurePreferencesDir(): Promise<void> {
 	}
 }
 
+/**
+ * Saves preferences. Keys that are not given keep their stored value.
+ */
 export async function savePreferences(prefs: Preferences): Promise<void> {
 	await ensurePreferencesDir();
 	const key = await generateKey(Deno.hostname());
+	const merged = { ...(await loadPreferences()), ...prefs };
 
 	const entries = await Promise.all(
-		Object.entries(prefs).map(async ([k, v]) => {
+		Object.entries(merged).map(async ([k, v]) => {
 			const encrypted = v ? await encrypt(v, key) : null;
 			return [k, encrypted] as [string, string | null];
 		}),
@@ -79,3 +97,102 @@ export async function loadPreferences(): Promise<Preferences> {
 		throw error;
 	}
 }
+
+/**
+ * Loads the saved download naming templates by name
+ */
+export async function loadNamingTemplates(): Promise<Record<string, string>> {
+	const prefs = await loadPreferences();
+	if (!prefs.DOWNLOAD_NAMING_TEMPLATES) {
+		return {};
+	}
+	try {
+		return JSON.parse(prefs.DOWNLOAD_NAMING_TEMPLATES) as Record<
+			string,
+			string
+		>;
+	} catch {
+		return {};
+	}
+}
+
+/**
+ * Saves a download naming template under a name, replacing any with the same name
+ */
+export async function saveNamingTemplate(
+	name: string,
+	template: string,
+): Promise<void> {
+	const templates = await loadNamingTemplates();
+	templates[name] = template;
+	await savePreferences({
+		DOWNLOAD_NAMING_TEMPLATES: JSON.stringify(templates),
+	});
+}
+
+/**
+ * Loads the saved filesystem prefixes of storage locations by location name
+ */
+export async function loadLocationPrefixes(): Promise<Record<string, string>> {
+	const prefs = await loadPreferences();
+	if (!prefs.DOWNLOAD_LOCATION_PREFIXES) {
+		return {};
+	}
+	try {
+		return JSON.parse(prefs.DOWNLOAD_LOCATION_PREFIXES) as Record<
+			string,
+			string
+		>;
+	} catch {
+		return {};
+	}
+}
+
+/**
+ * Saves the filesystem prefix where a storage location is mounted
+ */
+export async function saveLocationPrefix(
+	locationName: string,
+	prefix: string,
+): Promise<void> {
+	const prefixes = await loadLocationPrefixes();
+	prefixes[locationName] = prefix;
+	await savePreferences({
+		DOWNLOAD_LOCATION_PREFIXES: JSON.stringify(prefixes),
+	});
+}
+
+/**
+ * Loads the saved latest version sent attribute mappings by name
+ */
+export async function loadLatestVersionMappings(): Promise<
+	Record<string, LatestVersionMappingProfile>
+> {
+	const prefs = await loadPreferences();
+	if (!prefs.LATEST_VERSION_MAPPINGS) {
+		return {};
+	}
+	try {
+		return JSON.parse(prefs.LATEST_VERSION_MAPPINGS) as Record<
+			string,
+			LatestVersionMappingProfile
+		>;
+	} catch {
+		return {};
+	}
+}
+
+/**
+ * Saves a latest version sent attribute mapping under a name, replacing any
+ * with the same name
+ */
+export async function saveLatestVersionMapping(
+	name: string,
+	profile: LatestVersionMappingProfile,
+): Promise<void> {
+	const mappings = await loadLatestVersionMappings();
+	mappings[name] = profile;
+	await savePreferences({
+		LATEST_VERSION_MAPPINGS: JSON.stringify(mappings),
+	});
+}
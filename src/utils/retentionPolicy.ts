@@ -0,0 +1,147 @@
+/**
+ * Retention policy files for scheduled media cleanup
+ *
+ * Policies are read from YAML, by default retention_policies.yaml in the
+ * preferences directory:
+ *
+ * policies:
+ *   - name: omitted-encoded
+ *     delete: components
+ *     components: encoded_only
+ *     match:
+ *       olderThanDays: 90
+ *       statuses: [Omitted]
+ *     protect:
+ *       latestDelivered: true
+ *       lists: ["Client*"]
+ *
+ * `delete` is "versions" or "components"; `components` takes the same
+ * choices as the Delete Media tool, including "profile:<name>". `protect`
+ * rules left out keep the deletion protection defaults.
+ */
+
+import yaml from "js-yaml";
+import { getPreferencesFilePath } from "./preferences.ts";
+import type {
+	RetentionMatch,
+	RetentionPolicy,
+	RetentionPolicyFile,
+	RetentionProtection,
+} from "../types/retentionPolicy.ts";
+
+export const RETENTION_POLICIES_FILENAME = "retention_policies.yaml";
+
+const COMPONENT_CHOICES = ["all", "original_only", "encoded_only"];
+const MATCH_LISTS: Array<keyof RetentionMatch> = [
+	"statuses",
+	"users",
+	"shots",
+	"assetTypes",
+];
+const PROTECTION_FLAGS: Array<keyof RetentionProtection> = [
+	"delivered",
+	"latestDelivered",
+	"latestVersion",
+	"reviewSessions",
+];
+
+/**
+ * Check the policies read from a policy file
+ * @param config - The parsed file content
+ * @returns An error message, or null when the policies are valid
+ */
+export function validateRetentionPolicies(config: unknown): string | null {
+	const policies = (config as Partial<RetentionPolicyFile> | null)?.policies;
+	if (!Array.isArray(policies) || policies.length === 0) {
+		return "Expected a policies list with at least one policy";
+	}
+
+	const names = new Set<string>();
+	for (const [index, policy] of policies.entries()) {
+		if (!policy?.name) {
+			return `Policy ${index + 1}: needs a name`;
+		}
+		const label = `Policy "${policy.name}"`;
+		if (names.has(policy.name)) {
+			return `${label} is defined twice`;
+		}
+		names.add(policy.name);
+
+		if (policy.delete !== "versions" && policy.delete !== "components") {
+			return `${label}: delete must be "versions" or "components"`;
+		}
+		if (
+			policy.components !== undefined &&
+			!COMPONENT_CHOICES.includes(policy.components) &&
+			!/^profile:.+/.test(policy.components)
+		) {
+			return `${label}: components must be one of ${COMPONENT_CHOICES.join(", ")} or profile:<name>`;
+		}
+
+		const match = policy.match as RetentionMatch | undefined;
+		if (typeof match !== "object" || match === null) {
+			return `${label}: needs a match section`;
+		}
+		const { olderThanDays } = match;
+		if (
+			olderThanDays !== undefined &&
+			(typeof olderThanDays !== "number" || olderThanDays < 0)
+		) {
+			return `${label}: olderThanDays must be a positive number`;
+		}
+		for (const key of MATCH_LISTS) {
+			const value = match[key];
+			if (
+				value !== undefined &&
+				(!Array.isArray(value) || value.some((item) => typeof item !== "string"))
+			) {
+				return `${label}: match.${key} must be a list of names`;
+			}
+		}
+		if (
+			olderThanDays === undefined &&
+			MATCH_LISTS.every((key) => !(match[key] as string[] | undefined)?.length)
+		) {
+			// A policy matching every version is almost certainly a mistake
+			return `${label}: match needs at least one of olderThanDays, ${MATCH_LISTS.join(", ")}`;
+		}
+
+		for (const key of PROTECTION_FLAGS) {
+			const value = policy.protect?.[key];
+			if (value !== undefined && typeof value !== "boolean") {
+				return `${label}: protect.${key} must be true or false`;
+			}
+		}
+		const lists = policy.protect?.lists;
+		if (
+			lists !== undefined &&
+			(!Array.isArray(lists) || lists.some((item) => typeof item !== "string"))
+		) {
+			return `${label}: protect.lists must be a list of names`;
+		}
+	}
+
+	return null;
+}
+
+/**
+ * Load and validate a policy file
+ * @param path - The YAML file, in the preferences directory by default
+ * @returns The policies, in file order
+ */
+export async function loadRetentionPolicies(
+	path: string = getPreferencesFilePath(RETENTION_POLICIES_FILENAME),
+): Promise<RetentionPolicy[]> {
+	let config: unknown;
+	try {
+		config = yaml.load(await Deno.readTextFile(path));
+	} catch (error) {
+		throw new Error(`Cannot read retention policies ${path}: ${error}`);
+	}
+
+	const error = validateRetentionPolicies(config);
+	if (error) {
+		throw new Error(`Invalid retention policies ${path}: ${error}`);
+	}
+	return (config as RetentionPolicyFile).policies;
+}